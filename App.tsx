@@ -1,19 +1,29 @@
 
-import React, { useState, useEffect, Suspense, lazy, ReactNode, ErrorInfo } from 'react';
-import { AppStep, Project, User } from './types';
-import { storageService } from './services/storageService';
+import React, { useState, useEffect, useRef, Suspense, lazy, ReactNode, ErrorInfo } from 'react';
+import { AppStep, Project, ProjectData, ProjectTemplate, User, AIJob, Client } from './types';
+import { storageService, ProjectConflictError } from './services/storageService';
 import { authService } from './services/authService';
 import { notify } from './services/notificationService';
+import { setAIProjectContext } from './services/geminiService';
+import { jobService } from './services/jobService';
+import { quotaService } from './services/quotaService';
 import { StepSetup } from './components/StepSetup';
 import { Dashboard } from './components/Dashboard';
 import { Auth } from './components/Auth';
 import { LandingPage } from './components/LandingPage';
 import { SupportModal } from './components/SupportModal';
 import { permissionService, SubscriptionTier } from './services/permissionService';
-import { Layers, Target, Users, Magnet, UserPlus, Zap, LayoutTemplate, FileText, LogOut, Shield, Crown, Star, Megaphone, Lock, BookOpen, Clock, CheckSquare, Mail, Settings, HelpCircle, Save, WifiOff, Search, ArrowRight, Activity, Database } from 'lucide-react';
+import { Layers, Target, Users, Magnet, UserPlus, Zap, LayoutTemplate, FileText, LogOut, Shield, Crown, Star, Megaphone, Lock, BookOpen, Clock, CheckSquare, Mail, Settings, HelpCircle, Save, WifiOff, Search, ArrowRight, Activity, Database, Rocket, History } from 'lucide-react';
 import { Logo } from './components/Logo';
 import { ToastContainer } from './components/Toast';
 import { Spinner } from './components/Shared';
+import { GenerationTray } from './components/GenerationTray';
+import { AutopilotModal } from './components/AutopilotModal';
+import { UpgradePrompt } from './components/UpgradePrompt';
+import { buildProjectPatch } from './utils/projectPatch';
+import { fieldLabel } from './utils/projectDiff';
+import { ProjectConflictDialog, ProjectConflict, ConflictChoice } from './components/ProjectConflictDialog';
+import { RevisionHistory } from './components/RevisionHistory';
 
 const StepNiche = lazy(() => import('./components/StepNiche').then(module => ({ default: module.StepNiche })));
 const StepPersona = lazy(() => import('./components/StepPersona').then(module => ({ default: module.StepPersona })));
@@ -104,6 +114,15 @@ const App: React.FC = () => {
   
   const [currentProject, setCurrentProject] = useState<Project | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [conflict, setConflict] = useState<ProjectConflict | null>(null);
+  // Saves run one at a time so each carries the version the previous one returned
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
+  // Per project, the version and data this tab last saw on the server; patches are diffed against it
+  const savedProjects = useRef<Record<string, { version?: number; data: ProjectData }>>({});
+  const [projectClient, setProjectClient] = useState<Client | null>(null);
+  const [isAutopilotOpen, setIsAutopilotOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [pricingFocus, setPricingFocus] = useState<'topup' | null>(null);
   
   // New Project Setup State
   const [draftName, setDraftName] = useState('');
@@ -112,6 +131,7 @@ const App: React.FC = () => {
   const [draftClientId, setDraftClientId] = useState('');
   const [draftUrl, setDraftUrl] = useState('');
   const [draftPrice, setDraftPrice] = useState(0);
+  const [draftTemplate, setDraftTemplate] = useState<ProjectTemplate | null>(null);
 
   useEffect(() => {
     const handleOnline = () => { setIsOffline(false); notify.success("Back online"); };
@@ -125,6 +145,20 @@ const App: React.FC = () => {
     const params = new URLSearchParams(window.location.search);
     if (params.get('payment') === 'success') {
       const plan = params.get('plan') as any;
+      // Top-ups add tokens for the period; the subscription itself is unchanged. Paystack appends
+      // the transaction reference, which the server verifies before crediting anything.
+      if (plan === 'TopUp') {
+        const reference = params.get('reference') || params.get('trxref');
+        window.history.replaceState({}, document.title, window.location.pathname);
+        if (!reference) {
+          notify.error("We couldn't confirm your top-up. Contact support if you were charged.");
+          return;
+        }
+        quotaService.verifyTopUp(reference)
+          .then(({ credited, tokens }) => notify.success(credited ? `Top-up confirmed. ${tokens.toLocaleString()} extra tokens are ready.` : "This top-up is already on your account."))
+          .catch((e) => notify.error(e.message || "We couldn't confirm your top-up."));
+        return;
+      }
       const updatedUser = authService.updateSubscription(plan || 'pro');
       if (updatedUser) {
         setUser(updatedUser);
@@ -159,6 +193,35 @@ const App: React.FC = () => {
     if (user && currentStep === AppStep.ADMIN && user.role !== 'admin') setCurrentStep(AppStep.DASHBOARD);
   }, [currentStep, user]);
 
+  // AI calls are attributed to the open project in the usage ledger
+  useEffect(() => {
+    setAIProjectContext(currentProject?.id || null);
+  }, [currentProject?.id]);
+
+  // Projects without their own brand voice write in their client's (refreshed when setup is revisited)
+  useEffect(() => {
+    const clientId = currentProject?.clientId;
+    if (!clientId) { setProjectClient(null); return; }
+    storageService.getClients()
+      .then(clients => setProjectClient(clients.find(c => c.id === clientId) || null))
+      .catch(() => setProjectClient(null));
+  }, [currentProject?.clientId, currentStep === AppStep.SETUP]);
+
+  // Pre-flight quota: cost hints on generate buttons and the out-of-tokens prompt
+  useEffect(() => {
+    if (user) quotaService.refresh().catch(() => undefined);
+    else quotaService.clear();
+  }, [user?.id, user?.subscription]);
+
+  useEffect(() => {
+    if (currentStep !== AppStep.PRICING) setPricingFocus(null);
+  }, [currentStep]);
+
+  const openPricing = (focus: 'topup' | null = null) => {
+    setPricingFocus(focus);
+    setCurrentStep(AppStep.PRICING);
+  };
+
   const handleLogout = () => {
     authService.logout();
     setUser(null);
@@ -194,27 +257,107 @@ const App: React.FC = () => {
     salesColdDms: []
   };
 
+  const brandVoice = data.brandVoice || projectClient?.brandVoice || null;
+
+  const rememberSaved = (project: Project) => {
+    savedProjects.current[project.id] = { version: project.version || 0, data: project.data };
+  };
+
+  // A rejected save waits in the conflict dialog; saves rejected while it is open join it
+  const handleSaveConflict = (e: ProjectConflictError, updates: Partial<ProjectData>, base: ProjectData) => {
+    if (e.conflicts.length === 0) {
+      notify.error(e.message);
+      return;
+    }
+    setConflict(prev => ({
+      base: prev?.base || base,
+      local: { ...prev?.local, ...updates },
+      remote: e.remote,
+      conflicts: [...new Set([...(prev?.conflicts || []), ...e.conflicts])]
+    }));
+  };
+
   // Optimized Updater: Handles rapid updates without race conditions on the UI spinner
-  const updateProject = async (updates: Partial<typeof data>) => {
-    if (!currentProject) return;
-    setIsSaving(true);
+  const updateProject = (updates: Partial<typeof data>): Promise<void> => {
+    if (!currentProject) return Promise.resolve();
+    const projectId = currentProject.id;
+    const fallback = { data: currentProject.data };
+    const save = async () => {
+      const saved = savedProjects.current[projectId] || fallback;
+      // Only what changed is sent: single items for id-keyed lists, whole sections otherwise
+      const ops = buildProjectPatch(saved.data, updates);
+      if (ops.length === 0) return;
+      setIsSaving(true);
+      try {
+          const result = await storageService.patch(projectId, ops, saved.version);
+          // The server's copy of each touched section includes teammates' concurrent item edits
+          const merged = { ...updates, ...result.data };
+          savedProjects.current[projectId] = { version: result.version, data: { ...saved.data, ...merged } };
+          // Functional state update to ensure we don't overwrite concurrent changes in local state
+          setCurrentProject(prev => prev?.id === projectId ? { ...prev, version: result.version, data: { ...prev.data, ...merged } } : prev);
+      } catch (e) {
+          if (e instanceof ProjectConflictError) handleSaveConflict(e, updates, saved.data);
+          else {
+            console.error("Save failed", e);
+            notify.error("Failed to save changes");
+          }
+      } finally {
+          setIsSaving(false);
+      }
+    };
+    saveQueue.current = saveQueue.current.then(save);
+    return saveQueue.current;
+  };
+
+  // Their version becomes the base; sections the user chose to keep are saved on top of it
+  const resolveConflict = (choices: Partial<Record<keyof ProjectData, ConflictChoice>>) => {
+    if (!conflict || !currentProject) return;
+    const { local, remote, conflicts } = conflict;
+    const keep = Object.fromEntries(
+      Object.entries(local).filter(([key]) => !conflicts.includes(key as keyof ProjectData) || choices[key as keyof ProjectData] === 'mine')
+    ) as Partial<ProjectData>;
+    savedProjects.current[currentProject.id] = { version: remote.version || 0, data: remote.data };
+    setCurrentProject(prev => prev ? { ...prev, version: remote.version, data: { ...remote.data } } : null);
+    setConflict(null);
+    if (Object.keys(keep).length > 0) updateProject(keep);
+  };
+
+  // Queued like any save; the restored project replaces local state wholesale
+  const handleRestoreRevision = (version: number, section?: keyof ProjectData): Promise<void> => {
+    if (!currentProject) return Promise.resolve();
+    const projectId = currentProject.id;
+    const restore = async () => {
+      try {
+        const project = await storageService.restoreRevision(projectId, version, section, savedProjects.current[projectId]?.version);
+        rememberSaved(project);
+        setCurrentProject(prev => prev?.id === projectId ? { ...prev, version: project.version, data: project.data } : prev);
+        notify.success(section ? `Restored ${fieldLabel(section)} from v${version}` : `Restored project to v${version}`);
+      } catch (e: any) {
+        if (e instanceof ProjectConflictError) notify.error("The project changed since you opened the history. Try again.");
+        else notify.error(e.message || "Failed to restore");
+      }
+    };
+    saveQueue.current = saveQueue.current.then(restore);
+    return saveQueue.current;
+  };
+
+  // Results of background jobs that finished while nobody was waiting (e.g. after a reload)
+  const handleApplyJob = async (job: AIJob) => {
+    if (!job.target) return;
     try {
-        const updated = await storageService.update(currentProject.id, updates);
-        if (updated) {
-            // Functional state update to ensure we don't overwrite concurrent changes in local state
-            setCurrentProject(prev => prev ? { ...prev, data: { ...prev.data, ...updates } } : null);
-        }
+      const { result } = await jobService.get(job.id);
+      await updateProject({ [job.target]: result });
+      await jobService.markApplied(job.id);
+      notify.success(`${job.label} applied to project`);
     } catch (e) {
-        console.error("Save failed", e);
-        notify.error("Failed to save changes");
-    } finally {
-        setIsSaving(false);
+      notify.error("Failed to apply generation");
     }
   };
 
-  const handleCreateProject = () => {
+  const handleCreateProject = (template?: ProjectTemplate) => {
     setCurrentStep(AppStep.SETUP);
     setCurrentProject(null);
+    setDraftTemplate(template || null);
     setDraftName('');
     setDraftDesc('');
     setDraftClient('');
@@ -224,6 +367,9 @@ const App: React.FC = () => {
   };
 
   const handleSelectProject = (project: Project) => {
+    rememberSaved(project);
+    setConflict(null);
+    setIsHistoryOpen(false);
     setCurrentProject(project);
     setDraftName(project.data.productName);
     setDraftDesc(project.data.productDescription);
@@ -241,13 +387,15 @@ const App: React.FC = () => {
   const handleSetupComplete = async (name: string, desc: string, url: string, price: number) => {
     if (!currentProject) {
       try {
-        let project = await storageService.create(name, desc, draftClient, draftClientId);
+        let project = await storageService.create(name, desc, draftClient, draftClientId, draftTemplate?.id);
         if (project) {
-             const updated = await storageService.update(project.id, { productUrl: url, productPrice: price });
+             const updated = await storageService.update(project.id, { productUrl: url, productPrice: price }, undefined, undefined, project.version || 0);
              if (updated) project = updated;
         }
+        rememberSaved(project);
         setCurrentProject(project);
-        notify.success("Project Created");
+        setDraftTemplate(null);
+        notify.success(draftTemplate ? `Project created from "${draftTemplate.name}"` : "Project Created");
       } catch (e: any) {
         notify.error(e.message || "Failed to create project.");
         return;
@@ -255,7 +403,12 @@ const App: React.FC = () => {
     } else {
       await updateProject({ productName: name, productDescription: desc, productUrl: url, productPrice: price });
       if (draftClient || draftClientId) {
-        await storageService.update(currentProject.id, {}, draftClient, draftClientId);
+        // Queued behind the data save above so it does not race it for the version
+        await (saveQueue.current = saveQueue.current.then(async () => {
+          const saved = savedProjects.current[currentProject.id];
+          const updated = await storageService.update(currentProject.id, {}, draftClient, draftClientId, saved?.version);
+          if (saved) saved.version = updated.version || 0;
+        }).catch(() => notify.error("Failed to save client")));
       }
       notify.success("Project Updated");
     }
@@ -402,6 +555,17 @@ const App: React.FC = () => {
               {isOffline && <div className="flex items-center gap-2 text-xs font-bold text-amber-400 bg-amber-500/10 px-2 py-1 rounded border border-amber-500/20"><WifiOff size={12} /> OFFLINE</div>}
            </div>
            <div className="flex items-center gap-4">
+              {currentProject && (
+                <button onClick={() => setIsHistoryOpen(true)} className="text-xs font-bold px-3 py-1.5 rounded-full border border-slate-700 bg-slate-800 text-slate-300 hover:bg-slate-700 transition-all flex items-center gap-2" title="Browse and restore earlier versions">
+                  <History size={12} /> HISTORY
+                </button>
+              )}
+              {currentProject && (
+                <button onClick={() => setIsAutopilotOpen(true)} className="text-xs font-bold px-3 py-1.5 rounded-full border border-indigo-500/30 bg-indigo-500/10 text-indigo-300 hover:bg-indigo-500/20 transition-all flex items-center gap-2" title="Run the whole strategy pipeline">
+                  <Rocket size={12} /> AUTOPILOT
+                </button>
+              )}
+              <GenerationTray currentProjectId={currentProject?.id} onApply={handleApplyJob} />
               {user.role !== 'admin' && <button onClick={cycleSubscription} className={`text-xs font-bold px-3 py-1.5 rounded-full border transition-all flex items-center gap-2 ${user.subscription === 'agency' ? 'bg-amber-500/10 text-amber-400 border-amber-500/20' : user.subscription === 'pro' ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'bg-slate-800 text-slate-400 border-slate-700'}`}>{user.subscription === 'agency' && <Crown size={12} />}{user.subscription === 'pro' && <Zap size={12} />}{user.subscription === 'hobby' && <Star size={12} />}{user.subscription.toUpperCase()}</button>}
               <button onClick={() => { const newRole = user.role === 'admin' ? 'user' : 'admin'; const updated = { ...user, role: newRole as 'user' | 'admin' }; localStorage.setItem('meti_user_session', JSON.stringify(updated)); setUser(updated); if (newRole === 'admin') setCurrentStep(AppStep.ADMIN); else setCurrentStep(AppStep.DASHBOARD); notify.info(`Switched to ${newRole.toUpperCase()} View`); }} className={`text-xs font-bold px-3 py-1.5 rounded-full border transition-all flex items-center gap-2 ${user.role === 'admin' ? 'bg-red-500/10 text-red-400 border-red-500/20' : 'bg-slate-800 text-slate-500 border-slate-700 opacity-50'}`}><Shield size={12} />{user.role === 'admin' ? 'ADMIN' : 'USER'}</button>
               <div className="w-8 h-8 rounded-full bg-gradient-to-tr from-indigo-500 to-purple-500 border-2 border-slate-800 shadow-lg cursor-pointer hover:scale-105 transition-transform" onClick={() => setCurrentStep(AppStep.SETTINGS)}></div>
@@ -411,7 +575,7 @@ const App: React.FC = () => {
            <ErrorBoundary>
              <Suspense fallback={<PageLoader />}>
                {currentStep === AppStep.DASHBOARD && <Dashboard onSelectProject={handleSelectProject} onCreateNew={handleCreateProject} onOpenAdmin={() => setCurrentStep(AppStep.ADMIN)} onUpgrade={() => setCurrentStep(AppStep.PRICING)} />}
-               {currentStep === AppStep.SETUP && <StepSetup productName={draftName} productDescription={draftDesc} clientName={draftClient} clientId={draftClientId} productUrl={draftUrl} productPrice={draftPrice} setProductName={setDraftName} setProductDescription={setDraftDesc} setClientName={setDraftClient} setClientId={setDraftClientId} setProductUrl={setDraftUrl} setProductPrice={setDraftPrice} onNext={() => handleSetupComplete(draftName, draftDesc, draftUrl, draftPrice)} isLocked={isSetupLocked} />}
+               {currentStep === AppStep.SETUP && <StepSetup productName={draftName} productDescription={draftDesc} clientName={draftClient} clientId={draftClientId} productUrl={draftUrl} productPrice={draftPrice} setProductName={setDraftName} setProductDescription={setDraftDesc} setClientName={setDraftClient} setClientId={setDraftClientId} setProductUrl={setDraftUrl} setProductPrice={setDraftPrice} onNext={() => handleSetupComplete(draftName, draftDesc, draftUrl, draftPrice)} isLocked={isSetupLocked} brandVoice={data.brandVoice} inheritedVoiceFrom={projectClient?.brandVoice ? projectClient.name : undefined} onUpdateBrandVoice={currentProject ? (voice) => updateProject({ brandVoice: voice }) : undefined} locale={data.locale} onUpdateLocale={currentProject ? (locale) => updateProject({ locale }) : undefined} template={currentProject ? null : draftTemplate} onClearTemplate={() => setDraftTemplate(null)} />}
                {currentStep === AppStep.GUIDE && <StepGuide />}
                {currentStep === AppStep.SETTINGS && <StepSettings user={user} onUserUpdate={setUser} />}
                {currentProject && (
@@ -420,13 +584,13 @@ const App: React.FC = () => {
                    
                    {currentStep === AppStep.PERSONA && (
                      data.selectedNiche ? 
-                     <StepPersona productName={data.productName} niche={data.selectedNiche} onPersonaGenerated={(persona) => { updateProject({ persona }); }} existingPersona={data.persona} /> :
+                     <StepPersona productName={data.productName} niche={data.selectedNiche} onPersonaGenerated={(persona, history) => { updateProject({ persona, ...(history && { personaHistory: history }) }); }} existingPersona={data.persona} history={data.personaHistory} /> :
                      <MissingPrereq title="Strategy Incomplete" message="Please select a target Niche before defining a Persona." action={() => setCurrentStep(AppStep.NICHE)} actionLabel="Select Niche" />
                    )}
 
                    {currentStep === AppStep.MAGNETS && (
                      (data.selectedNiche && data.persona) ?
-                     <StepMagnets productName={data.productName} nicheName={data.selectedNiche.name} persona={data.persona} onUpdateMagnets={(magnets) => updateProject({ generatedMagnets: magnets })} magnets={data.generatedMagnets} connectedPlatforms={data.connectedPlatforms || []} /> :
+                     <StepMagnets productName={data.productName} nicheName={data.selectedNiche.name} persona={data.persona} onUpdateMagnets={(magnets) => updateProject({ generatedMagnets: magnets })} magnets={data.generatedMagnets} connectedPlatforms={data.connectedPlatforms || []} onScheduleAds={(ads) => updateProject({ adCampaigns: [...(data.adCampaigns || []), ...ads] })} /> :
                      <MissingPrereq title="Prerequisites Missing" message="You need to select a Niche and generate a Persona first." action={() => setCurrentStep(data.selectedNiche ? AppStep.PERSONA : AppStep.NICHE)} />
                    )}
 
@@ -451,7 +615,7 @@ const App: React.FC = () => {
 
                    {currentStep === AppStep.ADS && (
                      (data.selectedNiche && data.persona) ?
-                     <StepAds productName={data.productName} niche={data.selectedNiche} persona={data.persona} ads={data.adCampaigns || []} onUpdateAds={(ads) => updateProject({ adCampaigns: ads })} connectedPlatforms={data.connectedPlatforms || []} onUpdateConnectedPlatforms={(platforms) => updateProject({ connectedPlatforms: platforms })} productUrl={data.productUrl} productPrice={data.productPrice} user={user} onUpgrade={() => setCurrentStep(AppStep.PRICING)} /> :
+                     <StepAds productName={data.productName} niche={data.selectedNiche} persona={data.persona} ads={data.adCampaigns || []} onUpdateAds={(ads, history) => updateProject({ adCampaigns: ads, ...(history && { adCampaignHistory: history }) })} history={data.adCampaignHistory} connectedPlatforms={data.connectedPlatforms || []} onUpdateConnectedPlatforms={(platforms) => updateProject({ connectedPlatforms: platforms })} productUrl={data.productUrl} productPrice={data.productPrice} brandVoice={brandVoice} locale={data.locale} user={user} onUpgrade={() => setCurrentStep(AppStep.PRICING)} /> :
                      <MissingPrereq title="Ad Engine Locked" message="Define your audience to generate targeted ad campaigns." action={() => setCurrentStep(data.selectedNiche ? AppStep.PERSONA : AppStep.NICHE)} />
                    )}
 
@@ -476,6 +640,8 @@ const App: React.FC = () => {
                         onUpdateAutomations={(a) => updateProject({ emailAutomations: a })}
                         onUpdateSubscribers={(s) => updateProject({ emailSubscribers: s })}
                         onUpdateSettings={(s) => updateProject({ emailSettings: s })}
+                        brandVoice={brandVoice}
+                        locale={data.locale}
                         user={user}
                         onUpgrade={() => setCurrentStep(AppStep.PRICING)}
                      /> :
@@ -484,18 +650,38 @@ const App: React.FC = () => {
 
                    {currentStep === AppStep.LANDING && (
                      (data.selectedNiche && data.persona) ?
-                     <StepLanding productName={data.productName} niche={data.selectedNiche} persona={data.persona} landingPage={data.landingPage} onUpdate={(lp) => updateProject({ landingPage: lp })} user={user} onUpgrade={() => setCurrentStep(AppStep.PRICING)} /> :
+                     <StepLanding productName={data.productName} niche={data.selectedNiche} persona={data.persona} landingPage={data.landingPage} onUpdate={(lp, history) => updateProject({ landingPage: lp, ...(history && { landingPageHistory: history }) })} history={data.landingPageHistory} brandVoice={brandVoice} locale={data.locale} user={user} onUpgrade={() => setCurrentStep(AppStep.PRICING)} /> :
                      <MissingPrereq title="Builder Locked" message="Landing pages require a Niche and Persona context." action={() => setCurrentStep(data.selectedNiche ? AppStep.PERSONA : AppStep.NICHE)} />
                    )}
 
-                   {currentStep === AppStep.REPORT && <StepReport data={data} />}
+                   {currentStep === AppStep.REPORT && <StepReport data={data} projectId={currentProject.id} />}
                  </>
                )}
-               {currentStep === AppStep.PRICING && <StepPricing />}
+               {currentStep === AppStep.PRICING && <StepPricing focus={pricingFocus} />}
              </Suspense>
            </ErrorBoundary>
         </div>
       </main>
+      {currentProject && (
+        <AutopilotModal
+          isOpen={isAutopilotOpen}
+          onClose={() => setIsAutopilotOpen(false)}
+          project={data}
+          user={user}
+          onApply={updateProject}
+        />
+      )}
+      {user && <UpgradePrompt onUpgrade={() => openPricing()} onTopUp={() => openPricing('topup')} />}
+      {currentProject && <ProjectConflictDialog conflict={conflict} onResolve={resolveConflict} />}
+      {currentProject && (
+        <RevisionHistory
+          isOpen={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          projectId={currentProject.id}
+          currentVersion={currentProject.version}
+          onRestore={handleRestoreRevision}
+        />
+      )}
       {isSupportOpen && <SupportModal isOpen={isSupportOpen} onClose={() => setIsSupportOpen(false)} user={user} />}
     </div>
   );
@@ -8,13 +8,14 @@ import { InviteUserModal } from './InviteUserModal';
 import { AssignManagerModal } from './AssignManagerModal';
 import { notify } from '../services/notificationService';
 import { supportService } from '../services/supportService';
+import { PromptManager } from './PromptManager';
 
 export const AdminDashboard: React.FC = () => {
   const [stats, setStats] = useState<AdminStats | null>(null);
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
-  const [activeTab, setActiveTab] = useState<'overview' | 'users' | 'system' | 'support'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'users' | 'system' | 'support' | 'prompts'>('overview');
   const [isInviteModalOpen, setIsInviteModalOpen] = useState(false);
   const [maintenanceMode, setMaintenanceMode] = useState(false);
   
@@ -158,7 +159,7 @@ export const AdminDashboard: React.FC = () => {
           <p className="text-slate-400">Master control panel for user management, system performance, and support.</p>
         </div>
         <div className="flex gap-2 bg-slate-800/50 p-1 rounded-lg border border-slate-700">
-           {['overview', 'users', 'support', 'system'].map(tab => (
+           {['overview', 'users', 'support', 'prompts', 'system'].map(tab => (
                <button 
                  key={tab}
                  onClick={() => setActiveTab(tab as any)}
@@ -419,6 +420,8 @@ export const AdminDashboard: React.FC = () => {
               </div>
           )}
 
+          {activeTab === 'prompts' && <PromptManager />}
+
           {activeTab === 'system' && (
              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <Card className={`border ${maintenanceMode ? 'bg-red-900/10 border-red-500/50' : 'bg-slate-800 border-slate-700'}`}>
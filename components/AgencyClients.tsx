@@ -1,11 +1,14 @@
 
 import React, { useState, useEffect } from 'react';
-import { Client, User } from '../types';
+import { Client, User, BrandVoice } from '../types';
 import { storageService } from '../services/storageService';
 import { authService } from '../services/authService';
 import { Button, Card, Modal, Spinner } from './Shared';
 import { FeatureGuard } from './FeatureGuard';
-import { Briefcase, User as UserIcon, Mail, Plus, Edit2, Trash2, Calendar } from 'lucide-react';
+import { Briefcase, User as UserIcon, Mail, Plus, Edit2, Trash2, Calendar, Mic } from 'lucide-react';
+import { BrandVoiceEditor } from './BrandVoiceEditor';
+import { isBrandVoiceSet } from '../utils/brandVoice';
+import { notify } from '../services/notificationService';
 import { permissionService } from '../services/permissionService';
 
 interface AgencyClientsProps {
@@ -18,6 +21,7 @@ export const AgencyClients: React.FC<AgencyClientsProps> = ({ onSelectClient, on
   const [loading, setLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingClient, setEditingClient] = useState<Client | null>(null);
+  const [voiceClient, setVoiceClient] = useState<Client | null>(null);
 
   const user = authService.getCurrentUser();
 
@@ -83,6 +87,18 @@ export const AgencyClients: React.FC<AgencyClientsProps> = ({ onSelectClient, on
     loadClients();
   };
 
+  const handleSaveVoice = async (brandVoice: BrandVoice | null) => {
+    if (!voiceClient) return;
+    try {
+      await storageService.updateClient(voiceClient.id, { brandVoice });
+      notify.success(`Brand voice saved for ${voiceClient.name}`);
+      setVoiceClient(null);
+      loadClients();
+    } catch (e) {
+      notify.error("Failed to save brand voice");
+    }
+  };
+
   if (user && onUpgrade && !permissionService.hasAccess(user, 'agency')) {
     return <FeatureGuard user={user} requiredTier="agency" featureName="Client Management CRM" onUpgrade={onUpgrade}>{null}</FeatureGuard>;
   }
@@ -138,6 +154,9 @@ export const AgencyClients: React.FC<AgencyClientsProps> = ({ onSelectClient, on
                 <button onClick={() => handleEdit(client)} className="flex-1 py-2 rounded hover:bg-slate-700 text-slate-400 hover:text-white text-xs font-medium flex items-center justify-center gap-2 transition-colors">
                   <Edit2 size={14} /> Edit
                 </button>
+                <button onClick={() => setVoiceClient(client)} className={`flex-1 py-2 rounded hover:bg-slate-700 text-xs font-medium flex items-center justify-center gap-2 transition-colors ${isBrandVoiceSet(client.brandVoice) ? 'text-indigo-400 hover:text-indigo-300' : 'text-slate-400 hover:text-white'}`}>
+                  <Mic size={14} /> Brand Voice
+                </button>
                 <button onClick={() => handleDelete(client.id)} className="p-2 rounded hover:bg-red-500/10 text-slate-500 hover:text-red-400 transition-colors">
                   <Trash2 size={14} />
                 </button>
@@ -181,6 +200,12 @@ export const AgencyClients: React.FC<AgencyClientsProps> = ({ onSelectClient, on
           </div>
         </form>
       </Modal>
+
+      {/* Brand Voice Modal: inherited by every project assigned to the client */}
+      <Modal isOpen={!!voiceClient} onClose={() => setVoiceClient(null)} title={`${voiceClient?.name || ''} Brand Voice`}>
+        <p className="text-sm text-slate-400 mb-4">Every project for this client writes in this voice unless the project sets its own.</p>
+        <BrandVoiceEditor voice={voiceClient?.brandVoice} onSave={handleSaveVoice} />
+      </Modal>
     </div>
   );
 };
@@ -0,0 +1,254 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { AutopilotStepId, AutopilotStepStatus, ProjectData, User } from '../types';
+import { AUTOPILOT_STEPS, runAutopilot, isStepAvailable } from '../services/autopilotService';
+import { Button, Modal } from './Shared';
+import { Rocket, CheckCircle2, Loader, Circle, AlertCircle, Eye, SkipForward, Lock } from 'lucide-react';
+import { notify } from '../services/notificationService';
+import { notifyAIError } from '../services/aiErrors';
+
+interface AutopilotModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: ProjectData;
+  user: User | null;
+  onApply: (results: Partial<ProjectData>) => Promise<void>;
+}
+
+type Phase = 'config' | 'running' | 'finished' | 'failed';
+
+// Review checkpoints are offered where a human choice changes everything downstream
+const DEFAULT_CHECKPOINTS: AutopilotStepId[] = ['niche', 'persona'];
+
+const RESULT_LABELS: Partial<Record<keyof ProjectData, string>> = {
+  selectedNiche: 'Target niche',
+  persona: 'Customer persona',
+  generatedMagnets: 'Lead magnets',
+  landingPage: 'Landing page',
+  adCampaigns: 'Ad creatives',
+  followUpSequence: 'Nurture email sequence',
+  emailCampaigns: 'Email campaign drafts'
+};
+
+const StepStatusIcon: React.FC<{ status: AutopilotStepStatus }> = ({ status }) => {
+  switch (status) {
+    case 'running': return <Loader size={16} className="text-indigo-400 animate-spin" />;
+    case 'review': return <Eye size={16} className="text-amber-400" />;
+    case 'done': return <CheckCircle2 size={16} className="text-emerald-400" />;
+    case 'skipped': return <SkipForward size={16} className="text-slate-500" />;
+    case 'failed': return <AlertCircle size={16} className="text-red-400" />;
+    default: return <Circle size={16} className="text-slate-600" />;
+  }
+};
+
+/**
+ * One-click run of the strategy pipeline. Shows per-step progress, pauses at the chosen review
+ * checkpoints and writes everything to the project in a single update once approved.
+ */
+export const AutopilotModal: React.FC<AutopilotModalProps> = ({ isOpen, onClose, project, user, onApply }) => {
+  const available = AUTOPILOT_STEPS.filter(step => isStepAvailable(step, user));
+
+  const [phase, setPhase] = useState<Phase>('config');
+  const [selectedSteps, setSelectedSteps] = useState<AutopilotStepId[]>([]);
+  const [checkpoints, setCheckpoints] = useState<AutopilotStepId[]>(DEFAULT_CHECKPOINTS);
+  const [regenerate, setRegenerate] = useState(false);
+  const [statuses, setStatuses] = useState<Partial<Record<AutopilotStepId, { status: AutopilotStepStatus; error?: string }>>>({});
+  const [results, setResults] = useState<Partial<ProjectData>>({});
+  const [review, setReview] = useState<AutopilotStepId | null>(null);
+  const [edits, setEdits] = useState<Partial<ProjectData>>({});
+  const [applying, setApplying] = useState(false);
+
+  const abortRef = useRef<AbortController | null>(null);
+  const checkpointRef = useRef<{ resolve: (edits: Partial<ProjectData>) => void; reject: () => void } | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setPhase('config');
+    setSelectedSteps(available.map(s => s.id));
+    setStatuses({});
+    setResults({});
+    setReview(null);
+  }, [isOpen]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const toggle = (list: AutopilotStepId[], id: AutopilotStepId) => list.includes(id) ? list.filter(x => x !== id) : [...list, id];
+
+  const handleStart = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setPhase('running');
+    setStatuses({});
+    setResults({});
+    try {
+      const final = await runAutopilot(project, { steps: selectedSteps, checkpoints, regenerate }, {
+        signal: controller.signal,
+        onStepChange: (id, status, error) => setStatuses(prev => ({ ...prev, [id]: { status, error } })),
+        onResults: setResults,
+        onCheckpoint: (id) => new Promise((resolve, reject) => {
+          setEdits({});
+          setReview(id);
+          checkpointRef.current = { resolve, reject };
+        })
+      });
+      setResults(final);
+      setPhase('finished');
+    } catch (e: any) {
+      // Stopped or failed: completed steps can still be saved
+      if (e.results) setResults(e.results);
+      notifyAIError(e, "Autopilot failed");
+      setPhase('failed');
+    } finally {
+      setReview(null);
+      checkpointRef.current = null;
+    }
+  };
+
+  const handleContinue = () => {
+    checkpointRef.current?.resolve(edits);
+    checkpointRef.current = null;
+    setReview(null);
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+    checkpointRef.current?.reject();
+    checkpointRef.current = null;
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      await onApply(results);
+      notify.success("Autopilot results saved to the project");
+      onClose();
+    } catch (e) {
+      notify.error("Failed to save Autopilot results");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (phase === 'running' && !confirm("Stop Autopilot? Nothing generated so far will be saved.")) return;
+    handleStop();
+    onClose();
+  };
+
+  const resultKeys = (Object.keys(RESULT_LABELS) as (keyof ProjectData)[]).filter(key => results[key] !== undefined);
+  const current = { ...results, ...edits };
+
+  const renderReview = () => {
+    if (review === 'niche') {
+      return (
+        <div className="space-y-2">
+          <p className="text-sm text-slate-400 mb-2">Autopilot picked the most profitable niche. Choose another to steer the rest of the run.</p>
+          {(results.generatedNiches || []).map(niche => (
+            <label key={niche.name} className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer ${current.selectedNiche?.name === niche.name ? 'border-indigo-500 bg-indigo-900/20' : 'border-slate-700 bg-slate-800/50'}`}>
+              <input type="radio" className="mt-1 accent-indigo-500" checked={current.selectedNiche?.name === niche.name} onChange={() => setEdits({ selectedNiche: niche })} />
+              <div>
+                <div className="text-white font-medium text-sm">{niche.name} <span className="text-xs text-emerald-400 font-mono ml-2">{niche.profitabilityScore}/100</span></div>
+                <div className="text-xs text-slate-400">{niche.reasoning}</div>
+              </div>
+            </label>
+          ))}
+        </div>
+      );
+    }
+    if (review === 'persona' && results.persona) {
+      const { jobTitle, ageRange, painPoints, goals } = results.persona;
+      return (
+        <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 text-sm space-y-2">
+          <div className="text-white font-bold">{jobTitle} <span className="text-slate-400 font-normal">({ageRange})</span></div>
+          <div><span className="text-slate-500 text-xs uppercase">Pain points:</span> <span className="text-slate-300">{painPoints.join('; ')}</span></div>
+          <div><span className="text-slate-500 text-xs uppercase">Goals:</span> <span className="text-slate-300">{goals.join('; ')}</span></div>
+        </div>
+      );
+    }
+    return <p className="text-sm text-slate-400">Review the {AUTOPILOT_STEPS.find(s => s.id === review)?.label.toLowerCase()} result, then continue.</p>;
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Autopilot">
+      {phase === 'config' ? (
+        <div className="space-y-6">
+          <p className="text-sm text-slate-400">Runs the whole strategy pipeline with sensible defaults. Nothing is saved until you approve the results.</p>
+          <div className="space-y-2">
+            {AUTOPILOT_STEPS.map(step => {
+              const enabled = isStepAvailable(step, user);
+              return (
+                <div key={step.id} className={`flex items-center gap-3 p-3 rounded-lg border border-slate-700 bg-slate-800/50 ${enabled ? '' : 'opacity-50'}`}>
+                  <input type="checkbox" className="accent-indigo-500" disabled={!enabled} checked={selectedSteps.includes(step.id)} onChange={() => setSelectedSteps(prev => toggle(prev, step.id))} />
+                  <span className="text-sm text-white flex-1">{step.label}</span>
+                  {enabled ? (
+                    <label className="text-xs text-slate-400 flex items-center gap-1.5 cursor-pointer">
+                      <input type="checkbox" className="accent-amber-500" checked={checkpoints.includes(step.id)} onChange={() => setCheckpoints(prev => toggle(prev, step.id))} />
+                      Pause to review
+                    </label>
+                  ) : (
+                    <span className="text-xs text-slate-500 flex items-center gap-1"><Lock size={12} /> {step.requiredTier?.toUpperCase()} plan</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+            <input type="checkbox" className="accent-indigo-500" checked={regenerate} onChange={(e) => setRegenerate(e.target.checked)} />
+            Regenerate steps that already have results
+          </label>
+          <Button onClick={handleStart} disabled={selectedSteps.length === 0} className="w-full"><Rocket size={16} /> Start Autopilot</Button>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="space-y-2">
+            {AUTOPILOT_STEPS.filter(step => selectedSteps.includes(step.id)).map(step => {
+              const state = statuses[step.id];
+              return (
+                <div key={step.id} className="flex items-center gap-3 text-sm">
+                  <StepStatusIcon status={state?.status || 'pending'} />
+                  <span className={state?.status === 'pending' || !state ? 'text-slate-500' : 'text-white'}>{step.label}</span>
+                  {state?.status === 'skipped' && <span className="text-xs text-slate-500">Already done</span>}
+                  {state?.error && <span className="text-xs text-red-400">{state.error}</span>}
+                </div>
+              );
+            })}
+          </div>
+
+          {review && (
+            <div className="border-t border-slate-800 pt-6">
+              <h4 className="text-sm font-bold text-amber-300 mb-3 flex items-center gap-2"><Eye size={14} /> Checkpoint</h4>
+              {renderReview()}
+              <div className="flex gap-2 mt-4">
+                <Button variant="outline" onClick={handleStop} className="flex-1">Stop</Button>
+                <Button onClick={handleContinue} className="flex-1">Continue</Button>
+              </div>
+            </div>
+          )}
+
+          {phase === 'running' && !review && (
+            <Button variant="outline" onClick={handleStop} className="w-full">Stop after this step</Button>
+          )}
+
+          {(phase === 'finished' || phase === 'failed') && (
+            <div className="border-t border-slate-800 pt-6">
+              {phase === 'failed' && <p className="text-sm text-amber-300 mb-3">Autopilot stopped before finishing.{resultKeys.length > 0 && ' You can still save the steps that completed.'}</p>}
+              {resultKeys.length > 0 ? (
+                <>
+                  <div className="text-xs text-slate-500 uppercase font-bold mb-2">Will be written to the project</div>
+                  <ul className="text-sm text-slate-300 space-y-1 mb-4">
+                    {resultKeys.map(key => <li key={key} className="flex items-center gap-2"><CheckCircle2 size={14} className="text-emerald-400" /> {RESULT_LABELS[key]}</li>)}
+                  </ul>
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={onClose} className="flex-1">Discard</Button>
+                    <Button onClick={handleApply} isLoading={applying} className="flex-1">Save to Project</Button>
+                  </div>
+                </>
+              ) : (
+                <Button variant="outline" onClick={() => setPhase('config')} className="w-full">Back</Button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
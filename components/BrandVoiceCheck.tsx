@@ -0,0 +1,70 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { BrandVoice, BrandVoiceIssue } from '../types';
+import { checkBrandVoice, isBrandVoiceSet } from '../utils/brandVoice';
+import { checkBrandVoiceTone } from '../services/geminiService';
+import { Mic, AlertCircle, AlertTriangle, CheckCircle2, Loader } from 'lucide-react';
+import { notifyAIError } from '../services/aiErrors';
+
+interface BrandVoiceCheckProps {
+  text: string;
+  voice?: BrandVoice | null;
+}
+
+/**
+ * Flags copy that breaks the brand voice. Banned words and reading level are checked as the text
+ * changes; tone and claims are reviewed by the AI on request.
+ */
+export const BrandVoiceCheck: React.FC<BrandVoiceCheckProps> = ({ text, voice }) => {
+  const [toneResult, setToneResult] = useState<{ score: number; issues: BrandVoiceIssue[] } | null>(null);
+  const [checkingTone, setCheckingTone] = useState(false);
+
+  const ruleIssues = useMemo(() => isBrandVoiceSet(voice) ? checkBrandVoice(text, voice) : [], [text, voice]);
+
+  // A tone review only applies to the text it was run on
+  useEffect(() => setToneResult(null), [text]);
+
+  if (!isBrandVoiceSet(voice) || !text.trim()) return null;
+
+  const handleToneCheck = async () => {
+    setCheckingTone(true);
+    try {
+      setToneResult(await checkBrandVoiceTone(text));
+    } catch (e) {
+      notifyAIError(e, "Tone check failed");
+    } finally {
+      setCheckingTone(false);
+    }
+  };
+
+  const issues = [...ruleIssues, ...(toneResult?.issues || [])];
+
+  return (
+    <div className="bg-slate-950/60 border border-slate-800 rounded-lg p-3 text-xs">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-bold text-slate-300 flex items-center gap-1.5"><Mic size={12} className="text-indigo-400" /> Brand Voice</span>
+        <div className="flex items-center gap-3">
+          {toneResult && <span className={`font-mono ${toneResult.score >= 80 ? 'text-emerald-400' : toneResult.score >= 60 ? 'text-amber-400' : 'text-red-400'}`}>Fit {toneResult.score}/100</span>}
+          <button onClick={handleToneCheck} disabled={checkingTone} className="text-indigo-400 hover:text-indigo-300 disabled:opacity-50 flex items-center gap-1">
+            {checkingTone && <Loader size={10} className="animate-spin" />} {toneResult ? 'Re-check tone' : 'Check tone'}
+          </button>
+        </div>
+      </div>
+      {issues.length === 0 ? (
+        <p className="text-emerald-400 flex items-center gap-1.5"><CheckCircle2 size={12} /> No violations found{toneResult ? '' : ' (rules only)'}.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {issues.map((issue, i) => (
+            <li key={i} className="flex items-start gap-1.5">
+              {issue.severity === 'error' ? <AlertCircle size={12} className="text-red-400 mt-0.5 shrink-0" /> : <AlertTriangle size={12} className="text-amber-400 mt-0.5 shrink-0" />}
+              <div>
+                <span className={issue.severity === 'error' ? 'text-red-300' : 'text-amber-300'}>{issue.message}</span>
+                {issue.excerpt && <span className="text-slate-500 italic"> "{issue.excerpt}"</span>}
+                {issue.suggestion && <div className="text-slate-400">→ {issue.suggestion}</div>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
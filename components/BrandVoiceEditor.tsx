@@ -0,0 +1,87 @@
+import React, { useState, useEffect } from 'react';
+import { BrandVoice } from '../types';
+import { Button } from './Shared';
+import { Save, Trash2 } from 'lucide-react';
+import { isBrandVoiceSet } from '../utils/brandVoice';
+
+interface BrandVoiceEditorProps {
+  voice?: BrandVoice | null;
+  onSave: (voice: BrandVoice | null) => void | Promise<void>;
+  inheritedFrom?: string; // Client whose voice applies while this one is empty
+}
+
+const splitList = (value: string, separator: RegExp) => value.split(separator).map(s => s.trim()).filter(Boolean);
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-white text-sm outline-none focus:border-indigo-500";
+
+export const BrandVoiceEditor: React.FC<BrandVoiceEditorProps> = ({ voice, onSave, inheritedFrom }) => {
+  const [tone, setTone] = useState('');
+  const [readingLevel, setReadingLevel] = useState('');
+  const [bannedWords, setBannedWords] = useState('');
+  const [keyClaims, setKeyClaims] = useState('');
+  const [sampleCopy, setSampleCopy] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setTone(voice?.tone || '');
+    setReadingLevel(voice?.readingLevel ? String(voice.readingLevel) : '');
+    setBannedWords((voice?.bannedWords || []).join(', '));
+    setKeyClaims((voice?.keyClaims || []).join('\n'));
+    setSampleCopy(voice?.sampleCopy || '');
+  }, [voice]);
+
+  const handleSave = async (next: BrandVoice | null) => {
+    setSaving(true);
+    try {
+      await onSave(next);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const draft: BrandVoice = {
+    tone: tone.trim(),
+    readingLevel: Number(readingLevel) > 0 ? Number(readingLevel) : undefined,
+    bannedWords: splitList(bannedWords, /[,\n]/),
+    keyClaims: splitList(keyClaims, /\n/),
+    sampleCopy: sampleCopy.trim() || undefined
+  };
+
+  return (
+    <div className="space-y-4">
+      {!isBrandVoiceSet(voice) && inheritedFrom && (
+        <p className="text-xs text-indigo-300 bg-indigo-500/10 border border-indigo-500/20 rounded px-3 py-2">
+          Using the brand voice of {inheritedFrom}. Save a voice here to override it for this project.
+        </p>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-slate-400 mb-1 uppercase">Tone</label>
+          <input type="text" value={tone} onChange={(e) => setTone(e.target.value)} placeholder="e.g. Warm, direct, confident. No hype." className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1 uppercase">Reading Level (Grade)</label>
+          <input type="number" min="1" max="16" value={readingLevel} onChange={(e) => setReadingLevel(e.target.value)} placeholder="8" className={inputClass} />
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-slate-400 mb-1 uppercase">Banned Words</label>
+        <input type="text" value={bannedWords} onChange={(e) => setBannedWords(e.target.value)} placeholder="revolutionary, synergy, game-changer" className={inputClass} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-slate-400 mb-1 uppercase">Key Claims (one per line)</label>
+        <textarea value={keyClaims} onChange={(e) => setKeyClaims(e.target.value)} rows={3} placeholder={"Set up in under 10 minutes\nTrusted by 300+ clinics in Lagos"} className={inputClass} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-slate-400 mb-1 uppercase">Sample Copy</label>
+        <textarea value={sampleCopy} onChange={(e) => setSampleCopy(e.target.value)} rows={4} placeholder="Paste a paragraph that sounds exactly like the brand." className={inputClass} />
+      </div>
+      <div className="flex justify-end gap-2">
+        {isBrandVoiceSet(voice) && (
+          <Button variant="outline" onClick={() => handleSave(null)} disabled={saving}><Trash2 size={14} /> Clear</Button>
+        )}
+        <Button onClick={() => handleSave(isBrandVoiceSet(draft) ? draft : null)} isLoading={saving}><Save size={14} /> Save Voice</Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React, { useState, useEffect } from 'react';
+import { QuotaStatus } from '../types';
+import { quotaService, QUOTA_EVENT } from '../services/quotaService';
+import { Coins } from 'lucide-react';
+
+interface CostHintProps {
+  agent: string | string[]; // Several agents when one button triggers more than one call
+  className?: string;
+}
+
+const compact = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(tokens >= 10000 ? 0 : 1)}k` : String(tokens);
+
+/**
+ * Estimated token cost for a generate button. Turns amber when the estimate is more than what is
+ * left this period. Renders nothing until the quota has loaded.
+ */
+export const CostHint: React.FC<CostHintProps> = ({ agent, className = '' }) => {
+  const [quota, setQuota] = useState<QuotaStatus | null>(quotaService.get());
+
+  useEffect(() => {
+    const handleQuota = (e: Event) => setQuota((e as CustomEvent<QuotaStatus | null>).detail);
+    document.addEventListener(QUOTA_EVENT, handleQuota);
+    return () => document.removeEventListener(QUOTA_EVENT, handleQuota);
+  }, []);
+
+  if (!quota) return null;
+  const tokens = (Array.isArray(agent) ? agent : [agent]).reduce((sum, id) => sum + (quota.estimates[id] || 0), 0);
+  if (!tokens) return null;
+  const short = tokens > quota.remaining;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-[10px] font-mono font-normal ${short ? 'text-amber-300' : 'opacity-70'} ${className}`}
+      title={`Estimated ~${tokens.toLocaleString()} tokens. ${quota.remaining.toLocaleString()} left this period.`}
+    >
+      <Coins size={10} /> ~{compact(tokens)}
+    </span>
+  );
+};
@@ -1,20 +1,22 @@
 
 import React, { useState, useEffect } from 'react';
-import { Project, User } from '../types';
+import { Project, ProjectTemplate, ProjectTransfers, User } from '../types';
 import { storageService } from '../services/storageService';
 import { authService } from '../services/authService';
 import { Button, Card, Modal, Spinner } from './Shared';
-import { Plus, FolderOpen, Clock, Trash2, ArrowRight, LayoutGrid, Shield, Users, Terminal, Briefcase, Crown, Phone, Mail, Building2, Zap, AlertCircle, Lock, CreditCard, Loader } from 'lucide-react';
+import { Plus, FolderOpen, Clock, Trash2, ArrowRight, LayoutGrid, Shield, Users, Terminal, Briefcase, Crown, Phone, Mail, Building2, Zap, AlertCircle, Lock, CreditCard, Loader, Copy, BookmarkPlus, LayoutTemplate, Download, Send, FileUp } from 'lucide-react';
 import { SecurityModal } from './SecurityModal';
 import { TeamModal } from './TeamModal';
 import { DeveloperPortal } from './DeveloperPortal';
 import { AgencyClients } from './AgencyClients';
+import { DuplicateProjectModal, SaveTemplateModal, TemplateLibrary } from './ProjectTemplates';
+import { ImportProjectModal, TransferProjectModal, PendingTransfers, downloadProjectBundle } from './ProjectBundles';
 import { permissionService } from '../services/permissionService';
 import { notify } from '../services/notificationService';
 
 interface DashboardProps {
   onSelectProject: (project: Project) => void;
-  onCreateNew: () => void;
+  onCreateNew: (template?: ProjectTemplate) => void; // A template pre-fills the new project's sections
   onOpenAdmin: () => void;
   onUpgrade?: () => void;
 }
@@ -26,10 +28,18 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectProject, onCreateN
   const [isDevPortalOpen, setIsDevPortalOpen] = useState(false);
   const [teamModalProject, setTeamModalProject] = useState<Project | null>(null);
   const [activeTab, setActiveTab] = useState<'projects' | 'clients'>('projects');
+  const [duplicateProject, setDuplicateProject] = useState<Project | null>(null);
+  const [templateProject, setTemplateProject] = useState<Project | null>(null);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [transferProject, setTransferProject] = useState<Project | null>(null);
+  const [transfers, setTransfers] = useState<ProjectTransfers>({ incoming: [], outgoing: [] });
   
   // Payment Modal State
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [processingPayment, setProcessingPayment] = useState(false);
+  // What to create once the extra project is paid for (a blank project when unset)
+  const [pendingCreate, setPendingCreate] = useState<(() => void) | null>(null);
   
   const [user, setUser] = useState<User | null>(authService.getCurrentUser());
   
@@ -38,6 +48,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectProject, onCreateN
 
   useEffect(() => {
     loadProjects();
+    loadTransfers();
     const updatedUser = authService.refreshSession();
     if (updatedUser) setUser(updatedUser);
   }, []);
@@ -49,6 +60,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectProject, onCreateN
     setLoadingProjects(false);
   };
 
+  const loadTransfers = () => {
+    storageService.getTransfers().then(setTransfers).catch(() => undefined);
+  };
+
   const refreshProjects = () => {
     loadProjects();
     if (teamModalProject) {
@@ -71,24 +86,54 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectProject, onCreateN
     setTeamModalProject(project);
   };
 
-  const handleCreateClick = () => {
+  // Duplicates and template projects count towards the plan limit like blank ones
+  const createWithinLimit = (create: () => void) => {
     const ownedProjects = projects.filter(p => p.userId === user?.id).length;
     const isWithinLimit = permissionService.isWithinProjectLimit(user, ownedProjects);
     
     if (isWithinLimit) {
-      onCreateNew();
+      create();
     } else {
+      setPendingCreate(() => create);
       setShowPaymentModal(true);
     }
   };
 
+  const handleCreateClick = () => createWithinLimit(() => onCreateNew());
+
+  const handleDuplicateClick = (e: React.MouseEvent, project: Project) => {
+    e.stopPropagation();
+    createWithinLimit(() => setDuplicateProject(project));
+  };
+
+  const handleSaveTemplateClick = (e: React.MouseEvent, project: Project) => {
+    e.stopPropagation();
+    setTemplateProject(project);
+  };
+
+  const handleExportClick = (e: React.MouseEvent, project: Project) => {
+    e.stopPropagation();
+    downloadProjectBundle(project.id);
+  };
+
+  const handleTransferClick = (e: React.MouseEvent, project: Project) => {
+    e.stopPropagation();
+    setTransferProject(project);
+  };
+
+  const handleUseTemplate = (template: ProjectTemplate) => {
+    setIsTemplatesOpen(false);
+    createWithinLimit(() => onCreateNew(template));
+  };
+
   const confirmPaymentAndCreate = async () => {
       setProcessingPayment(true);
       await new Promise(resolve => setTimeout(resolve, 2000));
       setProcessingPayment(false);
       setShowPaymentModal(false);
       notify.success("Payment Successful! Creating project...");
-      onCreateNew();
+      (pendingCreate || onCreateNew)();
+      setPendingCreate(null);
   };
 
   const groupedProjects = projects.reduce((acc, project) => {
@@ -134,6 +179,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectProject, onCreateN
             {hasApiAccess ? <Terminal size={18} className="mr-2" /> : <Lock size={16} className="mr-2 text-amber-500" />} 
             API Access
           </Button>
+          <Button variant="secondary" onClick={() => createWithinLimit(() => setIsImportOpen(true))}>
+            <FileUp size={18} className="mr-2 text-indigo-400" /> Import
+          </Button>
+          <Button variant="secondary" onClick={() => setIsTemplatesOpen(true)}>
+            <LayoutTemplate size={18} className="mr-2 text-indigo-400" /> Templates
+          </Button>
           <Button variant="secondary" onClick={() => setIsSecurityOpen(true)}>
             <Shield size={18} className="mr-2 text-emerald-400" /> Security
           </Button>
@@ -201,6 +252,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectProject, onCreateN
             </div>
           )}
 
+          <PendingTransfers transfers={transfers} onChange={loadTransfers} onAccepted={() => loadProjects()} />
+
           {loadingProjects ? (
              <div className="flex justify-center py-20"><Spinner /></div>
           ) : projects.length === 0 ? (
@@ -228,6 +281,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectProject, onCreateN
                          user={user} 
                          onSelect={onSelectProject} 
                          onTeamClick={handleTeamClick} 
+                         onDuplicate={handleDuplicateClick}
+                         onSaveTemplate={handleSaveTemplateClick}
+                         onExport={handleExportClick}
+                         onTransfer={handleTransferClick}
                          onDelete={handleDelete} 
                        />
                     ))}
@@ -244,6 +301,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectProject, onCreateN
                   user={user} 
                   onSelect={onSelectProject} 
                   onTeamClick={handleTeamClick} 
+                  onDuplicate={handleDuplicateClick}
+                  onSaveTemplate={handleSaveTemplateClick}
+                  onExport={handleExportClick}
+                  onTransfer={handleTransferClick}
                   onDelete={handleDelete} 
                 />
               ))}
@@ -253,7 +314,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectProject, onCreateN
       )}
 
       {/* Payment Modal */}
-      <Modal isOpen={showPaymentModal} onClose={() => setShowPaymentModal(false)} title="Add Extra Project">
+      <Modal isOpen={showPaymentModal} onClose={() => { setShowPaymentModal(false); setPendingCreate(null); }} title="Add Extra Project">
          <div className="space-y-6">
             <div className="bg-indigo-900/20 border border-indigo-500/20 p-4 rounded-lg flex gap-3">
                <CreditCard size={20} className="text-indigo-400" />
@@ -274,6 +335,24 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectProject, onCreateN
          </div>
       </Modal>
 
+      <DuplicateProjectModal
+        project={duplicateProject}
+        onClose={() => setDuplicateProject(null)}
+        onDuplicated={(copy) => { setDuplicateProject(null); loadProjects(); onSelectProject(copy); }}
+      />
+      <SaveTemplateModal project={templateProject} onClose={() => setTemplateProject(null)} />
+      <TemplateLibrary isOpen={isTemplatesOpen} onClose={() => setIsTemplatesOpen(false)} onUse={handleUseTemplate} />
+      <ImportProjectModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImported={(project) => { setIsImportOpen(false); loadProjects(); onSelectProject(project); }}
+      />
+      <TransferProjectModal
+        project={transferProject}
+        onClose={() => setTransferProject(null)}
+        onOffered={() => { setTransferProject(null); loadTransfers(); }}
+      />
+
       {user && <SecurityModal isOpen={isSecurityOpen} onClose={() => setIsSecurityOpen(false)} user={user} />}
       {user && <DeveloperPortal isOpen={isDevPortalOpen} onClose={() => setIsDevPortalOpen(false)} user={user} />}
       
@@ -295,8 +374,12 @@ const ProjectCard: React.FC<{
   user: any;
   onSelect: (p: Project) => void;
   onTeamClick: (e: React.MouseEvent, p: Project) => void;
+  onDuplicate: (e: React.MouseEvent, p: Project) => void;
+  onSaveTemplate: (e: React.MouseEvent, p: Project) => void;
+  onExport: (e: React.MouseEvent, p: Project) => void;
+  onTransfer: (e: React.MouseEvent, p: Project) => void;
   onDelete: (e: React.MouseEvent, id: string) => void;
-}> = ({ project, user, onSelect, onTeamClick, onDelete }) => {
+}> = ({ project, user, onSelect, onTeamClick, onDuplicate, onSaveTemplate, onExport, onTransfer, onDelete }) => {
   const isOwner = user && project.userId === user.id;
 
   return (
@@ -312,6 +395,22 @@ const ProjectCard: React.FC<{
             <button onClick={(e) => onTeamClick(e, project)} className="text-slate-600 hover:text-indigo-400 p-2">
               <Users size={16} />
             </button>
+            {isOwner && (
+              <>
+                <button onClick={(e) => onDuplicate(e, project)} className="text-slate-600 hover:text-indigo-400 p-2" title="Duplicate project">
+                  <Copy size={16} />
+                </button>
+                <button onClick={(e) => onSaveTemplate(e, project)} className="text-slate-600 hover:text-indigo-400 p-2" title="Save as template">
+                  <BookmarkPlus size={16} />
+                </button>
+                <button onClick={(e) => onExport(e, project)} className="text-slate-600 hover:text-indigo-400 p-2" title="Export .meti bundle">
+                  <Download size={16} />
+                </button>
+                <button onClick={(e) => onTransfer(e, project)} className="text-slate-600 hover:text-indigo-400 p-2" title="Move to another account">
+                  <Send size={16} />
+                </button>
+              </>
+            )}
             {isOwner && (
               <button onClick={(e) => onDelete(e, project.id)} className="text-slate-600 hover:text-red-400 p-2">
                 <Trash2 size={16} />
@@ -0,0 +1,141 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AIJob } from '../types';
+import { jobService } from '../services/jobService';
+import { Layers, Loader, CheckCircle2, AlertCircle, Clock, X } from 'lucide-react';
+
+interface GenerationTrayProps {
+  currentProjectId?: string;
+  onApply: (job: AIJob) => Promise<void>;
+}
+
+const ACTIVE_POLL_MS = 3000;
+
+const isActive = (job: AIJob) => job.status === 'queued' || job.status === 'running';
+
+const timeAgo = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.floor(minutes / 60)}h ago`;
+};
+
+const StatusIcon: React.FC<{ job: AIJob }> = ({ job }) => {
+  switch (job.status) {
+    case 'queued': return <Clock size={14} className="text-slate-400" />;
+    case 'running': return <Loader size={14} className="text-indigo-400 animate-spin" />;
+    case 'succeeded': return <CheckCircle2 size={14} className="text-emerald-400" />;
+    default: return <AlertCircle size={14} className="text-red-400" />;
+  }
+};
+
+/**
+ * Recent background generations for the signed-in user. Jobs are kept server-side, so the tray
+ * picks up where it left off after a reload and offers to apply results nobody was waiting for.
+ */
+export const GenerationTray: React.FC<GenerationTrayProps> = ({ currentProjectId, onApply }) => {
+  const [jobs, setJobs] = useState<AIJob[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [applyingId, setApplyingId] = useState<string | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const loadJobs = async () => {
+    try {
+      setJobs(await jobService.list());
+    } catch (e) {
+      // The tray is informational; a failed refresh is retried on the next event or poll
+    }
+  };
+
+  useEffect(() => {
+    loadJobs();
+    const handleJobEvent = (e: CustomEvent<AIJob>) => {
+      setJobs(prev => prev.some(j => j.id === e.detail.id)
+        ? prev.map(j => j.id === e.detail.id ? { ...j, ...e.detail } : j)
+        : [e.detail, ...prev]);
+    };
+    document.addEventListener('meti-ai-job', handleJobEvent as EventListener);
+    return () => document.removeEventListener('meti-ai-job', handleJobEvent as EventListener);
+  }, []);
+
+  const activeCount = jobs.filter(isActive).length;
+
+  useEffect(() => {
+    if (activeCount === 0) return;
+    const timer = setInterval(loadJobs, ACTIVE_POLL_MS);
+    return () => clearInterval(timer);
+  }, [activeCount]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleApply = async (job: AIJob) => {
+    setApplyingId(job.id);
+    try {
+      await onApply(job);
+      setJobs(prev => prev.map(j => j.id === job.id ? { ...j, applied: true } : j));
+    } finally {
+      setApplyingId(null);
+    }
+  };
+
+  const handleDismiss = (job: AIJob) => {
+    setJobs(prev => prev.filter(j => j.id !== job.id));
+    jobService.dismiss(job.id).catch(() => undefined);
+  };
+
+  const canApply = (job: AIJob) => job.status === 'succeeded' && !job.applied && !!job.target && job.projectId === currentProjectId;
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative text-slate-400 hover:text-white p-1.5 rounded-lg hover:bg-slate-800 transition-colors"
+        title="Recent generations"
+      >
+        {activeCount > 0 ? <Loader size={18} className="animate-spin text-indigo-400" /> : <Layers size={18} />}
+        {jobs.some(canApply) && <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-emerald-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-10 w-80 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-30 overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-800 flex justify-between items-center">
+            <span className="text-sm font-bold text-white">Recent Generations</span>
+            {activeCount > 0 && <span className="text-[10px] text-indigo-300">{activeCount} running</span>}
+          </div>
+          <div className="max-h-96 overflow-y-auto custom-scrollbar">
+            {jobs.length === 0 ? (
+              <p className="text-xs text-slate-500 text-center py-8">No background generations yet.</p>
+            ) : jobs.map(job => (
+              <div key={job.id} className="px-4 py-3 border-b border-slate-800/60 last:border-0">
+                <div className="flex items-center gap-2">
+                  <StatusIcon job={job} />
+                  <span className="text-sm text-white truncate flex-1">{job.label}</span>
+                  {!isActive(job) && (
+                    <button onClick={() => handleDismiss(job)} className="text-slate-600 hover:text-slate-300" title="Dismiss"><X size={12} /></button>
+                  )}
+                </div>
+                <div className="flex justify-between items-center mt-1 ml-6">
+                  <span className="text-[10px] text-slate-500">
+                    {job.status === 'queued' ? 'Waiting for a worker' : job.status === 'running' ? 'Generating...' : job.applied ? 'Applied' : job.status === 'succeeded' ? 'Ready' : 'Failed'} · {timeAgo(job.updatedAt)}
+                  </span>
+                  {canApply(job) && (
+                    <button onClick={() => handleApply(job)} disabled={applyingId === job.id} className="text-[10px] font-bold text-emerald-400 hover:text-emerald-300 disabled:opacity-50">
+                      {applyingId === job.id ? 'Applying...' : 'Apply to project'}
+                    </button>
+                  )}
+                </div>
+                {job.status === 'failed' && job.error && <p className="text-[10px] text-red-400 mt-1 ml-6">{job.error.message}</p>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,35 +1,143 @@
-
-import React from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { ChatMessage, PersonaProfile } from '../types';
 import { Button, Modal } from './Shared';
-import { PhoneOff, Lock } from 'lucide-react';
+import { Phone, PhoneOff, Mic } from 'lucide-react';
+import { liveService } from '../services/liveService';
+import { RoleplaySetup } from '../services/geminiService';
+import { aiErrorMessage, notifyAIError } from '../services/aiErrors';
+import { notify } from '../services/notificationService';
+import { scenarioLabel, difficultyLabel } from '../utils/roleplay';
+import { CostHint } from './CostHint';
 
 interface LiveSessionProps {
   isOpen: boolean;
   onClose: () => void;
-  persona: any;
-  niche: any;
+  persona: PersonaProfile;
   productName: string;
+  setup: RoleplaySetup;
+  onFinish: (transcript: ChatMessage[]) => void; // Called when a call with at least one rep turn ends
 }
 
-export const LiveSession: React.FC<LiveSessionProps> = ({ isOpen, onClose }) => {
+type CallState = 'idle' | 'connecting' | 'live';
+
+const formatElapsed = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/**
+ * Voice version of the sales roleplay: the rep talks to the persona through the server relay and
+ * the transcript is handed back for scoring like a text session.
+ */
+export const LiveSession: React.FC<LiveSessionProps> = ({ isOpen, onClose, persona, productName, setup, onFinish }) => {
+  const [callState, setCallState] = useState<CallState>('idle');
+  const [transcript, setTranscript] = useState<ChatMessage[]>([]);
+  const [volume, setVolume] = useState(0);
+  const [speaking, setSpeaking] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const transcriptRef = useRef<ChatMessage[]>([]);
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [transcript]);
+
+  useEffect(() => {
+    if (callState !== 'live') return;
+    const started = Date.now();
+    const timer = setInterval(() => setElapsed(Math.floor((Date.now() - started) / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, [callState]);
+
+  // Hang up if the modal closes or unmounts mid-call
+  useEffect(() => {
+    if (!isOpen) return;
+    return () => {
+      liveService.onDisconnect = () => {};
+      liveService.disconnect();
+    };
+  }, [isOpen]);
+
+  // Transcription arrives in fragments; consecutive fragments from the same speaker form one turn
+  const appendTranscript = (role: 'user' | 'model', text: string) => {
+    const current = transcriptRef.current;
+    const last = current[current.length - 1];
+    const next = last?.role === role
+      ? [...current.slice(0, -1), { role, text: last.text + text }]
+      : [...current, { role, text: text.trimStart() }];
+    transcriptRef.current = next;
+    setTranscript(next);
+  };
+
+  const startCall = async () => {
+    transcriptRef.current = [];
+    setTranscript([]);
+    setElapsed(0);
+    setCallState('connecting');
+
+    liveService.onTranscript = appendTranscript;
+    liveService.onVolumeChange = setVolume;
+    liveService.onSpeakingChange = setSpeaking;
+    liveService.onDisconnect = (error) => {
+      setCallState('idle');
+      if (error && error.kind !== 'quota') notify.error(aiErrorMessage(error, error.message));
+      const turns = transcriptRef.current.map(m => ({ ...m, text: m.text.trim() })).filter(m => m.text);
+      if (turns.some(m => m.role === 'user')) {
+        onFinish(turns);
+        onClose();
+      }
+    };
+
+    try {
+      await liveService.connect({ ...setup, productName, persona });
+      setCallState('live');
+    } catch (e: any) {
+      setCallState('idle');
+      if (e?.name === 'NotAllowedError') notify.error("Allow microphone access to start a voice call");
+      else notifyAIError(e, "Could not start the voice call");
+    }
+  };
+
   if (!isOpen) return null;
 
   return (
-    <Modal isOpen={isOpen} onClose={onClose} title="Enterprise Voice (Beta)">
-      <div className="text-center p-8">
-        <div className="w-16 h-16 bg-amber-500/10 text-amber-500 rounded-full flex items-center justify-center mx-auto mb-4 border border-amber-500/20">
-          <Lock size={32} />
+    <Modal isOpen={isOpen} onClose={onClose} title="Voice Roleplay">
+      <div className="text-center p-4">
+        <div className="relative w-24 h-24 mx-auto mb-4">
+          <div
+            className="absolute inset-0 rounded-full bg-indigo-500/20 transition-transform duration-100"
+            style={{ transform: `scale(${1 + (speaking ? 0.25 : volume * 0.5)})` }}
+          />
+          <div className={`relative w-24 h-24 rounded-full flex items-center justify-center border ${speaking ? 'bg-indigo-500 border-indigo-400 text-white' : 'bg-slate-800 border-slate-700 text-indigo-400'}`}>
+            <Mic size={36} />
+          </div>
         </div>
-        <h3 className="text-xl font-bold text-white mb-2">Feature Locked</h3>
-        <p className="text-slate-400 mb-6">
-          The Real-time Voice Strategy feature requires a dedicated secure WebSocket token server which is not currently provisioned in this environment.
-        </p>
-        <p className="text-xs text-slate-500 mb-6">
-          Security Protocol 4.2: Client-side API key usage is restricted for Live API.
+        <h3 className="text-lg font-bold text-white">{persona.jobTitle}</h3>
+        <p className="text-xs text-slate-400 mb-4">
+          {scenarioLabel(setup.scenario)} · {difficultyLabel(setup.difficulty)}
+          {callState === 'live' && <span className="ml-2 font-mono text-emerald-400">{formatElapsed(elapsed)}</span>}
         </p>
-        <Button onClick={onClose} variant="secondary">
-          Close Session
-        </Button>
+
+        <div className="bg-slate-950 border border-slate-800 rounded-lg h-48 overflow-y-auto custom-scrollbar p-3 text-left space-y-2 mb-6">
+          {transcript.length === 0 && (
+            <p className="text-xs text-slate-500 text-center mt-16">
+              {callState === 'live' ? 'Say hello. The prospect is on the line.' : 'Start the call and talk as you would on a real sales call. Use headphones to avoid echo.'}
+            </p>
+          )}
+          {transcript.map((msg, i) => (
+            <div key={i} className={`text-sm ${msg.role === 'user' ? 'text-indigo-300' : 'text-slate-300'}`}>
+              <span className="text-[10px] uppercase font-bold text-slate-500 mr-2">{msg.role === 'user' ? 'You' : 'Prospect'}</span>{msg.text}
+            </div>
+          ))}
+          <div ref={transcriptEndRef} />
+        </div>
+
+        {callState === 'live' ? (
+          <Button onClick={() => liveService.disconnect()} variant="outline" className="mx-auto border-red-500/50 text-red-400 hover:bg-red-500/10">
+            <PhoneOff size={16} /> Hang Up
+          </Button>
+        ) : (
+          <Button onClick={startCall} isLoading={callState === 'connecting'} className="mx-auto">
+            <Phone size={16} /> Start Call <CostHint agent="live_voice" className="ml-1" />
+          </Button>
+        )}
       </div>
     </Modal>
   );
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { LeadMagnet, MagnetContentDraft, MagnetContentSection } from '../types';
+import { regenerateMagnetSection, magnetDraftToMarkdown } from '../services/geminiService';
+import { Button } from './Shared';
+import { RefreshCw, Save, Copy, Loader, Wand2 } from 'lucide-react';
+import { notify } from '../services/notificationService';
+import { notifyAIError } from '../services/aiErrors';
+
+interface MagnetContentEditorProps {
+  magnet: LeadMagnet & { contentDraft: MagnetContentDraft };
+  onSave: (draft: MagnetContentDraft) => void;
+  onRedraftAll: () => void;
+}
+
+export const MagnetContentEditor: React.FC<MagnetContentEditorProps> = ({ magnet, onSave, onRedraftAll }) => {
+  const [draft, setDraft] = useState<MagnetContentDraft>(magnet.contentDraft);
+  const [isDirty, setIsDirty] = useState(false);
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+  const [instructionsFor, setInstructionsFor] = useState<string | null>(null);
+  const [instructions, setInstructions] = useState('');
+
+  const update = (changes: Partial<MagnetContentDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes, updatedAt: Date.now() }));
+    setIsDirty(true);
+  };
+
+  const updateSection = (id: string, changes: Partial<MagnetContentSection>) => {
+    update({ sections: draft.sections.map(s => s.id === id ? { ...s, ...changes } : s) });
+  };
+
+  const handleRegenerate = async (section: MagnetContentSection) => {
+    setRegeneratingId(section.id);
+    try {
+      const body = await regenerateMagnetSection(magnet, draft, section.id, instructionsFor === section.id ? instructions : undefined);
+      const next = { ...draft, sections: draft.sections.map(s => s.id === section.id ? { ...s, body } : s), updatedAt: Date.now() };
+      setDraft(next);
+      // Regenerated sections are saved straight away so billed output is never lost
+      onSave(next);
+      setIsDirty(false);
+      setInstructionsFor(null);
+      setInstructions('');
+      notify.success(`"${section.heading}" rewritten`);
+    } catch (e) {
+      notifyAIError(e, "Failed to regenerate section");
+    } finally {
+      setRegeneratingId(null);
+    }
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    setIsDirty(false);
+    notify.success("Content saved");
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(magnetDraftToMarkdown({ ...magnet, contentDraft: draft }));
+    notify.success("Copied as Markdown");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-2 sticky -top-6 -mt-6 pt-6 pb-3 bg-slate-900 z-10 border-b border-slate-800">
+        <span className="text-xs text-slate-500">{draft.sections.length} sections · last edited {new Date(draft.updatedAt).toLocaleString()}</span>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleCopy} className="text-xs h-8"><Copy size={14} /> Copy Markdown</Button>
+          <Button variant="outline" onClick={onRedraftAll} disabled={!!regeneratingId} className="text-xs h-8"><RefreshCw size={14} /> Redraft All</Button>
+          <Button onClick={handleSave} disabled={!isDirty} className="text-xs h-8"><Save size={14} /> Save</Button>
+        </div>
+      </div>
+
+      <div>
+        <label className="text-indigo-400 text-xs font-bold uppercase mb-2 block">Introduction</label>
+        <textarea
+          value={draft.intro}
+          onChange={(e) => update({ intro: e.target.value })}
+          className="w-full h-24 bg-slate-950 border border-slate-700 rounded-lg p-3 text-slate-200 text-sm outline-none focus:border-indigo-500"
+        />
+      </div>
+
+      {draft.sections.map((section, idx) => (
+        <div key={section.id} className="bg-slate-950 border border-slate-800 rounded-lg p-4">
+          <div className="flex items-center gap-3 mb-2">
+            <span className="text-xs font-bold text-slate-500 w-6">{idx + 1}.</span>
+            <input
+              type="text"
+              value={section.heading}
+              onChange={(e) => updateSection(section.id, { heading: e.target.value })}
+              className="flex-1 bg-transparent border-b border-transparent hover:border-slate-700 focus:border-indigo-500 text-white font-bold outline-none py-1"
+            />
+            <button
+              onClick={() => setInstructionsFor(instructionsFor === section.id ? null : section.id)}
+              className={`p-1.5 rounded ${instructionsFor === section.id ? 'text-indigo-400 bg-indigo-500/10' : 'text-slate-500 hover:text-white'}`}
+              title="Add instructions for the rewrite"
+            >
+              <Wand2 size={14} />
+            </button>
+            <Button variant="secondary" onClick={() => handleRegenerate(section)} disabled={!!regeneratingId} className="text-xs h-8 px-3">
+              {regeneratingId === section.id ? <Loader className="animate-spin" size={14} /> : <RefreshCw size={14} />}
+              {regeneratingId === section.id ? 'Rewriting...' : 'Regenerate'}
+            </Button>
+          </div>
+          <p className="text-xs text-slate-500 mb-3 ml-9">{section.summary}</p>
+          {instructionsFor === section.id && (
+            <input
+              type="text"
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              placeholder="e.g. Shorter, add a Lagos case study, more actionable"
+              className="w-full bg-slate-900 border border-indigo-500/40 rounded px-3 py-2 text-sm text-white outline-none focus:border-indigo-500 mb-3"
+            />
+          )}
+          <textarea
+            value={section.body}
+            onChange={(e) => updateSection(section.id, { body: e.target.value })}
+            placeholder="This section has not been written yet. Regenerate it or write your own."
+            className="w-full h-56 bg-slate-900 border border-slate-700 rounded-lg p-3 text-slate-200 text-sm font-serif leading-relaxed outline-none focus:border-indigo-500"
+          />
+        </div>
+      ))}
+
+      <div>
+        <label className="text-indigo-400 text-xs font-bold uppercase mb-2 block">Closing & Call to Action</label>
+        <textarea
+          value={draft.conclusion}
+          onChange={(e) => update({ conclusion: e.target.value })}
+          className="w-full h-24 bg-slate-950 border border-slate-700 rounded-lg p-3 text-slate-200 text-sm outline-none focus:border-indigo-500"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { ObjectionCategory, ObjectionEntry, ObjectionRebuttal, ProjectData } from '../types';
+import { handleObjection } from '../services/geminiService';
+import { Button } from './Shared';
+import { ShieldAlert, Zap, Copy, Check, Trash2, ThumbsUp, ThumbsDown, FileDown, RefreshCw, ChevronDown, ChevronRight } from 'lucide-react';
+import { notify } from '../services/notificationService';
+import { notifyAIError } from '../services/aiErrors';
+import { OBJECTION_CATEGORIES, readObjectionLibrary, upsertObjection, findObjection, winRate, rankRebuttals, categoryLabel } from '../utils/objections';
+import { printBattleCard } from '../utils/battleCard';
+
+interface ObjectionLibraryProps {
+  data: ProjectData;
+  onUpdate: (updates: Partial<ProjectData>) => void;
+}
+
+const RebuttalRow: React.FC<{ rebuttal: ObjectionRebuttal; onLog: (won: boolean) => void }> = ({ rebuttal, onLog }) => {
+  const [copied, setCopied] = useState(false);
+  const rate = winRate(rebuttal);
+
+  const copy = () => {
+    navigator.clipboard.writeText(rebuttal.text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-slate-900/60 border border-slate-700 rounded-lg p-3 group">
+      <p className="text-sm text-slate-200">{rebuttal.text}</p>
+      <div className="flex items-center gap-3 mt-2 text-xs">
+        <span className={rate === null ? 'text-slate-500' : rate >= 50 ? 'text-emerald-400' : 'text-amber-400'}>
+          {rate === null ? 'Not used on a call yet' : `${rate}% win · ${rebuttal.timesWon}/${rebuttal.timesUsed} calls`}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          <button onClick={() => onLog(true)} className="p-1 text-slate-500 hover:text-emerald-400" title="Used on a call and won"><ThumbsUp size={12} /></button>
+          <button onClick={() => onLog(false)} className="p-1 text-slate-500 hover:text-red-400" title="Used on a call and lost"><ThumbsDown size={12} /></button>
+          <button onClick={copy} className="p-1 text-slate-500 hover:text-white" title="Copy">{copied ? <Check size={12} className="text-emerald-400" /> : <Copy size={12} />}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Objections heard on calls with their rebuttals, categorized and tracked against real call
+ * outcomes. Exports as a printable battle card for the sales team.
+ */
+export const ObjectionLibrary: React.FC<ObjectionLibraryProps> = ({ data, onUpdate }) => {
+  const library = readObjectionLibrary(data);
+
+  const [objectionInput, setObjectionInput] = useState('');
+  const [analyzing, setAnalyzing] = useState<string | null>(null); // Objection text being answered
+  const [filter, setFilter] = useState<ObjectionCategory | 'all'>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const save = (next: ObjectionEntry[]) => onUpdate({ objectionLibrary: next });
+
+  const updateEntry = (id: string, changes: Partial<ObjectionEntry>) => {
+    save(library.map(entry => entry.id === id ? { ...entry, ...changes, updatedAt: Date.now() } : entry));
+  };
+
+  const generateRebuttals = async (objection: string) => {
+    setAnalyzing(objection);
+    try {
+      const rebuttals = await handleObjection(objection, data.productName, data.persona!);
+      const next = upsertObjection(library, objection, rebuttals);
+      save(next);
+      setExpandedId(findObjection(next, objection)?.id || null);
+      return true;
+    } catch (e) {
+      notifyAIError(e, "Analysis failed");
+      return false;
+    } finally {
+      setAnalyzing(null);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const objection = objectionInput.trim();
+    if (!objection) return;
+    if (await generateRebuttals(objection)) setObjectionInput('');
+  };
+
+  const logOutcome = (entry: ObjectionEntry, rebuttalId: string, won: boolean) => {
+    updateEntry(entry.id, {
+      rebuttals: entry.rebuttals.map(r => r.id === rebuttalId ? { ...r, timesUsed: r.timesUsed + 1, timesWon: r.timesWon + (won ? 1 : 0) } : r)
+    });
+  };
+
+  const removeEntry = (entry: ObjectionEntry) => {
+    if (!confirm(`Remove "${entry.objection}" from the library?`)) return;
+    // Legacy objections live in salesObjections too; drop them there so they do not come back
+    const salesObjections = data.salesObjections?.filter(text => text.trim().toLowerCase() !== entry.objection.toLowerCase());
+    onUpdate({
+      objectionLibrary: library.filter(e => e.id !== entry.id),
+      ...(salesObjections && salesObjections.length !== data.salesObjections!.length && { salesObjections })
+    });
+  };
+
+  const handleExport = () => {
+    if (!printBattleCard(data.productName, library)) notify.error("Allow pop-ups to export the battle card");
+  };
+
+  const visible = filter === 'all' ? library : library.filter(entry => entry.category === filter);
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="font-bold text-white flex items-center gap-2"><ShieldAlert size={18} className="text-red-400" /> Objection Library</h3>
+        <Button size="sm" variant="secondary" onClick={handleExport} disabled={library.length === 0} className="text-xs h-8">
+          <FileDown size={14} /> Battle Card PDF
+        </Button>
+      </div>
+
+      <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 mb-6">
+        <label className="text-xs font-bold text-slate-400 uppercase mb-2 block">Live Rebuttal Generator</label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={objectionInput}
+            onChange={(e) => setObjectionInput(e.target.value)}
+            placeholder="e.g. 'Your price is too high'"
+            className="flex-1 bg-slate-900 border border-slate-600 rounded px-3 py-2 text-white text-sm focus:border-indigo-500 outline-none"
+            onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+          />
+          <Button size="sm" onClick={handleSubmit} disabled={!!analyzing} className={analyzing ? "opacity-50" : ""}>
+            <Zap size={16} />
+          </Button>
+        </div>
+      </div>
+
+      {library.length > 0 && (
+        <div className="flex gap-1 mb-4 overflow-x-auto">
+          {[{ id: 'all' as const, label: 'All' }, ...OBJECTION_CATEGORIES].map(category => {
+            const count = category.id === 'all' ? library.length : library.filter(e => e.category === category.id).length;
+            return (
+              <button
+                key={category.id}
+                onClick={() => setFilter(category.id)}
+                className={`px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap transition-colors ${filter === category.id ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+              >
+                {category.label} <span className="opacity-60">{count}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {visible.map(entry => {
+          const expanded = expandedId === entry.id;
+          const best = rankRebuttals(entry.rebuttals)[0];
+          const bestRate = best ? winRate(best) : null;
+          return (
+            <div key={entry.id} className="bg-slate-800 border border-slate-700 rounded-xl">
+              <button onClick={() => setExpandedId(expanded ? null : entry.id)} className="w-full text-left p-4 flex items-center gap-3">
+                {expanded ? <ChevronDown size={16} className="text-slate-500" /> : <ChevronRight size={16} className="text-slate-500" />}
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-white font-medium">"{entry.objection}"</div>
+                  <div className="text-xs text-slate-500">
+                    {categoryLabel(entry.category)} · {entry.rebuttals.length} rebuttals{bestRate !== null && ` · best ${bestRate}% win`}
+                  </div>
+                </div>
+              </button>
+
+              {expanded && (
+                <div className="px-4 pb-4 space-y-3 animate-fadeIn">
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={entry.category}
+                      onChange={(e) => updateEntry(entry.id, { category: e.target.value as ObjectionCategory })}
+                      className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 outline-none"
+                    >
+                      {OBJECTION_CATEGORIES.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                    </select>
+                    <button onClick={() => generateRebuttals(entry.objection)} disabled={!!analyzing} className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1 disabled:opacity-50">
+                      <RefreshCw size={12} className={analyzing === entry.objection ? 'animate-spin' : ''} /> {entry.rebuttals.length ? 'More rebuttals' : 'Generate rebuttals'}
+                    </button>
+                    <button onClick={() => removeEntry(entry)} className="ml-auto p-1 text-slate-500 hover:text-red-400" title="Remove"><Trash2 size={14} /></button>
+                  </div>
+
+                  {rankRebuttals(entry.rebuttals).map(rebuttal => (
+                    <RebuttalRow key={rebuttal.id} rebuttal={rebuttal} onLog={(won) => logOutcome(entry, rebuttal.id, won)} />
+                  ))}
+
+                  <textarea
+                    key={`${entry.id}-notes`}
+                    defaultValue={entry.notes || ''}
+                    onBlur={(e) => e.target.value !== (entry.notes || '') && updateEntry(entry.id, { notes: e.target.value })}
+                    placeholder="Notes from real calls: what worked, what did not, who says this..."
+                    className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-xs text-slate-300 outline-none focus:border-indigo-500 h-16 resize-none"
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {library.length === 0 && <div className="text-center py-8 text-slate-500 text-sm">Objections you answer are saved here with their rebuttals.</div>}
+      </div>
+    </div>
+  );
+};
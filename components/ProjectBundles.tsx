@@ -0,0 +1,246 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Project, ProjectTransferOffer, ProjectTransfers } from '../types';
+import { Button, Modal } from './Shared';
+import { FileUp, Send, AlertTriangle, Package, Inbox, Check, X } from 'lucide-react';
+import { storageService } from '../services/storageService';
+import { notify } from '../services/notificationService';
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-2.5 text-white text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none";
+
+/** Downloads the project as a .meti bundle (project data plus the images it links to). */
+export const downloadProjectBundle = async (projectId: string) => {
+  try {
+    const { blob, filename } = await storageService.exportBundle(projectId);
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  } catch (e: any) {
+    notify.error(e.message || "Failed to export project");
+  }
+};
+
+interface BundlePreview {
+  name: string;
+  images: number;
+  exportedAt?: string | number;
+}
+
+// Read locally so the user can check the file before uploading; the server does the real validation
+const previewBundle = (text: string): BundlePreview | null => {
+  try {
+    const raw = JSON.parse(text);
+    const name = raw?.project?.name || raw?.name;
+    if (typeof name !== 'string') return null;
+    return { name, images: Array.isArray(raw.assets) ? raw.assets.length : 0, exportedAt: raw.exportedAt || raw.updatedAt };
+  } catch (e) {
+    return null;
+  }
+};
+
+interface ImportProjectModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (project: Project) => void;
+}
+
+export const ImportProjectModal: React.FC<ImportProjectModalProps> = ({ isOpen, onClose, onImported }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<BundlePreview | null>(null);
+  const [importing, setImporting] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setFile(null);
+      setPreview(null);
+    }
+  }, [isOpen]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+    const parsed = previewBundle(await selected.text());
+    if (!parsed) {
+      notify.error("That file is not a Meti project bundle");
+      return;
+    }
+    setFile(selected);
+    setPreview(parsed);
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setImporting(true);
+    try {
+      const { project, migratedFrom, assets } = await storageService.importBundle(file);
+      const upgraded = migratedFrom ? ' (upgraded from an older format)' : '';
+      notify.success(`Imported "${project.name}"${assets ? ` with ${assets} images` : ''}${upgraded}`);
+      onImported(project);
+    } catch (e: any) {
+      notify.error(e.message || "Import failed");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Import Project">
+      <div className="space-y-6">
+        <p className="text-sm text-slate-400">
+          Import a <span className="font-mono text-slate-300">.meti</span> bundle exported from Meti, from this account or another one. It becomes a new project; nothing existing is overwritten.
+        </p>
+
+        <input ref={inputRef} type="file" accept=".meti,.json,application/json" onChange={handleFile} className="hidden" />
+        {preview ? (
+          <div className="bg-slate-800 border border-slate-700 rounded-lg p-4 flex items-center gap-4">
+            <div className="w-10 h-10 rounded-lg bg-indigo-500/10 text-indigo-400 flex items-center justify-center flex-shrink-0"><Package size={20} /></div>
+            <div className="flex-1 min-w-0">
+              <div className="text-white font-bold truncate">{preview.name}</div>
+              <div className="text-xs text-slate-500">
+                {file?.name} · {preview.images} {preview.images === 1 ? 'image' : 'images'}
+                {preview.exportedAt && ` · exported ${new Date(preview.exportedAt).toLocaleDateString()}`}
+              </div>
+            </div>
+            <button onClick={() => inputRef.current?.click()} className="text-xs text-indigo-400 hover:text-indigo-300">Change</button>
+          </div>
+        ) : (
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="w-full border-2 border-dashed border-slate-700 hover:border-indigo-500 rounded-xl p-8 text-center text-slate-400 hover:text-white transition-colors"
+          >
+            <FileUp size={28} className="mx-auto mb-2" />
+            Choose a .meti file
+          </button>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleImport} isLoading={importing} disabled={!file}>Import Project</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+interface TransferProjectModalProps {
+  project: Project | null;
+  onClose: () => void;
+  onOffered: (offer: ProjectTransferOffer) => void;
+}
+
+/** Offers a project to another Meti account. It moves, and the sender loses access, once they accept. */
+export const TransferProjectModal: React.FC<TransferProjectModalProps> = ({ project, onClose, onOffered }) => {
+  const [email, setEmail] = useState('');
+  const [confirmName, setConfirmName] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    setEmail('');
+    setConfirmName('');
+  }, [project]);
+
+  if (!project) return null;
+
+  const handleTransfer = async () => {
+    setSending(true);
+    try {
+      const offer = await storageService.transfer(project.id, email.trim());
+      notify.success(`Offer sent to ${offer.toEmail}. "${project.name}" moves when they accept.`);
+      onOffered(offer);
+    } catch (e: any) {
+      notify.error(e.message || "Transfer failed");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!project} onClose={onClose} title="Move Project to Another Account">
+      <div className="space-y-6">
+        <div className="flex gap-3 bg-amber-500/10 border border-amber-500/30 rounded-lg p-4">
+          <AlertTriangle size={20} className="text-amber-400 flex-shrink-0" />
+          <p className="text-sm text-slate-300">
+            The other account is asked to accept the project. Once they do, it moves with its history and images and disappears from yours, and its client assignment is removed. To keep a copy, export it first.
+          </p>
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Receiving account email</label>
+          <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="colleague@agency.com" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Type <span className="text-white normal-case">{project.name}</span> to confirm</label>
+          <input value={confirmName} onChange={(e) => setConfirmName(e.target.value)} className={inputClass} />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={() => downloadProjectBundle(project.id)}>Export First</Button>
+          <Button onClick={handleTransfer} isLoading={sending} disabled={!email.includes('@') || confirmName !== project.name}>
+            <Send size={16} /> Send Offer
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+interface PendingTransfersProps {
+  transfers: ProjectTransfers;
+  onChange: () => void; // Reload the offers
+  onAccepted: (project: Project) => void;
+}
+
+/** Projects offered to this account, with accept/decline, and this account's unanswered offers. */
+export const PendingTransfers: React.FC<PendingTransfersProps> = ({ transfers, onChange, onAccepted }) => {
+  const [busy, setBusy] = useState<string | null>(null);
+
+  if (!transfers.incoming.length && !transfers.outgoing.length) return null;
+
+  const respond = async (offer: ProjectTransferOffer, action: 'accept' | 'decline' | 'cancel') => {
+    setBusy(offer.id);
+    try {
+      if (action === 'accept') {
+        const project = await storageService.acceptTransfer(offer.id);
+        notify.success(`"${project.name}" is now in your projects`);
+        onAccepted(project);
+      } else if (action === 'decline') {
+        await storageService.declineTransfer(offer.id);
+      } else {
+        await storageService.cancelTransfer(offer.id);
+      }
+    } catch (e: any) {
+      notify.error(e.message || "Failed to update the transfer");
+    } finally {
+      setBusy(null);
+      onChange();
+    }
+  };
+
+  return (
+    <div className="mb-8 bg-slate-800/50 border border-indigo-500/30 rounded-xl p-4 space-y-3">
+      <div className="flex items-center gap-2 text-sm font-bold text-white"><Inbox size={16} className="text-indigo-400" /> Project transfers</div>
+      {transfers.incoming.map(offer => (
+        <div key={offer.id} className="flex flex-col md:flex-row md:items-center gap-3 bg-slate-900 rounded-lg p-3">
+          <div className="flex-1 text-sm text-slate-300">
+            <span className="text-white font-bold">{offer.fromEmail}</span> wants to send you <span className="text-white font-bold">"{offer.projectName}"</span>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="secondary" onClick={() => respond(offer, 'decline')} disabled={busy === offer.id}><X size={14} /> Decline</Button>
+            <Button size="sm" onClick={() => respond(offer, 'accept')} isLoading={busy === offer.id}><Check size={14} /> Accept</Button>
+          </div>
+        </div>
+      ))}
+      {transfers.outgoing.map(offer => (
+        <div key={offer.id} className="flex flex-col md:flex-row md:items-center gap-3 bg-slate-900 rounded-lg p-3">
+          <div className="flex-1 text-sm text-slate-400">
+            "{offer.projectName}" offered to <span className="text-slate-300">{offer.toEmail}</span>, waiting for them to accept
+          </div>
+          <Button size="sm" variant="outline" onClick={() => respond(offer, 'cancel')} isLoading={busy === offer.id}>Cancel Offer</Button>
+        </div>
+      ))}
+    </div>
+  );
+};
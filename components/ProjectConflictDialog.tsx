@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import { Project, ProjectData } from '../types';
+import { Button, Modal } from './Shared';
+import { AlertTriangle, Users } from 'lucide-react';
+import { describeFieldChange, diffProjectData, fieldLabel, FieldChange } from '../utils/projectDiff';
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+/** A rejected save: what this tab tried to save, what it started from, and the server's project now. */
+export interface ProjectConflict {
+  base: ProjectData;
+  local: Partial<ProjectData>;
+  remote: Project;
+  conflicts: (keyof ProjectData)[];
+}
+
+interface ProjectConflictDialogProps {
+  conflict: ProjectConflict | null;
+  onResolve: (choices: Partial<Record<keyof ProjectData, ConflictChoice>>) => void;
+}
+
+const ChangeDetails: React.FC<{ change: FieldChange | null; emptyText: string }> = ({ change, emptyText }) => (
+  change ? (
+    <div>
+      <div className="text-xs text-slate-300">{change.summary}</div>
+      {change.details.length > 0 && (
+        <ul className="mt-1 space-y-0.5">
+          {change.details.map((line, i) => <li key={i} className="text-[11px] text-slate-500 font-mono truncate">{line}</li>)}
+        </ul>
+      )}
+    </div>
+  ) : <div className="text-xs text-slate-500 italic">{emptyText}</div>
+);
+
+/**
+ * Shown when a save collides with a teammate's (or another tab's) save to the same sections.
+ * Their other changes are merged automatically; each colliding section is kept from one side.
+ */
+export const ProjectConflictDialog: React.FC<ProjectConflictDialogProps> = ({ conflict, onResolve }) => {
+  const [choices, setChoices] = useState<Partial<Record<keyof ProjectData, ConflictChoice>>>({});
+
+  useEffect(() => {
+    setChoices({});
+  }, [conflict?.remote]);
+
+  if (!conflict) return null;
+  const { base, local, remote, conflicts } = conflict;
+  const remoteOnly = diffProjectData(base, remote.data).filter(change => !conflicts.includes(change.key));
+  const choiceFor = (key: keyof ProjectData): ConflictChoice => choices[key] || 'theirs';
+  const setAll = (choice: ConflictChoice) => setChoices(Object.fromEntries(conflicts.map(key => [key, choice])));
+
+  return (
+    <Modal isOpen={!!conflict} onClose={() => onResolve({})} title="Project Changed Elsewhere">
+      <div className="space-y-6">
+        <div className="flex gap-3 bg-amber-500/10 border border-amber-500/30 rounded-lg p-4">
+          <AlertTriangle size={20} className="text-amber-400 flex-shrink-0" />
+          <p className="text-sm text-slate-300">
+            Someone else saved this project while you were editing. Choose which version to keep for each section you both changed.
+          </p>
+        </div>
+
+        <section>
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="text-xs font-bold text-slate-400 uppercase">Changed by both</h4>
+            <div className="flex gap-2 text-xs">
+              <button onClick={() => setAll('mine')} className="text-indigo-400 hover:text-indigo-300">Keep all mine</button>
+              <span className="text-slate-600">·</span>
+              <button onClick={() => setAll('theirs')} className="text-indigo-400 hover:text-indigo-300">Use all theirs</button>
+            </div>
+          </div>
+          <div className="space-y-3">
+            {conflicts.map(key => (
+              <div key={key} className="bg-slate-800 border border-slate-700 rounded-lg p-4">
+                <div className="text-sm font-bold text-white mb-3">{fieldLabel(key)}</div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {(['theirs', 'mine'] as ConflictChoice[]).map(side => (
+                    <button
+                      key={side}
+                      onClick={() => setChoices(prev => ({ ...prev, [key]: side }))}
+                      className={`text-left p-3 rounded-lg border transition-colors ${choiceFor(key) === side ? 'border-indigo-500 bg-indigo-900/20' : 'border-slate-700 bg-slate-900/50 hover:border-slate-600'}`}
+                    >
+                      <div className="text-[10px] font-bold uppercase text-slate-400 mb-1">{side === 'theirs' ? 'Their version' : 'Your version'}</div>
+                      <ChangeDetails
+                        change={describeFieldChange(key, base[key], side === 'theirs' ? remote.data[key] : local[key])}
+                        emptyText="Unchanged"
+                      />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {remoteOnly.length > 0 && (
+          <section>
+            <h4 className="text-xs font-bold text-slate-400 uppercase mb-3 flex items-center gap-2"><Users size={12} /> Also changed remotely (merged automatically)</h4>
+            <div className="space-y-2">
+              {remoteOnly.map(change => (
+                <div key={change.key} className="bg-slate-800/50 border border-slate-800 rounded-lg p-3">
+                  <div className="text-xs font-bold text-slate-300 mb-1">{change.label}</div>
+                  <ChangeDetails change={change} emptyText="" />
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={() => onResolve({})}>Use Their Versions</Button>
+          <Button onClick={() => onResolve(Object.fromEntries(conflicts.map(key => [key, choiceFor(key)])))}>Save Resolution</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,246 @@
+import React, { useState, useEffect } from 'react';
+import { Client, Project, ProjectTemplate } from '../types';
+import { Button, Modal, Spinner } from './Shared';
+import { BookmarkPlus, Copy, LayoutTemplate, Trash2, ArrowRight } from 'lucide-react';
+import { storageService } from '../services/storageService';
+import { notify } from '../services/notificationService';
+import { PROJECT_SECTIONS, ProjectSection, ProjectSectionId, sectionKeys, sectionLabels, sectionsWithContent } from '../utils/projectSections';
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-2.5 text-white text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none";
+
+const SectionPicker: React.FC<{
+  sections: ProjectSection[];
+  selected: ProjectSectionId[];
+  onChange: (selected: ProjectSectionId[]) => void;
+}> = ({ sections, selected, onChange }) => (
+  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+    {sections.map(section => (
+      <label key={section.id} className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${selected.includes(section.id) ? 'border-indigo-500 bg-indigo-900/20' : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'}`}>
+        <input
+          type="checkbox"
+          checked={selected.includes(section.id)}
+          onChange={(e) => onChange(e.target.checked ? [...selected, section.id] : selected.filter(id => id !== section.id))}
+          className="accent-indigo-500"
+        />
+        <span className="text-sm text-slate-200">{section.label}</span>
+      </label>
+    ))}
+  </div>
+);
+
+const SAME_CLIENT = '__same';
+
+interface DuplicateProjectModalProps {
+  project: Project | null;
+  onClose: () => void;
+  onDuplicated: (project: Project) => void;
+}
+
+/** Copies a project's product and chosen sections into a new project, optionally for another client. */
+export const DuplicateProjectModal: React.FC<DuplicateProjectModalProps> = ({ project, onClose, onDuplicated }) => {
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState<ProjectSectionId[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [clientChoice, setClientChoice] = useState(SAME_CLIENT);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!project) return;
+    setName(`${project.name} (Copy)`);
+    setSelected(sectionsWithContent(project.data).filter(section => section.reusable).map(section => section.id));
+    setClientChoice(SAME_CLIENT);
+    storageService.getClients().then(setClients).catch(() => setClients([]));
+  }, [project]);
+
+  if (!project) return null;
+  const available = sectionsWithContent(project.data);
+
+  const handleDuplicate = async () => {
+    const client = clients.find(c => c.id === clientChoice);
+    const target = clientChoice === SAME_CLIENT
+      ? { clientName: project.client, clientId: project.clientId }
+      : { clientName: client?.name || '', clientId: client?.id || '' };
+    setSaving(true);
+    try {
+      const copy = await storageService.duplicate(project.id, name.trim(), sectionKeys(selected), target.clientName, target.clientId);
+      notify.success(`Created "${copy.name}"`);
+      onDuplicated(copy);
+    } catch (e: any) {
+      notify.error(e.message || "Failed to duplicate project");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!project} onClose={onClose} title="Duplicate Project">
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-bold text-slate-400 uppercase mb-2">New project name</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Client</label>
+            <select value={clientChoice} onChange={(e) => setClientChoice(e.target.value)} className={inputClass}>
+              <option value={SAME_CLIENT}>{project.client ? `Same client (${project.client})` : 'Same as original (none)'}</option>
+              <option value="">No client</option>
+              {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Sections to copy</label>
+          <p className="text-xs text-slate-500 mb-3">The product details are always copied. Connected ad accounts, CRMs and roleplay sessions are not.</p>
+          {available.length > 0
+            ? <SectionPicker sections={available} selected={selected} onChange={setSelected} />
+            : <p className="text-sm text-slate-500 italic">Nothing has been generated in this project yet.</p>}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleDuplicate} isLoading={saving} disabled={!name.trim()}>
+            <Copy size={16} /> Duplicate
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+interface SaveTemplateModalProps {
+  project: Project | null;
+  onClose: () => void;
+}
+
+/** Saves a project's reusable strategy sections to the template library. */
+export const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({ project, onClose }) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [selected, setSelected] = useState<ProjectSectionId[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!project) return;
+    setName(project.data.selectedNiche ? `${project.data.selectedNiche.name} Playbook` : `${project.name} Template`);
+    setDescription('');
+    setSelected(sectionsWithContent(project.data, PROJECT_SECTIONS.filter(section => section.reusable)).map(section => section.id));
+  }, [project]);
+
+  if (!project) return null;
+  const available = sectionsWithContent(project.data, PROJECT_SECTIONS.filter(section => section.reusable));
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const template = await storageService.createTemplate(project.id, name.trim(), sectionKeys(selected, { forTemplate: true }), description.trim() || undefined);
+      notify.success(`Saved template "${template.name}"`);
+      onClose();
+    } catch (e: any) {
+      notify.error(e.message || "Failed to save template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!project} onClose={onClose} title="Save as Template">
+      <div className="space-y-6">
+        <div className="space-y-4">
+          <div>
+            <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Template name</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-400 uppercase mb-2">When to use it (optional)</label>
+            <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="e.g. Dental clinics selling whitening packages" className={inputClass} />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Sections to include</label>
+          {available.length > 0
+            ? <SectionPicker sections={available} selected={selected} onChange={setSelected} />
+            : <p className="text-sm text-slate-500 italic">Generate a niche, persona, magnets, sequences or landing page first.</p>}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} isLoading={saving} disabled={!name.trim() || selected.length === 0}>
+            <BookmarkPlus size={16} /> Save Template
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+interface TemplateLibraryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onUse: (template: ProjectTemplate) => void;
+}
+
+/** Saved templates; using one starts a new project pre-filled with its sections. */
+export const TemplateLibrary: React.FC<TemplateLibraryProps> = ({ isOpen, onClose, onUse }) => {
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setLoading(true);
+    storageService.getTemplates()
+      .then(setTemplates)
+      .catch(() => notify.error("Failed to load templates"))
+      .finally(() => setLoading(false));
+  }, [isOpen]);
+
+  const handleDelete = async (template: ProjectTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"? Projects created from it are not affected.`)) return;
+    try {
+      await storageService.deleteTemplate(template.id);
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+    } catch (e) {
+      notify.error("Failed to delete template");
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Template Library">
+      {loading ? <div className="flex justify-center py-12"><Spinner /></div> : templates.length === 0 ? (
+        <div className="text-center py-12 text-slate-500 text-sm">
+          <LayoutTemplate size={32} className="mx-auto mb-3 opacity-50" />
+          No templates yet. Use "Save as template" on a project to reuse its niche, persona, magnets, sequences and landing copy.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {templates.map(template => (
+            <div key={template.id} className="bg-slate-800 border border-slate-700 rounded-lg p-4 flex flex-col">
+              <div className="flex items-start justify-between gap-2 mb-1">
+                <h4 className="text-white font-bold">{template.name}</h4>
+                <button onClick={() => handleDelete(template)} className="text-slate-600 hover:text-red-400 p-1" title="Delete template">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              {template.description && <p className="text-sm text-slate-400 mb-2">{template.description}</p>}
+              <div className="flex flex-wrap gap-1 mb-3">
+                {sectionLabels(template.sections).map(label => (
+                  <span key={label} className="text-[10px] bg-slate-900 border border-slate-700 text-slate-300 px-2 py-0.5 rounded">{label}</span>
+                ))}
+              </div>
+              <div className="flex items-center justify-between mt-auto pt-2 border-t border-slate-700/50">
+                <span className="text-[11px] text-slate-500 truncate">
+                  {template.sourceProjectName ? `From ${template.sourceProjectName} · ` : ''}{new Date(template.createdAt).toLocaleDateString()}
+                </span>
+                <Button size="sm" onClick={() => onUse(template)}>
+                  Use <ArrowRight size={14} />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Modal>
+  );
+};
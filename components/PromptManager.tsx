@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { adminService } from '../services/adminService';
+import { AgentPromptSummary, AgentPromptDetail, PromptVersion } from '../types';
+import { Button, Card, Spinner } from './Shared';
+import { FileCode, Pin, PinOff, RotateCcw, Eye, Upload, CheckCircle2 } from 'lucide-react';
+import { notify } from '../services/notificationService';
+
+const SAMPLE_PAYLOAD = {
+  productName: 'Acme CRM',
+  description: 'CRM for independent dental clinics',
+  niche: 'Dental Clinics',
+  persona: { jobTitle: 'Practice Owner' },
+  topic: 'Spring promotion',
+  goal: 'Book demos'
+};
+
+const versionLabel = (version: number) => version === 0 ? 'Built-in' : `v${version}`;
+
+export const PromptManager: React.FC = () => {
+  const [catalog, setCatalog] = useState<AgentPromptSummary[]>([]);
+  const [selectedAgent, setSelectedAgent] = useState<string | null>(null);
+  const [detail, setDetail] = useState<AgentPromptDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  // Editor State
+  const [draftTemplate, setDraftTemplate] = useState('');
+  const [draftNotes, setDraftNotes] = useState('');
+  const [samplePayload, setSamplePayload] = useState(JSON.stringify(SAMPLE_PAYLOAD, null, 2));
+  const [preview, setPreview] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCatalog();
+  }, []);
+
+  useEffect(() => {
+    if (selectedAgent) loadDetail(selectedAgent);
+  }, [selectedAgent]);
+
+  const loadCatalog = async () => {
+    try {
+      const data = await adminService.getPromptCatalog();
+      setCatalog(data);
+      if (!selectedAgent && data.length > 0) setSelectedAgent(data[0].agent);
+    } catch (e) {
+      notify.error("Failed to load prompt catalog");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadDetail = async (agent: string) => {
+    try {
+      const data = await adminService.getPromptVersions(agent);
+      setDetail(data);
+      const live = data.versions.find(v => v.version === data.liveVersion);
+      setDraftTemplate(live?.template || '');
+      setDraftNotes('');
+      setPreview(null);
+    } catch (e) {
+      notify.error("Failed to load prompt versions");
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, successMessage: string) => {
+    if (!selectedAgent) return;
+    setBusy(true);
+    try {
+      await action();
+      notify.success(successMessage);
+      await Promise.all([loadDetail(selectedAgent), loadCatalog()]);
+    } catch (e: any) {
+      notify.error(e.message || "Action failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePublish = () => runAction(
+    () => adminService.publishPrompt(selectedAgent!, draftTemplate, draftNotes || undefined),
+    detail?.pinnedVersion !== null ? "Version saved. A pinned version is still live." : "New version is live"
+  );
+
+  const handlePin = (version: PromptVersion) => runAction(
+    () => adminService.pinPromptVersion(selectedAgent!, version.version),
+    `Pinned ${versionLabel(version.version)}`
+  );
+
+  const handleUnpin = () => runAction(
+    () => adminService.pinPromptVersion(selectedAgent!, null),
+    "Following latest version"
+  );
+
+  const handleRollback = () => {
+    if (!confirm(`Roll back ${selectedAgent} to the previous prompt version?`)) return;
+    runAction(() => adminService.rollbackPrompt(selectedAgent!), "Rolled back");
+  };
+
+  const handlePreview = async () => {
+    if (!selectedAgent) return;
+    try {
+      const payload = JSON.parse(samplePayload);
+      const result = await adminService.previewPrompt(selectedAgent, draftTemplate, payload);
+      setPreview(result.prompt);
+    } catch (e: any) {
+      notify.error(e instanceof SyntaxError ? "Sample payload is not valid JSON" : (e.message || "Preview failed"));
+    }
+  };
+
+  if (loading) {
+    return <div className="flex justify-center py-20"><Spinner /></div>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      {/* Agent List */}
+      <Card className="lg:col-span-1 p-0 bg-slate-800 border-slate-700 overflow-hidden">
+        <div className="p-4 border-b border-slate-700">
+          <h3 className="font-bold text-white flex items-center gap-2"><FileCode size={18} className="text-indigo-400" /> AI Agents</h3>
+        </div>
+        <div className="max-h-[640px] overflow-y-auto custom-scrollbar p-2 space-y-1">
+          {catalog.map(item => (
+            <button
+              key={item.agent}
+              onClick={() => setSelectedAgent(item.agent)}
+              className={`w-full text-left p-3 rounded-lg border transition-all ${selectedAgent === item.agent ? 'bg-indigo-900/20 border-indigo-500/50' : 'bg-slate-900/50 border-slate-700 hover:border-slate-600'}`}
+            >
+              <div className="font-mono text-sm text-white">{item.agent}</div>
+              <div className="text-xs text-slate-400 mt-1 flex items-center gap-2">
+                Live: {versionLabel(item.liveVersion)}
+                {item.pinnedVersion !== null && <Pin size={10} className="text-amber-400" />}
+                <span className="ml-auto">{item.versionCount} saved</span>
+              </div>
+            </button>
+          ))}
+        </div>
+      </Card>
+
+      {/* Version History & Editor */}
+      <div className="lg:col-span-3 space-y-6">
+        {detail && (
+          <>
+            <Card className="bg-slate-800 border-slate-700">
+              <div className="flex justify-between items-center mb-4">
+                <div>
+                  <h3 className="font-bold text-white font-mono">{detail.agent}</h3>
+                  <p className="text-xs text-slate-400">
+                    {detail.pinnedVersion !== null ? `Pinned to ${versionLabel(detail.pinnedVersion)}` : 'Following the latest version'}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {detail.pinnedVersion !== null && (
+                    <Button variant="outline" onClick={handleUnpin} disabled={busy} className="text-xs h-8"><PinOff size={14} /> Unpin</Button>
+                  )}
+                  <Button variant="secondary" onClick={handleRollback} disabled={busy || detail.liveVersion === 0} className="text-xs h-8"><RotateCcw size={14} /> Roll Back</Button>
+                </div>
+              </div>
+              <div className="space-y-2 max-h-72 overflow-y-auto custom-scrollbar">
+                {detail.versions.map(v => (
+                  <div key={v.version} className={`p-3 rounded-lg border ${v.version === detail.liveVersion ? 'border-emerald-500/40 bg-emerald-900/10' : 'border-slate-700 bg-slate-900/50'}`}>
+                    <div className="flex justify-between items-center mb-2">
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="font-bold text-white">{versionLabel(v.version)}</span>
+                        {v.version === detail.liveVersion && <span className="text-[10px] uppercase font-bold px-1.5 py-0.5 rounded bg-emerald-900/50 text-emerald-400 flex items-center gap-1"><CheckCircle2 size={10} /> Live</span>}
+                        {v.createdAt && <span className="text-xs text-slate-500">{new Date(v.createdAt).toLocaleString()}</span>}
+                      </div>
+                      <div className="flex gap-2">
+                        <button onClick={() => { setDraftTemplate(v.template); setPreview(null); }} className="text-xs text-slate-400 hover:text-white">Edit copy</button>
+                        {v.version !== detail.pinnedVersion && (
+                          <button onClick={() => handlePin(v)} disabled={busy} className="text-xs text-amber-400 hover:text-amber-300 flex items-center gap-1"><Pin size={12} /> Pin</button>
+                        )}
+                      </div>
+                    </div>
+                    <div className="font-mono text-xs text-slate-300 whitespace-pre-wrap">{v.template}</div>
+                    {v.notes && <div className="text-xs text-slate-500 mt-2 italic">{v.notes}</div>}
+                  </div>
+                ))}
+              </div>
+            </Card>
+
+            <Card className="bg-slate-800 border-slate-700">
+              <h3 className="font-bold text-white mb-1">New Version</h3>
+              <p className="text-xs text-slate-400 mb-4">
+                Use <code className="text-indigo-300">{'{{variable}}'}</code> for request fields, <code className="text-indigo-300">{'{{persona.jobTitle}}'}</code> for nested values, <code className="text-indigo-300">{'{{content:2000}}'}</code> to truncate and <code className="text-indigo-300">{'{{refinement|None}}'}</code> for defaults. The project strategy brief is sent with every prompt automatically.
+              </p>
+              <textarea
+                value={draftTemplate}
+                onChange={(e) => setDraftTemplate(e.target.value)}
+                className="w-full h-40 bg-slate-900 border border-slate-600 rounded-lg p-3 font-mono text-sm text-white outline-none focus:border-indigo-500 mb-3"
+              />
+              <input
+                type="text"
+                value={draftNotes}
+                onChange={(e) => setDraftNotes(e.target.value)}
+                placeholder="Change notes (optional)"
+                className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-indigo-500 mb-4"
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label className="text-xs text-slate-400 block mb-1">Sample Payload (JSON)</label>
+                  <textarea
+                    value={samplePayload}
+                    onChange={(e) => setSamplePayload(e.target.value)}
+                    className="w-full h-32 bg-slate-900 border border-slate-600 rounded-lg p-3 font-mono text-xs text-white outline-none focus:border-indigo-500"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-slate-400 block mb-1">Rendered Prompt</label>
+                  <div className="w-full h-32 overflow-y-auto bg-slate-950 border border-slate-700 rounded-lg p-3 font-mono text-xs text-slate-300 whitespace-pre-wrap">
+                    {preview ?? <span className="text-slate-600">Run a preview to see the final prompt.</span>}
+                  </div>
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={handlePreview} disabled={!draftTemplate.trim()}><Eye size={16} /> Preview</Button>
+                <Button onClick={handlePublish} isLoading={busy} disabled={!draftTemplate.trim()}><Upload size={16} /> Publish Version</Button>
+              </div>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
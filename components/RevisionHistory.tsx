@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from 'react';
+import { ProjectData, ProjectRevision, ProjectRevisionDetail } from '../types';
+import { Button, Modal, Spinner } from './Shared';
+import { History, RotateCcw, User as UserIcon } from 'lucide-react';
+import { storageService } from '../services/storageService';
+import { notify } from '../services/notificationService';
+import { describeFieldChange, fieldLabel } from '../utils/projectDiff';
+
+interface RevisionHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  currentVersion?: number;
+  // Restores the whole project (no section) or one section to how it was after `version`
+  onRestore: (version: number, section?: keyof ProjectData) => Promise<void>;
+}
+
+const revisionTitle = (revision: ProjectRevision) => {
+  if (revision.kind === 'created') return 'Project created';
+  if (revision.kind === 'restore') {
+    return revision.restoredSection
+      ? `Restored ${fieldLabel(revision.restoredSection)} from v${revision.restoredFrom}`
+      : `Restored project to v${revision.restoredFrom}`;
+  }
+  const labels = revision.sections.map(fieldLabel);
+  return labels.length > 2 ? `${labels.slice(0, 2).join(', ')} +${labels.length - 2} more` : labels.join(', ');
+};
+
+/**
+ * Every save is kept as a revision. Pick one to see what it changed, then bring back a single
+ * section or the whole project as it was right after that save.
+ */
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ isOpen, onClose, projectId, currentVersion, onRestore }) => {
+  const [revisions, setRevisions] = useState<ProjectRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [detail, setDetail] = useState<ProjectRevisionDetail | null>(null);
+  const [restoring, setRestoring] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setLoading(true);
+    storageService.getRevisions(projectId)
+      .then(data => {
+        setRevisions(data);
+        setSelected(prev => prev ?? data[0]?.version ?? null);
+      })
+      .catch(() => notify.error("Failed to load project history"))
+      .finally(() => setLoading(false));
+  }, [isOpen, projectId, currentVersion]);
+
+  useEffect(() => {
+    if (!isOpen || selected === null) return;
+    setDetail(null);
+    storageService.getRevision(projectId, selected)
+      .then(setDetail)
+      .catch((e: any) => notify.error(e.message || "Failed to load revision"));
+  }, [isOpen, projectId, selected, currentVersion]);
+
+  useEffect(() => {
+    if (!isOpen) setSelected(null);
+  }, [isOpen]);
+
+  const restore = async (section?: keyof ProjectData) => {
+    if (selected === null) return;
+    const what = section ? fieldLabel(section) : 'the whole project';
+    if (!confirm(`Restore ${what} to how it was at v${selected}? Your current version stays in the history.`)) return;
+    setRestoring(section || 'all');
+    try {
+      await onRestore(selected, section);
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const revision = revisions.find(r => r.version === selected);
+  const changes = revision && detail?.version === revision.version
+    ? revision.sections.map(key => ({ key, change: describeFieldChange(key, detail.before?.[key], detail.after[key]) }))
+    : [];
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Project History">
+      {loading && revisions.length === 0 ? <div className="flex justify-center py-12"><Spinner /></div> : revisions.length === 0 ? (
+        <div className="text-center py-12 text-slate-500 text-sm">
+          <History size={32} className="mx-auto mb-3 opacity-50" />
+          No saved revisions yet. Every change you save from now on can be restored here.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="space-y-1 max-h-[60vh] overflow-y-auto custom-scrollbar pr-1">
+            {revisions.map(r => (
+              <button
+                key={r.version}
+                onClick={() => setSelected(r.version)}
+                className={`w-full text-left p-3 rounded-lg border transition-colors ${selected === r.version ? 'border-indigo-500 bg-indigo-900/20' : 'border-transparent hover:bg-slate-800'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs font-mono text-slate-500">v{r.version}</span>
+                  {r.version === currentVersion && <span className="text-[10px] font-bold uppercase text-emerald-400">Current</span>}
+                </div>
+                <div className="text-sm text-white truncate">{revisionTitle(r)}</div>
+                <div className="text-[11px] text-slate-500 flex items-center gap-1 mt-0.5">
+                  <UserIcon size={10} /> {r.author.email || 'Unknown'} · {new Date(r.createdAt).toLocaleString()}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          <div className="md:col-span-2">
+            {!revision ? null : !detail ? <div className="flex justify-center py-12"><Spinner /></div> : (
+              <div className="space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h4 className="text-white font-bold">{revisionTitle(revision)}</h4>
+                    <p className="text-xs text-slate-500">
+                      {detail.restoreSections.length === 0
+                        ? 'The project currently matches this version.'
+                        : `Restoring this version would change ${detail.restoreSections.length} ${detail.restoreSections.length === 1 ? 'section' : 'sections'}.`}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="secondary" onClick={() => restore()} isLoading={restoring === 'all'} disabled={!!restoring || detail.restoreSections.length === 0}>
+                    <RotateCcw size={14} /> Restore Project
+                  </Button>
+                </div>
+
+                {!detail.before && <p className="text-xs text-slate-500 italic">Changes before this revision were not recorded.</p>}
+                <div className="space-y-3">
+                  {changes.map(({ key, change }) => (
+                    <div key={key} className="bg-slate-800 border border-slate-700 rounded-lg p-4">
+                      <div className="flex items-center justify-between gap-2 mb-2">
+                        <div className="text-sm font-bold text-white">{fieldLabel(key)}</div>
+                        {detail.restoreSections.includes(key) && (
+                          <button
+                            onClick={() => restore(key)}
+                            disabled={!!restoring}
+                            className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1 disabled:opacity-50"
+                          >
+                            <RotateCcw size={12} /> {restoring === key ? 'Restoring...' : 'Restore section'}
+                          </button>
+                        )}
+                      </div>
+                      {change ? (
+                        <>
+                          <div className="text-xs text-slate-300">{change.summary}</div>
+                          {change.details.length > 0 && (
+                            <ul className="mt-1 space-y-0.5">
+                              {change.details.map((line, i) => <li key={i} className="text-[11px] text-slate-500 font-mono truncate">{line}</li>)}
+                            </ul>
+                          )}
+                        </>
+                      ) : <div className="text-xs text-slate-500 italic">Saved without changes</div>}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
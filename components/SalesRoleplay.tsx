@@ -0,0 +1,343 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ProjectData, ChatMessage, RoleplayDifficulty, RoleplayScenario, RoleplaySession, RoleplayScorecard } from '../types';
+import { createSalesChat, scoreRoleplay, RoleplaySetup } from '../services/geminiService';
+import { Button } from './Shared';
+import { MessageCircle, Send, User as UserIcon, Award, CheckCircle2, XCircle, TrendingUp, TrendingDown, ArrowLeft, History, Phone } from 'lucide-react';
+import { notify } from '../services/notificationService';
+import { notifyAIError } from '../services/aiErrors';
+import { generateId } from '../utils/core';
+import { objectionTexts } from '../utils/objections';
+import { ROLEPLAY_SCENARIOS, ROLEPLAY_DIFFICULTIES, SKILL_LABELS, MAX_ROLEPLAY_SESSIONS, scenarioLabel, difficultyLabel, scoreTrend } from '../utils/roleplay';
+import { CostHint } from './CostHint';
+import { LiveSession } from './LiveSession';
+
+// Interface matching the helper in geminiService.ts
+interface SalesChatSession {
+  sendMessage: (msg: { message: string }) => Promise<{ text: string }>;
+}
+
+interface SalesRoleplayProps {
+  data: ProjectData;
+  onUpdate: (updates: Partial<ProjectData>) => void;
+}
+
+// A scorecard needs a few rep turns to judge
+const MIN_REP_TURNS = 2;
+
+const scoreColor = (score: number) => score >= 75 ? 'text-emerald-400' : score >= 50 ? 'text-amber-400' : 'text-red-400';
+
+const Scorecard: React.FC<{ session: RoleplaySession; onBack: () => void }> = ({ session, onBack }) => {
+  const { scorecard } = session;
+  return (
+    <div className="h-full overflow-y-auto custom-scrollbar p-6 space-y-6">
+      <button onClick={onBack} className="text-xs text-slate-400 hover:text-white flex items-center gap-1"><ArrowLeft size={12} /> Back to practice</button>
+
+      <div className="flex items-center gap-6">
+        <div className={`text-5xl font-bold ${scoreColor(scorecard.score)}`}>{scorecard.score}</div>
+        <div>
+          <div className="text-white font-bold">{scenarioLabel(session.scenario)} · {difficultyLabel(session.difficulty)}{session.channel === 'voice' && ' · Voice'}</div>
+          <div className="text-xs text-slate-500">{session.personaTitle} · {new Date(session.createdAt).toLocaleString()}</div>
+          <p className="text-sm text-slate-300 mt-2">{scorecard.summary}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {(Object.keys(SKILL_LABELS) as (keyof RoleplayScorecard['skills'])[]).map(skill => (
+          <div key={skill} className="bg-slate-800 border border-slate-700 rounded-lg p-3">
+            <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">{SKILL_LABELS[skill]}</div>
+            <div className={`text-xl font-bold ${scoreColor(scorecard.skills[skill])}`}>{scorecard.skills[skill]}</div>
+          </div>
+        ))}
+      </div>
+
+      {scorecard.qualification.length > 0 && (
+        <section>
+          <h4 className="text-xs font-bold text-slate-400 uppercase mb-3">Qualification Coverage</h4>
+          <div className="space-y-2">
+            {scorecard.qualification.map((q, i) => (
+              <div key={i} className="flex gap-3 text-sm">
+                {q.covered ? <CheckCircle2 size={16} className="text-emerald-400 flex-shrink-0 mt-0.5" /> : <XCircle size={16} className="text-red-400 flex-shrink-0 mt-0.5" />}
+                <div>
+                  <div className="text-slate-200">{q.question}</div>
+                  {q.evidence && <div className="text-xs text-slate-500 italic">"{q.evidence}"</div>}
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {scorecard.objections.some(o => o.raised) && (
+        <section>
+          <h4 className="text-xs font-bold text-slate-400 uppercase mb-3">Objection Handling</h4>
+          <div className="space-y-2">
+            {scorecard.objections.filter(o => o.raised).map((o, i) => (
+              <div key={i} className="flex gap-3 text-sm">
+                {o.handled ? <CheckCircle2 size={16} className="text-emerald-400 flex-shrink-0 mt-0.5" /> : <XCircle size={16} className="text-red-400 flex-shrink-0 mt-0.5" />}
+                <div>
+                  <div className="text-slate-200">"{o.objection}"</div>
+                  {o.feedback && <div className="text-xs text-slate-400">{o.feedback}</div>}
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <section className="bg-emerald-900/10 border border-emerald-500/20 rounded-lg p-4">
+          <h4 className="text-xs font-bold text-emerald-400 uppercase mb-2">Strengths</h4>
+          <ul className="text-sm text-slate-300 space-y-1 list-disc list-inside">{scorecard.strengths.map((s, i) => <li key={i}>{s}</li>)}</ul>
+        </section>
+        <section className="bg-amber-900/10 border border-amber-500/20 rounded-lg p-4">
+          <h4 className="text-xs font-bold text-amber-400 uppercase mb-2">Coaching</h4>
+          <ul className="text-sm text-slate-300 space-y-1 list-disc list-inside">{scorecard.improvements.map((s, i) => <li key={i}>{s}</li>)}</ul>
+        </section>
+      </div>
+
+      <details className="text-sm">
+        <summary className="text-xs font-bold text-slate-400 uppercase cursor-pointer">Transcript ({session.transcript.length} messages)</summary>
+        <div className="mt-3 space-y-2">
+          {session.transcript.map((msg, i) => (
+            <div key={i} className={msg.role === 'user' ? 'text-indigo-300' : 'text-slate-300'}>
+              <span className="text-[10px] uppercase font-bold text-slate-500 mr-2">{msg.role === 'user' ? 'You' : 'Prospect'}</span>{msg.text}
+            </div>
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+};
+
+/**
+ * Sales simulator: practice a chosen scenario against the project persona, then get a scorecard
+ * graded against the qualification framework and saved objections. Scored sessions are kept on
+ * the project so reps can see whether they are improving.
+ */
+export const SalesRoleplay: React.FC<SalesRoleplayProps> = ({ data, onUpdate }) => {
+  const persona = data.persona!;
+  const sessions = data.roleplaySessions || [];
+
+  const [scenario, setScenario] = useState<RoleplayScenario>('discovery');
+  const [difficulty, setDifficulty] = useState<RoleplayDifficulty>('realistic');
+  const [chatInstance, setChatInstance] = useState<SalesChatSession | null>(null);
+  const [setup, setSetup] = useState<RoleplaySetup | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [inputMessage, setInputMessage] = useState('');
+  const [chatLoading, setChatLoading] = useState(false);
+  const [scoring, setScoring] = useState(false);
+  const [viewing, setViewing] = useState<RoleplaySession | null>(null);
+  const [voiceSetup, setVoiceSetup] = useState<RoleplaySetup | null>(null); // Voice call modal is open
+  const [voiceReview, setVoiceReview] = useState(false); // Finished voice call waiting to be scored
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  const repTurns = messages.filter(m => m.role === 'user').length;
+  const trend = scoreTrend(sessions);
+
+  const startSimulation = () => {
+    const nextSetup: RoleplaySetup = { scenario, difficulty, objections: objectionTexts(data) };
+    const chat = createSalesChat(data.productName, persona, nextSetup);
+    setSetup(nextSetup);
+    setChatInstance(chat);
+    setViewing(null);
+    setChatLoading(true);
+    chat.sendMessage({ message: "Start the conversation." }).then((res) => {
+      setMessages([{ role: 'model', text: res.text || "Hello." }]);
+    }).catch((e) => {
+      notifyAIError(e, "Could not start the roleplay");
+      setChatInstance(null);
+    }).finally(() => setChatLoading(false));
+  };
+
+  const resetSimulation = () => {
+    setChatInstance(null);
+    setSetup(null);
+    setMessages([]);
+    setVoiceReview(false);
+  };
+
+  const startVoiceCall = () => {
+    resetSimulation();
+    setViewing(null);
+    setVoiceSetup({ scenario, difficulty, objections: objectionTexts(data) });
+  };
+
+  // The call transcript is reviewed and scored like a text roleplay
+  const handleVoiceFinish = (transcript: ChatMessage[]) => {
+    setSetup(voiceSetup);
+    setMessages(transcript);
+    setVoiceReview(true);
+  };
+
+  const handleSendMessage = async () => {
+    if (!inputMessage.trim() || !chatInstance) return;
+    const userMsg: ChatMessage = { role: 'user', text: inputMessage };
+    setMessages(prev => [...prev, userMsg]);
+    setInputMessage('');
+    setChatLoading(true);
+    try {
+      const result = await chatInstance.sendMessage({ message: userMsg.text });
+      setMessages(prev => [...prev, { role: 'model', text: result.text || "..." }]);
+    } catch (e) { console.error(e); } finally { setChatLoading(false); }
+  };
+
+  const handleEndAndScore = async () => {
+    if (!setup) return;
+    setScoring(true);
+    try {
+      const scorecard = await scoreRoleplay(messages, setup, data.qualificationFramework || []);
+      const session: RoleplaySession = {
+        id: generateId(),
+        scenario: setup.scenario,
+        difficulty: setup.difficulty,
+        personaTitle: persona.jobTitle,
+        transcript: messages,
+        scorecard,
+        channel: voiceReview ? 'voice' : 'text',
+        createdAt: Date.now()
+      };
+      onUpdate({ roleplaySessions: [session, ...sessions].slice(0, MAX_ROLEPLAY_SESSIONS) });
+      resetSimulation();
+      setViewing(session);
+    } catch (e) {
+      notifyAIError(e, "Scoring failed");
+    } finally {
+      setScoring(false);
+    }
+  };
+
+  return (
+    <div className="h-full flex">
+      <div className="flex-1 flex flex-col min-w-0">
+        {viewing ? (
+          <Scorecard session={viewing} onBack={() => setViewing(null)} />
+        ) : (
+          <>
+            <div className="bg-slate-800 p-4 border-b border-slate-700 flex justify-between items-center gap-4">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-indigo-500 rounded-full flex items-center justify-center text-white"><UserIcon size={20} /></div>
+                <div>
+                  <h3 className="font-bold text-white">{persona.jobTitle}</h3>
+                  <div className="flex items-center gap-1.5 text-xs text-slate-400">
+                    <span className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse"></span>
+                    {setup ? `${scenarioLabel(setup.scenario)} · ${difficultyLabel(setup.difficulty)}` : 'Online'}
+                  </div>
+                </div>
+              </div>
+              {!chatInstance && !voiceReview && (
+                <div className="flex items-center gap-2">
+                  <select value={difficulty} onChange={(e) => setDifficulty(e.target.value as RoleplayDifficulty)} className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-300 outline-none">
+                    {ROLEPLAY_DIFFICULTIES.map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+                  </select>
+                  <Button size="sm" onClick={startSimulation}>Start Roleplay</Button>
+                  <Button size="sm" variant="secondary" onClick={startVoiceCall} title="Practice out loud with a voice call"><Phone size={14} /> Voice Call</Button>
+                </div>
+              )}
+              {(chatInstance || voiceReview) && (
+                <div className="flex items-center gap-2">
+                  <Button size="sm" onClick={handleEndAndScore} isLoading={scoring} disabled={chatLoading || repTurns < MIN_REP_TURNS} title={repTurns < MIN_REP_TURNS ? `Reply at least ${MIN_REP_TURNS} times to get a score` : undefined}>
+                    <Award size={14} /> End & Score <CostHint agent="roleplay_score" />
+                  </Button>
+                  <Button size="sm" variant="secondary" onClick={resetSimulation} disabled={scoring}>Reset</Button>
+                </div>
+              )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-4 custom-scrollbar bg-slate-950">
+              {messages.length === 0 && !chatLoading && (
+                <div className="h-full flex flex-col items-center justify-center text-slate-500">
+                  <MessageCircle size={48} className="mb-4 opacity-50" />
+                  <p className="mb-6 opacity-50">Pick a scenario and start a roleplay to practice your pitch.</p>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3 max-w-2xl w-full">
+                    {ROLEPLAY_SCENARIOS.map(s => (
+                      <button
+                        key={s.id}
+                        onClick={() => setScenario(s.id)}
+                        className={`text-left p-3 rounded-lg border transition-colors ${scenario === s.id ? 'border-indigo-500 bg-indigo-900/20' : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'}`}
+                      >
+                        <div className="text-sm font-bold text-white">{s.label}</div>
+                        <div className="text-xs text-slate-400">{s.description}</div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {messages.map((msg, i) => (
+                <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                  <div className={`max-w-[80%] rounded-2xl px-4 py-3 text-sm ${msg.role === 'user' ? 'bg-indigo-600 text-white rounded-br-none' : 'bg-slate-800 text-slate-200 border border-slate-700 rounded-bl-none'}`}>
+                    {msg.text}
+                  </div>
+                </div>
+              ))}
+              {chatLoading && <div className="text-xs text-slate-500 ml-4 animate-pulse">Typing...</div>}
+              <div ref={messagesEndRef} />
+            </div>
+
+            <div className="p-4 bg-slate-800 border-t border-slate-700">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={inputMessage}
+                  onChange={(e) => setInputMessage(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
+                  placeholder={voiceReview ? "Voice call ended. Score it or reset to practice again." : "Type your response..."}
+                  className="flex-1 bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                  disabled={!chatInstance || scoring}
+                />
+                <Button onClick={handleSendMessage} disabled={!chatInstance || chatLoading || scoring} className="px-4">
+                  <Send size={20} />
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="hidden lg:flex w-72 border-l border-slate-800 bg-slate-900 flex-col">
+        <div className="p-4 border-b border-slate-800">
+          <h4 className="text-sm font-bold text-white flex items-center gap-2"><History size={14} /> Scored Sessions</h4>
+          {trend !== null && (
+            <div className={`text-xs mt-1 flex items-center gap-1 ${trend >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+              {trend >= 0 ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
+              {trend >= 0 ? '+' : ''}{trend} vs your recent average
+            </div>
+          )}
+        </div>
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+          {sessions.length === 0 && <div className="text-center text-slate-500 py-6 text-xs italic">No scored sessions yet.</div>}
+          {sessions.map(session => (
+            <button
+              key={session.id}
+              onClick={() => setViewing(session)}
+              className={`w-full text-left p-3 rounded-lg flex items-center gap-3 transition-colors ${viewing?.id === session.id ? 'bg-slate-800' : 'hover:bg-slate-800/50'}`}
+            >
+              <span className={`text-lg font-bold w-9 ${scoreColor(session.scorecard.score)}`}>{session.scorecard.score}</span>
+              <div className="min-w-0">
+                <div className="text-xs text-white truncate flex items-center gap-1">
+                  {session.channel === 'voice' && <Phone size={10} className="text-slate-400 flex-shrink-0" />}
+                  {scenarioLabel(session.scenario)} · {difficultyLabel(session.difficulty)}
+                </div>
+                <div className="text-[10px] text-slate-500">{new Date(session.createdAt).toLocaleDateString()}</div>
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {voiceSetup && (
+        <LiveSession
+          isOpen={!!voiceSetup}
+          onClose={() => setVoiceSetup(null)}
+          persona={persona}
+          productName={data.productName}
+          setup={voiceSetup}
+          onFinish={handleVoiceFinish}
+        />
+      )}
+    </div>
+  );
+};
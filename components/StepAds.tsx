@@ -1,36 +1,79 @@
 
-import React, { useState, useEffect } from 'react';
-import { generateAdCreatives } from '../services/geminiService';
-import { NicheSuggestion, PersonaProfile, AdCreative, AdPlatform, User } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { generateAdCreatives, generateAdImage, brandAdImage, translateAsset, AIRequestOptions } from '../services/geminiService';
+import { NicheSuggestion, PersonaProfile, AdCreative, AdPlatform, User, VariantHistory, BrandVoice, ProjectLocale, AdLintIssue } from '../types';
+import { recordVariant, syncCurrentVariant, promoteVariant } from '../utils/variants';
+import { TRANSLATABLE_FIELDS } from '../utils/translation';
+import { lintAdCreative, hasBlockingIssues, AD_LENGTH_RULES, PLATFORM_POST_RULES } from '../utils/adPlatforms';
 import { Button, Card, SectionTitle, Modal } from './Shared';
 import { FeatureGuard } from './FeatureGuard';
-import { Megaphone, BarChart2, Linkedin, Facebook, Twitter, Instagram, Rocket, RefreshCw, Loader, Send, Plug } from 'lucide-react';
+import { VariantHistoryButton } from './VariantHistory';
+import { BrandVoiceCheck } from './BrandVoiceCheck';
+import { TranslateControl } from './TranslateControl';
+import { Megaphone, BarChart2, Linkedin, Facebook, Twitter, Instagram, Rocket, RefreshCw, Loader, Send, Plug, ImageIcon, Stamp, AlertCircle, AlertTriangle, ShieldCheck } from 'lucide-react';
 import { permissionService } from '../services/permissionService';
 import { notify } from '../services/notificationService';
+import { notifyAIError } from '../services/aiErrors';
 import { getApiUrl, authService } from '../services/authService';
+import { CostHint } from './CostHint';
 
 interface StepAdsProps {
   productName: string;
   niche: NicheSuggestion;
   persona: PersonaProfile;
   ads: AdCreative[];
-  onUpdateAds: (ads: AdCreative[]) => void;
+  onUpdateAds: (ads: AdCreative[], history?: VariantHistory<AdCreative[]>) => void;
+  history?: VariantHistory<AdCreative[]>;
   connectedPlatforms: AdPlatform[];
   onUpdateConnectedPlatforms: (platforms: AdPlatform[]) => void;
   productUrl?: string; 
+  brandVoice?: BrandVoice | null;
+  locale?: ProjectLocale;
   user?: User; 
   onUpgrade?: () => void; 
 }
 
+const renderAdsVariant = (ads: AdCreative[]) => (
+  <div className="space-y-3">
+    {ads.map((ad, i) => (
+      <div key={i} className="border-b border-slate-800 pb-3 last:border-0 last:pb-0">
+        <div className="text-xs font-bold text-slate-400 mb-1">{ad.platform}</div>
+        <div className="text-sm text-white font-medium">{ad.headline}</div>
+        <div className="text-xs text-slate-400 whitespace-pre-wrap mt-1">{ad.adCopy}</div>
+      </div>
+    ))}
+  </div>
+);
+
+const AdLintPanel: React.FC<{ issues: AdLintIssue[] }> = ({ issues }) => (
+  issues.length === 0 ? (
+    <p className="text-xs text-emerald-400 flex items-center gap-1.5 mb-4"><ShieldCheck size={14} /> Passes platform length and policy checks.</p>
+  ) : (
+    <ul className="space-y-1.5 mb-4 text-xs">
+      {issues.map((issue, i) => (
+        <li key={i} className="flex items-start gap-1.5">
+          {issue.severity === 'error' ? <AlertCircle size={12} className="text-red-400 mt-0.5 shrink-0" /> : <AlertTriangle size={12} className="text-amber-400 mt-0.5 shrink-0" />}
+          <span className={issue.severity === 'error' ? 'text-red-300' : 'text-amber-300'}>
+            {issue.message}{issue.excerpt && <span className="text-slate-500 italic"> "{issue.excerpt}"</span>}
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+);
+
 export const StepAds: React.FC<StepAdsProps> = ({
   productName,
   niche,
   persona,
   ads,
   onUpdateAds,
+  history,
   connectedPlatforms,
   onUpdateConnectedPlatforms,
   productUrl,
+  brandVoice,
+  locale,
   user,
   onUpgrade
 }) => {
@@ -39,23 +82,58 @@ export const StepAds: React.FC<StepAdsProps> = ({
   const [showConnectModal, setShowConnectModal] = useState(false);
   const [selectedAdIndex, setSelectedAdIndex] = useState<number | null>(null);
   const [posting, setPosting] = useState<Record<number, boolean>>({});
+  const [imaging, setImaging] = useState<Record<number, boolean>>({});
+  const brandLogoUrl = user?.adBrandLogoUrl;
+  const lintResults = useMemo(() => ads.map(lintAdCreative), [ads]);
+  const [hashtagDraft, setHashtagDraft] = useState('');
 
-  const handleGenerate = async () => {
+  // Regenerate bypasses the response cache; the same inputs would otherwise return the same ads
+  const handleGenerate = async (options?: AIRequestOptions) => {
     setLoading(true);
     try {
-      const newAds = await generateAdCreatives(productName, niche, persona, productUrl);
-      onUpdateAds(newAds);
+      const newAds = await generateAdCreatives(productName, niche, persona, productUrl, options);
+      onUpdateAds(newAds, recordVariant(history, newAds, { niche: niche.name, persona: persona.jobTitle }, ads.length > 0 ? ads : null));
       notify.success("Ad campaign generated");
       if (newAds.length > 0) setSelectedAdIndex(0);
     } catch (e) {
-      notify.error("Generation failed");
+      notifyAIError(e, "Generation failed");
     } finally {
       setLoading(false);
     }
   };
 
+  // Edits, images and post status are kept in the current variant as well
+  const commitAds = (updated: AdCreative[]) => onUpdateAds(updated, syncCurrentVariant(history, updated));
+
+  const updateAd = (index: number, changes: Partial<AdCreative>) => {
+    const updated = [...ads];
+    updated[index] = { ...updated[index], ...changes };
+    commitAds(updated);
+  };
+
+  // The translation is added next to the original as a new draft, so both can run side by side
+  const handleTranslate = async (index: number, language: string) => {
+    const ad = ads[index];
+    const translated = await translateAsset(ad, TRANSLATABLE_FIELDS.adCreative, language);
+    const copy: AdCreative = { ...translated, status: 'draft', scheduledTime: undefined, postedAt: undefined, postId: undefined, metrics: undefined };
+    commitAds([...ads.slice(0, index + 1), copy, ...ads.slice(index + 1)]);
+    setSelectedAdIndex(index + 1);
+  };
+
+  const handlePromote = (id: string) => {
+    if (!history) return;
+    const promoted = promoteVariant(history, id);
+    if (!promoted) return;
+    onUpdateAds(promoted.value, promoted.history);
+    setSelectedAdIndex(promoted.value.length > 0 ? 0 : null);
+  };
+
   const handlePostNow = async (index: number) => {
       const ad = ads[index];
+      if (hasBlockingIssues(lintResults[index])) {
+          notify.error("Fix the errors flagged on this ad before posting.");
+          return;
+      }
       if (!connectedPlatforms.includes(ad.platform)) {
           setShowConnectModal(true);
           return;
@@ -72,15 +150,22 @@ export const StepAds: React.FC<StepAdsProps> = ({
               body: JSON.stringify({
                   platforms: [ad.platform],
                   content: ad.adCopy,
-                  mediaUrl: ad.imageUrl
+                  mediaUrl: ad.imageUrl,
+                  headline: ad.headline,
+                  hashtags: ad.hashtags
               })
           });
 
+          if (response.status === 422) {
+              const body = await response.json().catch(() => ({}));
+              notify.error(body.issues?.[0]?.message ? `${body.error}: ${body.issues[0].message}` : "Fix the errors flagged on this ad before posting.");
+              return;
+          }
           if (!response.ok) throw new Error("Posting failed via API");
 
           const updated = [...ads];
           updated[index] = { ...updated[index], status: 'posted', postedAt: Date.now() };
-          onUpdateAds(updated);
+          commitAds(updated);
           notify.success(`Posted to ${ad.platform}`);
       } catch (e) {
           notify.error("Failed to post. Check integrations.");
@@ -89,6 +174,40 @@ export const StepAds: React.FC<StepAdsProps> = ({
       }
   };
 
+  const handleGenerateImage = async (index: number) => {
+      const ad = ads[index];
+      setImaging(p => ({...p, [index]: true}));
+      try {
+          const images = await generateAdImage(ad, brandLogoUrl);
+          const updated = [...ads];
+          updated[index] = { ...updated[index], ...images };
+          commitAds(updated);
+          notify.success(`${ad.platform} image ready`);
+      } catch (e) {
+          notifyAIError(e, "Image generation failed");
+      } finally {
+          setImaging(p => ({...p, [index]: false}));
+      }
+  };
+
+  // Re-stamps the current logo on the existing render (no new generation, no tokens)
+  const handleReapplyLogo = async (index: number) => {
+      const ad = ads[index];
+      if (!ad.imageSourceUrl) return;
+      setImaging(p => ({...p, [index]: true}));
+      try {
+          const imageUrl = await brandAdImage(ad.imageSourceUrl, ad.platform, brandLogoUrl);
+          const updated = [...ads];
+          updated[index] = { ...updated[index], imageUrl };
+          commitAds(updated);
+          notify.success("Logo updated");
+      } catch (e) {
+          notify.error("Failed to apply logo");
+      } finally {
+          setImaging(p => ({...p, [index]: false}));
+      }
+  };
+
   const togglePlatformConnection = (platform: AdPlatform) => {
     // In production, this would redirect to OAuth flow via backend
     if (connectedPlatforms.includes(platform)) {
@@ -112,6 +231,11 @@ export const StepAds: React.FC<StepAdsProps> = ({
 
   const selectedAd = selectedAdIndex !== null ? ads[selectedAdIndex] : null;
 
+  // Hashtags are edited as free text and parsed on blur
+  useEffect(() => {
+    setHashtagDraft((selectedAd?.hashtags || []).join(' '));
+  }, [selectedAdIndex, selectedAd?.hashtags]);
+
   if (user && !permissionService.hasAccess(user, 'pro')) {
     return <FeatureGuard user={user} requiredTier="pro" featureName="Ad Campaign Engine" onUpgrade={onUpgrade}>{null}</FeatureGuard>;
   }
@@ -121,6 +245,12 @@ export const StepAds: React.FC<StepAdsProps> = ({
       <div className="flex-shrink-0 mb-6 flex justify-between items-end">
         <SectionTitle title="Ad Command Center" subtitle="Multi-channel campaign orchestration." />
         <div className="flex gap-2">
+            <VariantHistoryButton title="Ad Campaign" history={history} onPromote={handlePromote} renderVariant={renderAdsVariant} disabled={loading} />
+            {ads.length > 0 && (
+                <Button variant="outline" onClick={() => handleGenerate({ bypassCache: true })} isLoading={loading}>
+                    <RefreshCw size={16} className="mr-2" /> Regenerate <CostHint agent="ad_creatives" className="ml-2" />
+                </Button>
+            )}
             <Button variant="secondary" onClick={() => setShowConnectModal(true)}>
                 <Plug size={16} className="mr-2" /> Integrations
             </Button>
@@ -138,30 +268,103 @@ export const StepAds: React.FC<StepAdsProps> = ({
                 {ads.length === 0 && !loading && (
                     <div className="p-6 border border-dashed border-slate-700 rounded-xl text-center bg-slate-800/30">
                         <Rocket className="mx-auto text-slate-500 mb-3" size={32} />
-                        <Button onClick={handleGenerate} className="w-full">Generate Ads</Button>
+                        <Button onClick={() => handleGenerate()} className="w-full">Generate Ads <CostHint agent="ad_creatives" className="ml-2" /></Button>
                     </div>
                 )}
                 {ads.map((ad, idx) => (
                     <div key={idx} onClick={() => setSelectedAdIndex(idx)} className={`p-4 rounded-xl border cursor-pointer ${selectedAdIndex === idx ? 'bg-indigo-900/20 border-indigo-500' : 'bg-slate-800 border-slate-700'}`}>
-                        <div className="flex items-center gap-2 mb-2 text-white font-bold">{getPlatformIcon(ad.platform)} {ad.platform}</div>
+                        <div className="flex items-center gap-2 mb-2 text-white font-bold">
+                            {getPlatformIcon(ad.platform)} {ad.platform}
+                            {hasBlockingIssues(lintResults[idx]) ? <AlertCircle size={14} className="text-red-400" /> : lintResults[idx].length > 0 && <AlertTriangle size={14} className="text-amber-400" />}
+                            {ad.status !== 'draft' && <span className="ml-auto text-[10px] uppercase font-bold px-1.5 py-0.5 rounded bg-slate-700 text-slate-300">{ad.status}</span>}
+                        </div>
+                        {ad.imageUrl && <img src={ad.imageUrl} alt="" className="w-full h-20 object-cover rounded mb-2 border border-slate-700" />}
                         <div className="text-xs text-slate-400 line-clamp-2">{ad.headline}</div>
+                        {ad.status === 'scheduled' && ad.scheduledTime && (
+                            <div className="text-[10px] text-indigo-300 mt-2">Scheduled {new Date(ad.scheduledTime).toLocaleString()}</div>
+                        )}
                     </div>
                 ))}
             </div>
 
             {selectedAd && (
                 <div className="flex-1 flex flex-col bg-slate-900 border border-slate-800 rounded-xl p-6">
-                    <h3 className="text-white font-bold mb-4">Edit & Publish</h3>
+                    <div className="flex justify-between items-center mb-4">
+                        <h3 className="text-white font-bold">Edit & Publish</h3>
+                        <TranslateControl projectLocale={locale} onTranslate={(language) => handleTranslate(selectedAdIndex!, language)} />
+                    </div>
+                    <div className="flex gap-4 mb-4">
+                        <div className="w-64 h-40 flex-shrink-0 bg-slate-800 border border-slate-700 rounded overflow-hidden flex items-center justify-center">
+                            {imaging[selectedAdIndex!] ? (
+                                <Loader className="animate-spin text-indigo-400" />
+                            ) : selectedAd.imageUrl ? (
+                                <img src={selectedAd.imageUrl} alt={selectedAd.headline} className="w-full h-full object-contain" />
+                            ) : (
+                                <ImageIcon className="text-slate-600" size={32} />
+                            )}
+                        </div>
+                        <div className="flex-1 flex flex-col gap-2">
+                            <label className="text-xs text-slate-400">Visual Prompt</label>
+                            <textarea
+                                className="w-full flex-1 bg-slate-800 border border-slate-700 rounded p-2 text-sm text-white"
+                                value={selectedAd.visualPrompt}
+                                onChange={(e) => {
+                                    const updated = [...ads];
+                                    updated[selectedAdIndex!] = { ...selectedAd, visualPrompt: e.target.value };
+                                    commitAds(updated);
+                                }}
+                            />
+                            <div className="flex gap-2">
+                                <Button variant="secondary" onClick={() => handleGenerateImage(selectedAdIndex!)} disabled={imaging[selectedAdIndex!]} className="text-xs h-8">
+                                    {selectedAd.imageUrl ? <RefreshCw size={14} /> : <ImageIcon size={14} />}
+                                    {selectedAd.imageUrl ? 'Regenerate Image' : 'Generate Image'}
+                                </Button>
+                                {selectedAd.imageSourceUrl && brandLogoUrl && (
+                                    <Button variant="outline" onClick={() => handleReapplyLogo(selectedAdIndex!)} disabled={imaging[selectedAdIndex!]} className="text-xs h-8">
+                                        <Stamp size={14} /> Reapply Logo
+                                    </Button>
+                                )}
+                            </div>
+                            {!brandLogoUrl && <p className="text-[10px] text-slate-500">Upload a brand logo in Settings to stamp it on every image.</p>}
+                        </div>
+                    </div>
+                    <div className="flex justify-between text-xs text-slate-400 mb-1">
+                        <span>Headline</span>
+                        <span className={selectedAd.headline.length > AD_LENGTH_RULES[selectedAd.platform].headlineMax ? 'text-red-400' : ''}>{selectedAd.headline.length}/{AD_LENGTH_RULES[selectedAd.platform].headlineMax}</span>
+                    </div>
+                    <input
+                        type="text"
+                        className="w-full bg-slate-800 border border-slate-700 rounded p-3 text-white mb-3"
+                        value={selectedAd.headline}
+                        onChange={(e) => updateAd(selectedAdIndex!, { headline: e.target.value })}
+                    />
+                    <div className="flex justify-between text-xs text-slate-400 mb-1">
+                        <span>Copy</span>
+                        <span className={selectedAd.adCopy.length > PLATFORM_POST_RULES[selectedAd.platform].maxChars ? 'text-red-400' : ''}>{selectedAd.adCopy.length}/{PLATFORM_POST_RULES[selectedAd.platform].maxChars}</span>
+                    </div>
                     <textarea 
-                        className="w-full h-32 bg-slate-800 border border-slate-700 rounded p-3 text-white mb-4"
+                        className="w-full h-32 bg-slate-800 border border-slate-700 rounded p-3 text-white mb-3"
                         value={selectedAd.adCopy}
                         onChange={(e) => {
                             const updated = [...ads];
                             updated[selectedAdIndex!] = { ...selectedAd, adCopy: e.target.value };
-                            onUpdateAds(updated);
+                            commitAds(updated);
                         }}
                     />
-                    <Button onClick={() => handlePostNow(selectedAdIndex!)} disabled={posting[selectedAdIndex!] || !connectedPlatforms.includes(selectedAd.platform)}>
+                    <div className="text-xs text-slate-400 mb-1">Hashtags</div>
+                    <input
+                        type="text"
+                        className="w-full bg-slate-800 border border-slate-700 rounded p-3 text-white mb-4 text-sm"
+                        value={hashtagDraft}
+                        onChange={(e) => setHashtagDraft(e.target.value)}
+                        onBlur={() => updateAd(selectedAdIndex!, { hashtags: hashtagDraft.split(/[\s,]+/).map(t => t.replace(/^#+/, '')).filter(Boolean) })}
+                        placeholder="growth marketing lagos"
+                    />
+                    <AdLintPanel issues={lintResults[selectedAdIndex!]} />
+                    <div className="mb-4">
+                        <BrandVoiceCheck text={`${selectedAd.headline}\n\n${selectedAd.adCopy}`} voice={brandVoice} />
+                    </div>
+                    <Button onClick={() => handlePostNow(selectedAdIndex!)} disabled={posting[selectedAdIndex!] || !connectedPlatforms.includes(selectedAd.platform) || hasBlockingIssues(lintResults[selectedAdIndex!])}>
                         {posting[selectedAdIndex!] ? <Loader className="animate-spin" /> : <Send size={16} className="mr-2" />}
                         Post to {selectedAd.platform}
                     </Button>
@@ -1,23 +1,22 @@
 
-import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { ProjectData, User, LeadItem, LocalBusinessResult, SocialSearchQuery, ChatMessage, QualificationQuestion, FollowUpEmail } from '../types';
-import { searchLocalBusinesses, generateSocialSearchQueries, createSalesChat, handleObjection, generateColdDMs, generateQualification, generateFollowUp } from '../services/geminiService';
+import React, { useState, useMemo } from 'react';
+import { ProjectData, User, LeadItem, LocalBusinessResult, SocialSearchQuery, QualificationQuestion, FollowUpEmail } from '../types';
+import { searchLocalBusinesses, generateSocialSearchQueries, generateColdDMs, generateQualification, generateFollowUp } from '../services/geminiService';
 import { Button, Card, SectionTitle } from './Shared';
 import { FeatureGuard } from './FeatureGuard';
+import { SalesRoleplay } from './SalesRoleplay';
+import { ObjectionLibrary } from './ObjectionLibrary';
 import { 
   MapPin, RefreshCw, Star, ExternalLink, 
-  MessageCircle, ShieldAlert, Zap, Send, User as UserIcon, 
+  MessageCircle, Send, 
   Copy, Check, BookOpen, Mail, Target,
   CheckCircle2, PlusCircle, Download, Search
 } from 'lucide-react';
 import { permissionService } from '../services/permissionService';
 import { notify } from '../services/notificationService';
+import { notifyAIError } from '../services/aiErrors';
 import { generateId } from '../utils/core';
-
-// Interface matching the helper in geminiService.ts
-interface SalesChatSession {
-  sendMessage: (msg: { message: string }) => Promise<{ text: string }>;
-}
+import { CostHint } from './CostHint';
 
 interface StepConversionProps {
   data: ProjectData;
@@ -38,11 +37,7 @@ export const StepConversion: React.FC<StepConversionProps> = ({ data, onUpdate,
   
   // --- PLAYBOOK (STRATEGY) STATE ---
   const [qualQuestions, setQualQuestions] = useState<QualificationQuestion[]>(data.qualificationFramework || []);
-  const [objections, setObjections] = useState<string[]>(data.salesObjections || []);
   const [loadingPlaybook, setLoadingPlaybook] = useState(false);
-  const [objectionInput, setObjectionInput] = useState('');
-  const [analyzingObjection, setAnalyzingObjection] = useState(false);
-  const [currentRebuttals, setCurrentRebuttals] = useState<string[]>([]);
 
   // --- OUTREACH (EXECUTION) STATE ---
   const [coldDms, setColdDms] = useState<string[]>(data.salesColdDms || []);
@@ -50,13 +45,6 @@ export const StepConversion: React.FC<StepConversionProps> = ({ data, onUpdate,
   const [loadingOutreach, setLoadingOutreach] = useState(false);
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
 
-  // --- SIMULATOR (ROLEPLAY) STATE ---
-  const [chatInstance, setChatInstance] = useState<SalesChatSession | null>(null);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [inputMessage, setInputMessage] = useState('');
-  const [chatLoading, setChatLoading] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  
   const persona = data.persona!;
   const niche = data.selectedNiche!;
 
@@ -65,10 +53,6 @@ export const StepConversion: React.FC<StepConversionProps> = ({ data, onUpdate,
       return new Set((data.crmLeads || []).map(l => l.companyName.toLowerCase().trim()));
   }, [data.crmLeads]);
 
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, activeTab]);
-
   // 1. INTEL HANDLERS
   const handleLocalSearch = async () => {
     if (!location) { notify.error("Enter a location"); return; }
@@ -78,7 +62,7 @@ export const StepConversion: React.FC<StepConversionProps> = ({ data, onUpdate,
       setLocalResults(results);
       onUpdate({ leadSearchResults: results });
       notify.success("Market scan complete");
-    } catch (e) { notify.error("Search failed"); } finally { setLoadingLocal(false); }
+    } catch (e) { notifyAIError(e, "Search failed"); } finally { setLoadingLocal(false); }
   };
 
   const addToPipeline = (business: any) => {
@@ -143,7 +127,7 @@ export const StepConversion: React.FC<StepConversionProps> = ({ data, onUpdate,
       setSocialQueries(results);
       onUpdate({ socialSearchQueries: results });
       notify.success("Search agents deployed");
-    } catch (e) { notify.error("Agent deployment failed"); } finally { setLoadingSocial(false); }
+    } catch (e) { notifyAIError(e, "Agent deployment failed"); } finally { setLoadingSocial(false); }
   };
 
   // 2. PLAYBOOK HANDLERS
@@ -154,21 +138,7 @@ export const StepConversion: React.FC<StepConversionProps> = ({ data, onUpdate,
       setQualQuestions(questions);
       onUpdate({ qualificationFramework: questions }); 
       notify.success("Qualification framework generated");
-    } catch (e) { notify.error("Failed to generate playbook"); } finally { setLoadingPlaybook(false); }
-  };
-
-  const handleObjectionSubmit = async () => {
-    if (!objectionInput.trim()) return;
-    setAnalyzingObjection(true);
-    try {
-      const results = await handleObjection(objectionInput, data.productName, persona);
-      setCurrentRebuttals(results);
-      if (!objections.includes(objectionInput)) {
-          const newObjections = [...objections, objectionInput];
-          setObjections(newObjections);
-          onUpdate({ salesObjections: newObjections });
-      }
-    } catch (e) { notify.error("Analysis failed"); } finally { setAnalyzingObjection(false); }
+    } catch (e) { notifyAIError(e, "Failed to generate playbook"); } finally { setLoadingPlaybook(false); }
   };
 
   // 3. OUTREACH HANDLERS
@@ -183,32 +153,7 @@ export const StepConversion: React.FC<StepConversionProps> = ({ data, onUpdate,
       setEmailSeq(emails);
       onUpdate({ salesColdDms: dms, followUpSequence: emails });
       notify.success("Outreach assets generated");
-    } catch (e) { notify.error("Generation failed"); } finally { setLoadingOutreach(false); }
-  };
-
-  // 4. SIMULATOR HANDLERS
-  const startSimulation = () => {
-    if (!chatInstance) {
-        const chat = createSalesChat(data.productName, persona);
-        setChatInstance(chat);
-        setChatLoading(true);
-        chat.sendMessage({ message: "Start the conversation." }).then((res) => {
-            setMessages([{ role: 'model', text: res.text || "Hello." }]);
-            setChatLoading(false);
-        });
-    }
-  };
-
-  const handleSendMessage = async () => {
-    if (!inputMessage.trim() || !chatInstance) return;
-    const userMsg: ChatMessage = { role: 'user', text: inputMessage };
-    setMessages(prev => [...prev, userMsg]);
-    setInputMessage('');
-    setChatLoading(true);
-    try {
-      const result = await chatInstance.sendMessage({ message: userMsg.text });
-      setMessages(prev => [...prev, { role: 'model', text: result.text || "..." }]);
-    } catch (e) { console.error(e); } finally { setChatLoading(false); }
+    } catch (e) { notifyAIError(e, "Generation failed"); } finally { setLoadingOutreach(false); }
   };
 
   const copyToClipboard = (text: string, index: number) => {
@@ -355,7 +300,7 @@ export const StepConversion: React.FC<StepConversionProps> = ({ data, onUpdate,
               <div className="flex-1 border-r border-slate-800 p-6 overflow-y-auto custom-scrollbar">
                  <div className="flex justify-between items-center mb-6">
                     <h3 className="font-bold text-white flex items-center gap-2"><CheckCircle2 size={18} className="text-emerald-400" /> Qualification (BANT)</h3>
-                    {qualQuestions.length === 0 && <Button size="sm" onClick={handleGeneratePlaybook} disabled={loadingPlaybook}>{loadingPlaybook ? 'Generating...' : 'Create'}</Button>}
+                    {qualQuestions.length === 0 && <Button size="sm" onClick={handleGeneratePlaybook} disabled={loadingPlaybook}>{loadingPlaybook ? 'Generating...' : <>Create <CostHint agent="qualification" className="ml-1" /></>}</Button>}
                  </div>
                  {qualQuestions.length > 0 ? (
                     <div className="space-y-4">
@@ -378,38 +323,7 @@ export const StepConversion: React.FC<StepConversionProps> = ({ data, onUpdate,
               </div>
 
               <div className="flex-1 p-6 overflow-y-auto custom-scrollbar bg-slate-900/30">
-                 <h3 className="font-bold text-white flex items-center gap-2 mb-6"><ShieldAlert size={18} className="text-red-400" /> Objection Crusher</h3>
-                 
-                 <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 mb-6">
-                    <label className="text-xs font-bold text-slate-400 uppercase mb-2 block">Live Rebuttal Generator</label>
-                    <div className="flex gap-2">
-                       <input 
-                         type="text" 
-                         value={objectionInput}
-                         onChange={(e) => setObjectionInput(e.target.value)}
-                         placeholder="e.g. 'Your price is too high'"
-                         className="flex-1 bg-slate-900 border border-slate-600 rounded px-3 py-2 text-white text-sm focus:border-indigo-500 outline-none"
-                         onKeyDown={(e) => e.key === 'Enter' && handleObjectionSubmit()}
-                       />
-                       <Button size="sm" onClick={handleObjectionSubmit} disabled={analyzingObjection} className={analyzingObjection ? "opacity-50" : ""}>
-                          <Zap size={16} />
-                       </Button>
-                    </div>
-                 </div>
-
-                 {currentRebuttals.length > 0 && (
-                    <div className="space-y-3 animate-fadeIn">
-                       {currentRebuttals.map((r, i) => (
-                          <div key={i} className="bg-slate-800 border border-slate-600 p-4 rounded-lg hover:border-indigo-500 transition-colors cursor-pointer group" onClick={() => copyToClipboard(r, i)}>
-                             <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Option {i+1}</div>
-                             <p className="text-sm text-slate-200">{r}</p>
-                             <div className="text-indigo-400 text-xs mt-2 opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-1">
-                                {copiedIndex === i ? <Check size={12} /> : <Copy size={12} />} {copiedIndex === i ? 'Copied' : 'Click to Copy'}
-                             </div>
-                          </div>
-                       ))}
-                    </div>
-                 )}
+                 <ObjectionLibrary data={data} onUpdate={onUpdate} />
               </div>
            </div>
         )}
@@ -422,7 +336,7 @@ export const StepConversion: React.FC<StepConversionProps> = ({ data, onUpdate,
                     <h3 className="font-bold text-white text-lg">Communication Assets</h3>
                     <p className="text-sm text-slate-400">Cold DMs and Email Sequences tailored to {persona.jobTitle}.</p>
                  </div>
-                 {coldDms.length === 0 && <Button onClick={handleGenerateOutreach} disabled={loadingOutreach}>{loadingOutreach ? 'Generating...' : 'Generate Assets'}</Button>}
+                 {coldDms.length === 0 && <Button onClick={handleGenerateOutreach} disabled={loadingOutreach}>{loadingOutreach ? 'Generating...' : <>Generate Assets <CostHint agent={['cold_dms', 'follow_up']} className="ml-2" /></>}</Button>}
               </div>
 
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
@@ -475,58 +389,7 @@ export const StepConversion: React.FC<StepConversionProps> = ({ data, onUpdate,
         )}
 
         {/* TAB 4: SIMULATOR */}
-        {activeTab === 'simulator' && (
-           <div className="h-full flex flex-col">
-              <div className="bg-slate-800 p-4 border-b border-slate-700 flex justify-between items-center">
-                 <div className="flex items-center gap-3">
-                    <div className="w-10 h-10 bg-indigo-500 rounded-full flex items-center justify-center text-white"><UserIcon size={20} /></div>
-                    <div>
-                       <h3 className="font-bold text-white">{persona.jobTitle}</h3>
-                       <div className="flex items-center gap-1.5 text-xs text-slate-400">
-                          <span className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse"></span> Online
-                       </div>
-                    </div>
-                 </div>
-                 {!chatInstance && <Button size="sm" onClick={startSimulation}>Start Roleplay</Button>}
-                 {chatInstance && <Button size="sm" variant="secondary" onClick={() => { setChatInstance(null); setMessages([]); }}>Reset</Button>}
-              </div>
-              
-              <div className="flex-1 overflow-y-auto p-4 space-y-4 custom-scrollbar bg-slate-950">
-                 {messages.length === 0 && !chatLoading && (
-                    <div className="h-full flex flex-col items-center justify-center text-slate-500 opacity-50">
-                       <MessageCircle size={48} className="mb-4" />
-                       <p>Start a roleplay session to practice your pitch.</p>
-                    </div>
-                 )}
-                 {messages.map((msg, i) => (
-                    <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                       <div className={`max-w-[80%] rounded-2xl px-4 py-3 text-sm ${msg.role === 'user' ? 'bg-indigo-600 text-white rounded-br-none' : 'bg-slate-800 text-slate-200 border border-slate-700 rounded-bl-none'}`}>
-                          {msg.text}
-                       </div>
-                    </div>
-                 ))}
-                 {chatLoading && <div className="text-xs text-slate-500 ml-4 animate-pulse">Typing...</div>}
-                 <div ref={messagesEndRef} />
-              </div>
-
-              <div className="p-4 bg-slate-800 border-t border-slate-700">
-                 <div className="flex gap-2">
-                    <input 
-                      type="text" 
-                      value={inputMessage}
-                      onChange={(e) => setInputMessage(e.target.value)}
-                      onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
-                      placeholder="Type your response..."
-                      className="flex-1 bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none"
-                      disabled={!chatInstance}
-                    />
-                    <Button onClick={handleSendMessage} disabled={!chatInstance || chatLoading} className="px-4">
-                       <Send size={20} />
-                    </Button>
-                 </div>
-              </div>
-           </div>
-        )}
+        {activeTab === 'simulator' && <SalesRoleplay data={data} onUpdate={onUpdate} />}
 
       </div>
     </div>
@@ -1,14 +1,19 @@
 
 import React, { useState, useRef } from 'react';
-import { generateEmailCampaignContent, optimizeSubjectLines, generateEmailSequence } from '../services/geminiService';
+import { generateEmailCampaignContent, optimizeSubjectLines, generateEmailSequence, translateAsset, AIRequestOptions } from '../services/geminiService';
 import { emailService } from '../services/emailService';
-import { PersonaProfile, EmailCampaign, AutomationWorkflow, User, LeadItem, Subscriber, EmailSettings, AutomationNode } from '../types';
+import { PersonaProfile, EmailCampaign, AutomationWorkflow, User, LeadItem, Subscriber, EmailSettings, AutomationNode, BrandVoice, ProjectLocale } from '../types';
 import { Button, Card, SectionTitle, Modal } from './Shared';
 import { FeatureGuard } from './FeatureGuard';
+import { BrandVoiceCheck } from './BrandVoiceCheck';
+import { TranslateControl } from './TranslateControl';
+import { TRANSLATABLE_FIELDS } from '../utils/translation';
 import { Mail, Send, BarChart2, Zap, Users, Plus, Edit2, Trash2, Wand2, Clock, CheckCircle2, Upload, Settings, RefreshCw, Loader, ArrowLeft, ChevronRight, FileUp } from 'lucide-react';
 import { permissionService } from '../services/permissionService';
 import { notify } from '../services/notificationService';
+import { notifyAIError } from '../services/aiErrors';
 import { generateId } from '../utils/core';
+import { CostHint } from './CostHint';
 
 interface StepEmailProps {
   productName: string;
@@ -22,6 +27,8 @@ interface StepEmailProps {
   onUpdateAutomations: (automations: AutomationWorkflow[]) => void;
   onUpdateSubscribers: (subscribers: Subscriber[]) => void;
   onUpdateSettings: (settings: EmailSettings) => void;
+  brandVoice?: BrandVoice | null;
+  locale?: ProjectLocale;
   user?: User;
   onUpgrade?: () => void;
 }
@@ -38,6 +45,8 @@ export const StepEmail: React.FC<StepEmailProps> = ({
   onUpdateAutomations,
   onUpdateSubscribers,
   onUpdateSettings,
+  brandVoice,
+  locale,
   user,
   onUpgrade
 }) => {
@@ -72,13 +81,13 @@ export const StepEmail: React.FC<StepEmailProps> = ({
     setShowCampaignModal(true);
   };
 
-  const handleGenerateContent = async () => {
+  const handleGenerateContent = async (options?: AIRequestOptions) => {
     if (!topic || !goal) return;
     setLoadingAI(true);
     try {
         const [content, subjects] = await Promise.all([
-            generateEmailCampaignContent(productName, persona, topic, goal),
-            optimizeSubjectLines(topic, persona)
+            generateEmailCampaignContent(productName, persona, topic, goal, options),
+            optimizeSubjectLines(topic, persona, options)
         ]);
         if (editingCampaign) {
             setEditingCampaign({ ...editingCampaign, subject: content.subject, content: content.body });
@@ -86,7 +95,7 @@ export const StepEmail: React.FC<StepEmailProps> = ({
         }
         notify.success("Email content generated");
     } catch (e) {
-        notify.error("Generation failed");
+        notifyAIError(e, "Generation failed");
     } finally {
         setLoadingAI(false);
     }
@@ -230,10 +239,21 @@ export const StepEmail: React.FC<StepEmailProps> = ({
                       <h4 className="text-white font-bold mb-2 flex items-center gap-2"><Wand2 size={16}/> AI Writer</h4>
                       <input type="text" placeholder="Topic" value={topic} onChange={e => setTopic(e.target.value)} className="w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-white mb-2" />
                       <input type="text" placeholder="Goal" value={goal} onChange={e => setGoal(e.target.value)} className="w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-white mb-2" />
-                      <Button size="sm" onClick={handleGenerateContent} disabled={loadingAI}>{loadingAI ? 'Generating...' : 'Generate'}</Button>
+                      <div className="flex gap-2">
+                          <Button size="sm" onClick={() => handleGenerateContent()} disabled={loadingAI}>{loadingAI ? 'Generating...' : <>Generate <CostHint agent={['email_campaign', 'email_subjects']} className="ml-1" /></>}</Button>
+                          {subjectSuggestions.length > 0 && (
+                              <Button size="sm" variant="outline" onClick={() => handleGenerateContent({ bypassCache: true })} disabled={loadingAI} title="Skip cached results and write a fresh version">
+                                  <RefreshCw size={14} /> Regenerate
+                              </Button>
+                          )}
+                      </div>
                   </div>
                   <input type="text" placeholder="Subject" value={editingCampaign.subject} onChange={e => setEditingCampaign({...editingCampaign, subject: e.target.value})} className="w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-white" />
                   <textarea placeholder="HTML Content" value={editingCampaign.content} onChange={e => setEditingCampaign({...editingCampaign, content: e.target.value})} className="w-full h-40 bg-slate-900 border border-slate-700 rounded px-3 py-2 text-white font-mono" />
+                  <div className="flex justify-end">
+                      <TranslateControl projectLocale={locale} onTranslate={async (language) => setEditingCampaign(await translateAsset(editingCampaign, TRANSLATABLE_FIELDS.emailCampaign, language))} />
+                  </div>
+                  <BrandVoiceCheck text={`${editingCampaign.subject}\n\n${editingCampaign.content.replace(/<[^>]+>/g, ' ')}`} voice={brandVoice} />
                   <div className="flex gap-2">
                       <Button variant="secondary" onClick={() => handleSaveCampaign(false)} className="flex-1">Save Draft</Button>
                       <Button onClick={() => handleSaveCampaign(true)} disabled={isSending} className="flex-1">{isSending ? 'Sending...' : 'Send Now'}</Button>
@@ -1,47 +1,119 @@
 
 
-import React, { useState } from 'react';
-import { generateLandingPage } from '../services/geminiService';
-import { NicheSuggestion, PersonaProfile, LandingPage, User } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { streamLandingPage, translateAsset, AIRequestOptions } from '../services/geminiService';
+import { notifyAIError } from '../services/aiErrors';
+import { DeepPartial } from '../utils/core';
+import { NicheSuggestion, PersonaProfile, LandingPage, User, VariantHistory, BrandVoice, ProjectLocale } from '../types';
+import { recordVariant, promoteVariant } from '../utils/variants';
+import { TRANSLATABLE_FIELDS } from '../utils/translation';
 import { Button, Card, SectionTitle } from './Shared';
 import { FeatureGuard } from './FeatureGuard';
-import { LayoutTemplate, Eye, Code, CheckCircle2, Quote, ArrowRight, Image as ImageIcon, Download } from 'lucide-react';
+import { VariantHistoryButton } from './VariantHistory';
+import { BrandVoiceCheck } from './BrandVoiceCheck';
+import { TranslateControl } from './TranslateControl';
+import { LayoutTemplate, Eye, Code, CheckCircle2, Quote, ArrowRight, Image as ImageIcon, Download, X, RefreshCw } from 'lucide-react';
 import { permissionService } from '../services/permissionService';
+import { CostHint } from './CostHint';
 
 interface StepLandingProps {
   productName: string;
   niche: NicheSuggestion;
   persona: PersonaProfile;
   landingPage: LandingPage | null;
-  onUpdate: (lp: LandingPage) => void;
+  onUpdate: (lp: LandingPage, history?: VariantHistory<LandingPage>) => void;
+  history?: VariantHistory<LandingPage>;
+  brandVoice?: BrandVoice | null;
+  locale?: ProjectLocale;
   user?: User; // Add user prop
   onUpgrade?: () => void; // Add upgrade prop
 }
 
+const landingCopyText = (lp: LandingPage) => [
+  lp.headline,
+  lp.subheadline,
+  ...(lp.benefits || []).map(b => `${b.title}. ${b.description}`),
+  lp.ctaPrimary,
+  lp.ctaSecondary
+].filter(Boolean).join('\n\n');
+
+const renderLandingVariant = (lp: LandingPage) => (
+  <div className="space-y-3 text-sm">
+    <div className="text-white font-bold text-base leading-snug">{lp.headline}</div>
+    <div className="text-slate-300">{lp.subheadline}</div>
+    <div className="flex gap-2 text-xs">
+      <span className="px-2 py-1 rounded bg-indigo-600 text-white">{lp.ctaPrimary}</span>
+      <span className="px-2 py-1 rounded border border-slate-600 text-slate-300">{lp.ctaSecondary}</span>
+    </div>
+    <ul className="space-y-2">
+      {(lp.benefits || []).map((b, i) => (
+        <li key={i}>
+          <div className="text-white text-xs font-bold">{b.title}</div>
+          <div className="text-slate-400 text-xs">{b.description}</div>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
 export const StepLanding: React.FC<StepLandingProps> = ({
   productName,
   niche,
   persona,
   landingPage,
   onUpdate,
+  history,
+  brandVoice,
+  locale,
   user,
   onUpgrade
 }) => {
   const [loading, setLoading] = useState(false);
   const [viewMode, setViewMode] = useState<'preview' | 'data'>('preview');
+  // Partially streamed copy, rendered into the preview as sections arrive
+  const [draft, setDraft] = useState<DeepPartial<LandingPage> | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
 
-  const handleGenerate = async () => {
+  // Regenerate bypasses the response cache; the same inputs would otherwise return the same copy
+  const handleGenerate = async (options?: AIRequestOptions) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
+    setDraft(null);
     try {
-      const data = await generateLandingPage(productName, niche, persona);
-      onUpdate(data);
+      for await (const event of streamLandingPage(productName, niche, persona, controller.signal, options)) {
+        if (event.done) {
+          const data = event.data as LandingPage;
+          onUpdate(data, recordVariant(history, data, { niche: niche.name, persona: persona.jobTitle }, landingPage));
+        }
+        else if (event.data) setDraft(event.data);
+      }
     } catch (e) {
-      console.error(e);
+      notifyAIError(e, "Failed to generate landing page");
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setDraft(null);
       setLoading(false);
     }
   };
 
+  const handleCancel = () => abortRef.current?.abort();
+
+  // Translations are kept as variants, so the original stays one click away in History
+  const handleTranslate = async (language: string) => {
+    if (!landingPage) return;
+    const translated = await translateAsset(landingPage, TRANSLATABLE_FIELDS.landingPage, language);
+    onUpdate(translated, recordVariant(history, translated, { translatedTo: language }, landingPage));
+  };
+
+  const handlePromote = (id: string) => {
+    if (!history) return;
+    const promoted = promoteVariant(history, id);
+    if (promoted) onUpdate(promoted.value, promoted.history);
+  };
+
   const handleDownloadHtml = () => {
     if (!landingPage) return;
     
@@ -122,29 +194,44 @@ export const StepLanding: React.FC<StepLandingProps> = ({
         <div className="text-center py-16 bg-slate-800/30 rounded-2xl border border-dashed border-slate-700">
            <LayoutTemplate size={48} className="mx-auto text-slate-500 mb-4" />
            <p className="text-slate-400 mb-6">Create a complete landing page structure with headers, benefits, and social proof.</p>
-           <Button onClick={handleGenerate} className="px-8">Generate Landing Page</Button>
+           <Button onClick={() => handleGenerate()} className="px-8">Generate Landing Page <CostHint agent="landing_page" className="ml-2" /></Button>
         </div>
       </div>
     );
   }
 
-  if (loading) {
+  const streaming = loading && !!draft?.headline;
+
+  if (loading && !streaming) {
     return (
       <div className="max-w-4xl mx-auto text-center py-20">
         <div className="animate-spin w-12 h-12 border-4 border-indigo-500 border-t-transparent rounded-full mx-auto mb-6"></div>
         <h3 className="text-xl text-white">Writing Sales Copy...</h3>
         <p className="text-slate-400">Optimizing headlines and calls-to-action.</p>
+        <Button onClick={handleCancel} variant="outline" className="mx-auto mt-6"><X size={16} /> Cancel</Button>
       </div>
     );
   }
 
-  if (!landingPage) return null;
+  const page = (streaming ? draft : landingPage) as LandingPage | null;
+  if (!page) return null;
 
   return (
     <div className="max-w-6xl mx-auto">
       <div className="flex justify-between items-center mb-6">
-        <SectionTitle title="Landing Page" subtitle="Live preview of your generated sales page." />
+        <SectionTitle title="Landing Page" subtitle={streaming ? "Writing sales copy... sections appear as they are generated." : "Live preview of your generated sales page."} />
+        {streaming ? (
+          <button
+            onClick={handleCancel}
+            className="px-4 py-2 rounded-lg text-sm flex items-center gap-2 bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700 transition-colors"
+          >
+            <X size={16} /> Cancel
+          </button>
+        ) : (
         <div className="flex gap-2">
+           <TranslateControl projectLocale={locale} onTranslate={handleTranslate} />
+           <VariantHistoryButton title="Landing Page" history={history} onPromote={handlePromote} renderVariant={renderLandingVariant} />
+           <Button variant="outline" onClick={() => handleGenerate({ bypassCache: true })}><RefreshCw size={16} /> Regenerate <CostHint agent="landing_page" /></Button>
            <button 
             onClick={handleDownloadHtml}
             className="px-4 py-2 rounded-lg text-sm flex items-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white transition-colors shadow-lg shadow-emerald-900/20"
@@ -166,8 +253,15 @@ export const StepLanding: React.FC<StepLandingProps> = ({
             </button>
           </div>
         </div>
+        )}
       </div>
 
+      {!streaming && (
+        <div className="mb-6">
+          <BrandVoiceCheck text={landingCopyText(page)} voice={brandVoice} />
+        </div>
+      )}
+
       {viewMode === 'preview' ? (
         <div className="border border-slate-700 rounded-xl overflow-hidden bg-slate-950 shadow-2xl">
           {/* Fake Browser Bar */}
@@ -185,18 +279,18 @@ export const StepLanding: React.FC<StepLandingProps> = ({
           {/* Hero Section */}
           <div className="bg-gradient-to-b from-slate-900 to-indigo-950/20 px-8 py-20 text-center border-b border-slate-800/50">
             <div className="max-w-3xl mx-auto">
-               <h1 className="text-4xl md:text-5xl font-bold text-white mb-6 leading-tight">{landingPage.headline}</h1>
-               <p className="text-xl text-slate-300 mb-8 leading-relaxed">{landingPage.subheadline}</p>
+               <h1 className="text-4xl md:text-5xl font-bold text-white mb-6 leading-tight">{page.headline}</h1>
+               <p className="text-xl text-slate-300 mb-8 leading-relaxed">{page.subheadline}</p>
                <div className="flex flex-col sm:flex-row gap-4 justify-center">
                  <button className="bg-indigo-600 text-white px-8 py-4 rounded-lg font-bold text-lg hover:bg-indigo-500 transition-colors shadow-lg shadow-indigo-600/20">
-                   {landingPage.ctaPrimary}
+                   {page.ctaPrimary}
                  </button>
                  <button className="bg-slate-800 text-white border border-slate-700 px-8 py-4 rounded-lg font-medium hover:bg-slate-700 transition-colors">
-                   {landingPage.ctaSecondary}
+                   {page.ctaSecondary}
                  </button>
                </div>
                <div className="mt-12 p-4 bg-slate-900/50 border border-slate-800 border-dashed rounded-xl max-w-lg mx-auto flex items-center justify-center text-slate-500 text-sm gap-2">
-                 <ImageIcon size={16} /> Image Prompt: {landingPage.heroImagePrompt}
+                 <ImageIcon size={16} /> Image Prompt: {page.heroImagePrompt}
                </div>
             </div>
           </div>
@@ -204,7 +298,7 @@ export const StepLanding: React.FC<StepLandingProps> = ({
           {/* Benefits Section */}
           <div className="px-8 py-20 bg-slate-950">
             <div className="max-w-4xl mx-auto grid grid-cols-1 md:grid-cols-3 gap-8">
-              {landingPage.benefits.map((b, i) => (
+              {(page.benefits || []).map((b, i) => (
                 <div key={i} className="bg-slate-900/50 p-6 rounded-xl border border-slate-800">
                   <div className="w-10 h-10 bg-indigo-500/10 text-indigo-400 rounded-lg flex items-center justify-center mb-4">
                     <CheckCircle2 size={20} />
@@ -220,7 +314,7 @@ export const StepLanding: React.FC<StepLandingProps> = ({
           <div className="px-8 py-20 bg-slate-900 border-t border-slate-800">
             <h2 className="text-2xl font-bold text-center text-white mb-12">Trusted by people like you</h2>
             <div className="max-w-4xl mx-auto grid grid-cols-1 md:grid-cols-3 gap-6">
-              {landingPage.socialProof.map((sp, i) => (
+              {(page.socialProof || []).map((sp, i) => (
                 <div key={i} className="bg-slate-800 p-6 rounded-xl relative">
                   <Quote className="absolute top-4 right-4 text-slate-700" size={24} />
                   <p className="text-slate-300 text-sm italic mb-4 relative z-10">"{sp.quote}"</p>
@@ -240,7 +334,7 @@ export const StepLanding: React.FC<StepLandingProps> = ({
           <div className="px-8 py-20 text-center bg-indigo-900/10">
             <h2 className="text-3xl font-bold text-white mb-6">Ready to get started?</h2>
             <button className="bg-white text-indigo-900 px-8 py-4 rounded-lg font-bold text-lg hover:bg-slate-200 transition-colors inline-flex items-center gap-2">
-               {landingPage.ctaPrimary} <ArrowRight size={20} />
+               {page.ctaPrimary} <ArrowRight size={20} />
             </button>
           </div>
         </div>
@@ -248,16 +342,16 @@ export const StepLanding: React.FC<StepLandingProps> = ({
         <div className="grid grid-cols-1 gap-6">
            <Card>
              <h3 className="text-indigo-400 text-sm font-bold uppercase mb-2">Headline</h3>
-             <p className="text-white text-lg">{landingPage.headline}</p>
+             <p className="text-white text-lg">{page.headline}</p>
            </Card>
            <Card>
              <h3 className="text-indigo-400 text-sm font-bold uppercase mb-2">Subheadline</h3>
-             <p className="text-white text-lg">{landingPage.subheadline}</p>
+             <p className="text-white text-lg">{page.subheadline}</p>
            </Card>
            <Card>
              <h3 className="text-indigo-400 text-sm font-bold uppercase mb-2">Benefits</h3>
              <ul className="space-y-4">
-               {landingPage.benefits.map((b, i) => (
+               {(page.benefits || []).map((b, i) => (
                  <li key={i} className="border-b border-slate-700 pb-4 last:border-0 last:pb-0">
                    <div className="font-bold text-white">{b.title}</div>
                    <div className="text-slate-400">{b.description}</div>
@@ -265,6 +359,9 @@ export const StepLanding: React.FC<StepLandingProps> = ({
                ))}
              </ul>
            </Card>
+           {page.promptVersion && (
+             <p className="text-xs text-slate-500 font-mono text-right">Generated with prompt {page.promptVersion}</p>
+           )}
         </div>
       )}
     </div>
@@ -7,6 +7,7 @@ import { FeatureGuard } from './FeatureGuard';
 import { MapPin, Search, Globe, ExternalLink, Map as MapIcon, RefreshCw, LayoutList, Star, MessageSquare, Download, UserPlus, Mail, Phone, Building2, Target, ArrowRight, ShieldCheck, Database, Lock } from 'lucide-react';
 import { permissionService } from '../services/permissionService';
 import { notify } from '../services/notificationService';
+import { notifyAIError } from '../services/aiErrors';
 
 interface StepLeadsProps {
   niche: NicheSuggestion;
@@ -79,7 +80,7 @@ export const StepLeads: React.FC<StepLeadsProps> = ({ niche, persona, user, onUp
       notify.success("Market scan complete");
     } catch (e) {
       console.error(e);
-      notify.error("Search failed");
+      notifyAIError(e, "Search failed");
     } finally {
       setLoadingLocal(false);
     }
@@ -107,7 +108,7 @@ export const StepLeads: React.FC<StepLeadsProps> = ({ niche, persona, user, onUp
       notify.success("Boolean search agents deployed");
     } catch (e) {
       console.error(e);
-      notify.error("Agent deployment failed");
+      notifyAIError(e, "Agent deployment failed");
     } finally {
       setLoadingSocial(false);
     }
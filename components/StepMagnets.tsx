@@ -1,9 +1,19 @@
 
 import React, { useState } from 'react';
 import { generateLeadMagnets, generateMagnetContent, generateMagnetPromo } from '../services/geminiService';
-import { PersonaProfile, LeadMagnet, AdPlatform } from '../types';
+import { PersonaProfile, LeadMagnet, AdPlatform, AdCreative, MagnetContentDraft, MagnetPromo } from '../types';
 import { Button, Card, SectionTitle, Modal } from './Shared';
-import { Magnet, Download, BookOpen, Video, FileText, PenTool, Loader, Share2, CheckCircle2, Link, Globe, Send } from 'lucide-react';
+import { Magnet, Download, BookOpen, Video, FileText, PenTool, Loader, Share2, CheckCircle2, Link, Globe, Send, CalendarClock } from 'lucide-react';
+import { PLATFORM_POST_RULES, lintAdCreative, hasBlockingIssues } from '../utils/adPlatforms';
+import { MagnetContentEditor } from './MagnetContentEditor';
+import { notify } from '../services/notificationService';
+import { notifyAIError } from '../services/aiErrors';
+import { CostHint } from './CostHint';
+
+type DraftedMagnet = LeadMagnet & { contentDraft: MagnetContentDraft };
+
+// Drafts saved before sectioned content were placeholder strings; treat them as not drafted
+const hasDraft = (magnet: LeadMagnet | null): magnet is DraftedMagnet => Array.isArray(magnet?.contentDraft?.sections);
 
 interface StepMagnetsProps {
   productName: string;
@@ -12,26 +22,39 @@ interface StepMagnetsProps {
   onUpdateMagnets: (magnets: LeadMagnet[]) => void;
   magnets: LeadMagnet[];
   connectedPlatforms: AdPlatform[];
+  onScheduleAds?: (ads: AdCreative[]) => void;
 }
 
+// datetime-local value for tomorrow at 09:00
+const defaultScheduleTime = () => {
+  const d = new Date();
+  d.setDate(d.getDate() + 1);
+  d.setHours(9, 0, 0, 0);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
 export const StepMagnets: React.FC<StepMagnetsProps> = ({
   productName,
   nicheName,
   persona,
   onUpdateMagnets,
   magnets,
-  connectedPlatforms
+  connectedPlatforms,
+  onScheduleAds
 }) => {
   const [loading, setLoading] = useState(false);
   const [draftingId, setDraftingId] = useState<number | null>(null);
-  const [viewingMagnet, setViewingMagnet] = useState<LeadMagnet | null>(null);
+  const [draftProgress, setDraftProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [viewingIndex, setViewingIndex] = useState<number | null>(null);
+  const viewingMagnet = viewingIndex !== null ? magnets[viewingIndex] : null;
   
   // Publishing State
   const [publishingMagnet, setPublishingMagnet] = useState<{item: LeadMagnet, index: number} | null>(null);
   const [publishStep, setPublishStep] = useState<1|2|3>(1);
   const [generatedLink, setGeneratedLink] = useState('');
   const [selectedPlatforms, setSelectedPlatforms] = useState<AdPlatform[]>([]);
-  const [promoContent, setPromoContent] = useState<Record<string, string>>({});
+  const [promoContent, setPromoContent] = useState<Partial<Record<AdPlatform, MagnetPromo>>>({});
+  const [scheduleTime, setScheduleTime] = useState(defaultScheduleTime);
   const [isGeneratingPromo, setIsGeneratingPromo] = useState(false);
   const [isPosting, setIsPosting] = useState(false);
 
@@ -47,18 +70,35 @@ export const StepMagnets: React.FC<StepMagnetsProps> = ({
     }
   };
 
-  const handleDraftContent = async (magnet: LeadMagnet, index: number) => {
+  const saveDraft = (index: number, draft: MagnetContentDraft) => {
+    const updatedMagnets = [...magnets];
+    updatedMagnets[index] = { ...magnets[index], contentDraft: draft };
+    onUpdateMagnets(updatedMagnets);
+  };
+
+  const handleDraftContent = async (magnet: LeadMagnet, index: number, redraft = false) => {
     setDraftingId(index);
+    setViewingIndex(null);
+    let latest: MagnetContentDraft | null = null;
     try {
-      const content = await generateMagnetContent(magnet, persona);
-      const updatedMagnets = [...magnets];
-      updatedMagnets[index] = { ...magnet, contentDraft: content };
-      onUpdateMagnets(updatedMagnets);
-      setViewingMagnet(updatedMagnets[index]);
+      const content = await generateMagnetContent(magnet, persona, (draft, completed) => {
+        latest = draft;
+        setDraftProgress({ completed, total: draft.sections.length });
+      }, redraft ? { bypassCache: true } : undefined);
+      saveDraft(index, content);
+      setViewingIndex(index);
     } catch (e) {
       console.error(e);
+      // Keep the sections that were written; the rest can be regenerated individually
+      if (latest) {
+        saveDraft(index, latest);
+        notify.warning("Drafting stopped early. Open the content to regenerate the missing sections.");
+      } else {
+        notify.error("Failed to draft content");
+      }
     } finally {
       setDraftingId(null);
+      setDraftProgress(null);
     }
   };
 
@@ -72,6 +112,7 @@ export const StepMagnets: React.FC<StepMagnetsProps> = ({
     setGeneratedLink(`https://meti.pro/dl/${slug}`);
     setSelectedPlatforms([]);
     setPromoContent({});
+    setScheduleTime(defaultScheduleTime());
   };
 
   const handlePlatformToggle = (platform: AdPlatform) => {
@@ -87,24 +128,60 @@ export const StepMagnets: React.FC<StepMagnetsProps> = ({
     setPublishStep(2);
     setIsGeneratingPromo(true);
     
-    const promos: Record<string, string> = {};
+    const promos: Partial<Record<AdPlatform, MagnetPromo>> = {};
     
     // Generate for each selected platform
     try {
       for (const platform of selectedPlatforms) {
-        const content = await generateMagnetPromo(publishingMagnet.item, persona, platform, generatedLink);
-        promos[platform] = content;
+        promos[platform] = await generateMagnetPromo(publishingMagnet.item, persona, platform, generatedLink);
       }
       setPromoContent(promos);
       setPublishStep(3); // Move to review step
     } catch (e) {
       console.error("Promo Gen Error", e);
-      alert("Failed to generate promo content.");
+      notifyAIError(e, "Failed to generate promo content.");
+      setPublishStep(1);
     } finally {
       setIsGeneratingPromo(false);
     }
   };
 
+  const markPublished = () => {
+    if (!publishingMagnet) return;
+    const updatedMagnets = [...magnets];
+    updatedMagnets[publishingMagnet.index] = { 
+      ...publishingMagnet.item, 
+      status: 'published',
+      smartLink: generatedLink,
+      publishedAt: Date.now(),
+      publishedPlatforms: selectedPlatforms
+    };
+    onUpdateMagnets(updatedMagnets);
+    setPublishingMagnet(null); // Close modal
+  };
+
+  // Hands the promo posts to the Ad Command Center as scheduled creatives. Posts that break a
+  // platform ad rule go in as drafts, so they are fixed there before anything is scheduled.
+  const scheduleInAds = () => {
+    if (!publishingMagnet || !onScheduleAds) return;
+    const scheduledTime = new Date(scheduleTime).toISOString();
+    const ads: AdCreative[] = Object.values(promoContent).filter((p): p is MagnetPromo => !!p).map(promo => {
+      const creative = { platform: promo.platform, headline: promo.headline, adCopy: promo.text, hashtags: promo.hashtags };
+      const blocked = hasBlockingIssues(lintAdCreative(creative));
+      return {
+        ...creative,
+        visualPrompt: `Cover artwork for the ${publishingMagnet.item.type.replace('_', ' ')} "${publishingMagnet.item.title}"`,
+        status: blocked ? 'draft' : 'scheduled',
+        scheduledTime: blocked ? undefined : scheduledTime
+      };
+    });
+    onScheduleAds(ads);
+    markPublished();
+    const drafts = ads.filter(ad => ad.status === 'draft').length;
+    notify.success(`${ads.length} post${ads.length === 1 ? '' : 's'} added to the Ad Command Center`);
+    if (drafts) notify.warning(`${drafts} post${drafts === 1 ? '' : 's'} saved as draft${drafts === 1 ? '' : 's'}: fix the flagged ad rule errors before scheduling`);
+  };
+
   const finalizePublishing = async () => {
     if (!publishingMagnet) return;
     setIsPosting(true);
@@ -112,18 +189,7 @@ export const StepMagnets: React.FC<StepMagnetsProps> = ({
     try {
       // Simulate API calls
       await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      const updatedMagnets = [...magnets];
-      updatedMagnets[publishingMagnet.index] = { 
-        ...publishingMagnet.item, 
-        status: 'published',
-        smartLink: generatedLink,
-        publishedAt: Date.now(),
-        publishedPlatforms: selectedPlatforms
-      };
-      
-      onUpdateMagnets(updatedMagnets);
-      setPublishingMagnet(null); // Close modal
+      markPublished();
       alert(`Successfully published to ${selectedPlatforms.length} platforms!`);
     } catch (e) {
       alert("Failed to post.");
@@ -170,7 +236,7 @@ export const StepMagnets: React.FC<StepMagnetsProps> = ({
       {magnets.length === 0 && !loading && (
         <div className="text-center py-12">
           <Button onClick={handleGenerate} className="px-8 py-4 text-lg">
-             <Magnet className="mr-2" /> Generate Lead Magnets
+             <Magnet className="mr-2" /> Generate Lead Magnets <CostHint agent="magnets" className="ml-2" />
           </Button>
         </div>
       )}
@@ -194,7 +260,7 @@ export const StepMagnets: React.FC<StepMagnetsProps> = ({
                    <span className="text-xs text-emerald-400 font-bold flex items-center gap-1 bg-emerald-500/10 px-2 py-1 rounded border border-emerald-500/20">
                      <CheckCircle2 size={12}/> Published
                    </span>
-                ) : magnet.contentDraft ? (
+                ) : hasDraft(magnet) ? (
                    <span className="text-xs text-emerald-400 font-medium flex items-center gap-1"><PenTool size={12}/> Drafted</span>
                 ) : null}
               </div>
@@ -221,9 +287,9 @@ export const StepMagnets: React.FC<StepMagnetsProps> = ({
 
               <div className="mt-auto pt-4 flex flex-col gap-2">
                 <div className="flex gap-2">
-                  {magnet.contentDraft ? (
-                    <Button variant="secondary" className="w-full text-sm" onClick={() => setViewingMagnet(magnet)}>
-                      View Content
+                  {hasDraft(magnet) && draftingId !== idx ? (
+                    <Button variant="secondary" className="w-full text-sm" onClick={() => setViewingIndex(idx)}>
+                      Edit Content
                     </Button>
                   ) : (
                     <Button 
@@ -233,11 +299,11 @@ export const StepMagnets: React.FC<StepMagnetsProps> = ({
                       disabled={draftingId === idx}
                     >
                       {draftingId === idx ? <Loader className="animate-spin" size={16} /> : <PenTool size={16} />}
-                      {draftingId === idx ? 'Drafting...' : 'Draft Content'}
+                      {draftingId !== idx ? 'Draft Content' : draftProgress ? `Writing ${Math.min(draftProgress.completed + 1, draftProgress.total)}/${draftProgress.total}...` : 'Outlining...'}
                     </Button>
                   )}
                   
-                  {magnet.contentDraft && (
+                  {hasDraft(magnet) && (
                     <Button 
                        variant="primary" 
                        className="w-full text-sm"
@@ -255,21 +321,20 @@ export const StepMagnets: React.FC<StepMagnetsProps> = ({
         </div>
       )}
 
-      {/* Content Viewer Modal */}
+      {/* Content Editor Modal */}
       <Modal 
-        isOpen={!!viewingMagnet} 
-        onClose={() => setViewingMagnet(null)} 
+        isOpen={hasDraft(viewingMagnet)} 
+        onClose={() => setViewingIndex(null)} 
         title={viewingMagnet?.title || 'Lead Magnet Content'}
       >
-        <div className="prose prose-invert prose-lg max-w-none">
-          <div className="bg-slate-950 p-6 rounded-lg border border-slate-800 mb-6">
-            <h4 className="text-indigo-400 text-sm font-bold uppercase mb-2">Structure</h4>
-            <p className="text-slate-300">{viewingMagnet?.description}</p>
-          </div>
-          <div className="whitespace-pre-wrap text-slate-200 leading-relaxed font-serif">
-            {viewingMagnet?.contentDraft}
-          </div>
-        </div>
+        {hasDraft(viewingMagnet) && viewingIndex !== null && (
+          <MagnetContentEditor
+            key={viewingMagnet.contentDraft.generatedAt}
+            magnet={viewingMagnet}
+            onSave={(draft) => saveDraft(viewingIndex, draft)}
+            onRedraftAll={() => handleDraftContent(viewingMagnet, viewingIndex, true)}
+          />
+        )}
       </Modal>
 
       {/* Smart Publish Modal */}
@@ -350,21 +415,44 @@ export const StepMagnets: React.FC<StepMagnetsProps> = ({
                     <h3 className="font-bold text-white">Review & Launch</h3>
                   </div>
                   <div className="ml-11 space-y-4">
-                     {Object.entries(promoContent).map(([platform, content]) => (
-                       <div key={platform} className="bg-slate-800 p-4 rounded-lg border border-slate-700">
-                         <div className="text-xs font-bold text-slate-500 uppercase mb-2">{platform} Post Draft</div>
-                         <textarea 
-                           className="w-full bg-slate-900 border border-slate-600 rounded p-3 text-sm text-slate-200 focus:border-indigo-500 outline-none min-h-[100px]"
-                           value={content}
-                           onChange={(e) => setPromoContent({...promoContent, [platform]: e.target.value})}
-                         />
-                       </div>
-                     ))}
+                     {Object.values(promoContent).filter((p): p is MagnetPromo => !!p).map(promo => {
+                       const limit = PLATFORM_POST_RULES[promo.platform].maxChars;
+                       return (
+                         <div key={promo.platform} className="bg-slate-800 p-4 rounded-lg border border-slate-700">
+                           <div className="flex justify-between text-xs font-bold uppercase mb-2">
+                             <span className="text-slate-500">{promo.platform} Post Draft</span>
+                             <span className={promo.text.length > limit ? 'text-red-400' : 'text-slate-500'}>{promo.text.length}/{limit}</span>
+                           </div>
+                           <textarea 
+                             className="w-full bg-slate-900 border border-slate-600 rounded p-3 text-sm text-slate-200 focus:border-indigo-500 outline-none min-h-[100px]"
+                             value={promo.text}
+                             onChange={(e) => setPromoContent({...promoContent, [promo.platform]: { ...promo, text: e.target.value }})}
+                           />
+                           {!promo.text.includes(generatedLink) && (
+                             <p className="text-xs text-amber-400 mt-2">The smart link is missing from this post.</p>
+                           )}
+                         </div>
+                       );
+                     })}
                      
                      <Button onClick={finalizePublishing} disabled={isPosting} className="w-full py-4 text-lg">
                        {isPosting ? <Loader className="animate-spin mr-2" /> : <Send className="mr-2" />}
                        {isPosting ? 'Publishing Live...' : 'Publish Campaign Now'}
                      </Button>
+
+                     {onScheduleAds && (
+                       <div className="flex flex-col md:flex-row gap-2 items-stretch md:items-center pt-2 border-t border-slate-800">
+                         <input
+                           type="datetime-local"
+                           value={scheduleTime}
+                           onChange={(e) => setScheduleTime(e.target.value)}
+                           className="bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white outline-none focus:border-indigo-500"
+                         />
+                         <Button variant="secondary" onClick={scheduleInAds} disabled={isPosting || !scheduleTime} className="flex-1">
+                           <CalendarClock size={16} /> Send to Ad Scheduler
+                         </Button>
+                       </div>
+                     )}
                   </div>
                </div>
             )}
@@ -1,8 +1,10 @@
 import React, { useState } from 'react';
-import { generateNiches } from '../services/geminiService';
+import { generateNiches, AIRequestOptions } from '../services/geminiService';
+import { aiErrorMessage } from '../services/aiErrors';
 import { NicheSuggestion } from '../types';
 import { Button, Card, SectionTitle } from './Shared';
 import { Target, TrendingUp, Users, Filter, RefreshCw } from 'lucide-react';
+import { CostHint } from './CostHint';
 
 interface StepNicheProps {
   productName: string;
@@ -25,16 +27,16 @@ export const StepNiche: React.FC<StepNicheProps> = ({
   const [showFilters, setShowFilters] = useState(false);
   const [marketFocus, setMarketFocus] = useState("");
 
-  const handleGenerate = async () => {
+  const handleGenerate = async (options?: AIRequestOptions) => {
     setLoading(true);
     setError(null);
     try {
       const data = await generateNiches(productName, productDescription, {
         focus: marketFocus
-      });
+      }, options);
       setNiches(data);
     } catch (e) {
-      setError("Failed to generate niches. Please check your API key.");
+      setError(aiErrorMessage(e, "Failed to generate niches."));
     } finally {
       setLoading(false);
     }
@@ -79,9 +81,11 @@ export const StepNiche: React.FC<StepNicheProps> = ({
           <p className="text-xs text-slate-500">
             {niches.length > 0 ? "Refine settings and regenerate if needed." : "Configure settings before analysis."}
           </p>
-          <Button onClick={handleGenerate} disabled={loading} className="px-6">
+          {/* Regenerating asks for a fresh analysis instead of the cached one */}
+          <Button onClick={() => handleGenerate(niches.length > 0 ? { bypassCache: true } : undefined)} disabled={loading} className="px-6">
             {loading ? 'Analyzing...' : niches.length > 0 ? 'Regenerate Analysis' : 'Analyze Market Opportunities'}
             {!loading && <RefreshCw size={16} className={niches.length > 0 ? "ml-2" : "hidden"} />}
+            {!loading && <CostHint agent="niche" className="ml-2" />}
           </Button>
         </div>
       </div>
@@ -1,58 +1,115 @@
 
-import React, { useState, useEffect } from 'react';
-import { generatePersona } from '../services/geminiService';
-import { NicheSuggestion, PersonaProfile } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { streamPersona, AIRequestOptions } from '../services/geminiService';
+import { aiErrorMessage, isAbortError } from '../services/aiErrors';
+import { DeepPartial } from '../utils/core';
+import { NicheSuggestion, PersonaProfile, VariantHistory } from '../types';
+import { recordVariant, promoteVariant } from '../utils/variants';
 import { Button, Card, SectionTitle } from './Shared';
-import { User, AlertCircle, Heart, Zap, RefreshCw, MessageSquare } from 'lucide-react';
+import { VariantHistoryButton } from './VariantHistory';
+import { User, AlertCircle, Heart, Zap, RefreshCw, MessageSquare, X } from 'lucide-react';
+import { CostHint } from './CostHint';
 
 interface StepPersonaProps {
   productName: string;
   niche: NicheSuggestion;
-  onPersonaGenerated: (persona: PersonaProfile) => void;
+  onPersonaGenerated: (persona: PersonaProfile, history?: VariantHistory<PersonaProfile>) => void;
   existingPersona: PersonaProfile | null;
+  history?: VariantHistory<PersonaProfile>;
 }
 
+const renderPersonaVariant = (p: PersonaProfile) => (
+  <div className="space-y-3 text-sm">
+    <div>
+      <div className="text-white font-bold">{p.jobTitle}</div>
+      <div className="text-indigo-300 text-xs">{p.ageRange}</div>
+    </div>
+    {[['Pain Points', p.painPoints], ['Goals', p.goals], ['Buying Triggers', p.buyingTriggers]].map(([label, items]) => (
+      <div key={label as string}>
+        <div className="text-xs text-slate-500 uppercase font-bold mb-1">{label as string}</div>
+        <ul className="list-disc list-inside text-slate-300 text-xs space-y-0.5">
+          {(items as string[] || []).map((item, i) => <li key={i}>{item}</li>)}
+        </ul>
+      </div>
+    ))}
+  </div>
+);
+
 export const StepPersona: React.FC<StepPersonaProps> = ({
   productName,
   niche,
   onPersonaGenerated,
-  existingPersona
+  existingPersona,
+  history
 }) => {
   const [loading, setLoading] = useState(false);
   const [persona, setPersona] = useState<PersonaProfile | null>(existingPersona);
   const [error, setError] = useState<string | null>(null);
   const [showRefineInput, setShowRefineInput] = useState(false);
   const [refinementText, setRefinementText] = useState("");
+  // Partially streamed profile, rendered section by section while generating
+  const [draft, setDraft] = useState<DeepPartial<PersonaProfile> | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   // Auto-generate if not exists when entering this step
   useEffect(() => {
     if (!existingPersona && !loading && !persona) {
       handleGenerate();
     }
+    return () => abortRef.current?.abort();
   }, []);
 
-  const handleGenerate = async (refine?: string) => {
+  // Regenerate bypasses the response cache; the same inputs would otherwise return the same persona
+  const handleGenerate = async (refine?: string, options?: AIRequestOptions) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
     setError(null);
+    setDraft(null);
     try {
-      const data = await generatePersona(productName, niche, refine);
-      setPersona(data);
-      onPersonaGenerated(data);
-      setRefinementText("");
-      setShowRefineInput(false);
+      for await (const event of streamPersona(productName, niche, refine, controller.signal, options)) {
+        if (!event.done) {
+          if (event.data) setDraft(event.data);
+          continue;
+        }
+        const data = event.data as PersonaProfile;
+        setPersona(data);
+        onPersonaGenerated(data, recordVariant(history, data, { niche: niche.name, refinement: refine || '' }, persona));
+        setRefinementText("");
+        setShowRefineInput(false);
+      }
     } catch (e) {
-      setError("Failed to generate Persona.");
+      if (!isAbortError(e)) setError(aiErrorMessage(e, "Failed to generate Persona."));
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setDraft(null);
       setLoading(false);
     }
   };
 
-  if (loading && !persona) {
+  const handleCancel = () => abortRef.current?.abort();
+
+  const handlePromote = (id: string) => {
+    if (!history) return;
+    const promoted = promoteVariant(history, id);
+    if (!promoted) return;
+    setPersona(promoted.value);
+    onPersonaGenerated(promoted.value, promoted.history);
+  };
+
+  const cancelButton = (
+    <Button onClick={handleCancel} variant="outline" className="mx-auto mt-6">
+      <X size={16} /> Cancel
+    </Button>
+  );
+
+  if (loading && !persona && !draft?.jobTitle) {
     return (
       <div className="max-w-4xl mx-auto text-center py-20">
         <div className="animate-spin w-12 h-12 border-4 border-indigo-500 border-t-transparent rounded-full mx-auto mb-6"></div>
         <h3 className="text-xl text-white">Analyzing Psychological Triggers...</h3>
         <p className="text-slate-400">Building the profile of your perfect buyer.</p>
+        {cancelButton}
       </div>
     );
   }
@@ -61,20 +118,30 @@ export const StepPersona: React.FC<StepPersonaProps> = ({
     return (
       <div className="text-center py-12">
         <div className="text-red-400 mb-4">{error}</div>
-        <Button onClick={() => handleGenerate()}>Retry Generation</Button>
+        <Button onClick={() => handleGenerate()}>Retry Generation <CostHint agent="persona" className="ml-2" /></Button>
       </div>
     );
   }
 
-  if (!persona) return null;
+  const streaming = loading && !!draft?.jobTitle;
+  const view = (streaming ? draft : persona) as PersonaProfile | null;
+  if (!view) return null;
 
   return (
     <div className="max-w-4xl mx-auto relative">
-      {/* Loading Overlay for Regeneration */}
-      {loading && (
+      {/* Loading Overlay for Regeneration (until the first streamed section arrives) */}
+      {loading && !streaming && (
         <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm z-50 flex flex-col items-center justify-center rounded-xl">
            <div className="animate-spin w-10 h-10 border-4 border-indigo-500 border-t-transparent rounded-full mb-4"></div>
            <p className="text-white font-medium">Refining Persona Profile...</p>
+           {cancelButton}
+        </div>
+      )}
+
+      {streaming && (
+        <div className="flex items-center justify-between gap-4 mb-6 bg-indigo-500/10 border border-indigo-500/20 rounded-lg px-4 py-2 text-sm text-indigo-300 animate-pulse">
+          <span>Streaming profile...</span>
+          <button onClick={handleCancel} className="flex items-center gap-1 text-slate-300 hover:text-white"><X size={14} /> Cancel</button>
         </div>
       )}
 
@@ -89,11 +156,12 @@ export const StepPersona: React.FC<StepPersonaProps> = ({
             <div className="w-20 h-20 bg-indigo-500 rounded-full flex items-center justify-center mb-4 text-white shadow-lg shadow-indigo-500/25">
               <User size={40} />
             </div>
-            <h3 className="text-xl font-bold text-white">{persona.jobTitle}</h3>
-            <p className="text-indigo-300 text-sm mb-4">{persona.ageRange}</p>
+            <h3 className="text-xl font-bold text-white">{view.jobTitle}</h3>
+            <p className="text-indigo-300 text-sm mb-4">{view.ageRange}</p>
+            {view.promptVersion && <p className="text-[10px] text-slate-500 font-mono -mt-3 mb-4">prompt {view.promptVersion}</p>}
             <div className="w-full h-px bg-indigo-500/20 mb-4"></div>
             <div className="text-left w-full space-y-2">
-              {persona.psychographics?.slice(0, 3).map((item, i) => (
+              {view.psychographics?.slice(0, 3).map((item, i) => (
                 <div key={i} className="text-xs text-slate-300 flex items-start gap-2">
                   <span className="text-indigo-400 mt-0.5">•</span> {item}
                 </div>
@@ -108,7 +176,7 @@ export const StepPersona: React.FC<StepPersonaProps> = ({
               <AlertCircle size={18} /> Major Pain Points
             </h4>
             <div className="flex flex-wrap gap-2">
-              {persona.painPoints?.map((point, i) => (
+              {view.painPoints?.map((point, i) => (
                 <span key={i} className="bg-red-500/10 text-red-200 text-sm px-3 py-1.5 rounded-lg border border-red-500/20">
                   {point}
                 </span>
@@ -121,7 +189,7 @@ export const StepPersona: React.FC<StepPersonaProps> = ({
               <Heart size={18} /> Goals & Aspirations
             </h4>
             <div className="space-y-2">
-              {persona.goals?.map((goal, i) => (
+              {view.goals?.map((goal, i) => (
                 <div key={i} className="flex items-start gap-2 text-slate-300 text-sm">
                   <span className="text-emerald-500">✓</span> {goal}
                 </div>
@@ -134,7 +202,7 @@ export const StepPersona: React.FC<StepPersonaProps> = ({
               <Zap size={18} /> Buying Triggers
             </h4>
              <ul className="list-disc list-inside text-slate-300 text-sm space-y-1">
-              {persona.buyingTriggers?.map((trigger, i) => (
+              {view.buyingTriggers?.map((trigger, i) => (
                 <li key={i}>{trigger}</li>
               ))}
             </ul>
@@ -143,49 +211,52 @@ export const StepPersona: React.FC<StepPersonaProps> = ({
       </div>
       
       {/* Regeneration UI */}
-      <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700">
-        <div className="flex flex-col md:flex-row justify-between items-center gap-4">
-          <div className="flex-1 w-full">
-            {showRefineInput ? (
-               <div className="animate-fadeIn w-full">
-                 <label className="text-xs text-slate-400 block mb-1">Feedback / Refinement Instructions:</label>
-                 <div className="flex gap-2">
-                   <input 
-                     type="text" 
-                     value={refinementText}
-                     onChange={(e) => setRefinementText(e.target.value)}
-                     placeholder="e.g. 'Make them more technical' or 'Focus on small business owners'"
-                     className="flex-1 bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:border-indigo-500 outline-none"
-                     onKeyDown={(e) => e.key === 'Enter' && handleGenerate(refinementText)}
-                   />
-                   <Button onClick={() => handleGenerate(refinementText)} variant="primary" className="py-2 px-3">
-                     Apply
-                   </Button>
-                   <Button onClick={() => setShowRefineInput(false)} variant="secondary" className="py-2 px-3">
-                     Cancel
-                   </Button>
+      {!streaming && (
+        <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700">
+          <div className="flex flex-col md:flex-row justify-between items-center gap-4">
+            <div className="flex-1 w-full">
+              {showRefineInput ? (
+                 <div className="animate-fadeIn w-full">
+                   <label className="text-xs text-slate-400 block mb-1">Feedback / Refinement Instructions:</label>
+                   <div className="flex gap-2">
+                     <input 
+                       type="text" 
+                       value={refinementText}
+                       onChange={(e) => setRefinementText(e.target.value)}
+                       placeholder="e.g. 'Make them more technical' or 'Focus on small business owners'"
+                       className="flex-1 bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:border-indigo-500 outline-none"
+                       onKeyDown={(e) => e.key === 'Enter' && handleGenerate(refinementText)}
+                     />
+                     <Button onClick={() => handleGenerate(refinementText)} variant="primary" className="py-2 px-3">
+                       Apply
+                     </Button>
+                     <Button onClick={() => setShowRefineInput(false)} variant="secondary" className="py-2 px-3">
+                       Cancel
+                     </Button>
+                   </div>
                  </div>
-               </div>
-            ) : (
-              <div className="flex items-center gap-2 text-slate-400 text-sm">
-                <MessageSquare size={16} />
-                <span>Is this persona not quite right?</span>
+              ) : (
+                <div className="flex items-center gap-2 text-slate-400 text-sm">
+                  <MessageSquare size={16} />
+                  <span>Is this persona not quite right?</span>
+                </div>
+              )}
+            </div>
+            
+            {!showRefineInput && (
+              <div className="flex gap-2">
+                <VariantHistoryButton title="Persona" history={history} onPromote={handlePromote} renderVariant={renderPersonaVariant} />
+                <Button onClick={() => setShowRefineInput(true)} variant="secondary">
+                   Refine Persona
+                </Button>
+                <Button onClick={() => handleGenerate(undefined, { bypassCache: true })} variant="outline">
+                   <RefreshCw size={16} className="mr-2" /> Regenerate <CostHint agent="persona" className="ml-2" />
+                </Button>
               </div>
             )}
           </div>
-          
-          {!showRefineInput && (
-            <div className="flex gap-2">
-              <Button onClick={() => setShowRefineInput(true)} variant="secondary">
-                 Refine Persona
-              </Button>
-              <Button onClick={() => handleGenerate()} variant="outline">
-                 <RefreshCw size={16} className="mr-2" /> Regenerate
-              </Button>
-            </div>
-          )}
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -1,12 +1,21 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button, Card } from './Shared';
-import { Check, X, Star, Zap, Crown, Loader, CreditCard, PlusCircle } from 'lucide-react';
+import { Check, X, Star, Zap, Crown, Loader, CreditCard, PlusCircle, Coins } from 'lucide-react';
 import { notify } from '../services/notificationService';
 import { getApiUrl, authService } from '../services/authService';
 
-export const StepPricing: React.FC = () => {
+interface StepPricingProps {
+  focus?: 'topup' | null; // Set when arriving from the out-of-tokens prompt
+}
+
+export const StepPricing: React.FC<StepPricingProps> = ({ focus }) => {
   const [processingPlan, setProcessingPlan] = useState<string | null>(null);
+  const topUpRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (focus === 'topup') topUpRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focus]);
 
   const handleSubscribe = async (planName: string) => {
     setProcessingPlan(planName);
@@ -145,6 +154,22 @@ export const StepPricing: React.FC = () => {
           </div>
         ))}
       </div>
+
+      <div ref={topUpRef} className={`mt-12 max-w-3xl mx-auto rounded-xl border p-6 flex flex-col md:flex-row items-center gap-6 transition-all ${focus === 'topup' ? 'border-indigo-500 ring-2 ring-indigo-500/40 bg-slate-800' : 'border-slate-700 bg-slate-800/50'}`}>
+        <div className="w-12 h-12 rounded-lg bg-amber-500/20 text-amber-300 flex items-center justify-center flex-shrink-0">
+          <Coins size={24} />
+        </div>
+        <div className="flex-1 text-center md:text-left">
+          <h3 className="text-lg font-bold text-white">AI Token Top-up</h3>
+          <p className="text-sm text-slate-400">250,000 extra tokens for the current billing period. Keeps you generating without changing plan.</p>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-white mb-2">₦14,700</div>
+          <Button onClick={() => handleSubscribe('TopUp')} disabled={processingPlan !== null}>
+            {processingPlan === 'TopUp' ? <><Loader className="animate-spin mr-2" size={16} /> Processing...</> : 'Buy Top-up'}
+          </Button>
+        </div>
+      </div>
     </div>
   );
 };
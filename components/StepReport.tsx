@@ -2,14 +2,16 @@
 import React, { useState } from 'react';
 import { ProjectData } from '../types';
 import { Button, Card, SectionTitle } from './Shared';
-import { FileText, Download, Copy, Check, EyeOff, Eye } from 'lucide-react';
+import { FileText, Download, Copy, Check, EyeOff, Eye, Package } from 'lucide-react';
+import { downloadProjectBundle } from './ProjectBundles';
 import { authService } from '../services/authService';
 
 interface StepReportProps {
   data: ProjectData;
+  projectId?: string; // Enables the .meti bundle export
 }
 
-export const StepReport: React.FC<StepReportProps> = ({ data }) => {
+export const StepReport: React.FC<StepReportProps> = ({ data, projectId }) => {
   const [copied, setCopied] = useState(false);
   const [whiteLabel, setWhiteLabel] = useState(false);
   const [agencyName, setAgencyName] = useState('My Agency');
@@ -93,6 +95,11 @@ ${data.qualificationFramework?.map((q, i) => `${i+1}. ${q.question}
                 <Download size={18} /> Download MD
               </Button>
             </div>
+            {projectId && (
+              <button onClick={() => downloadProjectBundle(projectId)} className="mt-4 text-xs text-slate-400 hover:text-white flex items-center gap-1.5">
+                <Package size={14} /> Export full project (.meti) to import into another account
+              </button>
+            )}
           </Card>
 
           {/* Agency White-label Controls */}
@@ -1,10 +1,11 @@
 
 import React, { useState, useMemo } from 'react';
-import { generateSeoAudit, generateKeywordStrategy, analyzeContentSeo } from '../services/geminiService';
+import { generateSeoAudit, generateKeywordStrategy, analyzeContentSeo, AIRequestOptions } from '../services/geminiService';
 import { NicheSuggestion, PersonaProfile, KeywordData, SeoAuditIssue, SeoContentScore, User } from '../types';
 import { Button, Card, SectionTitle } from './Shared';
 import { Search, Globe, AlertTriangle, CheckCircle2, BarChart2, Zap, FileText, Settings, Smartphone, RefreshCw, AlignLeft, TrendingUp, AlertOctagon, Info, ArrowUpRight, Target } from 'lucide-react';
 import { notify } from '../services/notificationService';
+import { notifyAIError } from '../services/aiErrors';
 
 interface StepSEOProps {
   productName: string;
@@ -63,37 +64,37 @@ export const StepSEO: React.FC<StepSEOProps> = ({
 
   // --- Handlers ---
 
-  const runAudit = async () => {
+  const runAudit = async (options?: AIRequestOptions) => {
     if (!auditUrl) {
         notify.error("Please enter a URL to audit");
         return;
     }
     setLoading(true);
     try {
-      const results = await generateSeoAudit(auditUrl, productName);
+      const results = await generateSeoAudit(auditUrl, productName, options);
       onUpdate({ seoAuditResults: results });
       notify.success("Site audit completed successfully");
     } catch (e) {
       console.error(e);
-      notify.error("Audit failed. Please try again.");
+      notifyAIError(e, "Audit failed. Please try again.");
     } finally {
       setLoading(false);
     }
   };
 
-  const runKeywordResearch = async () => {
+  const runKeywordResearch = async (options?: AIRequestOptions) => {
     if (!seedKeyword) {
       notify.warning("Please enter a seed keyword");
       return;
     }
     setLoading(true);
     try {
-      const results = await generateKeywordStrategy(seedKeyword, niche.name, persona);
+      const results = await generateKeywordStrategy(seedKeyword, niche.name, persona, options);
       onUpdate({ seoKeywords: results });
       notify.success("Keyword strategy generated");
     } catch (e) {
       console.error(e);
-      notify.error("Keyword research failed");
+      notifyAIError(e, "Keyword research failed");
     } finally {
       setLoading(false);
     }
@@ -111,7 +112,7 @@ export const StepSEO: React.FC<StepSEOProps> = ({
       notify.success("Content analysis updated");
     } catch (e) {
       console.error(e);
-      notify.error("Analysis failed");
+      notifyAIError(e, "Analysis failed");
     } finally {
       setIsAnalyzing(false);
     }
@@ -342,9 +343,14 @@ export const StepSEO: React.FC<StepSEOProps> = ({
                          />
                       </div>
                    </div>
-                   <Button onClick={runAudit} disabled={loading} className="w-full md:w-auto h-[46px]">
+                   <Button onClick={() => runAudit()} disabled={loading} className="w-full md:w-auto h-[46px]">
                       {loading ? 'Running Analysis...' : 'Run Technical Audit'}
                    </Button>
+                   {seoAuditResults.length > 0 && (
+                      <Button variant="outline" onClick={() => runAudit({ bypassCache: true })} disabled={loading} className="w-full md:w-auto h-[46px]" title="Skip cached results and re-run the audit">
+                         <RefreshCw size={16} /> Re-run
+                      </Button>
+                   )}
                 </div>
              </Card>
 
@@ -410,9 +416,14 @@ export const StepSEO: React.FC<StepSEOProps> = ({
                           />
                        </div>
                     </div>
-                    <Button onClick={runKeywordResearch} disabled={loading} className="w-full md:w-auto h-[46px]">
+                    <Button onClick={() => runKeywordResearch()} disabled={loading} className="w-full md:w-auto h-[46px]">
                        {loading ? 'Mining Data...' : 'Find Keywords'}
                     </Button>
+                    {seoKeywords.length > 0 && (
+                       <Button variant="outline" onClick={() => runKeywordResearch({ bypassCache: true })} disabled={loading} className="w-full md:w-auto h-[46px]" title="Skip cached results and mine fresh keywords">
+                          <RefreshCw size={16} /> Regenerate
+                       </Button>
+                    )}
                  </div>
               </Card>
 
@@ -5,6 +5,7 @@ import { Button, Card, SectionTitle } from './Shared';
 import { authService } from '../services/authService';
 import { User as UserIcon, Lock, CreditCard, Save, CheckCircle2, Shield, Crown, Image as ImageIcon, Megaphone } from 'lucide-react';
 import { compressImage } from '../utils/core';
+import { UsagePanel } from './UsagePanel';
 
 interface StepSettingsProps {
   user: User;
@@ -75,6 +76,8 @@ export const StepSettings: React.FC<StepSettingsProps> = ({ user, onUserUpdate }
     <div className="max-w-4xl mx-auto animate-fadeIn">
       <SectionTitle title="Account Settings" subtitle="Manage your profile, security, and subscription preferences." />
 
+      <UsagePanel />
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
         
         {/* Profile Form */}
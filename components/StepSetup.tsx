@@ -1,10 +1,13 @@
 
 import React, { useState, useEffect } from 'react';
 import { Button, Card, SectionTitle } from './Shared';
-import { ArrowRight, Box, Briefcase, Link as LinkIcon, Plus, Lock } from 'lucide-react';
+import { ArrowRight, Box, Briefcase, Link as LinkIcon, Plus, Lock, Mic, Globe, LayoutTemplate, X } from 'lucide-react';
 import { authService } from '../services/authService';
 import { storageService } from '../services/storageService';
-import { Client } from '../types';
+import { Client, BrandVoice, ProjectLocale, ProjectTemplate } from '../types';
+import { sectionLabels } from '../utils/projectSections';
+import { CONTENT_LOCALES, findLocale, resolveLocale, currencySymbol } from '../utils/locales';
+import { BrandVoiceEditor } from './BrandVoiceEditor';
 
 interface StepSetupProps {
   productName: string;
@@ -21,6 +24,13 @@ interface StepSetupProps {
   setProductPrice: (v: number) => void;
   onNext: () => void;
   isLocked?: boolean;
+  brandVoice?: BrandVoice | null;
+  inheritedVoiceFrom?: string; // Client name when the project falls back to its client's voice
+  onUpdateBrandVoice?: (voice: BrandVoice | null) => Promise<void>; // Only once the project exists
+  locale?: ProjectLocale;
+  onUpdateLocale?: (locale: ProjectLocale) => Promise<void>; // Only once the project exists
+  template?: ProjectTemplate | null; // Sections the new project will start with
+  onClearTemplate?: () => void;
 }
 
 export const StepSetup: React.FC<StepSetupProps> = ({
@@ -37,7 +47,14 @@ export const StepSetup: React.FC<StepSetupProps> = ({
   setProductUrl,
   setProductPrice,
   onNext,
-  isLocked = false
+  isLocked = false,
+  brandVoice,
+  inheritedVoiceFrom,
+  onUpdateBrandVoice,
+  locale,
+  onUpdateLocale,
+  template,
+  onClearTemplate
 }) => {
   const isComplete = productName.length > 2 && productDescription.length > 10;
   const user = authService.getCurrentUser();
@@ -45,6 +62,12 @@ export const StepSetup: React.FC<StepSetupProps> = ({
 
   const [clients, setClients] = useState<Client[]>([]);
   const [useNewClient, setUseNewClient] = useState(false);
+  const activeLocale = resolveLocale(locale);
+
+  const handleLocaleSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const selected = findLocale(e.target.value);
+    if (selected && onUpdateLocale) onUpdateLocale({ code: selected.code, language: selected.language, currency: selected.currency });
+  };
 
   useEffect(() => {
     if (isAgency) {
@@ -80,6 +103,21 @@ export const StepSetup: React.FC<StepSetupProps> = ({
         </p>
       </div>
 
+      {template && (
+        <div className="mb-6 bg-indigo-900/20 border border-indigo-500/30 rounded-xl p-4 flex items-start gap-3">
+          <LayoutTemplate size={20} className="text-indigo-400 flex-shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <div className="text-sm font-bold text-white">Starting from "{template.name}"</div>
+            <p className="text-xs text-slate-400 mt-1">Pre-filled: {sectionLabels(template.sections).join(', ')}. Review each step after creating the project.</p>
+          </div>
+          {onClearTemplate && (
+            <button onClick={onClearTemplate} className="text-slate-500 hover:text-white" title="Start blank instead">
+              <X size={16} />
+            </button>
+          )}
+        </div>
+      )}
+
       <Card className="space-y-6 relative overflow-hidden">
         {isLocked && (
           <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-[2px] z-10 flex flex-col items-center justify-center text-center p-8">
@@ -147,9 +185,9 @@ export const StepSetup: React.FC<StepSetupProps> = ({
                 disabled={isLocked}
                 className="w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 pl-10 text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all disabled:opacity-50 disabled:cursor-not-allowed"
               />
-               <span className="absolute left-3 top-3.5 text-slate-500 font-sans font-bold text-lg">₦</span>
+               <span className="absolute left-3 top-3.5 text-slate-500 font-sans font-bold text-lg">{currencySymbol(locale)}</span>
             </div>
-            <p className="text-[10px] text-slate-500 mt-1">Used to calculate potential revenue & ROI (NGN).</p>
+            <p className="text-[10px] text-slate-500 mt-1">Used to calculate potential revenue & ROI ({activeLocale.currency}).</p>
           </div>
         </div>
 
@@ -221,6 +259,29 @@ export const StepSetup: React.FC<StepSetupProps> = ({
           </Button>
         </div>
       </Card>
+
+      {/* Language, market and brand voice stay editable after the project is locked */}
+      {onUpdateLocale && (
+        <Card className="mt-8">
+          <h3 className="text-lg font-bold text-white mb-1 flex items-center gap-2"><Globe size={18} className="text-indigo-400" /> Language & Market</h3>
+          <p className="text-sm text-slate-400 mb-4">Every agent writes in this language and quotes prices in this currency.</p>
+          <select
+            value={activeLocale.code}
+            onChange={handleLocaleSelect}
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+          >
+            {CONTENT_LOCALES.map(l => <option key={l.code} value={l.code}>{l.label} · {l.currency}</option>)}
+          </select>
+        </Card>
+      )}
+
+      {onUpdateBrandVoice && (
+        <Card className="mt-8">
+          <h3 className="text-lg font-bold text-white mb-1 flex items-center gap-2"><Mic size={18} className="text-indigo-400" /> Brand Voice</h3>
+          <p className="text-sm text-slate-400 mb-6">Applied to every landing page, ad, email and DM the engine writes for this project.</p>
+          <BrandVoiceEditor voice={brandVoice} onSave={onUpdateBrandVoice} inheritedFrom={inheritedVoiceFrom} />
+        </Card>
+      )}
     </div>
   );
 };
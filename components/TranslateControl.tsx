@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { ProjectLocale } from '../types';
+import { CONTENT_LOCALES, DEFAULT_LOCALE } from '../utils/locales';
+import { Languages, Loader } from 'lucide-react';
+import { notify } from '../services/notificationService';
+import { notifyAIError } from '../services/aiErrors';
+
+interface TranslateControlProps {
+  projectLocale?: ProjectLocale | null;
+  onTranslate: (language: string) => Promise<void>;
+  disabled?: boolean;
+}
+
+const LANGUAGES = [...new Set(CONTENT_LOCALES.map(l => l.language))];
+
+/**
+ * Language picker plus "Translate" action for a single asset. Defaults to the project language,
+ * or the first non-English one when the project writes in English.
+ */
+export const TranslateControl: React.FC<TranslateControlProps> = ({ projectLocale, onTranslate, disabled }) => {
+  const projectLanguage = projectLocale?.language || DEFAULT_LOCALE.language;
+  const [language, setLanguage] = useState(projectLanguage !== DEFAULT_LOCALE.language ? projectLanguage : LANGUAGES.find(l => l !== DEFAULT_LOCALE.language)!);
+  const [translating, setTranslating] = useState(false);
+
+  const handleTranslate = async () => {
+    setTranslating(true);
+    try {
+      await onTranslate(language);
+      notify.success(`Translated to ${language}`);
+    } catch (e: any) {
+      notifyAIError(e, e.message || "Translation failed");
+    } finally {
+      setTranslating(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center bg-slate-800 border border-slate-700 rounded-lg overflow-hidden text-sm">
+      <select
+        value={language}
+        onChange={(e) => setLanguage(e.target.value)}
+        disabled={disabled || translating}
+        className="bg-transparent text-slate-300 px-2 py-2 outline-none disabled:opacity-50"
+      >
+        {LANGUAGES.map(l => <option key={l} value={l} className="bg-slate-900">{l}</option>)}
+      </select>
+      <button
+        onClick={handleTranslate}
+        disabled={disabled || translating}
+        className="px-3 py-2 border-l border-slate-700 text-indigo-300 hover:text-white hover:bg-slate-700 flex items-center gap-1.5 disabled:opacity-50 transition-colors"
+      >
+        {translating ? <Loader size={14} className="animate-spin" /> : <Languages size={14} />} Translate
+      </button>
+    </div>
+  );
+};
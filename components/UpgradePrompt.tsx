@@ -0,0 +1,54 @@
+import React, { useState, useEffect } from 'react';
+import { Button, Modal } from './Shared';
+import { quotaService, UPGRADE_PROMPT_EVENT } from '../services/quotaService';
+import { formatDate } from '../utils/core';
+import { Zap, PlusCircle } from 'lucide-react';
+
+interface UpgradePromptProps {
+  onUpgrade: () => void;
+  onTopUp: () => void;
+}
+
+/**
+ * Shared "out of AI tokens" prompt. Opens whenever an AI call is refused for quota, from any step,
+ * and sends the user to pricing to upgrade the plan or buy a top-up.
+ */
+export const UpgradePrompt: React.FC<UpgradePromptProps> = ({ onUpgrade, onTopUp }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const handlePrompt = () => setIsOpen(true);
+    document.addEventListener(UPGRADE_PROMPT_EVENT, handlePrompt);
+    return () => document.removeEventListener(UPGRADE_PROMPT_EVENT, handlePrompt);
+  }, []);
+
+  const quota = quotaService.get();
+  const choose = (action: () => void) => {
+    setIsOpen(false);
+    action();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={() => setIsOpen(false)} title="You're out of AI tokens">
+      <div className="space-y-6 max-w-lg">
+        <p className="text-slate-300">
+          This period's AI allowance is used up, so nothing was generated and nothing was charged.
+          {quota && ` Your ${quota.plan} plan resets on ${formatDate(quota.periodEnd)}.`}
+        </p>
+        {quota && (
+          <div>
+            <div className="flex justify-between text-xs text-slate-400 mb-1">
+              <span>{quota.tokensUsed.toLocaleString()} / {quota.limit.toLocaleString()} tokens</span>
+              {quota.topUpTokens > 0 && <span>incl. {quota.topUpTokens.toLocaleString()} top-up</span>}
+            </div>
+            <div className="h-2 bg-slate-800 rounded-full overflow-hidden"><div className="h-full bg-red-500 w-full" /></div>
+          </div>
+        )}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <Button variant="secondary" onClick={() => choose(onTopUp)}><PlusCircle size={16} /> Top Up Tokens</Button>
+          <Button onClick={() => choose(onUpgrade)}><Zap size={16} /> Upgrade Plan</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { UsageSummary, UsageBreakdown } from '../types';
+import { usageService } from '../services/usageService';
+import { Card, Spinner } from './Shared';
+import { Activity, AlertTriangle, Bot, FolderOpen, RefreshCw } from 'lucide-react';
+import { formatDate } from '../utils/core';
+
+const agentLabel = (agent: string) => agent.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+
+const formatNgn = (amount: number) => `₦${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const BreakdownTable: React.FC<{ title: string; icon: React.ReactNode; rows: (UsageBreakdown & { key: string; label: string })[]; total: number }> = ({ title, icon, rows, total }) => (
+  <div>
+    <h4 className="text-sm font-bold text-slate-300 mb-3 flex items-center gap-2">{icon} {title}</h4>
+    {rows.length === 0 ? (
+      <p className="text-xs text-slate-500 py-4 text-center bg-slate-900/50 rounded border border-slate-800">No AI activity this period.</p>
+    ) : (
+      <div className="space-y-2">
+        {rows.map(row => (
+          <div key={row.key} className="bg-slate-900/50 rounded border border-slate-800 p-3">
+            <div className="flex justify-between items-center text-sm mb-1.5">
+              <span className="text-white font-medium truncate">{row.label}</span>
+              <span className="text-slate-400 font-mono text-xs">{row.tokens.toLocaleString()} tokens</span>
+            </div>
+            <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden mb-1.5">
+              <div className="h-full bg-indigo-500" style={{ width: `${total ? Math.max(2, (row.tokens / total) * 100) : 0}%` }} />
+            </div>
+            <div className="flex justify-between text-[10px] text-slate-500">
+              <span>{row.calls} calls{row.cachedCalls > 0 ? ` (${row.cachedCalls} cached)` : ''}</span>
+              <span>{formatNgn(row.costNgn)}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export const UsagePanel: React.FC = () => {
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadUsage = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      setSummary(await usageService.getSummary());
+    } catch (e: any) {
+      setError(e.message || 'Failed to load usage');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadUsage();
+  }, []);
+
+  const percent = summary ? Math.min(100, Math.round((summary.tokensUsed / summary.limit) * 100)) : 0;
+  const barColor = percent >= 100 ? 'bg-red-500' : summary?.warning ? 'bg-amber-500' : 'bg-emerald-500';
+  const ledgerTotal = summary ? summary.byAgent.reduce((sum, row) => sum + row.tokens, 0) : 0;
+
+  return (
+    <Card className="mb-8">
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-xl font-bold text-white flex items-center gap-2">
+          <Activity size={20} className="text-emerald-400" /> AI Usage
+        </h3>
+        <button onClick={loadUsage} disabled={loading} className="text-slate-400 hover:text-white disabled:opacity-50" title="Refresh">
+          <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {loading && !summary ? (
+        <div className="flex justify-center py-8"><Spinner /></div>
+      ) : error ? (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded text-red-400 text-sm">{error}</div>
+      ) : summary && (
+        <>
+          <div className="mb-6">
+            <div className="flex justify-between items-end mb-2">
+              <div>
+                <span className="text-2xl font-bold text-white">{summary.tokensUsed.toLocaleString()}</span>
+                <span className="text-slate-400 text-sm"> / {summary.limit.toLocaleString()} tokens</span>
+              </div>
+              <div className="text-right">
+                <div className="text-white font-mono">{formatNgn(summary.costEstimate)}</div>
+                <div className="text-[10px] text-slate-500 uppercase">Estimated cost</div>
+              </div>
+            </div>
+            <div className="h-3 bg-slate-800 rounded-full overflow-hidden">
+              <div className={`h-full ${barColor} transition-all`} style={{ width: `${percent}%` }} />
+            </div>
+            <div className="flex justify-between text-xs text-slate-500 mt-2">
+              <span>{percent}% of {summary.plan === 'hobby' ? 'Starter' : summary.plan} plan</span>
+              <span>Period {formatDate(summary.periodStart)} – resets {formatDate(summary.periodEnd)}</span>
+            </div>
+          </div>
+
+          {summary.warning && (
+            <div className="mb-6 p-3 bg-amber-500/10 border border-amber-500/20 rounded text-amber-400 text-sm flex items-start gap-2">
+              <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+              {percent >= 100
+                ? 'You have reached your plan limit. AI generation is paused until the period resets or you upgrade.'
+                : `You have used ${percent}% of your plan's tokens. Generation stops at 100% until the period resets.`}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <BreakdownTable
+              title="By Agent"
+              icon={<Bot size={14} className="text-indigo-400" />}
+              total={ledgerTotal}
+              rows={summary.byAgent.map(row => ({ ...row, key: row.agent, label: agentLabel(row.agent) }))}
+            />
+            <BreakdownTable
+              title="By Project"
+              icon={<FolderOpen size={14} className="text-indigo-400" />}
+              total={ledgerTotal}
+              rows={summary.byProject.map(row => ({ ...row, key: row.projectId || 'none', label: row.name }))}
+            />
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { GenerationVariant, VariantHistory } from '../types';
+import { Button, Modal } from './Shared';
+import { History, CheckCircle2, Columns, ArrowUpCircle } from 'lucide-react';
+
+interface VariantHistoryButtonProps<T> {
+  title: string;
+  history?: VariantHistory<T>;
+  onPromote: (id: string) => void;
+  renderVariant: (value: T) => React.ReactNode;
+  disabled?: boolean;
+}
+
+const describeInputs = (inputs: Record<string, string>) =>
+  Object.entries(inputs).filter(([, v]) => v).map(([k, v]) => `${k}: ${v}`).join(' · ') || 'Default generation';
+
+/**
+ * "History (n)" button plus a modal listing every generated variant of an asset. Any two
+ * variants can be compared side by side and any variant can be promoted to current.
+ */
+export const VariantHistoryButton = <T,>({ title, history, onPromote, renderVariant, disabled }: VariantHistoryButtonProps<T>) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const variants = history?.variants || [];
+  if (variants.length < 2) return null;
+
+  const open = () => {
+    // Default comparison: current against the most recent alternative
+    const current = history!.currentId;
+    const other = variants.find(v => v.id !== current);
+    setCompareIds([current, other?.id].filter(Boolean) as string[]);
+    setIsOpen(true);
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2));
+  };
+
+  const handlePromote = (variant: GenerationVariant<T>) => {
+    onPromote(variant.id);
+    setIsOpen(false);
+  };
+
+  const compared = compareIds.map(id => variants.find(v => v.id === id)).filter(Boolean) as GenerationVariant<T>[];
+  const indexOf = (variant: GenerationVariant<T>) => variants.length - variants.indexOf(variant);
+
+  return (
+    <>
+      <Button variant="outline" onClick={open} disabled={disabled}>
+        <History size={16} /> History ({variants.length})
+      </Button>
+
+      <Modal isOpen={isOpen} onClose={() => setIsOpen(false)} title={`${title} History`}>
+        <div className="space-y-2 mb-6">
+          {variants.map(variant => {
+            const isCurrent = variant.id === history!.currentId;
+            return (
+              <div key={variant.id} className={`flex items-center gap-3 p-3 rounded-lg border ${isCurrent ? 'border-emerald-500/40 bg-emerald-900/10' : 'border-slate-700 bg-slate-800/50'}`}>
+                <input
+                  type="checkbox"
+                  checked={compareIds.includes(variant.id)}
+                  onChange={() => toggleCompare(variant.id)}
+                  className="accent-indigo-500"
+                  title="Compare"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-bold text-white">Variant {indexOf(variant)}</span>
+                    {isCurrent && <span className="text-[10px] uppercase font-bold px-1.5 py-0.5 rounded bg-emerald-900/50 text-emerald-400 flex items-center gap-1"><CheckCircle2 size={10} /> Current</span>}
+                    <span className="text-xs text-slate-500">{new Date(variant.createdAt).toLocaleString()}</span>
+                    {variant.promptVersion && <span className="text-[10px] text-slate-600 font-mono">prompt {variant.promptVersion}</span>}
+                  </div>
+                  <div className="text-xs text-slate-400 truncate">{describeInputs(variant.inputs)}</div>
+                </div>
+                {!isCurrent && (
+                  <button onClick={() => handlePromote(variant)} className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1 whitespace-nowrap">
+                    <ArrowUpCircle size={14} /> Make Current
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {compared.length === 2 ? (
+          <div>
+            <h4 className="text-sm font-bold text-slate-300 mb-3 flex items-center gap-2"><Columns size={14} /> Side by Side</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {compared.map(variant => (
+                <div key={variant.id} className="bg-slate-950 border border-slate-800 rounded-lg p-4">
+                  <div className="text-xs font-bold text-indigo-400 uppercase mb-3">
+                    Variant {indexOf(variant)}{variant.id === history!.currentId ? ' (current)' : ''}
+                  </div>
+                  {renderVariant(variant.value)}
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-xs text-slate-500 text-center">Select two variants to compare them side by side.</p>
+        )}
+      </Modal>
+    </>
+  );
+};
@@ -0,0 +1,79 @@
+/**
+ * METI AD LINT
+ * ------------
+ * Server side of the creative lint in utils/adPlatforms.ts. Both load their length limits, prohibited
+ * claim patterns and required disclosures from utils/adRules.json. The client lints as the user edits;
+ * the server re-lints before anything is posted, so a modified or outdated client cannot publish a
+ * creative with blocking ('error') issues.
+ */
+
+const AD_RULES = require('../utils/adRules.json');
+
+// Patterns are case-insensitive RegExp sources; platforms in `errorOn` block, the rest warn
+const severityFor = (platform, errorOn) => (errorOn.includes(platform) ? 'error' : 'warning');
+
+const CLAIM_RULES = AD_RULES.claimRules.map(rule => ({ ...rule, pattern: new RegExp(rule.pattern, 'i') }));
+
+const DISCLOSURE_RULES = AD_RULES.disclosureRules.map(rule => ({
+  ...rule,
+  trigger: new RegExp(rule.trigger, 'i'),
+  disclosure: new RegExp(rule.disclosure, 'i')
+}));
+
+const excerptAround = (text, index, length) => {
+  const start = Math.max(0, index - 20);
+  const end = Math.min(text.length, index + length + 20);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+const lintLength = (field, label, text, max, recommended, platform) => {
+  const length = text.trim().length;
+  if (length > max) return [{ field, rule: 'length', severity: 'error', message: `${label} is ${length} characters; ${platform} allows ${max}` }];
+  if (length > recommended) return [{ field, rule: 'length', severity: 'warning', message: `${label} is ${length} characters; ${platform} truncates after about ${recommended}` }];
+  return [];
+};
+
+/** Issues for one creative ({ platform, headline, adCopy, hashtags }), same shape as AdLintIssue. */
+const lintAdCreative = (ad) => {
+  const { platform } = ad;
+  const lengths = AD_RULES.lengthRules[platform];
+  const post = AD_RULES.postRules[platform];
+  if (!lengths || !post) return [];
+
+  const headline = ad.headline || '';
+  const adCopy = ad.adCopy || '';
+  const hashtags = (ad.hashtags || []).filter(t => t.trim());
+
+  const issues = [
+    ...lintLength('headline', 'Headline', headline, lengths.headlineMax, lengths.headlineRecommended, platform),
+    ...lintLength('adCopy', 'Copy', adCopy, post.maxChars, lengths.copyRecommended, platform)
+  ];
+
+  if (hashtags.length > lengths.hashtagsMax) {
+    issues.push({ field: 'hashtags', rule: 'hashtags', severity: 'error', message: `${hashtags.length} hashtags; ${platform} allows ${lengths.hashtagsMax}` });
+  } else if (hashtags.length > post.hashtags) {
+    issues.push({ field: 'hashtags', rule: 'hashtags', severity: 'warning', message: `${hashtags.length} hashtags; ${post.hashtags} or fewer perform best on ${platform}` });
+  }
+
+  const fields = [['headline', headline], ['adCopy', adCopy]];
+  for (const rule of CLAIM_RULES) {
+    const severity = severityFor(platform, rule.errorOn);
+    for (const [field, text] of fields) {
+      const match = rule.pattern.exec(text);
+      if (match) issues.push({ field, rule: 'claim', severity, message: rule.message, excerpt: excerptAround(text, match.index, match[0].length) });
+    }
+  }
+
+  const fullText = `${headline}\n${adCopy}`;
+  for (const rule of DISCLOSURE_RULES) {
+    const severity = severityFor(platform, rule.errorOn);
+    if (!rule.trigger.test(fullText) || rule.disclosure.test(fullText)) continue;
+    issues.push({ field: 'adCopy', rule: 'disclosure', severity, message: rule.message });
+  }
+
+  return issues;
+};
+
+const hasBlockingIssues = (issues) => issues.some(i => i.severity === 'error');
+
+module.exports = { lintAdCreative, hasBlockingIssues };
@@ -0,0 +1,124 @@
+/**
+ * METI PROJECT BUNDLES
+ * --------------------
+ * A `.meti` file is one project and the media it references, as JSON, portable between accounts
+ * and installs:
+ *
+ *   { format: 'meti.project', version, exportedAt,
+ *     project: { name, clientName, data },          data is the project's ProjectData
+ *     assets: [{ id, kind, mimeType, data }] }      data is base64; id is the publicId in asset URLs
+ *
+ * Older bundles are upgraded one version at a time by MIGRATIONS, so validation and import only
+ * ever deal with the current shape. Bump BUNDLE_VERSION together with a new migration whenever a
+ * ProjectData section changes shape.
+ */
+
+const { z } = require('zod');
+
+const BUNDLE_FORMAT = 'meti.project';
+const BUNDLE_VERSION = 2;
+const BUNDLE_MIME_TYPE = 'application/vnd.meti+json';
+
+// Every type the app stores: uploads and Gemini renders are raster, the placeholder image provider
+// (server/images.js) renders SVG
+const ASSET_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/svg+xml'];
+const MAX_BUNDLE_ASSETS = 50;
+
+class BundleError extends Error {
+  constructor(message, issues) {
+    super(message);
+    this.issues = issues;
+  }
+}
+
+// Lead magnet drafts were plain text before sectioned drafting; keep the text as the intro
+const migrateMagnetDraft = (magnet) => {
+  if (typeof magnet?.contentDraft !== 'string') return magnet;
+  const now = Date.now();
+  return { ...magnet, contentDraft: { intro: magnet.contentDraft, sections: [], conclusion: '', generatedAt: now, updatedAt: now } };
+};
+
+/**
+ * MIGRATIONS[n] turns a version n bundle into version n + 1.
+ * Version 1 is a bare project record, as returned by GET /api/projects/:id, with no `format`.
+ */
+const MIGRATIONS = {
+  1: (record) => ({
+    format: BUNDLE_FORMAT,
+    version: 2,
+    exportedAt: record.updatedAt,
+    project: {
+      name: record.name || record.data?.productName,
+      clientName: record.clientName || record.client,
+      data: {
+        ...record.data,
+        ...(Array.isArray(record.data?.generatedMagnets) && { generatedMagnets: record.data.generatedMagnets.map(migrateMagnetDraft) })
+      }
+    },
+    assets: []
+  })
+};
+
+const bundleVersion = (raw) => {
+  if (raw && typeof raw === 'object' && raw.format === undefined && raw.data && typeof raw.data === 'object') return 1;
+  if (raw?.format !== BUNDLE_FORMAT) throw new BundleError("Not a Meti project bundle");
+  if (!Number.isInteger(raw.version) || raw.version < 1) throw new BundleError("Bundle has no valid version");
+  if (raw.version > BUNDLE_VERSION) throw new BundleError(`Bundle version ${raw.version} is newer than this app supports (${BUNDLE_VERSION}). Update Meti and try again.`);
+  return raw.version;
+};
+
+const DATA_KEY = /^[A-Za-z][A-Za-z0-9]{0,63}$/;
+
+// ProjectData sections that are lists; anything else is passed through as stored
+const LIST_KEYS = [
+  'generatedNiches', 'generatedMagnets', 'qualificationFramework', 'followUpSequence', 'socialSearchQueries',
+  'adCampaigns', 'connectedPlatforms', 'crmLeads', 'connectedCrms', 'seoKeywords', 'seoAuditResults',
+  'emailCampaigns', 'emailAutomations', 'emailSubscribers', 'salesObjections', 'objectionLibrary', 'salesColdDms',
+  'roleplaySessions'
+];
+
+const ProjectDataSchema = z.object({
+  productName: z.string().trim().min(1).max(500),
+  productDescription: z.string().max(20000).optional(),
+  ...Object.fromEntries(LIST_KEYS.map(key => [key, z.array(z.unknown()).optional()]))
+}).passthrough().refine(data => Object.keys(data).every(key => DATA_KEY.test(key)), { message: "Unknown project section name" });
+
+const BundleSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.literal(BUNDLE_VERSION),
+  exportedAt: z.union([z.string(), z.number()]).optional(),
+  project: z.object({
+    name: z.string().trim().min(1).max(200),
+    clientName: z.string().max(200).optional(),
+    data: ProjectDataSchema
+  }),
+  assets: z.array(z.object({
+    id: z.string().regex(/^[a-f0-9]{8,64}$/),
+    kind: z.string().max(40).optional(),
+    mimeType: z.enum(ASSET_MIME_TYPES),
+    data: z.string().min(1)
+  })).max(MAX_BUNDLE_ASSETS).default([])
+});
+
+/** Upgrades a parsed bundle to the current version and validates it. Returns { bundle, migratedFrom }. */
+const readBundle = (raw) => {
+  const migratedFrom = bundleVersion(raw);
+  let bundle = raw;
+  for (let version = migratedFrom; version < BUNDLE_VERSION; version++) bundle = MIGRATIONS[version](bundle);
+  const parsed = BundleSchema.safeParse(bundle);
+  if (!parsed.success) throw new BundleError("Bundle failed validation", parsed.error.issues);
+  return { bundle: parsed.data, migratedFrom };
+};
+
+const ASSET_URL = /https?:\/\/[^"\s]+?\/assets\/([a-f0-9]{8,64})/g;
+
+/** publicIds of every server asset the project data links to. */
+const referencedAssetIds = (data) => [...new Set([...JSON.stringify(data || {}).matchAll(ASSET_URL)].map(match => match[1]))];
+
+/** Points asset URLs at their re-uploaded copies; `urls` maps old publicId to new URL. */
+const rewriteAssetUrls = (data, urls) =>
+  JSON.parse(JSON.stringify(data).replace(ASSET_URL, (url, id) => urls[id] || url));
+
+module.exports = {
+  BUNDLE_FORMAT, BUNDLE_VERSION, BUNDLE_MIME_TYPE, BundleError, readBundle, referencedAssetIds, rewriteAssetUrls
+};
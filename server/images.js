@@ -0,0 +1,111 @@
+/**
+ * METI IMAGE PROVIDERS
+ * --------------------
+ * Ad images are generated through the same kind of provider contract as text agents:
+ *
+ *   generate({ prompt, width, height, headline }) -> Promise<{ data: Buffer, mimeType, tokens }>
+ *
+ * `width`/`height` are the target platform size. Models only support a fixed set of aspect
+ * ratios, so the closest one is requested and the client crops to the exact size when it
+ * composites the brand logo.
+ */
+
+const crypto = require('crypto');
+const { GoogleGenAI } = require('@google/genai');
+
+const SUPPORTED_ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+
+const closestAspectRatio = (width, height) => {
+  const target = width / height;
+  const ratioOf = (label) => { const [w, h] = label.split(':').map(Number); return w / h; };
+  return SUPPORTED_ASPECT_RATIOS.reduce((best, label) =>
+    Math.abs(Math.log(ratioOf(label) / target)) < Math.abs(Math.log(ratioOf(best) / target)) ? label : best
+  );
+};
+
+// --- 1. GEMINI IMAGE MODEL ---
+// Output images are billed as a flat 1290 tokens each
+const GEMINI_IMAGE_TOKENS = 1290;
+
+const createGeminiImageProvider = ({ apiKey, model = 'gemini-2.5-flash-image' }) => {
+  const genAI = new GoogleGenAI({ apiKey });
+  return {
+    name: 'gemini',
+    model,
+    generate: async ({ prompt, width, height }) => {
+      const result = await genAI.models.generateContent({
+        model,
+        contents: prompt,
+        config: { responseModalities: ['IMAGE'], imageConfig: { aspectRatio: closestAspectRatio(width, height) } }
+      });
+      const part = result.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data);
+      if (!part) throw new Error('Image model returned no image');
+      return {
+        data: Buffer.from(part.inlineData.data, 'base64'),
+        mimeType: part.inlineData.mimeType || 'image/png',
+        tokens: result.usageMetadata?.candidatesTokenCount || GEMINI_IMAGE_TOKENS
+      };
+    }
+  };
+};
+
+// --- 2. OFFLINE PLACEHOLDER ---
+// Renders an SVG at the exact platform size: a gradient seeded from the prompt with the
+// headline set in large type. Deterministic, free, and good enough to review layouts.
+const escapeXml = (str) => String(str).replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c]));
+
+const wrapWords = (text, maxChars, maxLines) => {
+  const lines = [];
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const last = lines[lines.length - 1];
+    if (last && `${last} ${word}`.length <= maxChars) lines[lines.length - 1] = `${last} ${word}`;
+    else lines.push(word);
+  }
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = `${lines[maxLines - 1]}…`;
+  }
+  return lines;
+};
+
+const renderPlaceholderSvg = ({ prompt, width, height, headline }) => {
+  const seed = crypto.createHash('sha256').update(prompt).digest();
+  const hue = Math.round((seed[0] / 255) * 360);
+  const accent = (hue + 40 + Math.round((seed[1] / 255) * 80)) % 360;
+
+  const fontSize = Math.round(Math.min(width, height) / 11);
+  const lines = wrapWords(headline || prompt, Math.max(Math.floor((width * 0.8) / (fontSize * 0.55)), 8), 4);
+  const startY = height / 2 - ((lines.length - 1) * fontSize * 1.2) / 2;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    '<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">',
+    `<stop offset="0" stop-color="hsl(${hue},65%,28%)"/><stop offset="1" stop-color="hsl(${accent},70%,45%)"/>`,
+    '</linearGradient></defs>',
+    `<rect width="${width}" height="${height}" fill="url(#bg)"/>`,
+    `<circle cx="${width * 0.85}" cy="${height * 0.15}" r="${Math.min(width, height) * 0.35}" fill="#ffffff" fill-opacity="0.06"/>`,
+    ...lines.map((line, i) => `<text x="${width / 2}" y="${startY + i * fontSize * 1.2}" font-family="Helvetica, Arial, sans-serif" font-size="${fontSize}" font-weight="700" fill="#ffffff" text-anchor="middle" dominant-baseline="middle">${escapeXml(line)}</text>`),
+    `<text x="${fontSize * 0.5}" y="${height - fontSize * 0.5}" font-family="Helvetica, Arial, sans-serif" font-size="${Math.round(fontSize * 0.3)}" fill="#ffffff" fill-opacity="0.6">Placeholder image · ${width}×${height}</text>`,
+    '</svg>'
+  ].join('');
+};
+
+const createPlaceholderImageProvider = () => ({
+  name: 'fixture',
+  model: 'placeholder',
+  generate: async (call) => ({ data: Buffer.from(renderPlaceholderSvg(call)), mimeType: 'image/svg+xml', tokens: 0 })
+});
+
+// --- 3. SELECTION ---
+/**
+ * IMAGE_PROVIDER picks the renderer explicitly (gemini | placeholder). Otherwise the offline
+ * placeholder is used whenever AI_PROVIDER=fixture or no Gemini key is configured.
+ */
+const createImageProvider = (env = process.env) => {
+  const name = env.IMAGE_PROVIDER || (env.AI_PROVIDER === 'fixture' || !env.API_KEY ? 'placeholder' : 'gemini');
+  if (name === 'placeholder') return createPlaceholderImageProvider();
+  if (name === 'gemini' && env.API_KEY) return createGeminiImageProvider({ apiKey: env.API_KEY, model: env.IMAGE_MODEL });
+  throw new Error(`Image provider "${name}" is not configured`);
+};
+
+module.exports = { createImageProvider, createGeminiImageProvider, createPlaceholderImageProvider, closestAspectRatio };
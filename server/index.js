@@ -17,7 +17,7 @@ const compression = require('compression');
 const rateLimit = require('express-rate-limit');
 const { RedisStore } = require('rate-limit-redis');
 const Redis = require('ioredis');
-const { GoogleGenAI, Schema, Type } = require('@google/genai');
+const { Schema, Type } = require('@google/genai');
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
 const jwt = require('jsonwebtoken');
@@ -27,6 +27,12 @@ const crypto = require('crypto');
 const winston = require('winston');
 const sgMail = require('@sendgrid/mail');
 require('dotenv').config();
+const { createProviderRegistry } = require('./providers');
+const { createImageProvider } = require('./images');
+const { createLiveProvider, INPUT_SAMPLE_RATE } = require('./live');
+const { lintAdCreative, hasBlockingIssues } = require('./adLint');
+const { BUNDLE_FORMAT, BUNDLE_VERSION, BUNDLE_MIME_TYPE, BundleError, readBundle, referencedAssetIds, rewriteAssetUrls } = require('./bundles');
+const { WebSocketServer } = require('ws');
 
 // --- 1. ENTERPRISE OBSERVABILITY ---
 const logger = winston.createLogger({
@@ -47,12 +53,33 @@ const cleanInput = (str) => {
 };
 
 // --- 3. INFRASTRUCTURE & CLIENTS ---
-if (!process.env.API_KEY || !process.env.MONGODB_URI || !process.env.JWT_SECRET) {
-  logger.error("FATAL: Missing critical environment variables (API_KEY, MONGODB_URI, JWT_SECRET).");
+if (!process.env.MONGODB_URI || !process.env.JWT_SECRET) {
+  logger.error("FATAL: Missing critical environment variables (MONGODB_URI, JWT_SECRET).");
   process.exit(1);
 }
 
-const genAI = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// AI_PROVIDER=fixture runs every agent offline with deterministic data (no API key needed)
+const aiProviders = createProviderRegistry(process.env);
+if (!aiProviders.providers[aiProviders.defaultProvider]) {
+  logger.error(`FATAL: AI provider "${aiProviders.defaultProvider}" is not configured (set API_KEY, OPENAI_API_KEY or AI_PROVIDER=fixture).`);
+  process.exit(1);
+}
+// Ad images fall back to an offline SVG placeholder when no Gemini key is configured
+let imageProvider;
+try {
+  imageProvider = createImageProvider(process.env);
+} catch (e) {
+  logger.error(`FATAL: ${e.message} (set API_KEY or IMAGE_PROVIDER=placeholder).`);
+  process.exit(1);
+}
+// Live voice relays to the Gemini Live API, or to an offline echo backend without a key
+let liveProvider;
+try {
+  liveProvider = createLiveProvider(process.env);
+} catch (e) {
+  logger.error(`FATAL: ${e.message} (set API_KEY or LIVE_PROVIDER=echo).`);
+  process.exit(1);
+}
 // Paystack integration uses native fetch, requires PAYSTACK_SECRET_KEY in env
 if (process.env.SENDGRID_API_KEY) sgMail.setApiKey(process.env.SENDGRID_API_KEY);
 
@@ -97,7 +124,11 @@ if (cluster.isPrimary && process.env.NODE_ENV === 'production') {
     windowMs: 15 * 60 * 1000,
     max: 1000,
     store: new RedisStore({ sendCommand: (...args) => redisClient.call(...args) }),
-    handler: (req, res) => res.status(429).json({ error: "Rate limit exceeded" })
+    handler: (req, res) => {
+      const retryAfter = req.rateLimit?.resetTime ? Math.max(1, Math.ceil((req.rateLimit.resetTime.getTime() - Date.now()) / 1000)) : 60;
+      res.set('Retry-After', String(retryAfter));
+      res.status(429).json({ error: "Rate limit exceeded", code: "RATE_LIMITED", retryAfter });
+    }
   });
   app.use('/api/', limiter);
 
@@ -111,16 +142,70 @@ if (cluster.isPrimary && process.env.NODE_ENV === 'production') {
     password: { type: String, required: true },
     role: { type: String, default: 'user' },
     subscription: { type: String, default: 'hobby' },
-    usage: { tokensUsed: { type: Number, default: 0 } },
+    usage: { tokensUsed: { type: Number, default: 0 }, costEstimate: { type: Number, default: 0 }, topUpTokens: { type: Number, default: 0 }, periodStart: Date },
+    topUpReferences: { type: [String], select: false }, // Paystack references already credited
     organizationId: String
   }));
 
+  // `version` increments on every save; `fieldVersions` records the version that last wrote each
+  // ProjectData key so saves only conflict when they touch a key someone else changed
   const Project = mongoose.models.Project || mongoose.model('Project', new mongoose.Schema({
-    userId: String, name: String, clientName: String, clientId: String, data: Object, updatedAt: { type: Date, default: Date.now }
+    userId: String, name: String, clientName: String, clientId: String, data: Object, updatedAt: { type: Date, default: Date.now },
+    version: { type: Number, default: 0 }, fieldVersions: { type: Object, default: {} }
   }));
 
+  // One entry per project save: the sections it wrote (`changes`, with `removed` for cleared ones).
+  // Every REVISION_CHECKPOINT_EVERY versions, and for a project's first revision, the full data is
+  // kept as `snapshot` so any version can be rebuilt from the nearest checkpoint.
+  const ProjectRevision = mongoose.models.ProjectRevision || mongoose.model('ProjectRevision', new mongoose.Schema({
+    projectId: { type: String, required: true }, version: { type: Number, required: true }, authorId: String,
+    kind: { type: String, default: 'save' }, restoredFrom: Number, restoredSection: String,
+    sections: [String], changes: Object, removed: [String], snapshot: Object, createdAt: { type: Date, default: Date.now }
+  }, { minimize: false }).index({ projectId: 1, version: -1 }, { unique: true }));
+
+  // Reusable strategy sections (niche, persona, magnets...) copied from a project to seed new ones
+  const ProjectTemplate = mongoose.models.ProjectTemplate || mongoose.model('ProjectTemplate', new mongoose.Schema({
+    userId: String, name: String, description: String, sourceProjectId: String, sourceProjectName: String,
+    sections: [String], data: Object, createdAt: { type: Date, default: Date.now }
+  }, { minimize: false }));
+
+  // A project offered to another account. Nothing moves until the recipient accepts; at most one
+  // offer per project is pending at a time.
+  const ProjectTransfer = mongoose.models.ProjectTransfer || mongoose.model('ProjectTransfer', new mongoose.Schema({
+    projectId: { type: String, required: true }, projectName: String,
+    fromUserId: { type: String, required: true }, fromEmail: String, toUserId: { type: String, required: true }, toEmail: String,
+    status: { type: String, default: 'pending' }, // pending | accepted | declined | cancelled
+    createdAt: { type: Date, default: Date.now }, respondedAt: Date
+  }).index({ projectId: 1 }, { unique: true, partialFilterExpression: { status: 'pending' } }).index({ toUserId: 1, status: 1 }));
+
+  // brandVoice is inherited by the client's projects unless a project sets its own
   const Client = mongoose.models.Client || mongoose.model('Client', new mongoose.Schema({
-    userId: String, name: String, industry: String, contactPerson: String, email: String, status: String, onboardingDate: { type: Date, default: Date.now }
+    userId: String, name: String, industry: String, contactPerson: String, email: String, status: String, onboardingDate: { type: Date, default: Date.now },
+    brandVoice: Object
+  }));
+
+  // Admin-managed prompt versions. Version 0 is the built-in template in AI_AGENTS.
+  const PromptTemplate = mongoose.models.PromptTemplate || mongoose.model('PromptTemplate', new mongoose.Schema({
+    agent: { type: String, required: true }, version: { type: Number, required: true }, template: { type: String, required: true },
+    variables: [String], notes: String, createdBy: String, createdAt: { type: Date, default: Date.now }
+  }).index({ agent: 1, version: 1 }, { unique: true }));
+
+  // Latest version is live unless one is pinned (rollback pins the previous version)
+  const PromptRelease = mongoose.models.PromptRelease || mongoose.model('PromptRelease', new mongoose.Schema({
+    agent: { type: String, required: true, unique: true }, pinnedVersion: { type: Number, default: null }, updatedBy: String, updatedAt: { type: Date, default: Date.now }
+  }));
+
+  // Token ledger: one entry per AI call (cache hits are recorded with zero tokens)
+  const UsageRecord = mongoose.models.UsageRecord || mongoose.model('UsageRecord', new mongoose.Schema({
+    userId: { type: String, required: true }, agent: String, model: String, provider: String, projectId: String,
+    tokens: { type: Number, default: 0 }, costNgn: { type: Number, default: 0 }, cached: { type: Boolean, default: false },
+    createdAt: { type: Date, default: Date.now }
+  }).index({ userId: 1, createdAt: -1 }));
+
+  // Generated media (ad images). Served publicly by an unguessable id so social networks can fetch them.
+  const Asset = mongoose.models.Asset || mongoose.model('Asset', new mongoose.Schema({
+    publicId: { type: String, required: true, unique: true }, userId: { type: String, required: true }, projectId: String,
+    kind: String, mimeType: String, size: Number, data: Buffer, createdAt: { type: Date, default: Date.now }
   }));
 
   // --- AUTH MIDDLEWARE ---
@@ -134,91 +219,333 @@ if (cluster.isPrimary && process.env.NODE_ENV === 'production') {
     });
   };
 
+  const requireAdmin = (req, res, next) => {
+    if (req.user?.role !== 'admin') return res.status(403).json({ error: "Admin access required" });
+    next();
+  };
+
+  // --- AI OUTPUT CONTRACTS ---
+  // Zod mirrors of the interfaces in types.ts. Primitives are lenient where models are
+  // predictably sloppy (quoted numbers, enum casing) so cheap fixes never cost a retry.
+  const normalizeKey = (v) => String(v).toLowerCase().replace(/[\s_\-\/]/g, '');
+
+  const aiEnum = (values, aliases = {}) => z.preprocess((v) => {
+    if (typeof v !== 'string') return v;
+    const key = normalizeKey(v);
+    return values.find(opt => normalizeKey(opt) === key) || aliases[key] || v;
+  }, z.enum(values));
+
+  const aiNumber = z.preprocess((v) => {
+    if (typeof v !== 'string') return v;
+    const digits = v.replace(/[^0-9.\-]/g, '');
+    return digits ? Number(digits) : v;
+  }, z.number().finite());
+
+  const aiScore = aiNumber.transform(n => Math.min(100, Math.max(0, Math.round(n))));
+
+  // "yes" / "true" strings count as true; anything else unexpected as false
+  const aiFlag = z.preprocess((v) => typeof v === 'string' ? ['true', 'yes'].includes(v.trim().toLowerCase()) : v, z.boolean().catch(false));
+
+  // Models sometimes wrap the requested array in an object, e.g. { "niches": [...] }
+  const aiList = (item) => z.preprocess((v) => {
+    if (v && typeof v === 'object' && !Array.isArray(v)) return Object.values(v).find(Array.isArray) || v;
+    return v;
+  }, z.array(item).min(1));
+
+  const AD_PLATFORMS = ['LinkedIn', 'Twitter', 'Facebook', 'Instagram', 'TikTok', 'ProductHunt'];
+  const MAGNET_TYPES = ['Ebook', 'Webinar', 'Checklist', 'Consultation', 'Video_Course', 'Tool'];
+  const KEYWORD_INTENTS = ['Informational', 'Commercial', 'Transactional', 'Navigational'];
+  const AUDIT_SEVERITIES = ['critical', 'warning', 'info'];
+  const AUDIT_CATEGORIES = ['Technical', 'On-Page', 'Speed', 'Mobile'];
+
+  const NicheSuggestionSchema = z.object({
+    name: z.string().min(1), profitabilityScore: aiScore, reasoning: z.string(), marketSizeEstimate: z.string()
+  });
+  const PersonaProfileSchema = z.object({
+    jobTitle: z.string().min(1), ageRange: z.string(), psychographics: z.array(z.string()), painPoints: z.array(z.string()), goals: z.array(z.string()), buyingTriggers: z.array(z.string())
+  });
+  const LeadMagnetSchema = z.object({
+    title: z.string().min(1), type: aiEnum(MAGNET_TYPES, { videocourse: 'Video_Course', course: 'Video_Course', guide: 'Ebook', template: 'Tool', calculator: 'Tool' }), hook: z.string(), description: z.string()
+  });
+  const SocialSearchQuerySchema = z.object({
+    platform: z.string(), query: z.string().min(1), explanation: z.string(), directUrl: z.string()
+  });
+  const LandingPageSchema = z.object({
+    headline: z.string().min(1), subheadline: z.string(), ctaPrimary: z.string(), ctaSecondary: z.string(),
+    benefits: z.array(z.object({ title: z.string(), description: z.string() })),
+    heroImagePrompt: z.string(),
+    socialProof: z.array(z.object({ name: z.string(), quote: z.string(), role: z.string() }))
+  });
+  const AdCreativeSchema = z.object({
+    platform: aiEnum(AD_PLATFORMS, { x: 'Twitter', meta: 'Facebook', ig: 'Instagram' }), headline: z.string().min(1), adCopy: z.string().min(1), hashtags: z.array(z.string()), visualPrompt: z.string(),
+    status: z.literal('draft').catch('draft')
+  });
+  const SeoAuditIssueSchema = z.object({
+    severity: aiEnum(AUDIT_SEVERITIES, { high: 'critical', error: 'critical', medium: 'warning', low: 'info' }), category: aiEnum(AUDIT_CATEGORIES, { onpageseo: 'On-Page', performance: 'Speed', mobilefriendliness: 'Mobile' }), issue: z.string().min(1), recommendation: z.string()
+  });
+  const KeywordDataSchema = z.object({
+    keyword: z.string().min(1), intent: aiEnum(KEYWORD_INTENTS, { informative: 'Informational', transaction: 'Transactional', navigation: 'Navigational' }), volume: z.coerce.string(), difficulty: aiScore, opportunityScore: aiScore
+  });
+  const FollowUpEmailSchema = z.object({
+    subject: z.string().min(1), previewText: z.string(), body: z.string().min(1), sendDelay: z.coerce.string()
+  });
+  const QualificationQuestionSchema = z.object({
+    question: z.string().min(1), intent: z.string(), idealAnswer: z.string()
+  });
+  const SeoContentScoreSchema = z.object({
+    score: aiScore, readability: z.string(), keywordDensity: aiNumber, suggestions: z.array(z.string()), missingKeywords: z.array(z.string())
+  });
+  const LocalBusinessResultSchema = z.object({ text: z.string(), mapChunks: z.array(z.any()) });
+  const MagnetOutlineSchema = z.object({
+    intro: z.string(), conclusion: z.string(),
+    sections: aiList(z.object({ heading: z.string().min(1), summary: z.string() }))
+  });
+  const MagnetSectionSchema = z.object({ body: z.string().trim().min(1) });
+  const MagnetPromoSchema = z.object({ headline: z.string().min(1), body: z.string().trim().min(1), hashtags: z.array(z.string()) });
+  const VoiceCheckSchema = z.object({
+    score: aiScore,
+    issues: z.array(z.object({ excerpt: z.string(), problem: z.string().min(1), suggestion: z.string() })).default([])
+  });
+
+  const RoleplayScorecardSchema = z.object({
+    score: aiScore,
+    summary: z.string(),
+    skills: z.object({ rapport: aiScore, discovery: aiScore, objectionHandling: aiScore, closing: aiScore }),
+    qualification: z.array(z.object({ question: z.string().min(1), covered: aiFlag, evidence: z.string().default('') })).default([]),
+    objections: z.array(z.object({ objection: z.string().min(1), raised: aiFlag, handled: aiFlag, feedback: z.string().default('') })).default([]),
+    strengths: z.array(z.string()).default([]),
+    improvements: z.array(z.string()).default([])
+  });
+
+  // How each lead magnet format is broken into sections for long-form drafting
+  const MAGNET_STRUCTURES = {
+    Ebook: 'an ebook of 5-7 chapters; each section is a chapter with practical, example-led teaching',
+    Checklist: 'a checklist of 4-6 phases; each section is a phase containing 4-8 actionable "- [ ]" items with one-line explanations',
+    Webinar: 'a 45-minute webinar script in 5-7 segments (opening hook, origin story, 3 teaching points, offer, Q&A); each section is a segment written as spoken script with timing cues',
+    Video_Course: 'a video course of 4-6 modules; each section is a module with lesson titles, learning outcomes and a lesson script outline',
+    Consultation: 'a consultation playbook of 4-6 stages (pre-call prep, discovery questions, diagnosis, recommendations, next steps); each section is a stage with talking points',
+    Tool: 'a worksheet/calculator guide of 4-6 steps; each section is a step with the inputs to gather, how to compute or fill them, and how to interpret the result'
+  };
+  const withMagnetStructure = (payload = {}) => ({ ...payload, structure: MAGNET_STRUCTURES[payload.magnet?.type] || MAGNET_STRUCTURES.Ebook });
+
+  // Sales roleplay: what the simulated prospect is doing and how hard they are to win over
+  const ROLEPLAY_SCENARIOS = {
+    cold_call: 'The rep is cold calling you. You did not expect the call, are busy and need a reason to keep listening in the first few lines.',
+    discovery: 'You booked a discovery call. You will share your situation, but only in detail when asked good, specific questions.',
+    pricing_objection: 'You like the product but think the price is too high. Push back on price and ask for a discount before agreeing to anything.'
+  };
+  const ROLEPLAY_DIFFICULTIES = {
+    easy: 'You are open and friendly and give the rep the benefit of the doubt.',
+    realistic: 'You behave like a typical busy buyer: polite but skeptical, raising objections naturally.',
+    tough: 'You are guarded and impatient, answer in few words, raise several objections and end the conversation if the rep is vague or pushy.'
+  };
+  const withRoleplaySetup = (payload = {}) => ({
+    ...payload,
+    scenarioBrief: ROLEPLAY_SCENARIOS[payload.scenario] || ROLEPLAY_SCENARIOS.discovery,
+    behaviour: ROLEPLAY_DIFFICULTIES[payload.difficulty] || ROLEPLAY_DIFFICULTIES.realistic
+  });
+
+  // Transcripts are flattened to speaker-tagged turns; the most recent turns are kept when one is
+  // longer than a template variable allows (cleanInput would otherwise cut the newest ones)
+  const ROLEPLAY_TRANSCRIPT_CHARS = 4800;
+  const recentTurns = (messages) => {
+    const turns = (Array.isArray(messages) ? messages : [])
+      .map(m => `${m?.role === 'user' ? 'REP' : 'PROSPECT'}: ${String(m?.text || '').replace(/\s+/g, ' ').trim()}`);
+    const text = turns.join(' || ');
+    return text.length > ROLEPLAY_TRANSCRIPT_CHARS ? `[earlier turns omitted] ... ${text.slice(-ROLEPLAY_TRANSCRIPT_CHARS)}` : text;
+  };
+  const withRoleplayHistory = (payload = {}) => ({ ...withRoleplaySetup(payload), history: recentTurns(payload.history) });
+  const withRoleplayTranscript = (payload = {}) => ({ ...withRoleplaySetup(payload), transcript: recentTurns(payload.transcript) });
+
+  // Translation works on a flat list of text segments so any asset shape can be translated
+  const withSegmentCount = (payload = {}) => ({ ...payload, count: Array.isArray(payload.segments) ? payload.segments.length : 0 });
+
+  // Strategy brief sections an agent can request via `context` (see buildStrategyBrief)
+  const BRIEF_SECTIONS = ['product', 'niche', 'persona', 'offer'];
+  // Copywriting agents also follow the brand voice (project voice, else the client's)
+  const COPY_CONTEXT = [...BRIEF_SECTIONS, 'voice'];
+
   // --- AI AGENT CONFIGURATION ---
   const AI_AGENTS = {
     niche: {
       model: "gemini-2.5-flash",
-      prompt: (d) => `Analyze product: "${cleanInput(d.productName)}". Desc: ${cleanInput(d.description)}. Identify 3 profitable niches. Return valid JSON.`,
+      template: 'Analyze product: "{{productName}}". Desc: {{description}}. Identify 3 profitable niches. Return valid JSON.',
+      context: ['product'],
+      output: aiList(NicheSuggestionSchema),
       schema: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, profitabilityScore: { type: Type.INTEGER }, reasoning: { type: Type.STRING }, marketSizeEstimate: { type: Type.STRING } } } }
     },
     persona: {
       model: "gemini-3-pro-preview",
-      prompt: (d) => `Build ICP for "${cleanInput(d.productName)}" in niche "${cleanInput(d.niche)}". Refinement: ${cleanInput(d.refinement) || 'None'}. Return JSON.`,
+      template: 'Build ICP for "{{productName}}" in niche "{{niche}}". Refinement: {{refinement|None}}. Return JSON.',
+      context: ['product', 'niche'],
+      output: PersonaProfileSchema,
       schema: { type: Type.OBJECT, properties: { jobTitle: { type: Type.STRING }, ageRange: { type: Type.STRING }, psychographics: { type: Type.ARRAY, items: { type: Type.STRING } }, painPoints: { type: Type.ARRAY, items: { type: Type.STRING } }, goals: { type: Type.ARRAY, items: { type: Type.STRING } }, buyingTriggers: { type: Type.ARRAY, items: { type: Type.STRING } } } }
     },
     magnets: {
       model: "gemini-2.5-flash",
-      prompt: (d) => `3 Lead magnet ideas for ${cleanInput(d.persona)} related to ${cleanInput(d.productName)}. Return JSON.`,
-      schema: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, type: { type: Type.STRING }, hook: { type: Type.STRING }, description: { type: Type.STRING } } } }
+      template: '3 Lead magnet ideas for {{persona.jobTitle}} related to {{productName}}. Return JSON.',
+      context: ['product', 'niche', 'persona'],
+      output: aiList(LeadMagnetSchema),
+      schema: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, type: { type: Type.STRING, enum: MAGNET_TYPES }, hook: { type: Type.STRING }, description: { type: Type.STRING } } } }
+    },
+    magnet_outline: {
+      model: "gemini-2.5-flash",
+      template: 'Outline the lead magnet "{{magnet.title}}" ({{magnet.type}}). Hook: {{magnet.hook}}. Description: {{magnet.description}}. Format: {{structure}}. Write a short intro, the section headings with a one-sentence summary each, and a closing call to action. Return JSON.',
+      preparePayload: withMagnetStructure,
+      output: MagnetOutlineSchema,
+      schema: { type: Type.OBJECT, properties: { intro: { type: Type.STRING }, sections: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { heading: { type: Type.STRING }, summary: { type: Type.STRING } } } }, conclusion: { type: Type.STRING } } }
+    },
+    magnet_section: {
+      model: "gemini-2.5-flash",
+      template: 'Write the full body of section "{{section.heading}}" ({{section.summary}}) for the lead magnet "{{magnet.title}}" ({{magnet.type}}). Format: {{structure}}. Full outline: {{outline}}. Extra instructions: {{instructions|None}}. Use Markdown, 300-600 words, no section heading. Return JSON.',
+      preparePayload: withMagnetStructure,
+      output: MagnetSectionSchema,
+      schema: { type: Type.OBJECT, properties: { body: { type: Type.STRING } } }
+    },
+    magnet_promo: {
+      model: "gemini-2.5-flash",
+      template: 'Write a {{platform}} post promoting the free {{magnet.type}} "{{magnet.title}}". Hook: {{magnet.hook}}. Description: {{magnet.description}}. Follow {{platform}} conventions for tone, structure and emoji use, and end with a clear call to download. Keep the body under {{maxChars}} characters. Do not include any URL or hashtags in the body; the download link {{link}} is appended automatically. Suggest {{hashtags|0}} relevant hashtags without the # sign. Return JSON.',
+      output: MagnetPromoSchema,
+      schema: { type: Type.OBJECT, properties: { headline: { type: Type.STRING }, body: { type: Type.STRING }, hashtags: { type: Type.ARRAY, items: { type: Type.STRING } } } }
     },
     maps_scout: {
       model: "gemini-2.5-flash",
       tools: [{ googleMaps: {} }],
-      prompt: (d) => `Find 5 verified business leads for "${cleanInput(d.niche)}" in "${cleanInput(d.location)}".`
+      grounded: true,
+      cacheTtl: 7 * 24 * 60 * 60,
+      context: ['product', 'niche'],
+      output: LocalBusinessResultSchema,
+      template: 'Find 5 verified business leads for "{{niche}}" in "{{location}}".'
     },
     social_search: {
       model: "gemini-2.5-flash",
-      prompt: (d) => `Generate 3 Boolean Search Strings for ${cleanInput(d.persona.jobTitle)} in ${cleanInput(d.niche)}. Return JSON.`,
+      template: 'Generate 3 Boolean Search Strings for {{persona.jobTitle}} in {{niche}}. Return JSON.',
+      output: aiList(SocialSearchQuerySchema),
       schema: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { platform: { type: Type.STRING }, query: { type: Type.STRING }, explanation: { type: Type.STRING }, directUrl: { type: Type.STRING } } } }
     },
     landing_page: {
         model: "gemini-3-pro-preview",
-        prompt: (d) => `Write landing page copy for ${cleanInput(d.productName)}. Target: ${cleanInput(d.persona.jobTitle)}. Return JSON.`,
+        template: 'Write landing page copy for {{productName}}. Target: {{persona.jobTitle}}. Return JSON.',
+        context: COPY_CONTEXT,
+        output: LandingPageSchema,
         schema: { type: Type.OBJECT, properties: { headline: { type: Type.STRING }, subheadline: { type: Type.STRING }, ctaPrimary: { type: Type.STRING }, ctaSecondary: { type: Type.STRING }, benefits: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, description: { type: Type.STRING } } } }, heroImagePrompt: { type: Type.STRING }, socialProof: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, quote: { type: Type.STRING }, role: { type: Type.STRING } } } } } }
     },
     ad_creatives: {
         model: "gemini-2.5-flash",
-        prompt: (d) => `Generate 3 ad creatives for ${cleanInput(d.productName)}. Return JSON.`,
-        schema: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { platform: { type: Type.STRING }, headline: { type: Type.STRING }, adCopy: { type: Type.STRING }, hashtags: { type: Type.ARRAY, items: { type: Type.STRING } }, visualPrompt: { type: Type.STRING } } } }
+        template: 'Generate 3 ad creatives for {{productName}}. Return JSON.',
+        context: COPY_CONTEXT,
+        output: aiList(AdCreativeSchema),
+        schema: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { platform: { type: Type.STRING, enum: AD_PLATFORMS }, headline: { type: Type.STRING }, adCopy: { type: Type.STRING }, hashtags: { type: Type.ARRAY, items: { type: Type.STRING } }, visualPrompt: { type: Type.STRING } } } }
     },
     seo_audit: {
         model: "gemini-2.5-flash",
         tools: [{ googleSearch: {} }],
-        prompt: (d) => `Audit SEO for ${cleanInput(d.url)}. Identify technical issues. Return JSON.`,
-        schema: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { severity: { type: Type.STRING }, category: { type: Type.STRING }, issue: { type: Type.STRING }, recommendation: { type: Type.STRING } } } }
+        cacheTtl: 60 * 60, // Sites change; keep audits fresh
+        context: ['product'],
+        template: 'Audit SEO for {{url}}. Identify technical issues. Return JSON.',
+        output: aiList(SeoAuditIssueSchema),
+        schema: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { severity: { type: Type.STRING, enum: AUDIT_SEVERITIES }, category: { type: Type.STRING, enum: AUDIT_CATEGORIES }, issue: { type: Type.STRING }, recommendation: { type: Type.STRING } } } }
     },
     seo_keywords: {
         model: "gemini-2.5-flash",
-        prompt: (d) => `Keyword strategy for "${cleanInput(d.seed)}" niche "${cleanInput(d.niche)}". Return JSON.`,
-        schema: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { keyword: { type: Type.STRING }, intent: { type: Type.STRING }, volume: { type: Type.STRING }, difficulty: { type: Type.INTEGER }, opportunityScore: { type: Type.INTEGER } } } }
+        template: 'Keyword strategy for "{{seed}}" niche "{{niche}}". Return JSON.',
+        cacheTtl: 7 * 24 * 60 * 60,
+        output: aiList(KeywordDataSchema),
+        schema: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { keyword: { type: Type.STRING }, intent: { type: Type.STRING, enum: KEYWORD_INTENTS }, volume: { type: Type.STRING }, difficulty: { type: Type.INTEGER }, opportunityScore: { type: Type.INTEGER } } } }
     },
     chat_reply: {
         model: "gemini-2.5-flash",
-        prompt: (d) => `Roleplay as ${cleanInput(d.persona.jobTitle)}. Product: ${cleanInput(d.productName)}. History: ${JSON.stringify(d.history)}. Reply short.`
+        template: 'Roleplay as {{persona.jobTitle}}, a prospect talking to a sales rep. Product: {{productName}}. Scenario: {{scenarioBrief}} Behaviour: {{behaviour}} Bring up these objections when they fit the conversation: {{objections|none}}. History: {{history}}. Stay in character and reply short.',
+        context: ['product', 'persona', 'offer'],
+        cacheTtl: 0, // Conversational; never replay a cached turn
+        preparePayload: withRoleplayHistory,
+        output: z.string().trim().min(1)
+    },
+    live_voice: {
+        model: "gemini-2.5-flash-native-audio-preview-09-2025",
+        live: true, // Spoken over the /api/live relay; not callable as a one-shot agent
+        template: 'You are {{persona.jobTitle}}, a prospect on a phone call with a sales rep selling {{productName}}. Scenario: {{scenarioBrief}} Behaviour: {{behaviour}} Bring up these objections when they fit the conversation: {{objections|none}}. Speak naturally and briefly, as on a real call, and let the rep lead. Stay in character and never say you are an AI.',
+        context: ['product', 'persona', 'offer'],
+        cacheTtl: 0,
+        preparePayload: withRoleplaySetup,
+        output: z.string()
+    },
+    roleplay_score: {
+        model: "gemini-2.5-flash",
+        template: 'Grade the sales REP (not the prospect) in this roleplay. Scenario: {{scenarioBrief}} Prospect behaviour: {{behaviour}} Qualification questions the rep should cover: {{framework|none saved}}. Known objections: {{objections|none saved}}. Transcript: {{transcript}}. Score overall and each skill (rapport, discovery, objectionHandling, closing) from 0 to 100, judging against the scenario and difficulty. For every qualification question say whether the rep covered it, quoting the evidence. For every known objection say whether the prospect raised it and whether the rep handled it, with feedback. List strengths and specific improvements with better phrasing. Return JSON.',
+        context: ['product', 'offer'],
+        cacheTtl: 0,
+        preparePayload: withRoleplayTranscript,
+        output: RoleplayScorecardSchema,
+        schema: { type: Type.OBJECT, properties: {
+          score: { type: Type.INTEGER }, summary: { type: Type.STRING },
+          skills: { type: Type.OBJECT, properties: { rapport: { type: Type.INTEGER }, discovery: { type: Type.INTEGER }, objectionHandling: { type: Type.INTEGER }, closing: { type: Type.INTEGER } } },
+          qualification: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { question: { type: Type.STRING }, covered: { type: Type.BOOLEAN }, evidence: { type: Type.STRING } } } },
+          objections: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { objection: { type: Type.STRING }, raised: { type: Type.BOOLEAN }, handled: { type: Type.BOOLEAN }, feedback: { type: Type.STRING } } } },
+          strengths: { type: Type.ARRAY, items: { type: Type.STRING } }, improvements: { type: Type.ARRAY, items: { type: Type.STRING } }
+        } }
     },
     follow_up: {
         model: "gemini-2.5-flash",
-        prompt: (d) => `3 email sequence for ${cleanInput(d.productName)}. Return JSON.`,
+        template: '3 email sequence for {{productName}}. Return JSON.',
+        context: COPY_CONTEXT,
+        output: aiList(FollowUpEmailSchema),
         schema: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { subject: { type: Type.STRING }, previewText: { type: Type.STRING }, body: { type: Type.STRING }, sendDelay: { type: Type.STRING } } } }
     },
     qualification: {
         model: "gemini-2.5-flash",
-        prompt: (d) => `5 BANT questions for ${cleanInput(d.productName)}. Return JSON.`,
+        template: '5 BANT questions for {{productName}} aimed at {{persona.jobTitle}}. Return JSON.',
+        context: ['product', 'persona'],
+        output: aiList(QualificationQuestionSchema),
         schema: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { question: { type: Type.STRING }, intent: { type: Type.STRING }, idealAnswer: { type: Type.STRING } } } }
     },
     cold_dms: {
         model: "gemini-2.5-flash", 
-        prompt: (d) => `3 cold DMs for ${cleanInput(d.persona.jobTitle)}. Return JSON array of strings.`,
+        template: '3 cold DMs for {{persona.jobTitle}}. Return JSON array of strings.',
+        context: COPY_CONTEXT,
+        output: aiList(z.string().min(1)),
         schema: { type: Type.ARRAY, items: { type: Type.STRING } }
     },
     email_campaign: {
       model: "gemini-2.5-flash",
-      prompt: (d) => `Write email body: "${cleanInput(d.topic)}" Goal: "${cleanInput(d.goal)}". Return JSON.`,
+      template: 'Write email body: "{{topic}}" Goal: "{{goal}}". Return JSON.',
+      context: COPY_CONTEXT,
+      output: z.object({ subject: z.string().min(1), body: z.string().min(1) }),
       schema: { type: Type.OBJECT, properties: { subject: { type: Type.STRING }, body: { type: Type.STRING } } }
     },
     email_subjects: {
       model: "gemini-2.5-flash",
-      prompt: (d) => `5 subject lines for "${cleanInput(d.topic)}". Return JSON array strings.`,
+      template: '5 subject lines for "{{topic}}". Return JSON array strings.',
+      context: COPY_CONTEXT,
+      output: aiList(z.string().min(1)),
       schema: { type: Type.ARRAY, items: { type: Type.STRING } }
     },
     objection_handler: {
       model: "gemini-2.5-flash",
-      prompt: (d) => `3 rebuttals for: "${cleanInput(d.objection)}". Return JSON array strings.`,
+      template: '3 rebuttals for: "{{objection}}". Return JSON array strings.',
+      output: aiList(z.string().min(1)),
       schema: { type: Type.ARRAY, items: { type: Type.STRING } }
     },
+    voice_check: {
+      model: "gemini-2.5-flash",
+      template: 'Review this marketing copy against the brand voice in the brief: "{{text:4000}}". Flag passages whose tone contradicts the brand tone, claims that are not in the key claims list, and wording unlike the sample copy. Quote the exact excerpt and suggest a rewrite. Score overall fit from 0 to 100. Return JSON.',
+      context: ['voice'],
+      output: VoiceCheckSchema,
+      schema: { type: Type.OBJECT, properties: { score: { type: Type.INTEGER }, issues: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { excerpt: { type: Type.STRING }, problem: { type: Type.STRING }, suggestion: { type: Type.STRING } } } } } }
+    },
+    translate: {
+      model: "gemini-2.5-flash",
+      template: 'Translate these {{count}} marketing copy segments into {{language}}: {{segments}}. Write the way a native {{language}} copywriter would, adapting idioms rather than translating word for word. Keep HTML tags, Markdown, URLs, numbers, product and brand names unchanged. Return JSON with exactly {{count}} segments in the same order.',
+      context: ['voice'],
+      localized: false, // The target language comes from the payload, not the project
+      preparePayload: withSegmentCount,
+      output: z.object({ segments: z.array(z.string()) }),
+      schema: { type: Type.OBJECT, properties: { segments: { type: Type.ARRAY, items: { type: Type.STRING } } } }
+    },
     content_score: {
       model: "gemini-2.5-flash",
-      prompt: (d) => `Analyze SEO content for "${cleanInput(d.keyword)}": "${cleanInput(d.content).slice(0,2000)}". Return JSON.`,
+      template: 'Analyze SEO content for "{{keyword}}": "{{content:2000}}". Return JSON.',
+      output: SeoContentScoreSchema,
       schema: { type: Type.OBJECT, properties: { score: { type: Type.INTEGER }, readability: { type: Type.STRING }, keywordDensity: { type: Type.NUMBER }, suggestions: { type: Type.ARRAY, items: { type: Type.STRING } }, missingKeywords: { type: Type.ARRAY, items: { type: Type.STRING } } } }
     }
   };
@@ -227,213 +554,1737 @@ if (cluster.isPrimary && process.env.NODE_ENV === 'production') {
 
   app.get('/health', (req, res) => res.json({ status: 'ok', worker: process.pid }));
 
-  // AI Execution Route (Secured & Metered)
-  app.post('/api/ai/execute', authenticateToken, async (req, res) => {
-    try {
-      const { agent, payload } = req.body;
-      const agentConfig = AI_AGENTS[agent];
-      if (!agentConfig) return res.status(404).json({ error: "Invalid agent" });
+  // --- AI EXECUTION HELPERS ---
+  const TOKEN_LIMITS = { hobby: 100000, pro: 1000000, agency: 5000000 };
+  // Tokens added by one top-up purchase; they count for the current billing period only
+  const TOP_UP_TOKENS = 250000;
 
-      const user = await User.findById(req.user.id);
-      
-      // Hard Cost Ceiling
-      const limits = { hobby: 100000, pro: 1000000, agency: 5000000 };
-      if (user.usage.tokensUsed >= limits[user.subscription || 'hobby']) {
-        return res.status(402).json({ error: "Quota exceeded. Upgrade required." });
-      }
+  // Plan allowance plus tokens bought as a top-up for the current period
+  const quotaLimit = (user) => TOKEN_LIMITS[user?.subscription || 'hobby'] + (user?.usage?.topUpTokens || 0);
 
-      const prompt = agentConfig.prompt(payload);
-      const result = await genAI.models.generateContent({
-        model: agentConfig.model,
-        contents: prompt,
-        config: {
-          responseMimeType: agentConfig.schema ? "application/json" : "text/plain",
-          responseSchema: agentConfig.schema,
-          tools: agentConfig.tools,
-          maxOutputTokens: 8192
-        }
-      });
+  // Hard Cost Ceiling
+  const isOverQuota = (user) => user.usage.tokensUsed >= quotaLimit(user);
 
-      // Update Usage
-      const usage = result.usageMetadata?.totalTokenCount || 500;
-      await User.findByIdAndUpdate(req.user.id, { $inc: { "usage.tokensUsed": usage } });
+  // --- USAGE LEDGER ---
+  // Blended input/output list prices (USD per 1M tokens), billed in NGN at the Paystack plan rate
+  const NGN_PER_USD = 1500;
+  const MODEL_PRICING_USD_PER_1M = { 'gemini-2.5-flash': 0.6, 'gemini-3-pro-preview': 5, 'gemini-2.5-flash-image': 30, 'gemini-2.5-flash-native-audio-preview-09-2025': 6 };
+  const DEFAULT_PRICE_USD_PER_1M = 1;
+  const USAGE_PERIOD_MS = 30 * 24 * 60 * 60 * 1000;
+  const USAGE_WARNING_RATIO = 0.8;
 
-      // Handle Grounding (Maps)
-      if (agent === 'maps_scout' || agent === 'seo_audit') {
-        const grounding = result.candidates?.[0]?.groundingMetadata;
-        return res.json({ 
-          data: { text: result.text, mapChunks: grounding?.groundingChunks || [] }
-        });
-      }
+  const estimateCostNgn = (provider, model, tokens) => {
+    if (provider === 'fixture') return 0;
+    const usdPer1M = MODEL_PRICING_USD_PER_1M[model] ?? DEFAULT_PRICE_USD_PER_1M;
+    return Math.round((tokens / 1e6) * usdPer1M * NGN_PER_USD * 100) / 100;
+  };
 
-      // Handle JSON parsing
-      let output = result.text;
-      if (agentConfig.schema) {
-        try {
-          output = JSON.parse(result.text);
-        } catch (e) {
-          // Fallback cleanup
-          output = JSON.parse(result.text.replace(/```json|```/g, '').trim());
-        }
-      }
+  // Rolls the account into the current billing period, resetting counters when one has elapsed.
+  // The update is conditional on the old periodStart so concurrent requests reset only once.
+  const loadUsageAccount = async (userId) => {
+    const user = await User.findById(userId);
+    if (!user) return user;
+    const now = Date.now();
+    const start = user.usage?.periodStart ? user.usage.periodStart.getTime() : null;
+    if (start && now - start < USAGE_PERIOD_MS) return user;
+
+    // Legacy accounts open their first period now and keep the existing counter
+    const update = start
+      ? { 'usage.periodStart': new Date(start + Math.floor((now - start) / USAGE_PERIOD_MS) * USAGE_PERIOD_MS), 'usage.tokensUsed': 0, 'usage.costEstimate': 0, 'usage.topUpTokens': 0 }
+      : { 'usage.periodStart': new Date(now) };
+    await User.updateOne({ _id: user._id, 'usage.periodStart': user.usage?.periodStart ?? null }, { $set: update });
+    return User.findById(userId);
+  };
 
-      res.json({ data: output });
+  const recordUsage = async ({ userId, job, tokens, projectId, cached = false }) => {
+    const { agent, agentConfig } = job;
+    const provider = job.provider || aiProviders.resolve(agent, agentConfig).name;
+    const costNgn = estimateCostNgn(provider, agentConfig.model, tokens);
+    const [account] = await Promise.all([
+      User.findByIdAndUpdate(userId, { $inc: { 'usage.tokensUsed': tokens, 'usage.costEstimate': costNgn } }, { new: true }),
+      UsageRecord.create({ userId, agent, model: agentConfig.model, provider, projectId, tokens, costNgn, cached })
+    ]);
+    return account;
+  };
+
+  // Returned with every AI response so the client can warn before the hard stop
+  const quotaSnapshot = (user) => {
+    const limit = quotaLimit(user);
+    const tokensUsed = user?.usage?.tokensUsed || 0;
+    return { tokensUsed, limit, warning: tokensUsed >= limit * USAGE_WARNING_RATIO, exceeded: tokensUsed >= limit };
+  };
+
+  // Typical tokens per call, shown on generate buttons before anything is spent. Averaged from
+  // recent billed calls across all accounts; agents without history use a per-model default.
+  const DEFAULT_TOKEN_ESTIMATES = { 'gemini-2.5-flash': 1500, 'gemini-3-pro-preview': 4000 };
+  const DEFAULT_TOKEN_ESTIMATE = 2000;
+  const TOKEN_ESTIMATE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+  const TOKEN_ESTIMATE_TTL_MS = 10 * 60 * 1000;
+  let tokenEstimates = { values: null, expires: 0 };
+
+  const loadTokenEstimates = async () => {
+    if (tokenEstimates.values && tokenEstimates.expires > Date.now()) return tokenEstimates.values;
+    const rows = await UsageRecord.aggregate([
+      { $match: { cached: false, tokens: { $gt: 0 }, createdAt: { $gte: new Date(Date.now() - TOKEN_ESTIMATE_WINDOW_MS) } } },
+      { $group: { _id: '$agent', tokens: { $avg: '$tokens' } } }
+    ]);
+    const observed = Object.fromEntries(rows.map(row => [row._id, Math.round(row.tokens)]));
+    const values = Object.fromEntries(Object.entries(AI_AGENTS).map(([agent, config]) => [
+      agent, observed[agent] || DEFAULT_TOKEN_ESTIMATES[config.model] || DEFAULT_TOKEN_ESTIMATE
+    ]));
+    tokenEstimates = { values, expires: Date.now() + TOKEN_ESTIMATE_TTL_MS };
+    return values;
+  };
+
+  // --- PROMPT TEMPLATES ---
+  // {{path}} reads from the request payload (dot paths allowed), {{path:N}} truncates to N chars,
+  // {{path|fallback}} substitutes when empty. Values are sanitized with cleanInput.
+  const TEMPLATE_VARIABLE = /\{\{\s*([\w.]+)(?::(\d+))?\s*(?:\|([^}]*?))?\s*\}\}/g;
+
+  const renderPrompt = (template, payload = {}) => template.replace(TEMPLATE_VARIABLE, (_, path, maxLength, fallback = '') => {
+    const value = path.split('.').reduce((obj, key) => (obj == null ? undefined : obj[key]), payload);
+    const text = value == null ? '' : cleanInput(typeof value === 'string' ? value : JSON.stringify(value));
+    return (maxLength ? text.slice(0, Number(maxLength)) : text) || fallback.trim();
+  });
+
+  const extractTemplateVariables = (template) => [...new Set([...template.matchAll(TEMPLATE_VARIABLE)].map(m => m[1]))];
+
+  const builtinPrompt = (agent) => ({ template: AI_AGENTS[agent].template, version: 0, label: `${agent}@builtin` });
+
+  // Per-worker cache so every AI call does not hit Mongo; admin edits propagate within the TTL
+  const PROMPT_CACHE_TTL_MS = 30 * 1000;
+  const promptCache = new Map();
+
+  const resolvePrompt = async (agent) => {
+    const cached = promptCache.get(agent);
+    if (cached && cached.expires > Date.now()) return cached.prompt;
+
+    let prompt = builtinPrompt(agent);
+    try {
+      const release = await PromptRelease.findOne({ agent }).lean();
+      const pinned = release?.pinnedVersion;
+      const doc = pinned === 0 ? null : pinned != null
+        ? await PromptTemplate.findOne({ agent, version: pinned }).lean()
+        : await PromptTemplate.findOne({ agent }).sort({ version: -1 }).lean();
+      if (doc) prompt = { template: doc.template, version: doc.version, label: `${agent}@v${doc.version}` };
     } catch (e) {
-      logger.error("AI Error", { error: e.message, userId: req.user.id });
-      res.status(500).json({ error: "AI Processing Failed" });
+      // Never block generation on the prompt store; fall back to the built-in template
+      logger.error("Prompt Resolve Error", { error: e.message, agent });
     }
-  });
+    promptCache.set(agent, { prompt, expires: Date.now() + PROMPT_CACHE_TTL_MS });
+    return prompt;
+  };
 
-  // Project Routes
-  app.get('/api/projects', authenticateToken, async (req, res) => {
-    const projects = await Project.find({ userId: req.user.id }).sort({ updatedAt: -1 }).limit(50);
-    res.json(projects);
-  });
+  // Records which prompt version produced each generated object (persisted with the asset)
+  const stampPromptVersion = (data, label) => {
+    const stamp = (item) => (item && typeof item === 'object' && !Array.isArray(item) ? { ...item, promptVersion: label } : item);
+    return Array.isArray(data) ? data.map(stamp) : stamp(data);
+  };
 
-  app.post('/api/projects', authenticateToken, async (req, res) => {
-    const { name, description, clientName, clientId } = req.body;
-    const project = await Project.create({ 
-      userId: req.user.id, name, clientName, clientId, 
-      data: { productName: name, productDescription: description } 
-    });
-    res.json(project);
-  });
+  // --- STRATEGY BRIEF ---
+  // A compact summary of the project's strategy, sent as the system instruction on every call so
+  // each module builds on the same niche, persona and offer. Agents narrow it with `context`.
 
-  app.put('/api/projects/:id', authenticateToken, async (req, res) => {
-    const { data, clientName, clientId } = req.body;
-    const project = await Project.findOneAndUpdate(
-      { _id: req.params.id, userId: req.user.id }, 
-      { $set: { data, clientName, clientId, updatedAt: Date.now() } }, 
-      { new: true }
-    );
-    if (!project) return res.status(404).json({ error: "Not found" });
-    res.json(project);
-  });
+  const briefText = (value, max = 300) => cleanInput(typeof value === 'string' ? value : '').trim().slice(0, max);
+  const briefList = (items, max = 4) => (Array.isArray(items) ? items : []).map(item => briefText(item, 120)).filter(Boolean).slice(0, max).join('; ');
 
-  app.delete('/api/projects/:id', authenticateToken, async (req, res) => {
-    await Project.deleteOne({ _id: req.params.id, userId: req.user.id });
-    res.json({ success: true });
-  });
+  const buildStrategyBrief = (data, sections = BRIEF_SECTIONS) => {
+    if (!data) return '';
+    const lines = [];
+    const add = (label, value) => { if (value) lines.push(`- ${label}: ${value}`); };
 
-  // Client Routes (Agency)
-  app.get('/api/clients', authenticateToken, async (req, res) => {
-    const clients = await Client.find({ userId: req.user.id });
-    res.json(clients);
-  });
+    if (sections.includes('product')) {
+      const price = Number(data.productPrice) > 0 ? ` (price: ${projectCurrency(data)} ${Number(data.productPrice).toLocaleString('en-US')})` : '';
+      add('Product', data.productName && `${briefText(data.productName, 120)}${price}`);
+      add('Description', briefText(data.productDescription, 500));
+      add('URL', briefText(data.productUrl, 200));
+    }
+    if (sections.includes('niche') && data.selectedNiche) {
+      const { name, reasoning } = data.selectedNiche;
+      add('Target niche', name && `${briefText(name, 120)}${reasoning ? ` (${briefText(reasoning, 200)})` : ''}`);
+    }
+    if (sections.includes('persona') && data.persona) {
+      const { jobTitle, ageRange, painPoints, goals, buyingTriggers } = data.persona;
+      add('Ideal customer', jobTitle && `${briefText(jobTitle, 120)}${ageRange ? `, aged ${briefText(ageRange, 20)}` : ''}`);
+      add('Pain points', briefList(painPoints));
+      add('Goals', briefList(goals, 3));
+      add('Buying triggers', briefList(buyingTriggers, 3));
+    }
+    if (sections.includes('offer')) {
+      add('Lead magnets', briefList((data.generatedMagnets || []).map(m => m?.title), 3));
+      add('Landing page headline', briefText(data.landingPage?.headline, 200));
+    }
+    if (sections.includes('voice') && data.brandVoice) {
+      const { tone, readingLevel, bannedWords, keyClaims, sampleCopy } = data.brandVoice;
+      add('Brand tone', briefText(tone, 200));
+      add('Reading level', Number(readingLevel) > 0 && `US grade ${Math.round(Number(readingLevel))} or simpler`);
+      add('Never use these words', briefList(bannedWords, 30));
+      add('Key claims (only make claims from this list)', briefList(keyClaims, 6));
+      add('Sample of the brand voice', briefText(sampleCopy, 800));
+    }
+    return lines.length ? `Project strategy brief. Keep every output consistent with it:\n${lines.join('\n')}` : '';
+  };
 
-  app.post('/api/clients', authenticateToken, async (req, res) => {
-    const client = await Client.create({ userId: req.user.id, ...req.body });
-    res.json(client);
-  });
+  // Output language and currency apply to every agent, whatever its `context`. Agents that pick
+  // their own target language (translation) opt out with `localized: false`.
+  const DEFAULT_LANGUAGE = 'English';
+  const DEFAULT_CURRENCY = 'NGN';
+  const projectCurrency = (data) => briefText(data?.locale?.currency, 3).toUpperCase() || DEFAULT_CURRENCY;
 
-  app.put('/api/clients/:id', authenticateToken, async (req, res) => {
-    const client = await Client.findOneAndUpdate({ _id: req.params.id, userId: req.user.id }, req.body, { new: true });
-    res.json(client);
-  });
+  const buildLocaleInstruction = (data) => {
+    if (!data) return '';
+    const language = briefText(data.locale?.language, 40) || DEFAULT_LANGUAGE;
+    const lines = [`Quote every price, budget and amount in ${projectCurrency(data)}, never in another currency unless asked.`];
+    if (language !== DEFAULT_LANGUAGE) {
+      lines.unshift(`Write every human-readable value in ${language}, as a native speaker would. Keep JSON keys and enum values exactly as specified (in English).`);
+    }
+    return `Language and market:\n${lines.map(line => `- ${line}`).join('\n')}`;
+  };
 
-  app.delete('/api/clients/:id', authenticateToken, async (req, res) => {
-    await Client.deleteOne({ _id: req.params.id, userId: req.user.id });
-    res.json({ success: true });
-  });
+  // Strategy data for the caller's project; a missing or foreign project simply yields no brief.
+  // Projects without their own brand voice inherit their client's.
+  const loadProjectData = async (userId, projectId) => {
+    if (!projectId || !mongoose.isValidObjectId(projectId)) return null;
+    try {
+      const project = await Project.findOne({ _id: projectId, userId }, 'data clientId').lean();
+      if (!project?.data) return null;
+      if (project.data.brandVoice || !mongoose.isValidObjectId(project.clientId)) return project.data;
+      const client = await Client.findOne({ _id: project.clientId, userId }, 'brandVoice').lean();
+      return client?.brandVoice ? { ...project.data, brandVoice: client.brandVoice } : project.data;
+    } catch (e) {
+      logger.warn("Project Context Load Failed", { error: e.message, projectId });
+      return null;
+    }
+  };
 
-  // Services
-  app.post('/api/email/send', authenticateToken, async (req, res) => {
-    if (!process.env.SENDGRID_API_KEY) return res.status(503).json({ error: "Service unconfigured" });
+  // Strategy fields a caller may preview in the brief before saving them: Autopilot keeps its
+  // results in memory until the run is applied, but each step should build on the previous ones
+  const DRAFT_BRIEF_FIELDS = ['selectedNiche', 'persona', 'generatedMagnets', 'landingPage'];
+
+  const withBriefDraft = (data, draft) => {
+    if (!draft || typeof draft !== 'object') return data;
+    const overlay = Object.fromEntries(DRAFT_BRIEF_FIELDS.filter(key => draft[key] != null).map(key => [key, draft[key]]));
+    return Object.keys(overlay).length ? { ...(data || {}), ...overlay } : data;
+  };
+
+  // A generation job: the agent, its config, the caller payload, the resolved prompt version
+  // and the project strategy brief
+  const createAgentJob = async (agent, payload, projectData = null) => {
+    const agentConfig = AI_AGENTS[agent];
+    const brief = [
+      buildStrategyBrief(projectData, agentConfig.context),
+      agentConfig.localized === false ? '' : buildLocaleInstruction(projectData)
+    ].filter(Boolean).join('\n\n');
+    // Agents may derive extra template variables from the caller payload
+    const prepared = agentConfig.preparePayload ? agentConfig.preparePayload(payload) : payload;
+    return { agent, agentConfig, payload: prepared, brief, prompt: await resolvePrompt(agent) };
+  };
+
+  // --- RESPONSE CACHE ---
+  // Identical calls (same agent, provider, prompt version, brief and normalized payload) are served
+  // from Redis and not billed. Agents set `cacheTtl` in seconds; 0 disables caching.
+  const DEFAULT_CACHE_TTL_SECONDS = 24 * 60 * 60;
+
+  // Key order, surrounding whitespace and empty fields should not produce a different key
+  const normalizePayload = (value) => {
+    if (typeof value === 'string') return value.trim().replace(/\s+/g, ' ');
+    if (Array.isArray(value)) return value.map(normalizePayload);
+    if (!value || typeof value !== 'object') return value;
+    return Object.keys(value).sort().reduce((acc, key) => {
+      const v = value[key];
+      if (v !== undefined && v !== null && v !== '') acc[key] = normalizePayload(v);
+      return acc;
+    }, {});
+  };
+
+  const cacheTtlFor = (agentConfig) => agentConfig.cacheTtl ?? DEFAULT_CACHE_TTL_SECONDS;
+
+  const cacheKeyFor = ({ agent, agentConfig, payload, prompt, brief }) => {
+    const provider = aiProviders.resolve(agent, agentConfig).name;
+    const digest = crypto.createHash('sha256')
+      .update(JSON.stringify([provider, agentConfig.model, prompt.label, brief, normalizePayload(payload || {})]))
+      .digest('hex');
+    return `ai:cache:${agent}:${digest}`;
+  };
+
+  // Cache failures are logged and treated as a miss; generation never depends on Redis
+  const readCachedOutput = async (job) => {
+    if (!cacheTtlFor(job.agentConfig)) return null;
     try {
-      await sgMail.send(req.body);
-      res.json({ success: true });
+      const hit = await redisClient.get(cacheKeyFor(job));
+      return hit ? JSON.parse(hit) : null;
     } catch (e) {
-      logger.error("Email Error", e);
-      res.status(500).json({ error: "Send failed" });
+      logger.warn("AI Cache Read Failed", { error: e.message, agent: job.agent });
+      return null;
     }
-  });
+  };
 
-  app.post('/api/social/post', authenticateToken, async (req, res) => {
-    if (!process.env.AYRSHARE_API_KEY) return res.status(503).json({ error: "Service unconfigured" });
+  const writeCachedOutput = async (job, data) => {
+    const ttl = cacheTtlFor(job.agentConfig);
+    if (!ttl) return;
     try {
-      const resp = await fetch('https://app.ayrshare.com/api/post', {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.AYRSHARE_API_KEY}`
-        },
-        body: JSON.stringify(req.body)
-      });
-      const data = await resp.json();
-      res.json(data);
+      await redisClient.set(cacheKeyFor(job), JSON.stringify(data), 'EX', ttl);
     } catch (e) {
-      logger.error("Social Error", e);
-      res.status(500).json({ error: "Post failed" });
+      logger.warn("AI Cache Write Failed", { error: e.message, agent: job.agent });
+    }
+  };
+
+  const buildGenerationRequest = ({ agentConfig, payload, prompt, brief }) => ({
+    model: agentConfig.model,
+    contents: renderPrompt(prompt.template, payload),
+    config: {
+      systemInstruction: brief || undefined,
+      responseMimeType: agentConfig.schema ? "application/json" : "text/plain",
+      responseSchema: agentConfig.schema,
+      tools: agentConfig.tools,
+      maxOutputTokens: 8192
     }
   });
 
-  // Paystack Integration
-  app.post('/api/create-checkout-session', authenticateToken, async (req, res) => {
-    if (!process.env.PAYSTACK_SECRET_KEY) return res.status(503).json({ error: "Billing unconfigured" });
-    
+  const MAX_REPAIR_ATTEMPTS = 2;
+
+  class AgentOutputError extends Error {
+    constructor(agent, issues, repairTokens = 0) {
+      super(`Agent "${agent}" returned output that failed validation`);
+      this.agent = agent;
+      this.issues = issues;
+      this.repairTokens = repairTokens;
+    }
+  }
+
+  // Strips markdown fences and conversational fluff around the JSON payload
+  const extractJSON = (text) => {
+    if (!text) throw new Error("Empty response from AI");
+    let cleanText = text.trim();
+    const fenced = cleanText.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+    if (fenced) cleanText = fenced[1];
     try {
-      // Get User Email for Paystack
-      const user = await User.findById(req.user.id);
-      if (!user) return res.status(404).json({ error: "User not found" });
+      return JSON.parse(cleanText);
+    } catch (e) {
+      const first = cleanText.search(/[{[]/);
+      const last = Math.max(cleanText.lastIndexOf('}'), cleanText.lastIndexOf(']'));
+      if (first === -1 || last <= first) throw e;
+      return JSON.parse(cleanText.substring(first, last + 1));
+    }
+  };
 
-      const { planName } = req.body;
-      
-      // Define plan amounts in Kobo (100 Kobo = 1 Naira)
-      // Exchange Rate: $1 = N1500
-      // Pro ($29.80): N44,700 | Agency ($198.90): N298,350
-      const amounts = {
-        'Pro': 4470000, 
-        'Agency': 29835000
-      };
+  const validateAgentOutput = (agentConfig, raw) => {
+    let value = raw;
+    if (agentConfig.schema && typeof raw === 'string') {
+      try {
+        value = extractJSON(raw);
+      } catch (e) {
+        return { success: false, issues: [{ path: '', message: "Response was not valid JSON" }] };
+      }
+    }
+    const result = agentConfig.output.safeParse(value);
+    if (result.success) return { success: true, data: result.data };
+    return {
+      success: false,
+      issues: result.error.issues.slice(0, 10).map(i => ({ path: i.path.join('.'), message: i.message }))
+    };
+  };
 
-      const amount = amounts[planName];
-      if (!amount) return res.status(400).json({ error: "Invalid plan" });
+  const buildRepairRequest = (job, previous, issues) => {
+    const request = buildGenerationRequest(job);
+    const problems = issues.map(i => `- ${i.path || '(root)'}: ${i.message}`).join('\n');
+    request.contents = `${request.contents}\n\nYour previous response was rejected by our validator:\n${problems}\n\nPrevious response:\n${String(previous).slice(0, 6000)}\n\nReturn the corrected output only, in the exact required structure.`;
+    return request;
+  };
 
-      const params = JSON.stringify({
-        email: user.email,
-        amount: amount,
-        callback_url: `${process.env.CLIENT_URL}?payment=success&plan=${planName}`,
-        metadata: {
-          user_id: req.user.id,
-          plan: planName,
-          custom_fields: [
-            { display_name: "Plan Name", variable_name: "plan_name", value: planName }
-          ]
-        }
-      });
+  // Validates model output against the agent contract, re-prompting with the issues when it
+  // does not comply. Returns the parsed data plus any extra tokens spent on repairs.
+  const resolveAgentOutput = async (job, raw) => {
+    const { agent, agentConfig, payload, prompt } = job;
+    let candidate = raw;
+    let repairTokens = 0;
+    for (let attempt = 0; ; attempt++) {
+      const check = validateAgentOutput(agentConfig, candidate);
+      if (check.success) {
+        const data = agentConfig.schema ? stampPromptVersion(check.data, prompt.label) : check.data;
+        return { data, repairTokens };
+      }
+      // A re-prompt cannot reproduce grounding metadata, so grounded agents fail fast
+      if (attempt >= MAX_REPAIR_ATTEMPTS || agentConfig.grounded) {
+        throw new AgentOutputError(agent, check.issues, repairTokens);
+      }
 
-      const response = await fetch('https://api.paystack.co/transaction/initialize', {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${process.env.PAYSTACK_SECRET_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: params
-      });
+      logger.warn("AI Output Invalid", { agent, attempt: attempt + 1, issues: check.issues });
+      const repair = await aiProviders.resolve(agent, agentConfig).generate({ agent, payload, request: buildRepairRequest(job, candidate, check.issues) });
+      repairTokens += repair.usageMetadata?.totalTokenCount || 500;
+      candidate = repair.text;
+    }
+  };
 
-      const data = await response.json();
+  class QuotaExceededError extends Error {
+    constructor(user) {
+      super("Quota exceeded. Upgrade required.");
+      this.quota = user ? quotaSnapshot(user) : undefined;
+    }
+  }
 
-      if (!data.status) {
-        throw new Error(data.message || "Paystack initialization failed");
-      }
+  // Maps agent failures to an HTTP status and body (shared by the sync routes and background jobs)
+  const describeAgentError = (e) => {
+    if (e instanceof AgentOutputError) {
+      return { status: 422, body: { error: "AI output failed validation", code: "INVALID_AI_OUTPUT", agent: e.agent, issues: e.issues } };
+    }
+    if (e instanceof QuotaExceededError) return { status: 402, body: { error: e.message, code: "QUOTA_EXCEEDED", quota: e.quota } };
+    return { status: 500, body: { error: "AI Processing Failed", code: "MODEL_ERROR" } };
+  };
 
-      res.json({ url: data.data.authorization_url });
-    } catch (e) {
-      logger.error("Paystack Error", e);
-      res.status(500).json({ error: "Payment init failed" });
+  const sendAgentError = (res, e) => {
+    const { status, body } = describeAgentError(e);
+    res.status(status).json(body);
+  };
+
+  // Runs one metered agent call: quota check, cache, generation, validation/repair, usage ledger
+  const executeAgent = async ({ userId, agent, payload, options = {}, projectId }) => {
+    const agentConfig = AI_AGENTS[agent];
+    const user = await loadUsageAccount(userId);
+    if (isOverQuota(user)) throw new QuotaExceededError(user);
+
+    const ledgerProjectId = typeof projectId === 'string' ? projectId : undefined;
+    const job = await createAgentJob(agent, payload, withBriefDraft(await loadProjectData(userId, ledgerProjectId), options.draft));
+    const ledger = { userId, job, projectId: ledgerProjectId };
+
+    // Cache hits are free: no provider call, no usage increment
+    const cached = options.bypassCache ? null : await readCachedOutput(job);
+    if (cached) {
+      const account = await recordUsage({ ...ledger, tokens: 0, cached: true });
+      return { data: cached, meta: { agent, promptVersion: job.prompt.label, cached: true, quota: quotaSnapshot(account) } };
     }
-  });
 
-  // Auth
-  app.post('/api/auth/register', async (req, res) => {
+    const provider = aiProviders.resolve(agent, agentConfig);
+    const result = await provider.generate({ agent, payload, request: buildGenerationRequest(job) });
+
+    // Handle Grounding (Maps)
+    const raw = agentConfig.grounded ? { text: result.text, mapChunks: result.groundingChunks } : result.text;
+
+    let output;
+    let account;
+    let usage = result.usageMetadata?.totalTokenCount || 500;
     try {
-      const { email, password } = req.body;
-      const hashedPassword = await bcrypt.hash(password, 10);
-      const user = await User.create({ email, password: hashedPassword });
-      const token = jwt.sign({ id: user._id, role: 'user' }, process.env.JWT_SECRET);
-      res.json({ user, token });
-    } catch (e) { res.status(400).json({ error: "User exists" }); }
-  });
+      output = await resolveAgentOutput(job, raw);
+      usage += output.repairTokens;
+    } catch (e) {
+      usage += e.repairTokens || 0;
+      throw e;
+    } finally {
+      // Update Usage (failed repairs still consumed tokens)
+      account = await recordUsage({ ...ledger, tokens: usage });
+    }
+
+    await writeCachedOutput(job, output.data);
+    return { data: output.data, meta: { agent, promptVersion: job.prompt.label, cached: false, quota: quotaSnapshot(account) } };
+  };
+
+  // AI Execution Route (Secured & Metered)
+  app.post('/api/ai/execute', authenticateToken, async (req, res) => {
+    const { agent, payload, options = {}, projectId } = req.body;
+    if (!AI_AGENTS[agent] || AI_AGENTS[agent].live) return res.status(404).json({ error: "Invalid agent" });
+
+    try {
+      res.json(await executeAgent({ userId: req.user.id, agent, payload, options, projectId }));
+    } catch (e) {
+      logger.error("AI Error", { error: e.message, userId: req.user.id, issues: e.issues });
+      sendAgentError(res, e);
+    }
+  });
+
+  // --- BACKGROUND GENERATION JOBS ---
+  // Long generations are queued in Redis and run by whichever worker is free, so they survive
+  // proxy timeouts and page reloads. Clients submit, receive an id and poll for the result.
+  // Records expire after a day; each user keeps a short list of recent jobs for the tray.
+  const GENERATION_QUEUE_KEY = 'ai:jobs:queue';
+  const GENERATION_JOB_TTL_SECONDS = 24 * 60 * 60;
+  const GENERATION_HISTORY_LIMIT = 20;
+  const GENERATION_CONCURRENCY = 3; // per worker
+  // Claimed jobs sit in the processing list while they run, with a heartbeat key the worker keeps
+  // refreshing. A claimed job whose heartbeat lapsed belonged to a worker that died; it is
+  // re-queued once, then failed so the tray does not show it running forever.
+  const GENERATION_PROCESSING_KEY = 'ai:jobs:processing';
+  const GENERATION_HEARTBEAT_MS = 30 * 1000;
+  const GENERATION_HEARTBEAT_TTL_SECONDS = 90;
+  const GENERATION_MAX_RUNS = 2;
+
+  const generationJobKey = (id) => `ai:job:${id}`;
+  const generationHeartbeatKey = (id) => `ai:job:${id}:alive`;
+  const userGenerationsKey = (userId) => `ai:jobs:user:${userId}`;
+
+  const GenerationJobBody = z.object({
+    agent: z.string(),
+    payload: z.any(),
+    options: z.object({ bypassCache: z.boolean().optional(), draft: z.record(z.any()).optional() }).optional(),
+    projectId: z.string().optional(),
+    label: z.string().trim().max(120).optional(),
+    target: z.string().max(60).optional() // ProjectData field the result belongs in, used to apply it after a reload
+  });
+
+  const saveGenerationJob = (record) => redisClient.set(generationJobKey(record.id), JSON.stringify(record), 'EX', GENERATION_JOB_TTL_SECONDS);
+
+  const loadGenerationJob = async (id) => {
+    const raw = await redisClient.get(generationJobKey(id));
+    if (!raw) return null;
+    return JSON.parse(raw);
+  };
+
+  const updateGenerationJob = async (id, changes) => {
+    const record = await loadGenerationJob(id);
+    if (!record) return null;
+    const next = { ...record, ...changes, updatedAt: Date.now() };
+    await saveGenerationJob(next);
+    return next;
+  };
+
+  // Inputs and owner never leave the server; results are only sent when a single job is fetched
+  const publicGenerationJob = ({ payload, options, userId, result, ...record }, includeResult = false) => (
+    includeResult ? { ...record, result } : record
+  );
+
+  const runGenerationJob = async (id) => {
+    const beat = () => redisClient.set(generationHeartbeatKey(id), '1', 'EX', GENERATION_HEARTBEAT_TTL_SECONDS)
+      .catch(e => logger.warn("AI Job Heartbeat Failed", { error: e.message, jobId: id }));
+    await beat();
+    const heartbeat = setInterval(beat, GENERATION_HEARTBEAT_MS);
+    try {
+      const record = await updateGenerationJob(id, { status: 'running', startedAt: Date.now() });
+      if (!record) return;
+      try {
+        const { data, meta } = await executeAgent(record);
+        await updateGenerationJob(id, { status: 'succeeded', result: data, meta, payload: undefined, finishedAt: Date.now() });
+      } catch (e) {
+        logger.error("AI Job Failed", { error: e.message, jobId: id, agent: record.agent, userId: record.userId, issues: e.issues });
+        const { status, body } = describeAgentError(e);
+        await updateGenerationJob(id, { status: 'failed', error: { message: body.error, code: body.code, status }, payload: undefined, finishedAt: Date.now() });
+      }
+    } finally {
+      clearInterval(heartbeat);
+      await redisClient.multi().del(generationHeartbeatKey(id)).lrem(GENERATION_PROCESSING_KEY, 1, id).exec()
+        .catch(e => logger.warn("AI Job Release Failed", { error: e.message, jobId: id }));
+    }
+  };
+
+  // Claimed jobs without a heartbeat on two sweeps in a row (the first sweep may fall between the
+  // claim and the first beat) are recovered. Only the worker whose LREM removes the entry acts on it.
+  let unresponsiveGenerations = new Set();
+
+  const recoverStaleGenerations = async () => {
+    try {
+      const ids = await redisClient.lrange(GENERATION_PROCESSING_KEY, 0, -1);
+      const alive = ids.length ? await redisClient.mget(ids.map(generationHeartbeatKey)) : [];
+      const unresponsive = new Set(ids.filter((id, i) => !alive[i]));
+
+      for (const id of unresponsive) {
+        if (!unresponsiveGenerations.has(id)) continue;
+        if (!(await redisClient.lrem(GENERATION_PROCESSING_KEY, 1, id))) continue;
+        const record = await loadGenerationJob(id);
+        if (!record || record.status === 'succeeded' || record.status === 'failed') continue;
+
+        const runs = (record.runs || 0) + 1;
+        if (runs >= GENERATION_MAX_RUNS) {
+          await updateGenerationJob(id, { status: 'failed', runs, error: { message: "Generation was interrupted. Please try again." }, payload: undefined, finishedAt: Date.now() });
+        } else {
+          await updateGenerationJob(id, { status: 'queued', runs });
+          // Consumers take from the right, so the interrupted job goes next
+          await redisClient.rpush(GENERATION_QUEUE_KEY, id);
+        }
+        logger.warn("AI Job Recovered", { jobId: id, agent: record.agent, userId: record.userId, runs, requeued: runs < GENERATION_MAX_RUNS });
+      }
+      unresponsiveGenerations = unresponsive;
+    } catch (e) {
+      logger.warn("AI Job Recovery Failed", { error: e.message });
+    }
+  };
+  setInterval(recoverStaleGenerations, GENERATION_HEARTBEAT_MS);
+
+  // Blocking moves need their own connection; the shared client keeps serving requests
+  const generationConsumer = redisClient.duplicate();
+  let activeGenerations = 0;
+
+  const consumeGenerationJobs = async () => {
+    for (;;) {
+      if (activeGenerations >= GENERATION_CONCURRENCY) {
+        await new Promise(resolve => setTimeout(resolve, 250));
+        continue;
+      }
+      try {
+        // Moved, not popped: the job stays in Redis until it settles, so a crash cannot lose it
+        const id = await generationConsumer.blmove(GENERATION_QUEUE_KEY, GENERATION_PROCESSING_KEY, 'RIGHT', 'LEFT', 5);
+        if (!id) continue;
+        activeGenerations++;
+        runGenerationJob(id).finally(() => { activeGenerations--; });
+      } catch (e) {
+        logger.warn("AI Job Queue Unavailable", { error: e.message });
+        await new Promise(resolve => setTimeout(resolve, 2000));
+      }
+    }
+  };
+  consumeGenerationJobs();
+
+  app.post('/api/ai/jobs', authenticateToken, async (req, res) => {
+    const parsed = GenerationJobBody.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid job", issues: parsed.error.issues });
+    const { agent, payload, options = {}, projectId, label, target } = parsed.data;
+    if (!AI_AGENTS[agent] || AI_AGENTS[agent].live) return res.status(404).json({ error: "Invalid agent" });
+
+    try {
+      // Fail fast instead of queueing work that would be rejected
+      const user = await loadUsageAccount(req.user.id);
+      if (isOverQuota(user)) throw new QuotaExceededError(user);
+
+      const now = Date.now();
+      const record = {
+        id: crypto.randomUUID(), userId: req.user.id, agent, payload, options, projectId, target,
+        label: label || agent, status: 'queued', applied: false, createdAt: now, updatedAt: now
+      };
+      await saveGenerationJob(record);
+      await redisClient.multi()
+        .lpush(userGenerationsKey(req.user.id), record.id)
+        .ltrim(userGenerationsKey(req.user.id), 0, GENERATION_HISTORY_LIMIT - 1)
+        .expire(userGenerationsKey(req.user.id), GENERATION_JOB_TTL_SECONDS)
+        .lpush(GENERATION_QUEUE_KEY, record.id)
+        .exec();
+      res.status(202).json(publicGenerationJob(record));
+    } catch (e) {
+      logger.error("AI Job Submit Error", { error: e.message, userId: req.user.id });
+      sendAgentError(res, e);
+    }
+  });
+
+  app.get('/api/ai/jobs', authenticateToken, async (req, res) => {
+    try {
+      const ids = await redisClient.lrange(userGenerationsKey(req.user.id), 0, GENERATION_HISTORY_LIMIT - 1);
+      const records = await Promise.all(ids.map(loadGenerationJob));
+      res.json(records.filter(Boolean).map(record => publicGenerationJob(record)));
+    } catch (e) {
+      logger.error("AI Job List Error", { error: e.message, userId: req.user.id });
+      res.status(500).json({ error: "Failed to load jobs" });
+    }
+  });
+
+  const loadOwnGenerationJob = async (req, res, next) => {
+    try {
+      const record = await loadGenerationJob(req.params.id);
+      if (!record || record.userId !== req.user.id) return res.status(404).json({ error: "Job not found" });
+      req.generationJob = record;
+      next();
+    } catch (e) {
+      logger.error("AI Job Load Error", { error: e.message, userId: req.user.id });
+      res.status(500).json({ error: "Failed to load job" });
+    }
+  };
+
+  app.get('/api/ai/jobs/:id', authenticateToken, loadOwnGenerationJob, (req, res) => {
+    res.json(publicGenerationJob(req.generationJob, true));
+  });
+
+  // Marks the result as applied to the project so the tray stops offering it
+  app.patch('/api/ai/jobs/:id', authenticateToken, loadOwnGenerationJob, async (req, res) => {
+    try {
+      const record = await updateGenerationJob(req.params.id, { applied: req.body.applied === true });
+      res.json(publicGenerationJob(record));
+    } catch (e) {
+      res.status(500).json({ error: "Failed to update job" });
+    }
+  });
+
+  // Removes the job from the tray; the record itself expires with the TTL
+  app.delete('/api/ai/jobs/:id', authenticateToken, loadOwnGenerationJob, async (req, res) => {
+    try {
+      await redisClient.lrem(userGenerationsKey(req.user.id), 0, req.params.id);
+      res.json({ success: true });
+    } catch (e) {
+      res.status(500).json({ error: "Failed to dismiss job" });
+    }
+  });
+
+  // AI Streaming Route (Server-Sent Events)
+  // Emits `chunk` events with raw text deltas, then a single `done` event with the parsed output.
+  // The final text goes through the same validation/repair as /api/ai/execute before `done`.
+  // Grounded agents are excluded: their metadata only arrives with the final candidate.
+  app.post('/api/ai/stream', authenticateToken, async (req, res) => {
+    const { agent, payload, options = {}, projectId } = req.body;
+    const agentConfig = AI_AGENTS[agent];
+    if (!agentConfig || agentConfig.live) return res.status(404).json({ error: "Invalid agent" });
+    if (agentConfig.grounded) return res.status(400).json({ error: "Agent does not support streaming" });
+
+    try {
+      const user = await loadUsageAccount(req.user.id);
+      if (isOverQuota(user)) return sendAgentError(res, new QuotaExceededError(user));
+    } catch (e) {
+      logger.error("AI Stream Error", { error: e.message, userId: req.user.id });
+      return sendAgentError(res, e);
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    const sendEvent = (event, data) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      // compression() buffers writes; push each event to the client immediately
+      if (typeof res.flush === 'function') res.flush();
+    };
+
+    // Client cancelled (navigated away or aborted the fetch)
+    let aborted = false;
+    res.on('close', () => { if (!res.writableEnded) aborted = true; });
+
+    let text = '';
+    let usageMetadata;
+    try {
+      const ledgerProjectId = typeof projectId === 'string' ? projectId : undefined;
+      const job = await createAgentJob(agent, payload, withBriefDraft(await loadProjectData(req.user.id, ledgerProjectId), options.draft));
+      const ledger = { userId: req.user.id, job, projectId: ledgerProjectId };
+
+      // Cache hits skip straight to `done` and are not billed
+      const cached = options.bypassCache ? null : await readCachedOutput(job);
+      if (cached) {
+        const account = await recordUsage({ ...ledger, tokens: 0, cached: true });
+        sendEvent('done', { data: cached, meta: { agent, promptVersion: job.prompt.label, cached: true, quota: quotaSnapshot(account) } });
+        return res.end();
+      }
+
+      const provider = aiProviders.resolve(agent, agentConfig);
+      const stream = provider.stream({ agent, payload, request: buildGenerationRequest(job) });
+      for await (const chunk of stream) {
+        if (aborted) break;
+        if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata;
+        if (!chunk.text) continue;
+        text += chunk.text;
+        sendEvent('chunk', { text: chunk.text });
+      }
+
+      // Bill what was generated, even for cancelled streams
+      let usage = usageMetadata?.totalTokenCount || Math.max(Math.ceil(text.length / 4), 1);
+      if (aborted) {
+        await recordUsage({ ...ledger, tokens: usage });
+        return;
+      }
+
+      let output;
+      let account;
+      try {
+        output = await resolveAgentOutput(job, text);
+        usage += output.repairTokens;
+      } catch (e) {
+        usage += e.repairTokens || 0;
+        throw e;
+      } finally {
+        account = await recordUsage({ ...ledger, tokens: usage });
+      }
+
+      await writeCachedOutput(job, output.data);
+      sendEvent('done', { data: output.data, meta: { agent, promptVersion: job.prompt.label, cached: false, quota: quotaSnapshot(account) } });
+    } catch (e) {
+      logger.error("AI Stream Error", { error: e.message, userId: req.user.id, agent, issues: e.issues });
+      if (!aborted) sendEvent('error', describeAgentError(e).body);
+    }
+    res.end();
+  });
+
+  // --- AD IMAGES & ASSETS ---
+  // The server renders the base image; the client crops it to the platform size, composites the
+  // brand logo and uploads the final file. Both are stored as Assets, never inside the project.
+  const UPLOAD_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+  const AdImageBody = z.object({
+    prompt: z.string().trim().min(3).max(2000),
+    headline: z.string().max(300).optional(),
+    platform: z.enum(AD_PLATFORMS),
+    width: z.number().int().min(256).max(2048),
+    height: z.number().int().min(256).max(2048),
+    projectId: z.string().optional()
+  });
+
+  const assetUrl = (req, publicId) => `${req.protocol}://${req.get('host')}/assets/${publicId}`;
+
+  const storeAsset = async ({ userId, projectId, kind, mimeType, data }) => {
+    const asset = await Asset.create({ publicId: crypto.randomBytes(16).toString('hex'), userId, projectId, kind, mimeType, size: data.length, data });
+    return asset.publicId;
+  };
+
+  app.post('/api/ai/image', authenticateToken, async (req, res) => {
+    const parsed = AdImageBody.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid image request", issues: parsed.error.issues });
+    const { prompt, headline, platform, width, height, projectId } = parsed.data;
+
+    try {
+      const user = await loadUsageAccount(req.user.id);
+      if (isOverQuota(user)) return sendAgentError(res, new QuotaExceededError(user));
+
+      const image = await imageProvider.generate({
+        prompt: `${cleanInput(prompt)}\n\nAdvertising image for ${platform}. Do not render any text, words or logos. Keep the bottom-right corner uncluttered: the brand logo is placed there.`,
+        headline: headline ? cleanInput(headline) : undefined,
+        width,
+        height
+      });
+      const publicId = await storeAsset({ userId: req.user.id, projectId, kind: 'ad_image_source', mimeType: image.mimeType, data: image.data });
+      const account = await recordUsage({
+        userId: req.user.id, projectId, tokens: image.tokens,
+        job: { agent: 'ad_image', provider: imageProvider.name, agentConfig: { model: imageProvider.model } }
+      });
+      res.json({ url: assetUrl(req, publicId), mimeType: image.mimeType, meta: { provider: imageProvider.name, quota: quotaSnapshot(account) } });
+    } catch (e) {
+      logger.error("Image Error", { error: e.message, userId: req.user.id });
+      res.status(500).json({ error: "Image generation failed", code: "MODEL_ERROR" });
+    }
+  });
+
+  app.post('/api/assets', authenticateToken, express.raw({ type: UPLOAD_MIME_TYPES, limit: '8mb' }), async (req, res) => {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) return res.status(400).json({ error: "Expected a PNG, JPEG or WebP body" });
+    try {
+      const kind = typeof req.query.kind === 'string' ? req.query.kind.slice(0, 40) : 'upload';
+      const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : undefined;
+      const publicId = await storeAsset({ userId: req.user.id, projectId, kind, mimeType: req.get('Content-Type'), data: req.body });
+      res.json({ url: assetUrl(req, publicId) });
+    } catch (e) {
+      logger.error("Asset Upload Error", { error: e.message, userId: req.user.id });
+      res.status(500).json({ error: "Upload failed" });
+    }
+  });
+
+  // Public: ad networks fetch media by URL when a post is published
+  app.get('/assets/:publicId', async (req, res) => {
+    const asset = await Asset.findOne({ publicId: req.params.publicId }, 'mimeType data');
+    if (!asset) return res.status(404).json({ error: "Not found" });
+    res.set({
+      'Content-Type': asset.mimeType,
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'Cross-Origin-Resource-Policy': 'cross-origin'
+    });
+    res.send(asset.data);
+  });
+
+  // Pre-flight: what is left this period and roughly what each agent costs, so the client can
+  // show costs on generate buttons and stop before a call that would be refused
+  app.get('/api/ai/quota', authenticateToken, async (req, res) => {
+    try {
+      const user = await loadUsageAccount(req.user.id);
+      if (!user) return res.status(404).json({ error: "User not found" });
+      const snapshot = quotaSnapshot(user);
+      res.json({
+        ...snapshot,
+        plan: user.subscription || 'hobby',
+        remaining: Math.max(0, snapshot.limit - snapshot.tokensUsed),
+        topUpTokens: user.usage.topUpTokens || 0,
+        periodEnd: user.usage.periodStart.getTime() + USAGE_PERIOD_MS,
+        estimates: await loadTokenEstimates()
+      });
+    } catch (e) {
+      logger.error("Quota Error", { error: e.message, userId: req.user.id });
+      res.status(500).json({ error: "Failed to load quota" });
+    }
+  });
+
+  // Usage Dashboard: consumption in the current billing period, by agent and by project
+  app.get('/api/usage', authenticateToken, async (req, res) => {
+    try {
+      const user = await loadUsageAccount(req.user.id);
+      if (!user) return res.status(404).json({ error: "User not found" });
+
+      const periodStart = user.usage.periodStart;
+      const match = { $match: { userId: req.user.id, createdAt: { $gte: periodStart } } };
+      const totals = { tokens: { $sum: '$tokens' }, costNgn: { $sum: '$costNgn' }, calls: { $sum: 1 }, cachedCalls: { $sum: { $cond: ['$cached', 1, 0] } } };
+      const [byAgent, byProject] = await Promise.all([
+        UsageRecord.aggregate([match, { $group: { _id: '$agent', ...totals } }, { $sort: { tokens: -1 } }]),
+        UsageRecord.aggregate([match, { $group: { _id: '$projectId', ...totals } }, { $sort: { tokens: -1 } }])
+      ]);
+
+      const projectIds = byProject.map(p => p._id).filter(id => mongoose.isValidObjectId(id));
+      const projects = await Project.find({ _id: { $in: projectIds }, userId: req.user.id }, 'name').lean();
+      const projectNames = Object.fromEntries(projects.map(p => [String(p._id), p.name]));
+
+      const { limit, tokensUsed, warning } = quotaSnapshot(user);
+      res.json({
+        plan: user.subscription || 'hobby',
+        periodStart: periodStart.getTime(),
+        periodEnd: periodStart.getTime() + USAGE_PERIOD_MS,
+        limit, tokensUsed, warning,
+        costEstimate: user.usage.costEstimate || 0,
+        byAgent: byAgent.map(({ _id, ...row }) => ({ agent: _id, ...row })),
+        byProject: byProject.map(({ _id, ...row }) => ({ projectId: _id || null, name: _id ? (projectNames[_id] || 'Deleted project') : 'No project', ...row }))
+      });
+    } catch (e) {
+      logger.error("Usage Summary Error", { error: e.message, userId: req.user.id });
+      res.status(500).json({ error: "Failed to load usage" });
+    }
+  });
+
+  // Prompt Template Routes (Admin)
+  const PromptVersionBody = z.object({
+    template: z.string().trim().min(10).max(8000),
+    notes: z.string().max(500).optional()
+  });
+
+  const getPromptState = async (agent) => {
+    const [release, versions] = await Promise.all([
+      PromptRelease.findOne({ agent }).lean(),
+      PromptTemplate.find({ agent }).sort({ version: -1 }).lean()
+    ]);
+    const pinnedVersion = release?.pinnedVersion ?? null;
+    const liveVersion = pinnedVersion ?? (versions[0]?.version || 0);
+    return { pinnedVersion, liveVersion, versions };
+  };
+
+  const invalidatePrompt = (agent) => promptCache.delete(agent);
+
+  const setPinnedVersion = (agent, version, adminId) => PromptRelease.findOneAndUpdate(
+    { agent },
+    { $set: { pinnedVersion: version, updatedBy: adminId, updatedAt: Date.now() } },
+    { upsert: true, new: true }
+  );
+
+  const requirePromptAgent = (req, res, next) => {
+    if (!AI_AGENTS[req.params.agent]) return res.status(404).json({ error: "Invalid agent" });
+    next();
+  };
+
+  app.get('/api/admin/prompts', authenticateToken, requireAdmin, async (req, res) => {
+    try {
+      const catalog = await Promise.all(Object.keys(AI_AGENTS).map(async (agent) => {
+        const { pinnedVersion, liveVersion, versions } = await getPromptState(agent);
+        return { agent, pinnedVersion, liveVersion, latestVersion: versions[0]?.version || 0, versionCount: versions.length };
+      }));
+      res.json(catalog);
+    } catch (e) {
+      logger.error("Prompt Catalog Error", { error: e.message });
+      res.status(500).json({ error: "Failed to load prompts" });
+    }
+  });
+
+  app.get('/api/admin/prompts/:agent', authenticateToken, requireAdmin, requirePromptAgent, async (req, res) => {
+    const { agent } = req.params;
+    const { pinnedVersion, liveVersion, versions } = await getPromptState(agent);
+    const builtin = AI_AGENTS[agent].template;
+    res.json({
+      agent, pinnedVersion, liveVersion,
+      versions: [
+        ...versions.map(v => ({ version: v.version, template: v.template, variables: v.variables, notes: v.notes, createdBy: v.createdBy, createdAt: v.createdAt })),
+        { version: 0, template: builtin, variables: extractTemplateVariables(builtin), notes: 'Built-in default' }
+      ]
+    });
+  });
+
+  // Publishing makes the new version live unless another version is pinned
+  app.post('/api/admin/prompts/:agent', authenticateToken, requireAdmin, requirePromptAgent, async (req, res) => {
+    const parsed = PromptVersionBody.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid template", issues: parsed.error.issues.map(i => i.message) });
+
+    const { agent } = req.params;
+    try {
+      const latest = await PromptTemplate.findOne({ agent }).sort({ version: -1 }).lean();
+      const doc = await PromptTemplate.create({
+        agent,
+        version: (latest?.version || 0) + 1,
+        template: parsed.data.template,
+        variables: extractTemplateVariables(parsed.data.template),
+        notes: parsed.data.notes,
+        createdBy: req.user.id
+      });
+      invalidatePrompt(agent);
+      logger.info("Prompt Published", { agent, version: doc.version, adminId: req.user.id });
+      res.json(doc);
+    } catch (e) {
+      if (e.code === 11000) return res.status(409).json({ error: "Another version was published concurrently. Reload and retry." });
+      logger.error("Prompt Publish Error", { error: e.message, agent });
+      res.status(500).json({ error: "Failed to publish prompt" });
+    }
+  });
+
+  // Pin a specific version (0 = built-in), or pass null to follow the latest version again
+  app.put('/api/admin/prompts/:agent/pin', authenticateToken, requireAdmin, requirePromptAgent, async (req, res) => {
+    const { agent } = req.params;
+    const parsed = z.object({ version: z.number().int().min(0).nullable() }).safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid version" });
+
+    const { version } = parsed.data;
+    if (version && !await PromptTemplate.exists({ agent, version })) return res.status(404).json({ error: "Version not found" });
+
+    await setPinnedVersion(agent, version, req.user.id);
+    invalidatePrompt(agent);
+    logger.info("Prompt Pinned", { agent, version, adminId: req.user.id });
+    res.json(await getPromptState(agent));
+  });
+
+  // Roll back: pin the version published before the one currently live
+  app.post('/api/admin/prompts/:agent/rollback', authenticateToken, requireAdmin, requirePromptAgent, async (req, res) => {
+    const { agent } = req.params;
+    const { liveVersion, versions } = await getPromptState(agent);
+    if (liveVersion === 0) return res.status(400).json({ error: "Already on the built-in prompt" });
+
+    const previous = versions.find(v => v.version < liveVersion)?.version || 0;
+    await setPinnedVersion(agent, previous, req.user.id);
+    invalidatePrompt(agent);
+    logger.info("Prompt Rolled Back", { agent, from: liveVersion, to: previous, adminId: req.user.id });
+    res.json(await getPromptState(agent));
+  });
+
+  // Renders a template against a sample payload without calling the model
+  app.post('/api/admin/prompts/:agent/preview', authenticateToken, requireAdmin, requirePromptAgent, (req, res) => {
+    const agentConfig = AI_AGENTS[req.params.agent];
+    const template = typeof req.body.template === 'string' ? req.body.template : agentConfig.template;
+    const payload = agentConfig.preparePayload ? agentConfig.preparePayload(req.body.payload || {}) : (req.body.payload || {});
+    res.json({ prompt: renderPrompt(template, payload), variables: extractTemplateVariables(template) });
+  });
+
+  // Project Routes
+  app.get('/api/projects', authenticateToken, async (req, res) => {
+    const projects = await Project.find({ userId: req.user.id }).sort({ updatedAt: -1 }).limit(50);
+    res.json(projects);
+  });
+
+  app.get('/api/projects/:id', authenticateToken, async (req, res) => {
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ error: "Not found" });
+    const project = await Project.findOne({ _id: req.params.id, userId: req.user.id });
+    if (!project) return res.status(404).json({ error: "Not found" });
+    res.json(project);
+  });
+
+  app.post('/api/projects', authenticateToken, async (req, res) => {
+    const { name, description, clientName, clientId, templateId } = req.body;
+    let template = null;
+    if (templateId) {
+      template = mongoose.isValidObjectId(templateId) && await ProjectTemplate.findOne({ _id: templateId, userId: req.user.id }, 'data').lean();
+      if (!template) return res.status(404).json({ error: "Template not found" });
+    }
+    const project = await Project.create({ 
+      userId: req.user.id, name, clientName, clientId, 
+      data: { ...template?.data, productName: name, productDescription: description } 
+    });
+    await recordRevision({ project, authorId: req.user.id, changes: project.data, kind: 'created' });
+    res.json(project);
+  });
+
+  // Optimistic concurrency: clients send the `baseVersion` they last loaded. A save is rejected with
+  // 409 only when one of its keys was written by someone else after that version; saves to other
+  // keys go through. The version is compare-and-set, so concurrent saves retry against the new one.
+  const PROJECT_SAVE_ATTEMPTS = 3;
+
+  /**
+   * Applies `buildChanges(currentData)` ({ key: newValue } for ProjectData sections) to a project.
+   * Only the sections named in `checkKeys` are conflict-checked against `baseVersion`; `dataKeys`
+   * are loaded so changes can be computed from the stored values. Returns { status, body }.
+   */
+  const saveProjectChanges = async ({ projectId, userId, baseVersion, checkKeys, dataKeys = [], buildChanges, extra = {}, revision = {} }) => {
+    const projection = ['version', 'fieldVersions', ...dataKeys.map(key => `data.${key}`)].join(' ');
+    for (let attempt = 0; attempt < PROJECT_SAVE_ATTEMPTS; attempt++) {
+      const current = await Project.findOne({ _id: projectId, userId }, projection).lean();
+      if (!current) return { status: 404, body: { error: "Not found" } };
+
+      const version = current.version || 0;
+      // Requests without baseVersion (older clients) overwrite unconditionally
+      const conflicts = typeof baseVersion === 'number'
+        ? checkKeys.filter(key => (current.fieldVersions?.[key] || 0) > baseVersion)
+        : [];
+      if (conflicts.length) {
+        const project = await Project.findById(current._id);
+        return { status: 409, body: { error: "Project was changed by someone else", code: "VERSION_CONFLICT", conflicts, project } };
+      }
+
+      const changes = buildChanges(current.data || {});
+      const update = { ...extra, updatedAt: Date.now(), version: version + 1 };
+      const unset = {};
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value === undefined) unset[`data.${key}`] = '';
+        else update[`data.${key}`] = value;
+        update[`fieldVersions.${key}`] = version + 1;
+      });
+      const project = await Project.findOneAndUpdate(
+        { _id: current._id, userId, version: current.version ?? null },
+        { $set: update, ...(Object.keys(unset).length && { $unset: unset }) },
+        { new: true }
+      );
+      if (project) {
+        if (Object.keys(changes).length) await recordRevision({ project, authorId: userId, changes, ...revision });
+        return { status: 200, body: project, changes };
+      }
+    }
+    const project = await Project.findOne({ _id: projectId, userId });
+    return { status: 409, body: { error: "Project is being saved too often, try again", code: "VERSION_CONFLICT", conflicts: [], project } };
+  };
+
+  // ProjectData field names; keeps dots and `$` out of the Mongo update paths built from them
+  const ProjectDataKey = z.string().regex(/^[A-Za-z][A-Za-z0-9]{0,63}$/);
+  const ProjectSaveBody = z.object({
+    data: z.record(ProjectDataKey, z.unknown()).optional(),
+    baseVersion: z.number().int().min(0).optional()
+  }).passthrough();
+
+  app.put('/api/projects/:id', authenticateToken, async (req, res) => {
+    const parsed = ProjectSaveBody.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid project data", issues: parsed.error.issues });
+    const { data, clientName, clientId, baseVersion } = parsed.data;
+    const extra = {};
+    if (clientName !== undefined) extra.clientName = clientName;
+    if (clientId !== undefined) extra.clientId = clientId;
+
+    try {
+      // Clients send partial ProjectData; merge per section so the stored project stays complete
+      const result = await saveProjectChanges({
+        projectId: req.params.id, userId: req.user.id, baseVersion, extra,
+        checkKeys: Object.keys(data || {}),
+        buildChanges: () => data || {}
+      });
+      res.status(result.status).json(result.body);
+    } catch (e) {
+      logger.error("Project Save Error", { error: e.message, projectId: req.params.id });
+      res.status(500).json({ error: "Failed to save project" });
+    }
+  });
+
+  // --- PROJECT PATCHES ---
+  // Small, mergeable edits instead of re-sending whole sections:
+  //   { op: 'set', path, value }              replace one ProjectData section
+  //   { op: 'upsert', path, value, index? }   add or replace one item (matched by `id`) in a list section
+  //   { op: 'remove', path, id }              remove one item from a list section
+  // Item ops apply to the list as stored now, so teammates editing different items never collide;
+  // only `set` ops are conflict-checked. Responds with the new version and the touched sections.
+  const ProjectItem = z.object({ id: z.string().min(1).max(100) }).passthrough();
+  const ProjectPatchBody = z.object({
+    baseVersion: z.number().int().min(0).optional(),
+    ops: z.array(z.discriminatedUnion('op', [
+      z.object({ op: z.literal('set'), path: ProjectDataKey, value: z.unknown() }),
+      z.object({ op: z.literal('upsert'), path: ProjectDataKey, value: ProjectItem, index: z.number().int().min(0).optional() }),
+      z.object({ op: z.literal('remove'), path: ProjectDataKey, id: z.string().min(1).max(100) })
+    ])).min(1).max(500)
+  });
+
+  class ProjectPatchError extends Error {}
+
+  const applyProjectOps = (data, ops) => {
+    const changes = {};
+    ops.forEach(op => {
+      if (op.op === 'set') {
+        changes[op.path] = op.value;
+        return;
+      }
+      const stored = op.path in changes ? changes[op.path] : data[op.path];
+      if (stored != null && !Array.isArray(stored)) throw new ProjectPatchError(`"${op.path}" is not a list`);
+      const list = [...(stored || [])];
+      const index = list.findIndex(item => item?.id === (op.op === 'upsert' ? op.value.id : op.id));
+      if (op.op === 'remove') {
+        if (index >= 0) list.splice(index, 1);
+      } else if (index >= 0) {
+        list[index] = op.value;
+      } else {
+        list.splice(Math.min(op.index ?? list.length, list.length), 0, op.value);
+      }
+      changes[op.path] = list;
+    });
+    return changes;
+  };
+
+  app.patch('/api/projects/:id', authenticateToken, async (req, res) => {
+    const parsed = ProjectPatchBody.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid patch", issues: parsed.error.issues });
+    const { ops, baseVersion } = parsed.data;
+
+    try {
+      const result = await saveProjectChanges({
+        projectId: req.params.id, userId: req.user.id, baseVersion,
+        checkKeys: [...new Set(ops.filter(op => op.op === 'set').map(op => op.path))],
+        dataKeys: [...new Set(ops.filter(op => op.op !== 'set').map(op => op.path))],
+        buildChanges: (data) => applyProjectOps(data, ops)
+      });
+      if (result.status !== 200) return res.status(result.status).json(result.body);
+      res.json({ id: result.body.id, version: result.body.version, data: result.changes });
+    } catch (e) {
+      if (e instanceof ProjectPatchError) return res.status(400).json({ error: e.message });
+      logger.error("Project Patch Error", { error: e.message, projectId: req.params.id });
+      res.status(500).json({ error: "Failed to save project" });
+    }
+  });
+
+  // --- REVISION HISTORY ---
+  const REVISION_CHECKPOINT_EVERY = 25;
+  const MAX_REVISIONS = 200; // Older revisions are pruned, always back to a checkpoint
+
+  // Revisions never block a save: a failure is logged and the save still succeeds
+  const recordRevision = async ({ project, authorId, changes, kind = 'save', restoredFrom, restoredSection }) => {
+    try {
+      const projectId = String(project._id);
+      const sections = Object.keys(changes);
+      const checkpoint = project.version % REVISION_CHECKPOINT_EVERY === 0 || !(await ProjectRevision.exists({ projectId }));
+      await ProjectRevision.create({
+        projectId, version: project.version, authorId, kind, restoredFrom, restoredSection, sections,
+        changes: Object.fromEntries(sections.filter(key => changes[key] !== undefined).map(key => [key, changes[key]])),
+        removed: sections.filter(key => changes[key] === undefined),
+        ...(checkpoint && { snapshot: project.data })
+      });
+      if (checkpoint) {
+        const floor = await ProjectRevision.findOne(
+          { projectId, version: { $lte: project.version - MAX_REVISIONS }, snapshot: { $exists: true } }, 'version'
+        ).sort({ version: -1 }).lean();
+        if (floor) await ProjectRevision.deleteMany({ projectId, version: { $lt: floor.version } });
+      }
+    } catch (e) {
+      logger.warn("Project Revision Failed", { error: e.message, projectId: String(project._id), version: project.version });
+    }
+  };
+
+  // Project data as it was right after `version` was saved; null when that history was pruned
+  const projectStateAt = async (projectId, version) => {
+    const checkpoint = await ProjectRevision.findOne(
+      { projectId, version: { $lte: version }, snapshot: { $exists: true } }, 'version snapshot'
+    ).sort({ version: -1 }).lean();
+    if (!checkpoint) return null;
+    const revisions = await ProjectRevision.find(
+      { projectId, version: { $gt: checkpoint.version, $lte: version } }, 'changes removed'
+    ).sort({ version: 1 }).lean();
+    return revisions.reduce((data, revision) => {
+      const next = { ...data, ...revision.changes };
+      (revision.removed || []).forEach(key => { delete next[key]; });
+      return next;
+    }, { ...checkpoint.snapshot });
+  };
+
+  const pickSections = (data, sections) => Object.fromEntries(sections.filter(key => data?.[key] !== undefined).map(key => [key, data[key]]));
+
+  const sameValue = (a, b) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+  const requireOwnProject = async (req, res, next) => {
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ error: "Not found" });
+    const project = await Project.findOne({ _id: req.params.id, userId: req.user.id }, 'version data').lean();
+    if (!project) return res.status(404).json({ error: "Not found" });
+    req.project = project;
+    next();
+  };
+
+  app.get('/api/projects/:id/revisions', authenticateToken, requireOwnProject, async (req, res) => {
+    try {
+      const revisions = await ProjectRevision.find({ projectId: req.params.id }, 'version authorId kind restoredFrom restoredSection sections createdAt')
+        .sort({ version: -1 }).limit(MAX_REVISIONS).lean();
+      const authorIds = [...new Set(revisions.map(r => r.authorId).filter(id => mongoose.isValidObjectId(id)))];
+      const authors = await User.find({ _id: { $in: authorIds } }, 'email').lean();
+      const emails = Object.fromEntries(authors.map(a => [String(a._id), a.email]));
+      res.json(revisions.map(({ _id, authorId, ...revision }) => ({ ...revision, author: { id: authorId, email: emails[authorId] } })));
+    } catch (e) {
+      logger.error("Revision List Error", { error: e.message, projectId: req.params.id });
+      res.status(500).json({ error: "Failed to load history" });
+    }
+  });
+
+  // The sections a revision wrote, before and after it, plus which sections a full restore would change
+  app.get('/api/projects/:id/revisions/:version', authenticateToken, requireOwnProject, async (req, res) => {
+    const version = Number(req.params.version);
+    if (!Number.isInteger(version) || version < 1) return res.status(400).json({ error: "Invalid revision version" });
+    try {
+      const revision = await ProjectRevision.findOne({ projectId: req.params.id, version }, 'version sections').lean();
+      if (!revision) return res.status(404).json({ error: "Revision not found" });
+      const previous = await ProjectRevision.findOne({ projectId: req.params.id, version: { $lt: version } }, 'version').sort({ version: -1 }).lean();
+      const [after, before] = await Promise.all([
+        projectStateAt(req.params.id, version),
+        previous ? projectStateAt(req.params.id, previous.version) : null
+      ]);
+      if (!after) return res.status(410).json({ error: "This revision is too old to rebuild" });
+      const current = req.project.data || {};
+      const restoreSections = [...new Set([...Object.keys(after), ...Object.keys(current)])].filter(key => !sameValue(after[key], current[key]));
+      res.json({
+        version,
+        before: before && pickSections(before, revision.sections), // null for a project's first recorded revision
+        after: pickSections(after, revision.sections),
+        restoreSections
+      });
+    } catch (e) {
+      logger.error("Revision Load Error", { error: e.message, projectId: req.params.id, version });
+      res.status(500).json({ error: "Failed to load revision" });
+    }
+  });
+
+  // Restores the whole project, or one section, to how it was after `version`. The restore is a
+  // new save (and revision) on top of the current version, so it can itself be undone.
+  const RestoreBody = z.object({
+    version: z.number().int().positive(), // Revisions start at 1
+    section: ProjectDataKey.optional(),
+    baseVersion: z.number().int().min(0).optional()
+  });
+
+  app.post('/api/projects/:id/restore', authenticateToken, requireOwnProject, async (req, res) => {
+    const parsed = RestoreBody.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid restore", issues: parsed.error.issues });
+    const { version, section, baseVersion } = parsed.data;
+
+    try {
+      const target = await projectStateAt(req.params.id, version);
+      if (!target) return res.status(410).json({ error: "This revision is too old to restore" });
+      const current = req.project.data || {};
+      const keys = section ? [section] : [...new Set([...Object.keys(target), ...Object.keys(current)])];
+      // undefined clears a section that did not exist yet at that version
+      const changes = Object.fromEntries(keys.filter(key => !sameValue(target[key], current[key])).map(key => [key, target[key]]));
+      if (Object.keys(changes).length === 0) return res.status(409).json({ error: "Nothing to restore: the project already matches this revision", code: "NO_CHANGES" });
+
+      const result = await saveProjectChanges({
+        projectId: req.params.id, userId: req.user.id, baseVersion,
+        checkKeys: Object.keys(changes),
+        buildChanges: () => changes,
+        revision: { kind: 'restore', restoredFrom: version, restoredSection: section }
+      });
+      res.status(result.status).json(result.body);
+    } catch (e) {
+      logger.error("Project Restore Error", { error: e.message, projectId: req.params.id, version });
+      res.status(500).json({ error: "Failed to restore" });
+    }
+  });
+
+  app.delete('/api/projects/:id', authenticateToken, async (req, res) => {
+    const { deletedCount } = await Project.deleteOne({ _id: req.params.id, userId: req.user.id });
+    if (deletedCount) {
+      await ProjectRevision.deleteMany({ projectId: req.params.id });
+      await ProjectTransfer.updateMany({ projectId: req.params.id, status: 'pending' }, { $set: { status: 'cancelled', respondedAt: new Date() } });
+    }
+    res.json({ success: true });
+  });
+
+  // --- PROJECT COPIES & TEMPLATES ---
+  // The client names the ProjectData keys to copy (grouped in utils/projectSections.ts); keys the
+  // source does not have are skipped.
+  const ProjectSectionKeys = z.array(ProjectDataKey).max(50);
+  // The product itself always comes along so a copy is usable straight away
+  const PRODUCT_KEYS = ['productName', 'productDescription', 'productUrl', 'productPrice'];
+
+  const pickProjectData = (data, keys) => Object.fromEntries(keys.filter(key => data?.[key] != null).map(key => [key, data[key]]));
+
+  const toTemplateSummary = ({ _id, name, description, sections, sourceProjectName, createdAt }) => ({
+    id: String(_id), name, description, sections, sourceProjectName, createdAt
+  });
+
+  const DuplicateProjectBody = z.object({
+    name: z.string().trim().min(1).max(200),
+    keys: ProjectSectionKeys,
+    clientName: z.string().max(200).optional(),
+    clientId: z.string().max(100).optional()
+  });
+
+  app.post('/api/projects/:id/duplicate', authenticateToken, requireOwnProject, async (req, res) => {
+    const parsed = DuplicateProjectBody.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid duplicate", issues: parsed.error.issues });
+    const { name, keys, clientName, clientId } = parsed.data;
+
+    try {
+      const project = await Project.create({
+        userId: req.user.id, name, clientName, clientId,
+        data: { ...pickProjectData(req.project.data, [...PRODUCT_KEYS, ...keys]), productName: name }
+      });
+      await recordRevision({ project, authorId: req.user.id, changes: project.data, kind: 'created' });
+      res.json(project);
+    } catch (e) {
+      logger.error("Project Duplicate Error", { error: e.message, projectId: req.params.id });
+      res.status(500).json({ error: "Failed to duplicate project" });
+    }
+  });
+
+  app.get('/api/templates', authenticateToken, async (req, res) => {
+    const templates = await ProjectTemplate.find({ userId: req.user.id }, 'name description sections sourceProjectName createdAt')
+      .sort({ createdAt: -1 }).limit(100).lean();
+    res.json(templates.map(toTemplateSummary));
+  });
+
+  const CreateTemplateBody = z.object({
+    projectId: z.string().min(1),
+    name: z.string().trim().min(1).max(200),
+    description: z.string().max(1000).optional(),
+    keys: ProjectSectionKeys.min(1)
+  });
+
+  app.post('/api/templates', authenticateToken, async (req, res) => {
+    const parsed = CreateTemplateBody.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid template", issues: parsed.error.issues });
+    const { projectId, name, description, keys } = parsed.data;
+
+    try {
+      const project = mongoose.isValidObjectId(projectId) && await Project.findOne({ _id: projectId, userId: req.user.id }, 'name data').lean();
+      if (!project) return res.status(404).json({ error: "Project not found" });
+      const data = pickProjectData(project.data, keys);
+      if (Object.keys(data).length === 0) return res.status(400).json({ error: "The project has none of the selected sections yet" });
+      const template = await ProjectTemplate.create({
+        userId: req.user.id, name, description, sourceProjectId: projectId, sourceProjectName: project.name,
+        sections: Object.keys(data), data
+      });
+      res.json(toTemplateSummary(template));
+    } catch (e) {
+      logger.error("Template Create Error", { error: e.message, projectId });
+      res.status(500).json({ error: "Failed to save template" });
+    }
+  });
+
+  app.delete('/api/templates/:id', authenticateToken, async (req, res) => {
+    if (mongoose.isValidObjectId(req.params.id)) await ProjectTemplate.deleteOne({ _id: req.params.id, userId: req.user.id });
+    res.json({ success: true });
+  });
+
+  // --- PROJECT BUNDLES ---
+  // A .meti bundle carries the project and the assets it links to (see server/bundles.js). Bundles
+  // are sent as raw bodies so images can exceed the JSON body limit.
+  const BUNDLE_MAX_BYTES = '30mb';
+
+  app.get('/api/projects/:id/export', authenticateToken, requireOwnProject, async (req, res) => {
+    try {
+      const project = await Project.findById(req.params.id, 'name clientName data').lean();
+      const ids = referencedAssetIds(project.data);
+      const assets = ids.length ? await Asset.find({ publicId: { $in: ids }, userId: req.user.id }, 'publicId kind mimeType data') : [];
+      const bundle = {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        project: { name: project.name, clientName: project.clientName, data: project.data },
+        assets: assets.map(asset => ({ id: asset.publicId, kind: asset.kind, mimeType: asset.mimeType, data: asset.data.toString('base64') }))
+      };
+      // Round-trip check: never hand out a file that import would reject
+      readBundle(JSON.parse(JSON.stringify(bundle)));
+      const filename = `${(project.name || 'project').replace(/[^\w-]+/g, '_')}.meti`;
+      res.set({ 'Content-Type': BUNDLE_MIME_TYPE, 'Content-Disposition': `attachment; filename="${filename}"` });
+      res.send(JSON.stringify(bundle));
+    } catch (e) {
+      logger.error("Project Export Error", { error: e.message, projectId: req.params.id, issues: e.issues });
+      res.status(500).json({ error: "Failed to export project" });
+    }
+  });
+
+  app.post('/api/projects/import', authenticateToken, express.raw({ type: [BUNDLE_MIME_TYPE, 'application/octet-stream'], limit: BUNDLE_MAX_BYTES }), async (req, res) => {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) return res.status(400).json({ error: "Expected a .meti bundle" });
+    let bundle, migratedFrom;
+    try {
+      ({ bundle, migratedFrom } = readBundle(JSON.parse(req.body.toString('utf8'))));
+    } catch (e) {
+      if (e instanceof BundleError) return res.status(400).json({ error: e.message, issues: e.issues });
+      return res.status(400).json({ error: "The file is not a valid .meti bundle" });
+    }
+
+    try {
+      // Assets get new ids on this account; the project's links are rewritten to the copies
+      const projectId = new mongoose.Types.ObjectId();
+      const urls = {};
+      for (const asset of bundle.assets) {
+        const publicId = await storeAsset({
+          userId: req.user.id, projectId: String(projectId), kind: asset.kind || 'import', mimeType: asset.mimeType, data: Buffer.from(asset.data, 'base64')
+        });
+        urls[asset.id] = assetUrl(req, publicId);
+      }
+      const project = await Project.create({
+        _id: projectId, userId: req.user.id, name: bundle.project.name, clientName: bundle.project.clientName,
+        data: rewriteAssetUrls(bundle.project.data, urls)
+      });
+      await recordRevision({ project, authorId: req.user.id, changes: project.data, kind: 'created' });
+      res.json({ project, migratedFrom: migratedFrom < BUNDLE_VERSION ? migratedFrom : null, assets: bundle.assets.length });
+    } catch (e) {
+      logger.error("Project Import Error", { error: e.message, userId: req.user.id });
+      res.status(500).json({ error: "Failed to import project" });
+    }
+  });
+
+  // --- PROJECT TRANSFERS ---
+  // Moving a project to another account is an offer the recipient accepts or declines. On accept
+  // the project, its history and its assets change owner; client links are dropped because clients
+  // belong to the sending account. The recipient is told by email when SendGrid and
+  // NOTIFY_FROM_EMAIL are configured, and always sees pending offers on their dashboard.
+
+  // Included projects per plan; mirrors PROJECT_LIMITS in services/permissionService.ts
+  const PROJECT_LIMITS = { hobby: 0, pro: 5, agency: 25 };
+
+  const TransferBody = z.object({ email: z.string().trim().email() });
+
+  const toTransferSummary = ({ _id, projectId, projectName, fromEmail, toEmail, status, createdAt }) => ({
+    id: String(_id), projectId, projectName, fromEmail, toEmail, status, createdAt
+  });
+
+  const notifyTransferOffer = async (transfer) => {
+    if (!process.env.SENDGRID_API_KEY || !process.env.NOTIFY_FROM_EMAIL) return;
+    try {
+      await sgMail.send({
+        to: transfer.toEmail,
+        from: process.env.NOTIFY_FROM_EMAIL,
+        subject: `${transfer.fromEmail} wants to send you the project "${transfer.projectName}"`,
+        text: `${transfer.fromEmail} offered you the Meti project "${transfer.projectName}". Sign in to accept or decline it: ${process.env.CLIENT_URL}`
+      });
+    } catch (e) {
+      logger.warn("Transfer Notification Failed", { error: e.message, transferId: String(transfer._id) });
+    }
+  };
+
+  app.post('/api/projects/:id/transfer', authenticateToken, requireOwnProject, async (req, res) => {
+    const parsed = TransferBody.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: "Enter the email of the receiving account" });
+
+    try {
+      const recipient = await User.findOne({ email: parsed.data.email }, '_id email').lean();
+      if (!recipient) return res.status(404).json({ error: "No account uses that email" });
+      const recipientId = String(recipient._id);
+      if (recipientId === req.user.id) return res.status(400).json({ error: "You already own this project" });
+
+      const [sender, project] = await Promise.all([
+        User.findById(req.user.id, 'email').lean(),
+        Project.findById(req.params.id, 'name').lean()
+      ]);
+      const transfer = await ProjectTransfer.create({
+        projectId: req.params.id, projectName: project.name,
+        fromUserId: req.user.id, fromEmail: sender?.email, toUserId: recipientId, toEmail: recipient.email
+      });
+      notifyTransferOffer(transfer);
+      logger.info("Project Transfer Offered", { projectId: req.params.id, from: req.user.id, to: recipientId });
+      res.status(201).json(toTransferSummary(transfer));
+    } catch (e) {
+      if (e.code === 11000) return res.status(409).json({ error: "This project already has a pending transfer. Cancel it first." });
+      logger.error("Project Transfer Error", { error: e.message, projectId: req.params.id });
+      res.status(500).json({ error: "Failed to offer project" });
+    }
+  });
+
+  app.get('/api/transfers', authenticateToken, async (req, res) => {
+    const [incoming, outgoing] = await Promise.all([
+      ProjectTransfer.find({ toUserId: req.user.id, status: 'pending' }).sort({ createdAt: -1 }).lean(),
+      ProjectTransfer.find({ fromUserId: req.user.id, status: 'pending' }).sort({ createdAt: -1 }).lean()
+    ]);
+    res.json({ incoming: incoming.map(toTransferSummary), outgoing: outgoing.map(toTransferSummary) });
+  });
+
+  const requirePendingTransfer = async (req, res, next) => {
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ error: "Transfer not found" });
+    const transfer = await ProjectTransfer.findOne({ _id: req.params.id, status: 'pending' }).lean();
+    if (!transfer) return res.status(404).json({ error: "Transfer not found" });
+    req.transfer = transfer;
+    next();
+  };
+
+  // Closes a pending offer; the status condition makes accept/decline/cancel race-free
+  const settleTransfer = (transfer, status) => ProjectTransfer.findOneAndUpdate(
+    { _id: transfer._id, status: 'pending' }, { $set: { status, respondedAt: new Date() } }, { new: true }
+  ).lean();
+
+  app.post('/api/transfers/:id/accept', authenticateToken, requirePendingTransfer, async (req, res) => {
+    const { transfer } = req;
+    if (transfer.toUserId !== req.user.id) return res.status(404).json({ error: "Transfer not found" });
+
+    try {
+      const recipient = await User.findById(req.user.id, 'role subscription').lean();
+      if (recipient.role !== 'admin') {
+        const plan = recipient.subscription || 'hobby';
+        const limit = PROJECT_LIMITS[plan] ?? 0;
+        if (await Project.countDocuments({ userId: req.user.id }) >= limit) {
+          return res.status(403).json({ error: `Your ${plan} plan includes ${limit} projects. Upgrade or delete a project to accept this one.`, code: "PROJECT_LIMIT" });
+        }
+      }
+
+      const project = await Project.findOne({ _id: transfer.projectId, userId: transfer.fromUserId }, 'data').lean();
+      if (!project) {
+        await settleTransfer(transfer, 'cancelled');
+        return res.status(410).json({ error: "This project is no longer available" });
+      }
+      if (!(await settleTransfer(transfer, 'accepted'))) return res.status(404).json({ error: "Transfer not found" });
+
+      const moved = await Project.findOneAndUpdate(
+        { _id: transfer.projectId, userId: transfer.fromUserId },
+        { $set: { userId: req.user.id }, $unset: { clientName: '', clientId: '' } },
+        { new: true }
+      );
+      if (!moved) {
+        await ProjectTransfer.updateOne({ _id: transfer._id }, { $set: { status: 'cancelled' } });
+        return res.status(410).json({ error: "This project is no longer available" });
+      }
+      await Asset.updateMany(
+        { userId: transfer.fromUserId, $or: [{ projectId: transfer.projectId }, { publicId: { $in: referencedAssetIds(project.data) } }] },
+        { $set: { userId: req.user.id } }
+      );
+      logger.info("Project Transferred", { projectId: transfer.projectId, from: transfer.fromUserId, to: req.user.id });
+      res.json(moved);
+    } catch (e) {
+      logger.error("Project Transfer Error", { error: e.message, transferId: req.params.id });
+      res.status(500).json({ error: "Failed to accept project" });
+    }
+  });
+
+  app.post('/api/transfers/:id/decline', authenticateToken, requirePendingTransfer, async (req, res) => {
+    if (req.transfer.toUserId !== req.user.id) return res.status(404).json({ error: "Transfer not found" });
+    await settleTransfer(req.transfer, 'declined');
+    res.json({ success: true });
+  });
+
+  // The sender withdraws an offer that has not been answered yet
+  app.delete('/api/transfers/:id', authenticateToken, requirePendingTransfer, async (req, res) => {
+    if (req.transfer.fromUserId !== req.user.id) return res.status(404).json({ error: "Transfer not found" });
+    await settleTransfer(req.transfer, 'cancelled');
+    res.json({ success: true });
+  });
+
+  // Client Routes (Agency)
+  app.get('/api/clients', authenticateToken, async (req, res) => {
+    const clients = await Client.find({ userId: req.user.id });
+    res.json(clients);
+  });
+
+  app.post('/api/clients', authenticateToken, async (req, res) => {
+    const client = await Client.create({ userId: req.user.id, ...req.body });
+    res.json(client);
+  });
+
+  app.put('/api/clients/:id', authenticateToken, async (req, res) => {
+    const client = await Client.findOneAndUpdate({ _id: req.params.id, userId: req.user.id }, req.body, { new: true });
+    res.json(client);
+  });
+
+  app.delete('/api/clients/:id', authenticateToken, async (req, res) => {
+    await Client.deleteOne({ _id: req.params.id, userId: req.user.id });
+    res.json({ success: true });
+  });
+
+  // Services
+  app.post('/api/email/send', authenticateToken, async (req, res) => {
+    if (!process.env.SENDGRID_API_KEY) return res.status(503).json({ error: "Service unconfigured" });
+    try {
+      await sgMail.send(req.body);
+      res.json({ success: true });
+    } catch (e) {
+      logger.error("Email Error", e);
+      res.status(500).json({ error: "Send failed" });
+    }
+  });
+
+  // headline and hashtags are not posted; they come along so the whole creative is linted
+  const SocialPostBody = z.object({
+    platforms: z.array(z.enum(AD_PLATFORMS)).min(1),
+    content: z.string().trim().min(1),
+    mediaUrl: z.string().url().optional(),
+    headline: z.string().optional(),
+    hashtags: z.array(z.string()).optional()
+  });
+
+  app.post('/api/social/post', authenticateToken, async (req, res) => {
+    if (!process.env.AYRSHARE_API_KEY) return res.status(503).json({ error: "Service unconfigured" });
+    const parsed = SocialPostBody.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid post", issues: parsed.error.issues });
+    const { platforms, content, mediaUrl, headline, hashtags } = parsed.data;
+
+    const issues = platforms.flatMap(platform => lintAdCreative({ platform, headline, adCopy: content, hashtags }).map(issue => ({ ...issue, platform })));
+    if (hasBlockingIssues(issues)) {
+      return res.status(422).json({ error: "This post breaks platform ad rules", code: "AD_LINT_FAILED", issues: issues.filter(i => i.severity === 'error') });
+    }
+
+    try {
+      const resp = await fetch('https://app.ayrshare.com/api/post', {
+        method: 'POST',
+        headers: { 
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${process.env.AYRSHARE_API_KEY}`
+        },
+        body: JSON.stringify({ platforms, content, mediaUrl })
+      });
+      const data = await resp.json();
+      res.json(data);
+    } catch (e) {
+      logger.error("Social Error", e);
+      res.status(500).json({ error: "Post failed" });
+    }
+  });
+
+  // Paystack Integration
+  // Plan amounts in Kobo (100 Kobo = 1 Naira)
+  // Exchange Rate: $1 = N1500
+  // Pro ($29.80): N44,700 | Agency ($198.90): N298,350 | Top-up ($9.80): N14,700 for TOP_UP_TOKENS
+  const PLAN_AMOUNTS = {
+    'Pro': 4470000, 
+    'Agency': 29835000,
+    'TopUp': 1470000
+  };
+
+  app.post('/api/create-checkout-session', authenticateToken, async (req, res) => {
+    if (!process.env.PAYSTACK_SECRET_KEY) return res.status(503).json({ error: "Billing unconfigured" });
+    
+    try {
+      // Get User Email for Paystack
+      const user = await User.findById(req.user.id);
+      if (!user) return res.status(404).json({ error: "User not found" });
+
+      const { planName } = req.body;
+      const amount = PLAN_AMOUNTS[planName];
+      if (!amount) return res.status(400).json({ error: "Invalid plan" });
+
+      const params = JSON.stringify({
+        email: user.email,
+        amount: amount,
+        callback_url: `${process.env.CLIENT_URL}?payment=success&plan=${planName}`,
+        metadata: {
+          user_id: req.user.id,
+          plan: planName,
+          ...(planName === 'TopUp' && { top_up_tokens: TOP_UP_TOKENS }),
+          custom_fields: [
+            { display_name: "Plan Name", variable_name: "plan_name", value: planName }
+          ]
+        }
+      });
+
+      const response = await fetch('https://api.paystack.co/transaction/initialize', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${process.env.PAYSTACK_SECRET_KEY}`,
+          'Content-Type': 'application/json'
+        },
+        body: params
+      });
+
+      const data = await response.json();
+
+      if (!data.status) {
+        throw new Error(data.message || "Paystack initialization failed");
+      }
+
+      res.json({ url: data.data.authorization_url });
+    } catch (e) {
+      logger.error("Paystack Error", e);
+      res.status(500).json({ error: "Payment init failed" });
+    }
+  });
+
+  // Paystack appends ?reference= to the callback URL. The top-up is credited only after Paystack
+  // confirms the transaction, and at most once per reference however often this is called.
+  app.post('/api/billing/top-up/verify', authenticateToken, async (req, res) => {
+    if (!process.env.PAYSTACK_SECRET_KEY) return res.status(503).json({ error: "Billing unconfigured" });
+    const reference = typeof req.body.reference === 'string' ? req.body.reference.trim() : '';
+    if (!/^[\w.=-]{1,100}$/.test(reference)) return res.status(400).json({ error: "Invalid payment reference" });
+
+    try {
+      const response = await fetch(`https://api.paystack.co/transaction/verify/${encodeURIComponent(reference)}`, {
+        headers: { Authorization: `Bearer ${process.env.PAYSTACK_SECRET_KEY}` }
+      });
+      const body = await response.json().catch(() => ({}));
+      const transaction = body.data;
+      if (!response.ok || !body.status || transaction?.status !== 'success') {
+        return res.status(402).json({ error: "Payment has not been completed", code: "PAYMENT_NOT_VERIFIED" });
+      }
+      const metadata = typeof transaction.metadata === 'string' ? JSON.parse(transaction.metadata || '{}') : transaction.metadata || {};
+      if (String(metadata.user_id) !== req.user.id || metadata.plan !== 'TopUp' || transaction.amount < PLAN_AMOUNTS.TopUp) {
+        return res.status(400).json({ error: "This payment is not a top-up for your account" });
+      }
+
+      // Roll the billing period first so the tokens land in the current one
+      await loadUsageAccount(req.user.id);
+      const credited = await User.findOneAndUpdate(
+        { _id: req.user.id, topUpReferences: { $ne: reference } },
+        { $inc: { 'usage.topUpTokens': TOP_UP_TOKENS }, $push: { topUpReferences: reference } },
+        { new: true }
+      );
+      if (credited) logger.info("Top-up Credited", { userId: req.user.id, reference, tokens: TOP_UP_TOKENS });
+
+      const user = credited || await User.findById(req.user.id);
+      res.json({ credited: !!credited, tokens: TOP_UP_TOKENS, quota: quotaSnapshot(user) });
+    } catch (e) {
+      logger.error("Top-up Verify Error", { error: e.message, userId: req.user.id, reference });
+      res.status(500).json({ error: "Failed to verify payment" });
+    }
+  });
+
+  // Auth
+  app.post('/api/auth/register', async (req, res) => {
+    try {
+      const { email, password } = req.body;
+      const hashedPassword = await bcrypt.hash(password, 10);
+      const user = await User.create({ email, password: hashedPassword });
+      const token = jwt.sign({ id: user._id, role: 'user' }, process.env.JWT_SECRET);
+      res.json({ user, token });
+    } catch (e) { res.status(400).json({ error: "User exists" }); }
+  });
 
   app.post('/api/auth/login', async (req, res) => {
     const { email, password } = req.body;
@@ -443,10 +2294,153 @@ if (cluster.isPrimary && process.env.NODE_ENV === 'production') {
     res.json({ user, token });
   });
 
+  // --- LIVE VOICE RELAY ---
+  // Browsers cannot hold the provider key, so voice roleplay runs over a WebSocket to this server,
+  // which opens the provider session and relays audio both ways. Protocol (JSON text frames):
+  //   client -> { type: 'start', token, projectId?, payload } first, then { type: 'audio', data } / { type: 'stop' }
+  //   server -> ready | audio | transcript | interrupted | turn_complete | usage | error
+  // Usage is billed to the ledger as agent `live_voice` while the call runs, not only at the end.
+  const LIVE_PATH = '/api/live';
+  const LIVE_START_TIMEOUT_MS = 10 * 1000;
+  const LIVE_MAX_SESSION_MS = 15 * 60 * 1000;
+  const LIVE_METER_INTERVAL_MS = 15 * 1000;
+
+  const LiveStartMessage = z.object({
+    type: z.literal('start'),
+    token: z.string().min(1),
+    projectId: z.string().optional(),
+    payload: z.object({
+      productName: z.string().max(200),
+      persona: z.object({ jobTitle: z.string().max(200) }).passthrough(),
+      scenario: z.string().max(40).optional(),
+      difficulty: z.string().max(40).optional(),
+      objections: z.array(z.string().max(300)).max(20).optional()
+    })
+  });
+
+  const handleLiveConnection = (socket) => {
+    let userId = null;
+    let projectId;
+    let session = null;
+    let pendingTokens = 0;
+    let ended = false;
+    const timers = [];
+
+    const send = (message) => {
+      if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+    };
+
+    const meter = async () => {
+      if (!userId || pendingTokens <= 0) return null;
+      const tokens = pendingTokens;
+      pendingTokens = 0;
+      let account;
+      try {
+        account = await recordUsage({
+          userId, projectId, tokens,
+          job: { agent: 'live_voice', provider: liveProvider.name, agentConfig: { ...AI_AGENTS.live_voice, model: liveProvider.model } }
+        });
+      } catch (e) {
+        // Claimed before the write so overlapping meters can't bill them twice; return them for the next attempt
+        pendingTokens += tokens;
+        throw e;
+      }
+      send({ type: 'usage', quota: quotaSnapshot(account) });
+      return account;
+    };
+
+    const end = async (error) => {
+      if (ended) return;
+      ended = true;
+      timers.forEach(timer => clearTimeout(timer)); // Clears the metering interval too
+      if (error) send({ type: 'error', ...error });
+      try { session?.close(); } catch (e) { /* provider already closed */ }
+      try {
+        await meter();
+      } catch (e) {
+        logger.error("Live Usage Error", { error: e.message, userId });
+      }
+      socket.close(1000);
+    };
+
+    const start = async (message) => {
+      const parsed = LiveStartMessage.safeParse(message);
+      if (!parsed.success) return end({ error: "Invalid live session request", code: "INVALID_REQUEST" });
+      try {
+        userId = jwt.verify(parsed.data.token, process.env.JWT_SECRET).id;
+      } catch (e) {
+        return end({ error: "Unauthorized", code: "UNAUTHORIZED" });
+      }
+      projectId = parsed.data.projectId;
+
+      const user = await loadUsageAccount(userId);
+      if (!user) return end({ error: "Unauthorized", code: "UNAUTHORIZED" });
+      if (isOverQuota(user)) return end(describeAgentError(new QuotaExceededError(user)).body);
+
+      const job = await createAgentJob('live_voice', parsed.data.payload, await loadProjectData(userId, projectId));
+      const systemInstruction = [job.brief, renderPrompt(job.prompt.template, job.payload)].filter(Boolean).join('\n\n');
+
+      session = await liveProvider.connect({
+        model: liveProvider.model,
+        systemInstruction,
+        onEvent: (event) => {
+          if (event.type === 'usage') pendingTokens += event.tokens;
+          else if (event.type === 'closed') end();
+          else if (event.type === 'error') {
+            logger.error("Live Provider Error", { error: event.message, userId });
+            end({ error: "Voice session failed", code: "MODEL_ERROR" });
+          } else send(event);
+        }
+      });
+      if (ended) return session.close();
+
+      timers.push(setTimeout(() => end({ error: "Session time limit reached", code: "SESSION_LIMIT" }), LIVE_MAX_SESSION_MS));
+      timers.push(setInterval(async () => {
+        try {
+          const account = await meter();
+          if (account && isOverQuota(account)) end(describeAgentError(new QuotaExceededError(account)).body);
+        } catch (e) {
+          logger.error("Live Usage Error", { error: e.message, userId });
+        }
+      }, LIVE_METER_INTERVAL_MS));
+      send({ type: 'ready', sampleRate: INPUT_SAMPLE_RATE, maxSeconds: LIVE_MAX_SESSION_MS / 1000, provider: liveProvider.name, quota: quotaSnapshot(user) });
+    };
+
+    timers.push(setTimeout(() => !userId && end({ error: "Unauthorized", code: "UNAUTHORIZED" }), LIVE_START_TIMEOUT_MS));
+
+    socket.on('message', (raw, isBinary) => {
+      if (ended || isBinary) return;
+      let message;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch (e) {
+        return;
+      }
+      if (message?.type === 'start' && !userId) {
+        start(message).catch(e => {
+          logger.error("Live Session Error", { error: e.message, userId });
+          end({ error: "Voice session failed", code: "MODEL_ERROR" });
+        });
+      } else if (message?.type === 'audio' && session && typeof message.data === 'string') {
+        session.sendAudio(message.data);
+      } else if (message?.type === 'stop') {
+        end();
+      }
+    });
+    socket.on('close', () => end());
+    socket.on('error', (e) => logger.warn("Live Socket Error", { error: e.message, userId }));
+  };
+
+  const attachLiveRelay = (server) => {
+    const wss = new WebSocketServer({ server, path: LIVE_PATH, maxPayload: 1024 * 1024 });
+    wss.on('connection', handleLiveConnection);
+  };
+
   if (process.env.NODE_ENV === 'production') {
     app.use(express.static(path.join(__dirname, '../dist')));
     app.get('*', (req, res) => res.sendFile(path.join(__dirname, '../dist/index.html')));
   }
 
-  app.listen(port, () => logger.info(`Worker ${process.pid} listening on port ${port}`));
+  const server = app.listen(port, () => logger.info(`Worker ${process.pid} listening on port ${port}`));
+  attachLiveRelay(server);
 }
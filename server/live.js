@@ -0,0 +1,147 @@
+/**
+ * METI LIVE VOICE PROVIDERS
+ * -------------------------
+ * Voice roleplay sessions are relayed through the server so the provider key never reaches the
+ * browser. Every live provider has the same contract:
+ *
+ *   connect({ model, systemInstruction, onEvent }) -> Promise<{ sendAudio(base64), close() }>
+ *
+ * Input audio is 16 kHz mono PCM16, base64 encoded. `onEvent` receives:
+ *   { type: 'audio', data, sampleRate }          model speech (base64 PCM16)
+ *   { type: 'transcript', role, text }           role is 'user' (the rep) or 'model' (the prospect)
+ *   { type: 'interrupted' } | { type: 'turn_complete' }
+ *   { type: 'usage', tokens }                    tokens consumed since the previous usage event
+ *   { type: 'closed', reason } | { type: 'error', message }
+ */
+
+const { GoogleGenAI, Modality } = require('@google/genai');
+
+const INPUT_SAMPLE_RATE = 16000;
+
+// --- 1. GEMINI LIVE API ---
+const GEMINI_OUTPUT_SAMPLE_RATE = 24000;
+
+const createGeminiLiveProvider = ({ apiKey, model = 'gemini-2.5-flash-native-audio-preview-09-2025', voice }) => {
+  const genAI = new GoogleGenAI({ apiKey });
+  return {
+    name: 'gemini',
+    model,
+    connect: async ({ systemInstruction, onEvent }) => {
+      const session = await genAI.live.connect({
+        model,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          systemInstruction,
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+          ...(voice ? { speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } } } : {})
+        },
+        callbacks: {
+          onmessage: (message) => {
+            const content = message.serverContent;
+            for (const part of content?.modelTurn?.parts || []) {
+              if (part.inlineData?.data) onEvent({ type: 'audio', data: part.inlineData.data, sampleRate: GEMINI_OUTPUT_SAMPLE_RATE });
+            }
+            if (content?.inputTranscription?.text) onEvent({ type: 'transcript', role: 'user', text: content.inputTranscription.text });
+            if (content?.outputTranscription?.text) onEvent({ type: 'transcript', role: 'model', text: content.outputTranscription.text });
+            if (content?.interrupted) onEvent({ type: 'interrupted' });
+            if (content?.turnComplete) onEvent({ type: 'turn_complete' });
+            // Reported per model turn
+            if (message.usageMetadata?.totalTokenCount) onEvent({ type: 'usage', tokens: message.usageMetadata.totalTokenCount });
+          },
+          onerror: (e) => onEvent({ type: 'error', message: e?.message || 'Live session error' }),
+          onclose: (e) => onEvent({ type: 'closed', reason: e?.reason || '' })
+        }
+      });
+      return {
+        sendAudio: (data) => session.sendRealtimeInput({ audio: { data, mimeType: `audio/pcm;rate=${INPUT_SAMPLE_RATE}` } }),
+        close: () => session.close()
+      };
+    }
+  };
+};
+
+// --- 2. OFFLINE ECHO ---
+// Stand-in prospect for local development and demos: waits for the rep to stop talking, then
+// plays their last utterance back. Exercises the whole relay (auth, audio both ways, transcripts,
+// metering) without a provider key. Usage is estimated from audio length like the real model bills it.
+const ECHO_SPEECH_RMS = 500; // PCM16 amplitude that counts as speech rather than background noise
+const ECHO_SILENCE_MS = 800;
+const ECHO_MAX_UTTERANCE_MS = 15000;
+const AUDIO_TOKENS_PER_SECOND = 32;
+
+const pcmRms = (pcm) => {
+  const samples = Math.floor(pcm.length / 2);
+  if (!samples) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = pcm.readInt16LE(i * 2);
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples);
+};
+
+const pcmDurationMs = (bytes) => (bytes / 2 / INPUT_SAMPLE_RATE) * 1000;
+
+const createEchoLiveProvider = () => ({
+  name: 'fixture',
+  model: 'echo',
+  connect: async ({ onEvent }) => {
+    let utterance = [];
+    let utteranceBytes = 0;
+    let silenceMs = 0;
+    let closed = false;
+
+    const reply = () => {
+      const audio = Buffer.concat(utterance);
+      const seconds = pcmDurationMs(audio.length) / 1000;
+      utterance = [];
+      utteranceBytes = 0;
+      silenceMs = 0;
+
+      onEvent({ type: 'transcript', role: 'user', text: `(${seconds.toFixed(1)}s of speech)` });
+      onEvent({ type: 'transcript', role: 'model', text: 'Echo: here is what I heard.' });
+      // Sent in ~250ms chunks, as a real model streams its reply
+      const chunkBytes = INPUT_SAMPLE_RATE / 2;
+      for (let offset = 0; offset < audio.length; offset += chunkBytes) {
+        onEvent({ type: 'audio', data: audio.subarray(offset, offset + chunkBytes).toString('base64'), sampleRate: INPUT_SAMPLE_RATE });
+      }
+      onEvent({ type: 'turn_complete' });
+      // Billed for the rep's audio in and the same audio out
+      onEvent({ type: 'usage', tokens: Math.max(Math.ceil(seconds * AUDIO_TOKENS_PER_SECOND * 2), 1) });
+    };
+
+    return {
+      sendAudio: (data) => {
+        if (closed) return;
+        const pcm = Buffer.from(data, 'base64');
+        const speaking = pcmRms(pcm) >= ECHO_SPEECH_RMS;
+        if (!speaking && utteranceBytes === 0) return;
+
+        utterance.push(pcm);
+        utteranceBytes += pcm.length;
+        silenceMs = speaking ? 0 : silenceMs + pcmDurationMs(pcm.length);
+        if (silenceMs >= ECHO_SILENCE_MS || pcmDurationMs(utteranceBytes) >= ECHO_MAX_UTTERANCE_MS) reply();
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        onEvent({ type: 'closed', reason: 'Session ended' });
+      }
+    };
+  }
+});
+
+// --- 3. SELECTION ---
+/**
+ * LIVE_PROVIDER picks the backend explicitly (gemini | echo). Otherwise the offline echo is used
+ * whenever AI_PROVIDER=fixture or no Gemini key is configured.
+ */
+const createLiveProvider = (env = process.env) => {
+  const name = env.LIVE_PROVIDER || (env.AI_PROVIDER === 'fixture' || !env.API_KEY ? 'echo' : 'gemini');
+  if (name === 'echo') return createEchoLiveProvider();
+  if (name === 'gemini' && env.API_KEY) return createGeminiLiveProvider({ apiKey: env.API_KEY, model: env.LIVE_MODEL, voice: env.LIVE_VOICE });
+  throw new Error(`Live provider "${name}" is not configured`);
+};
+
+module.exports = { createLiveProvider, createGeminiLiveProvider, createEchoLiveProvider, INPUT_SAMPLE_RATE };
@@ -0,0 +1,228 @@
+/**
+ * METI AI PROVIDER LAYER
+ * ----------------------
+ * Every agent call goes through a provider with the same contract, so an agent can be
+ * routed to Gemini, an OpenAI-compatible vendor, or the offline fixture provider.
+ *
+ *   generate(call) -> Promise<{ text, usageMetadata, groundingChunks }>
+ *   stream(call)   -> AsyncIterable<{ text, usageMetadata? }>
+ *
+ * `call` is { agent, payload, request } where `request` is the Gemini-shaped
+ * { model, contents, config } built by the server for the agent. `config.systemInstruction`
+ * carries the project strategy brief when one is available.
+ */
+
+const crypto = require('crypto');
+const { GoogleGenAI, Type } = require('@google/genai');
+
+// --- 1. GEMINI (DEFAULT) ---
+const createGeminiProvider = ({ apiKey }) => {
+  const genAI = new GoogleGenAI({ apiKey });
+  return {
+    name: 'gemini',
+    generate: async ({ request }) => {
+      const result = await genAI.models.generateContent(request);
+      return {
+        text: result.text,
+        usageMetadata: result.usageMetadata,
+        groundingChunks: result.candidates?.[0]?.groundingMetadata?.groundingChunks || []
+      };
+    },
+    stream: async function* ({ request }) {
+      const stream = await genAI.models.generateContentStream(request);
+      for await (const chunk of stream) {
+        yield { text: chunk.text, usageMetadata: chunk.usageMetadata };
+      }
+    }
+  };
+};
+
+// --- 2. OPENAI-COMPATIBLE VENDORS ---
+// Works with any Chat Completions endpoint (OpenAI, Azure OpenAI, Groq, local vLLM...).
+const createOpenAIProvider = ({ apiKey, baseUrl = 'https://api.openai.com/v1', model = 'gpt-4o-mini' }) => {
+  const toBody = ({ request }, stream) => {
+    if (request.config?.tools) throw new Error("Provider 'openai' does not support grounded agents");
+    const wantsJson = request.config?.responseMimeType === 'application/json';
+    return JSON.stringify({
+      model,
+      stream,
+      max_tokens: request.config?.maxOutputTokens,
+      // json_object mode requires a top-level object; array agents are unwrapped by the output contracts
+      response_format: wantsJson ? { type: 'json_object' } : undefined,
+      messages: [
+        ...(request.config?.systemInstruction ? [{ role: 'system', content: request.config.systemInstruction }] : []),
+        ...(wantsJson ? [{ role: 'system', content: `Respond with JSON matching this schema: ${JSON.stringify(request.config.responseSchema)}` }] : []),
+        { role: 'user', content: request.contents }
+      ],
+      ...(stream ? { stream_options: { include_usage: true } } : {})
+    });
+  };
+
+  const post = async (call, stream) => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
+      body: toBody(call, stream)
+    });
+    if (!response.ok) throw new Error(`OpenAI provider error: ${response.status} ${await response.text()}`);
+    return response;
+  };
+
+  const toUsage = (usage) => usage ? { totalTokenCount: usage.total_tokens } : undefined;
+
+  return {
+    name: 'openai',
+    generate: async (call) => {
+      const data = await (await post(call, false)).json();
+      return { text: data.choices?.[0]?.message?.content || '', usageMetadata: toUsage(data.usage), groundingChunks: [] };
+    },
+    stream: async function* (call) {
+      const response = await post(call, true);
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for await (const bytes of response.body) {
+        buffer += decoder.decode(bytes, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop();
+        for (const line of lines) {
+          if (!line.startsWith('data:')) continue;
+          const raw = line.slice(5).trim();
+          if (!raw || raw === '[DONE]') continue;
+          const data = JSON.parse(raw);
+          yield { text: data.choices?.[0]?.delta?.content || '', usageMetadata: toUsage(data.usage) };
+        }
+      }
+    }
+  };
+};
+
+// --- 3. OFFLINE FIXTURES ---
+// Deterministic, schema-valid output derived from each agent's response schema. The same
+// agent + payload always yields the same data, so demos and end-to-end runs are repeatable.
+const FIXTURE_POOLS = {
+  name: ['Independent Fitness Studios', 'Boutique Dental Clinics', 'Remote-First SaaS Teams', 'Specialty Coffee Roasters', 'Regional Logistics Firms'],
+  jobTitle: ['Operations Director', 'Head of Growth', 'Practice Owner', 'VP of Sales', 'Founder & CEO'],
+  ageRange: ['28-40', '32-48', '35-55'],
+  marketSizeEstimate: ['$1.2B', '$480M', '$2.7B'],
+  volume: ['1k-10k', '10k-100k', '100-1k'],
+  sendDelay: ['Day 0', 'Day 2', 'Day 5'],
+  readability: ['Easy', 'Moderate', 'Advanced'],
+  role: ['Operations Lead', 'Marketing Manager', 'Founder'],
+  platform: ['LinkedIn', 'Twitter', 'Facebook']
+};
+
+const FIXTURE_ITEM_LABELS = {
+  cold_dms: 'Cold DM',
+  email_subjects: 'Subject line',
+  objection_handler: 'Rebuttal'
+};
+
+// mulberry32: tiny seeded PRNG, good enough for fixture variety
+const seededRandom = (seedText) => {
+  let seed = crypto.createHash('sha256').update(seedText).digest().readUInt32LE(0);
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const humanize = (key) => key.replace(/([A-Z])/g, ' $1').replace(/_/g, ' ').trim().replace(/^./, c => c.toUpperCase());
+
+const buildFixture = (schema, ctx, key, index) => {
+  const { random, subject, agent } = ctx;
+  const pick = (list) => list[Math.floor(random() * list.length)];
+
+  switch (schema.type) {
+    case Type.ARRAY:
+      return [0, 1, 2].map(i => buildFixture(schema.items, ctx, key, i));
+    case Type.OBJECT:
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([prop, propSchema]) => [prop, buildFixture(propSchema, ctx, prop, index)]));
+    case Type.INTEGER:
+      return 40 + Math.floor(random() * 56);
+    case Type.NUMBER:
+      return Math.round((0.5 + random() * 3) * 10) / 10;
+    case Type.BOOLEAN:
+      return random() > 0.5;
+    default: {
+      if (schema.enum) return schema.enum[(index || 0) % schema.enum.length];
+      if (key && FIXTURE_POOLS[key]) return FIXTURE_POOLS[key][(index || 0) % FIXTURE_POOLS[key].length];
+      if (key === 'directUrl') return `https://www.linkedin.com/search/results/people/?keywords=${encodeURIComponent(subject)}`;
+      const label = key ? humanize(key) : (FIXTURE_ITEM_LABELS[agent] || 'Item');
+      return `${label} ${(index || 0) + 1} for ${subject} (${pick(['fixture', 'sample', 'offline'])})`;
+    }
+  }
+};
+
+const FIXTURE_TEXT = {
+  chat_reply: (subject) => `Interesting. Before I consider ${subject}, how is it different from what we already use?`,
+  maps_scout: (subject) => `Found 5 fixture businesses matching ${subject}.`
+};
+
+// Agents whose output shape depends on the payload rather than the schema alone
+const FIXTURE_JSON = {
+  translate: (payload) => ({ segments: (payload?.segments || []).map(segment => `[${payload.language}] ${segment}`) })
+};
+
+const buildFixtureResponse = ({ agent, payload, request }) => {
+  const subject = payload?.productName || payload?.niche || payload?.seed || payload?.topic || 'your product';
+  const random = seededRandom(`${agent}:${JSON.stringify(payload || {})}`);
+  const schema = request.config?.responseSchema;
+
+  if (FIXTURE_JSON[agent]) return { text: JSON.stringify(FIXTURE_JSON[agent](payload)), groundingChunks: [] };
+  if (schema) return { text: JSON.stringify(buildFixture(schema, { random, subject, agent })), groundingChunks: [] };
+
+  const text = (FIXTURE_TEXT[agent] || (() => `Fixture response for ${agent}.`))(subject);
+  const groundingChunks = request.config?.tools
+    ? [1, 2, 3, 4, 5].map(i => ({ maps: { uri: `https://maps.google.com/?cid=${1000 + i}`, title: `${subject} Business ${i}`, placeId: `fixture-place-${i}` } }))
+    : [];
+  return { text, groundingChunks };
+};
+
+const estimateUsage = (text) => ({ totalTokenCount: Math.max(Math.ceil(text.length / 4), 1) });
+
+const createFixtureProvider = ({ chunkDelayMs = 15 } = {}) => ({
+  name: 'fixture',
+  generate: async (call) => {
+    const response = buildFixtureResponse(call);
+    return { ...response, usageMetadata: estimateUsage(response.text) };
+  },
+  stream: async function* (call) {
+    const { text } = buildFixtureResponse(call);
+    for (let i = 0; i < text.length; i += 48) {
+      await new Promise(resolve => setTimeout(resolve, chunkDelayMs));
+      yield { text: text.slice(i, i + 48) };
+    }
+    yield { text: '', usageMetadata: estimateUsage(text) };
+  }
+});
+
+// --- 4. REGISTRY ---
+/**
+ * Builds the providers that are configured in the environment. Routing precedence for an agent:
+ * AI_AGENT_PROVIDERS entry ("persona=openai,niche=fixture") > agent `provider` field > AI_PROVIDER > gemini.
+ */
+const createProviderRegistry = (env = process.env) => {
+  const providers = { fixture: createFixtureProvider() };
+  if (env.API_KEY) providers.gemini = createGeminiProvider({ apiKey: env.API_KEY });
+  if (env.OPENAI_API_KEY) {
+    providers.openai = createOpenAIProvider({ apiKey: env.OPENAI_API_KEY, baseUrl: env.OPENAI_BASE_URL, model: env.OPENAI_MODEL });
+  }
+
+  const overrides = Object.fromEntries(
+    (env.AI_AGENT_PROVIDERS || '').split(',').map(entry => entry.split('=').map(s => s.trim())).filter(([agent, name]) => agent && name)
+  );
+  const defaultProvider = env.AI_PROVIDER || 'gemini';
+
+  const resolve = (agent, agentConfig = {}) => {
+    const name = overrides[agent] || agentConfig.provider || defaultProvider;
+    const provider = providers[name];
+    if (!provider) throw new Error(`AI provider "${name}" is not configured (agent: ${agent})`);
+    return provider;
+  };
+
+  return { providers, defaultProvider, resolve };
+};
+
+module.exports = { createProviderRegistry, createGeminiProvider, createOpenAIProvider, createFixtureProvider };
@@ -1,5 +1,5 @@
 
-import { User, Project, AccountManager } from '../types';
+import { User, Project, AccountManager, AgentPromptSummary, AgentPromptDetail } from '../types';
 import { authService, getApiUrl } from './authService';
 
 export interface AdminStats {
@@ -10,6 +10,22 @@ export interface AdminStats {
   apiCallsToday: number;
 }
 
+const adminApiCall = async (endpoint: string, method: string = 'GET', body?: any) => {
+  const response = await fetch(`${getApiUrl()}${endpoint}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authService.getToken()}`
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || 'Admin request failed');
+  }
+  return response.json();
+};
+
 export const adminService = {
   isAdmin: (): boolean => {
     const user = authService.getCurrentUser();
@@ -125,5 +141,31 @@ export const adminService = {
       },
       body: JSON.stringify({ enabled })
     });
+  },
+
+  // --- PROMPT TEMPLATES ---
+  getPromptCatalog: async (): Promise<AgentPromptSummary[]> => {
+    return adminApiCall('/api/admin/prompts');
+  },
+
+  getPromptVersions: async (agent: string): Promise<AgentPromptDetail> => {
+    return adminApiCall(`/api/admin/prompts/${agent}`);
+  },
+
+  publishPrompt: async (agent: string, template: string, notes?: string): Promise<void> => {
+    await adminApiCall(`/api/admin/prompts/${agent}`, 'POST', { template, notes });
+  },
+
+  // version 0 pins the built-in prompt; null resumes following the latest version
+  pinPromptVersion: async (agent: string, version: number | null): Promise<void> => {
+    await adminApiCall(`/api/admin/prompts/${agent}/pin`, 'PUT', { version });
+  },
+
+  rollbackPrompt: async (agent: string): Promise<void> => {
+    await adminApiCall(`/api/admin/prompts/${agent}/rollback`, 'POST');
+  },
+
+  previewPrompt: async (agent: string, template: string, payload: Record<string, any>): Promise<{ prompt: string; variables: string[] }> => {
+    return adminApiCall(`/api/admin/prompts/${agent}/preview`, 'POST', { template, payload });
   }
 };
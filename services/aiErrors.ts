@@ -0,0 +1,65 @@
+import { AIErrorKind, QuotaSnapshot } from '../types';
+import { notify } from './notificationService';
+
+/** Failure from an AI call, typed so the UI can tell quota, rate limits and model problems apart. */
+export class AIError extends Error {
+  kind: AIErrorKind;
+  status?: number;
+  retryAfter?: number; // Seconds, for rate limits
+  quota?: QuotaSnapshot;
+
+  constructor(message: string, kind: AIErrorKind, details: { status?: number; retryAfter?: number; quota?: QuotaSnapshot } = {}) {
+    super(message);
+    this.name = 'AIError';
+    this.kind = kind;
+    Object.assign(this, details);
+  }
+}
+
+const KIND_BY_CODE: Record<string, AIErrorKind> = {
+  QUOTA_EXCEEDED: 'quota',
+  RATE_LIMITED: 'rate_limit',
+  INVALID_AI_OUTPUT: 'invalid_output',
+  MODEL_ERROR: 'model'
+};
+
+const KIND_BY_STATUS: Record<number, AIErrorKind> = { 402: 'quota', 429: 'rate_limit', 422: 'invalid_output' };
+
+// Error body shape shared by /api/ai/execute, /api/ai/stream, /api/ai/jobs and /api/ai/image
+export const aiErrorFromBody = (status: number | undefined, body: { error?: string; code?: string; retryAfter?: number; quota?: QuotaSnapshot } = {}, fallback = 'AI request failed'): AIError => {
+  const kind = (body.code && KIND_BY_CODE[body.code]) || (status && KIND_BY_STATUS[status]) || 'model';
+  return new AIError(body.error || fallback, kind, { status, retryAfter: body.retryAfter, quota: body.quota });
+};
+
+export const readAIError = async (response: Response): Promise<AIError> => {
+  const body = await response.json().catch(() => ({}));
+  return aiErrorFromBody(response.status, body, response.statusText);
+};
+
+export const isAIError = (e: unknown): e is AIError => e instanceof AIError;
+
+export const hasAIErrorKind = (e: unknown, kind: AIErrorKind): boolean => isAIError(e) && e.kind === kind;
+
+// fetch() and AbortController reject with a DOMException; some polyfills use a plain Error
+export const isAbortError = (e: unknown): boolean => (e instanceof DOMException || e instanceof Error) && e.name === 'AbortError';
+
+/** What to tell the user; generic failures keep the caller's wording. */
+export const aiErrorMessage = (e: unknown, fallback: string): string => {
+  if (!isAIError(e)) return fallback;
+  switch (e.kind) {
+    case 'quota': return "You've used all of this period's AI tokens. Upgrade or top up to continue.";
+    case 'rate_limit': return `Too many requests. Try again in ${e.retryAfter && e.retryAfter < 120 ? `${e.retryAfter}s` : 'a few minutes'}.`;
+    case 'invalid_output': return `${fallback}: the AI returned an unusable answer. Please try again.`;
+    case 'network': return `${fallback}: check your connection.`;
+    default: return fallback;
+  }
+};
+
+/**
+ * Toast for a failed AI call. Quota errors are skipped because the upgrade prompt already opened,
+ * and cancellations are not failures.
+ */
+export const notifyAIError = (e: unknown, fallback: string) => {
+  if (isAbortError(e) || hasAIErrorKind(e, 'quota')) return;
+  notify.error(aiErrorMessage(e, fallback));
+};
@@ -0,0 +1,19 @@
+import { authService, getApiUrl } from './authService';
+
+export const assetService = {
+  // Stores an image server-side and returns its public URL (safe to hand to ad networks)
+  upload: async (file: Blob, kind: string, projectId?: string | null): Promise<string> => {
+    const params = new URLSearchParams({ kind, ...(projectId ? { projectId } : {}) });
+    const response = await fetch(`${getApiUrl()}/api/assets?${params}`, {
+      method: 'POST',
+      headers: { 'Content-Type': file.type, ...authService.getAuthHeader() },
+      body: file
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || "Upload failed");
+    }
+    const result = await response.json();
+    return result.url;
+  }
+};
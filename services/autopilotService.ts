@@ -0,0 +1,185 @@
+import { AutopilotStepId, AutopilotStepStatus, ProjectData, EmailCampaign, User } from '../types';
+import { generateNiches, generatePersona, generateLeadMagnets, generateLandingPage, generateAdCreatives, generateFollowUp, AIRequestOptions } from './geminiService';
+import { permissionService, SubscriptionTier } from './permissionService';
+import { recordVariant } from '../utils/variants';
+import { generateId } from '../utils/core';
+
+/**
+ * AUTOPILOT
+ * Chains the strategy agents (niche → persona → magnets → landing page → ads → email) with
+ * sensible defaults. Results are kept in memory and returned as one ProjectData update, so a
+ * cancelled or failed run never leaves the project half-written. Each step sends the results so
+ * far as a brief draft, so later agents build on earlier ones exactly as if they had been saved.
+ */
+
+type StepContext = { project: ProjectData; results: Partial<ProjectData> };
+
+interface AutopilotStep {
+  id: AutopilotStepId;
+  label: string;
+  requiredTier?: SubscriptionTier;
+  hasResult: (data: ProjectData) => boolean; // Already generated; kept unless regenerating or upstream changed
+  run: (ctx: StepContext, options: AIRequestOptions) => Promise<Partial<ProjectData>>;
+}
+
+// The project as it will look once the run is applied
+const merged = ({ project, results }: StepContext): ProjectData => ({ ...project, ...results });
+
+const requireStrategy = (data: ProjectData) => {
+  if (!data.selectedNiche || !data.persona) throw new Error("A niche and persona are needed first");
+  return { niche: data.selectedNiche, persona: data.persona };
+};
+
+export const AUTOPILOT_STEPS: AutopilotStep[] = [
+  {
+    id: 'niche',
+    label: 'Find the best niche',
+    hasResult: (data) => !!data.selectedNiche,
+    run: async ({ project }, options) => {
+      const niches = await generateNiches(project.productName, project.productDescription, undefined, options);
+      if (niches.length === 0) throw new Error("No niches were suggested");
+      // Default: the most profitable suggestion (can be changed at the checkpoint)
+      const ranked = [...niches].sort((a, b) => b.profitabilityScore - a.profitabilityScore);
+      return { generatedNiches: ranked, selectedNiche: ranked[0] };
+    }
+  },
+  {
+    id: 'persona',
+    label: 'Build the ideal customer persona',
+    hasResult: (data) => !!data.persona,
+    run: async (ctx, options) => {
+      const data = merged(ctx);
+      if (!data.selectedNiche) throw new Error("A niche is needed first");
+      const persona = await generatePersona(data.productName, data.selectedNiche, undefined, options);
+      return { persona, personaHistory: recordVariant(data.personaHistory, persona, { niche: data.selectedNiche.name, source: 'Autopilot' }, data.persona) };
+    }
+  },
+  {
+    id: 'magnets',
+    label: 'Suggest lead magnets',
+    hasResult: (data) => (data.generatedMagnets || []).length > 0,
+    run: async (ctx, options) => {
+      const data = merged(ctx);
+      const { niche, persona } = requireStrategy(data);
+      return { generatedMagnets: await generateLeadMagnets(data.productName, niche.name, persona, options) };
+    }
+  },
+  {
+    id: 'landing',
+    label: 'Write the landing page',
+    requiredTier: 'pro',
+    hasResult: (data) => !!data.landingPage,
+    run: async (ctx, options) => {
+      const data = merged(ctx);
+      const { niche, persona } = requireStrategy(data);
+      const landingPage = await generateLandingPage(data.productName, niche, persona, options);
+      return { landingPage, landingPageHistory: recordVariant(data.landingPageHistory, landingPage, { niche: niche.name, persona: persona.jobTitle, source: 'Autopilot' }, data.landingPage) };
+    }
+  },
+  {
+    id: 'ads',
+    label: 'Create ad creatives',
+    requiredTier: 'pro',
+    hasResult: (data) => (data.adCampaigns || []).length > 0,
+    run: async (ctx, options) => {
+      const data = merged(ctx);
+      const { niche, persona } = requireStrategy(data);
+      const ads = (await generateAdCreatives(data.productName, niche, persona, data.productUrl, options)).map(ad => ({ ...ad, status: 'draft' as const }));
+      return { adCampaigns: ads, adCampaignHistory: recordVariant(data.adCampaignHistory, ads, { niche: niche.name, persona: persona.jobTitle, source: 'Autopilot' }, data.adCampaigns?.length ? data.adCampaigns : null) };
+    }
+  },
+  {
+    id: 'email',
+    label: 'Draft the nurture emails',
+    hasResult: (data) => (data.followUpSequence || []).length > 0,
+    run: async (ctx, options) => {
+      const data = merged(ctx);
+      const { persona } = requireStrategy(data);
+      const sequence = await generateFollowUp(data.productName, persona, null, options);
+      // Also drafted as campaigns so they show up in the Email module ready to edit and send
+      const drafts: EmailCampaign[] = sequence.map((email, i) => ({
+        id: generateId(),
+        name: `Nurture ${i + 1} (${email.sendDelay})`,
+        subject: email.subject,
+        previewText: email.previewText,
+        content: email.body,
+        status: 'draft',
+        audienceSegment: 'All Subscribers',
+        stats: { sent: 0, opened: 0, clicked: 0, bounced: 0 }
+      }));
+      return { followUpSequence: sequence, emailCampaigns: [...(data.emailCampaigns || []), ...drafts] };
+    }
+  }
+];
+
+export const isStepAvailable = (step: AutopilotStep, user: User | null) => !step.requiredTier || permissionService.hasAccess(user, step.requiredTier);
+
+export interface AutopilotRunConfig {
+  steps: AutopilotStepId[]; // Steps to run, in pipeline order
+  checkpoints: AutopilotStepId[]; // Pause for review after these steps
+  regenerate: boolean; // Re-run steps that already have results (downstream steps always re-run once anything upstream did)
+}
+
+export interface AutopilotCallbacks {
+  onStepChange: (id: AutopilotStepId, status: AutopilotStepStatus, error?: string) => void;
+  onResults: (results: Partial<ProjectData>) => void;
+  /**
+   * Called at each checkpoint with the results so far. Resolve (optionally with edits, e.g. a
+   * different niche) to continue; reject to stop the run.
+   */
+  onCheckpoint: (id: AutopilotStepId, results: Partial<ProjectData>) => Promise<Partial<ProjectData> | void>;
+  signal?: AbortSignal;
+}
+
+const abortError = () => Object.assign(new Error("Autopilot stopped"), { name: 'AbortError' });
+
+// Only the strategy fields the server accepts as a brief draft
+const briefDraft = (results: Partial<ProjectData>): Partial<ProjectData> => ({
+  ...(results.selectedNiche && { selectedNiche: results.selectedNiche }),
+  ...(results.persona && { persona: results.persona }),
+  ...(results.generatedMagnets && { generatedMagnets: results.generatedMagnets }),
+  ...(results.landingPage && { landingPage: results.landingPage })
+});
+
+/**
+ * Runs the selected steps in order and resolves with every result, ready for a single project
+ * update. A failing step stops the run; the rejection carries the partial results as `results`.
+ */
+export const runAutopilot = async (project: ProjectData, config: AutopilotRunConfig, callbacks: AutopilotCallbacks): Promise<Partial<ProjectData>> => {
+  let results: Partial<ProjectData> = {};
+  const setResults = (next: Partial<ProjectData>) => {
+    results = next;
+    callbacks.onResults(results);
+  };
+
+  for (const step of AUTOPILOT_STEPS.filter(s => config.steps.includes(s.id))) {
+    if (callbacks.signal?.aborted) throw Object.assign(abortError(), { results });
+
+    // Existing results are kept only while nothing upstream changed in this run
+    const upstreamChanged = Object.keys(results).length > 0;
+    if (!config.regenerate && !upstreamChanged && step.hasResult(project)) {
+      callbacks.onStepChange(step.id, 'skipped');
+      continue;
+    }
+
+    callbacks.onStepChange(step.id, 'running');
+    try {
+      setResults({ ...results, ...(await step.run({ project, results }, { draft: briefDraft(results) })) });
+    } catch (e: any) {
+      callbacks.onStepChange(step.id, 'failed', e.message);
+      throw Object.assign(e, { results });
+    }
+
+    if (config.checkpoints.includes(step.id)) {
+      callbacks.onStepChange(step.id, 'review');
+      try {
+        const edits = await callbacks.onCheckpoint(step.id, results);
+        if (edits) setResults({ ...results, ...edits });
+      } catch (e) {
+        throw Object.assign(abortError(), { results });
+      }
+    }
+    callbacks.onStepChange(step.id, 'done');
+  }
+  return results;
+};
@@ -1,29 +1,79 @@
 
-import { NicheSuggestion, PersonaProfile, LeadMagnet, QualificationQuestion, FollowUpEmail, SocialSearchQuery, LocalBusinessResult, LandingPage, ChatMessage, AdCreative, KeywordData, SeoAuditIssue, SeoContentScore, EmailCampaign } from "../types";
+import { NicheSuggestion, PersonaProfile, LeadMagnet, QualificationQuestion, FollowUpEmail, SocialSearchQuery, LocalBusinessResult, LandingPage, ChatMessage, AdCreative, KeywordData, SeoAuditIssue, SeoContentScore, EmailCampaign, QuotaSnapshot, AIJob, BrandVoiceIssue, MagnetContentDraft, MagnetContentSection, MagnetPromo, AdPlatform, ProjectData, RoleplayScenario, RoleplayDifficulty, RoleplayScorecard } from "../types";
 import { authService, getApiUrl } from "./authService";
+import { notify } from "./notificationService";
+import { createPartialJSONParser, DeepPartial, generateId, composeAdImage } from "../utils/core";
+import { PLATFORM_POST_RULES, PLATFORM_IMAGE_SIZES, composePlatformPost } from "../utils/adPlatforms";
+import { assetService } from "./assetService";
+import { jobService } from "./jobService";
+import { extractSegments, applySegments, batchSegments, FieldPath } from "../utils/translation";
+import { quotaService } from "./quotaService";
+import { AIError, aiErrorFromBody, readAIError, isAbortError } from "./aiErrors";
+
+export interface AIRequestOptions {
+  bypassCache?: boolean; // Skip the server response cache and generate fresh (billed) output
+  draft?: Partial<ProjectData>; // Unsaved strategy (niche, persona, magnets, landing page) the brief should reflect
+}
+
+// Attributes AI usage to the open project in the usage ledger
+let activeProjectId: string | null = null;
+export const setAIProjectContext = (projectId: string | null) => { activeProjectId = projectId; };
+export const getAIProjectContext = () => activeProjectId;
+
+// Warns once per session when the plan crosses 80% so the hard stop is never a surprise
+let quotaWarningShown = false;
+const checkQuota = (quota?: QuotaSnapshot) => {
+  quotaService.update(quota);
+  if (!quota?.warning || quotaWarningShown) return;
+  quotaWarningShown = true;
+  const percent = Math.min(100, Math.round((quota.tokensUsed / quota.limit) * 100));
+  notify.warning(`You have used ${percent}% of this period's AI tokens. See Settings for a breakdown.`, 8000);
+};
+
+// Quota failures open the shared upgrade prompt wherever the call was made from. A function
+// declaration so TypeScript treats calls as ending the code path.
+function failAI(error: AIError): never {
+  if (error.kind === 'quota') {
+    quotaService.update(error.quota);
+    quotaService.promptUpgrade();
+  }
+  throw error;
+}
+
+// Stops before a call the server would refuse anyway
+const preflight = async () => {
+  if (!(await quotaService.preflight())) failAI(new AIError("Quota exceeded. Upgrade required.", 'quota', { status: 402 }));
+};
+
+// fetch() only rejects when the request never completed
+const networkFailure = (e: unknown): never => {
+  if (isAbortError(e)) throw e;
+  throw new AIError("Network error", 'network');
+};
 
 /**
  * SECURE AI BRIDGE
- * Encrypted transport to Backend-for-Frontend (BFF)
+ * Encrypted transport to Backend-for-Frontend (BFF). Failures are thrown as AIError.
  */
-const executeAI = async <T>(agent: string, payload: any): Promise<T> => {
+const executeAI = async <T>(agent: string, payload: any, options?: AIRequestOptions): Promise<T> => {
   const headers = {
     'Content-Type': 'application/json',
     ...authService.getAuthHeader()
   };
   
   try {
+    await preflight();
     const response = await fetch(`${getApiUrl()}/api/ai/execute`, {
       method: 'POST',
       headers,
-      body: JSON.stringify({ agent, payload })
-    });
+      body: JSON.stringify({ agent, payload, options, projectId: activeProjectId })
+    }).catch(networkFailure);
 
-    if (!response.ok) {
-      throw new Error(`AI Error: ${response.statusText}`);
-    }
+    // 422 responses carry the validation issues from the server's output contract
+    if (!response.ok) failAI(await readAIError(response));
 
     const result = await response.json();
+    checkQuota(result.meta?.quota);
     return result.data as T;
   } catch (e) {
     console.error(`Failed to execute AI agent: ${agent}`, e);
@@ -31,17 +81,120 @@ const executeAI = async <T>(agent: string, payload: any): Promise<T> => {
   }
 };
 
+/**
+ * BACKGROUND EXECUTION
+ * Queues the call as a server-side job and polls for the result. Used for long generations so
+ * they survive proxy timeouts and still land in the tray (and the project) after a reload.
+ */
+const executeAIJob = async <T>(agent: string, payload: any, job: { label: string; target?: AIJob['target'] }, options?: AIRequestOptions): Promise<T> => {
+  await preflight();
+  const { id } = await jobService.submit({ agent, payload, ...job, options, projectId: activeProjectId }).catch((e) => e instanceof AIError ? failAI(e) : networkFailure(e));
+  const settled = await jobService.waitFor<T>(id);
+  if (settled.status === 'failed') {
+    console.error(`AI job failed: ${agent}`, settled.error);
+    failAI(aiErrorFromBody(settled.error?.status, { error: settled.error?.message, code: settled.error?.code }, 'Generation failed'));
+  }
+  checkQuota(settled.meta?.quota);
+  // The caller applies the result itself, so the tray should not offer it again
+  jobService.markApplied(id).catch(() => undefined);
+  return settled.result as T;
+};
+
+const PARTIAL_PARSE_INTERVAL_MS = 100;
+
+export interface AIStreamEvent<T> {
+  text: string; // Raw text received so far
+  data?: DeepPartial<T>; // Progressively parsed output (schema agents), at most every PARTIAL_PARSE_INTERVAL_MS
+  done: boolean; // True on the final event, where `data` is the complete result
+}
+
+/**
+ * STREAMING AI BRIDGE
+ * Server-Sent Events over POST. Abort the signal to cancel generation mid-flight;
+ * the pending iteration then rejects with an AbortError.
+ */
+export async function* streamAI<T>(agent: string, payload: any, signal?: AbortSignal, options?: AIRequestOptions): AsyncGenerator<AIStreamEvent<T>> {
+  await preflight();
+  const response = await fetch(`${getApiUrl()}/api/ai/stream`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      ...authService.getAuthHeader()
+    },
+    body: JSON.stringify({ agent, payload, options, projectId: activeProjectId }),
+    signal
+  }).catch(networkFailure);
+
+  if (!response.ok || !response.body) failAI(await readAIError(response));
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const parser = createPartialJSONParser();
+  let buffer = '';
+  let text = '';
+  let lastParsedAt = 0;
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        let event = 'message';
+        let raw = '';
+        for (const line of frame.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) raw += line.slice(5).trim();
+        }
+        if (!raw) continue;
+        const message = JSON.parse(raw);
+
+        if (event === 'chunk') {
+          text += message.text;
+          parser.push(message.text);
+          // Re-parsing on every chunk is wasted work between renders; events in between carry text only
+          const now = Date.now();
+          const data = now - lastParsedAt >= PARTIAL_PARSE_INTERVAL_MS ? parser.parse() as DeepPartial<T> | undefined : undefined;
+          if (data !== undefined) lastParsedAt = now;
+          yield { text, data, done: false };
+        } else if (event === 'done') {
+          checkQuota(message.meta?.quota);
+          yield { text, data: message.data as DeepPartial<T>, done: true };
+          return;
+        } else if (event === 'error') {
+          failAI(aiErrorFromBody(undefined, message));
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  throw new AIError("Stream ended unexpectedly", 'network');
+}
+
+
 // --- STRATEGY AGENTS ---
-export const generateNiches = (productName: string, description: string, options?: any): Promise<NicheSuggestion[]> => {
-  return executeAI('niche', { productName, description, ...options });
+export const generateNiches = (productName: string, description: string, filters?: any, options?: AIRequestOptions): Promise<NicheSuggestion[]> => {
+  return executeAI('niche', { productName, description, ...filters }, options);
+};
+
+export const generatePersona = (productName: string, niche: any, refinement?: string, options?: AIRequestOptions): Promise<PersonaProfile> => {
+  return executeAI('persona', { productName, niche: niche.name, refinement }, options);
 };
 
-export const generatePersona = (productName: string, niche: any, refinement?: string): Promise<PersonaProfile> => {
-  return executeAI('persona', { productName, niche: niche.name, refinement });
+export const streamPersona = (productName: string, niche: NicheSuggestion, refinement?: string, signal?: AbortSignal, options?: AIRequestOptions) => {
+  return streamAI<PersonaProfile>('persona', { productName, niche: niche.name, refinement }, signal, options);
 };
 
-export const generateLeadMagnets = (productName: string, nicheName: string, persona: PersonaProfile): Promise<LeadMagnet[]> => {
-  return executeAI('magnets', { productName, nicheName, persona: persona.jobTitle });
+export const generateLeadMagnets = (productName: string, nicheName: string, persona: PersonaProfile, options?: AIRequestOptions): Promise<LeadMagnet[]> => {
+  return executeAIJob('magnets', { productName, nicheName, persona }, { label: 'Lead magnets', target: 'generatedMagnets' }, options);
 };
 
 // --- CONVERSION AGENTS ---
@@ -54,7 +207,7 @@ export const generateSocialSearchQueries = (persona: PersonaProfile, niche: stri
 };
 
 export const generateQualification = (productName: string, persona: PersonaProfile): Promise<QualificationQuestion[]> => {
-  return executeAI('qualification', { productName, persona: persona.jobTitle });
+  return executeAI('qualification', { productName, persona });
 };
 
 export const handleObjection = (objection: string, productName: string, persona: PersonaProfile): Promise<string[]> => {
@@ -65,43 +218,78 @@ export const generateColdDMs = (productName: string, persona: PersonaProfile): P
   return executeAI('cold_dms', { productName, persona });
 };
 
-export const generateFollowUp = (productName: string, persona: PersonaProfile, other: any): Promise<FollowUpEmail[]> => {
-  return executeAI('follow_up', { productName, persona: persona.jobTitle });
+export const generateFollowUp = (productName: string, persona: PersonaProfile, other: any, options?: AIRequestOptions): Promise<FollowUpEmail[]> => {
+  return executeAI('follow_up', { productName, persona }, options);
 };
 
-export const sendChatMessage = async (history: ChatMessage[], productName: string, persona: PersonaProfile): Promise<string> => {
-  const result = await executeAI<{text?: string} | string>('chat_reply', { history, productName, persona });
+// How the simulated prospect behaves; the server turns these into roleplay instructions
+export interface RoleplaySetup {
+  scenario: RoleplayScenario;
+  difficulty: RoleplayDifficulty;
+  objections?: string[]; // Saved objections the prospect may raise
+}
+
+export const sendChatMessage = async (history: ChatMessage[], productName: string, persona: PersonaProfile, setup?: RoleplaySetup): Promise<string> => {
+  const result = await executeAI<{text?: string} | string>('chat_reply', { history, productName, persona, ...setup });
   return typeof result === 'string' ? result : (result.text || "...");
 };
 
 // --- ASSET AGENTS ---
-export const generateLandingPage = (productName: string, niche: NicheSuggestion, persona: PersonaProfile): Promise<LandingPage> => {
-  return executeAI('landing_page', { productName, niche, persona });
+export const generateLandingPage = (productName: string, niche: NicheSuggestion, persona: PersonaProfile, options?: AIRequestOptions): Promise<LandingPage> => {
+  return executeAI('landing_page', { productName, niche, persona }, options);
+};
+
+export const streamLandingPage = (productName: string, niche: NicheSuggestion, persona: PersonaProfile, signal?: AbortSignal, options?: AIRequestOptions) => {
+  return streamAI<LandingPage>('landing_page', { productName, niche, persona }, signal, options);
 };
 
-export const generateAdCreatives = (productName: string, niche: NicheSuggestion, persona: PersonaProfile, url?: string): Promise<AdCreative[]> => {
-  return executeAI('ad_creatives', { productName, niche, persona, url });
+export const generateAdCreatives = (productName: string, niche: NicheSuggestion, persona: PersonaProfile, url?: string, options?: AIRequestOptions): Promise<AdCreative[]> => {
+  return executeAIJob('ad_creatives', { productName, niche, persona, url }, { label: 'Ad campaign', target: 'adCampaigns' }, options);
+};
+
+// Judges tone and claims against the project's brand voice (sent via the strategy brief)
+export const checkBrandVoiceTone = async (text: string): Promise<{ score: number; issues: BrandVoiceIssue[] }> => {
+  const result = await executeAI<{ score: number; issues: { excerpt: string; problem: string; suggestion: string }[] }>('voice_check', { text });
+  return {
+    score: result.score,
+    issues: result.issues.map(i => ({ rule: 'tone', severity: 'warning', message: i.problem, excerpt: i.excerpt, suggestion: i.suggestion }))
+  };
+};
+
+// Keeps each translate prompt under the server's per-variable input limit
+const TRANSLATE_BATCH_CHARS = 4000;
+
+// Translates the text at `fields` and returns a copy of the asset; everything else is untouched
+export const translateAsset = async <T>(asset: T, fields: FieldPath[], language: string): Promise<T> => {
+  const segments = extractSegments(asset, fields);
+  const translated: string[] = [];
+  for (const batch of batchSegments(segments, TRANSLATE_BATCH_CHARS)) {
+    const result = await executeAI<{ segments: string[] }>('translate', { segments: batch, language });
+    if (result.segments.length !== batch.length) throw new Error("Translation came back incomplete. Please try again.");
+    translated.push(...result.segments);
+  }
+  return applySegments(asset, fields, translated);
 };
 
 // --- GROWTH AGENTS ---
-export const generateSeoAudit = (url: string, productName: string): Promise<SeoAuditIssue[]> => {
-  return executeAI('seo_audit', { url, productName });
+export const generateSeoAudit = (url: string, productName: string, options?: AIRequestOptions): Promise<SeoAuditIssue[]> => {
+  return executeAIJob('seo_audit', { url, productName }, { label: `SEO audit: ${url}`, target: 'seoAuditResults' }, options);
 };
 
-export const generateKeywordStrategy = (seed: string, niche: string, persona: PersonaProfile): Promise<KeywordData[]> => {
-  return executeAI('seo_keywords', { seed, niche, persona: persona.jobTitle });
+export const generateKeywordStrategy = (seed: string, niche: string, persona: PersonaProfile, options?: AIRequestOptions): Promise<KeywordData[]> => {
+  return executeAI('seo_keywords', { seed, niche, persona }, options);
 };
 
-export const analyzeContentSeo = (content: string, keyword: string): Promise<SeoContentScore> => {
-  return executeAI('content_score', { content, keyword });
+export const analyzeContentSeo = (content: string, keyword: string, options?: AIRequestOptions): Promise<SeoContentScore> => {
+  return executeAI('content_score', { content, keyword }, options);
 };
 
-export const generateEmailCampaignContent = (productName: string, persona: PersonaProfile, topic: string, goal: string): Promise<{subject: string, body: string}> => {
-  return executeAI('email_campaign', { productName, persona, topic, goal });
+export const generateEmailCampaignContent = (productName: string, persona: PersonaProfile, topic: string, goal: string, options?: AIRequestOptions): Promise<{subject: string, body: string}> => {
+  return executeAI('email_campaign', { productName, persona, topic, goal }, options);
 };
 
-export const optimizeSubjectLines = (topic: string, persona: PersonaProfile): Promise<string[]> => {
-  return executeAI('email_subjects', { topic, persona });
+export const optimizeSubjectLines = (topic: string, persona: PersonaProfile, options?: AIRequestOptions): Promise<string[]> => {
+  return executeAI('email_subjects', { topic, persona }, options);
 };
 
 export const generateEmailSequence = (productName: string, persona: PersonaProfile, goal: string): Promise<{subject: string, body: string, delay: string}[]> => {
@@ -109,18 +297,113 @@ export const generateEmailSequence = (productName: string, persona: PersonaProfi
 };
 
 // Chat Helper
-export const createSalesChat = (productName: string, persona: PersonaProfile) => {
+export const createSalesChat = (productName: string, persona: PersonaProfile, setup?: RoleplaySetup) => {
   const history: ChatMessage[] = [];
   return {
     sendMessage: async (msg: { message: string }) => {
       history.push({ role: 'user', text: msg.message });
-      const responseText = await sendChatMessage(history, productName, persona);
+      const responseText = await sendChatMessage(history, productName, persona, setup);
       history.push({ role: 'model', text: responseText });
       return { text: responseText };
     }
   };
 };
 
-export const generateMagnetContent = async (magnet: LeadMagnet, persona: PersonaProfile) => "Content generation requires specific specialized agents. Coming soon.";
-export const generateMagnetPromo = async (magnet: LeadMagnet, persona: PersonaProfile, platform: string, link: string) => "Promo copy requires specialized agents. Coming soon.";
-export const generateAdImage = async () => "";
+// Grades the rep's side of a roleplay against the qualification framework and saved objections
+export const scoreRoleplay = (transcript: ChatMessage[], setup: RoleplaySetup, framework: QualificationQuestion[], options?: AIRequestOptions): Promise<RoleplayScorecard> => {
+  return executeAI('roleplay_score', {
+    transcript,
+    scenario: setup.scenario,
+    difficulty: setup.difficulty,
+    framework: framework.map(q => q.question),
+    objections: setup.objections || []
+  }, options);
+};
+
+// --- LONG-FORM MAGNET CONTENT ---
+const magnetBrief = (magnet: LeadMagnet) => ({ title: magnet.title, type: magnet.type, hook: magnet.hook, description: magnet.description });
+
+const outlineText = (sections: Pick<MagnetContentSection, 'heading'>[]) => sections.map((s, i) => `${i + 1}. ${s.heading}`).join(' | ');
+
+const writeMagnetSection = async (magnet: LeadMagnet, section: Pick<MagnetContentSection, 'heading' | 'summary'>, outline: string, instructions?: string, options?: AIRequestOptions): Promise<string> => {
+  const result = await executeAI<{ body: string }>('magnet_section', { magnet: magnetBrief(magnet), section, outline, instructions }, options);
+  return result.body;
+};
+
+/**
+ * Drafts a full magnet: outlines it for its format, then writes each section in turn.
+ * `onProgress` receives the draft after every section so the UI can render it as it fills in.
+ */
+export const generateMagnetContent = async (magnet: LeadMagnet, persona: PersonaProfile, onProgress?: (draft: MagnetContentDraft, completed: number) => void, options?: AIRequestOptions): Promise<MagnetContentDraft> => {
+  const outline = await executeAI<{ intro: string; sections: { heading: string; summary: string }[]; conclusion: string }>('magnet_outline', { magnet: magnetBrief(magnet), persona }, options);
+  const now = Date.now();
+  let draft: MagnetContentDraft = {
+    intro: outline.intro,
+    conclusion: outline.conclusion,
+    sections: outline.sections.map(s => ({ id: generateId(), heading: s.heading, summary: s.summary, body: '' })),
+    generatedAt: now,
+    updatedAt: now
+  };
+  onProgress?.(draft, 0);
+
+  const outlineSummary = outlineText(draft.sections);
+  for (let i = 0; i < draft.sections.length; i++) {
+    const body = await writeMagnetSection(magnet, draft.sections[i], outlineSummary, undefined, options);
+    draft = { ...draft, sections: draft.sections.map((s, idx) => idx === i ? { ...s, body } : s), updatedAt: Date.now() };
+    onProgress?.(draft, i + 1);
+  }
+  return draft;
+};
+
+// Rewrites one section of an existing draft; always bypasses the cache so the user gets a new take
+export const regenerateMagnetSection = (magnet: LeadMagnet, draft: MagnetContentDraft, sectionId: string, instructions?: string): Promise<string> => {
+  const section = draft.sections.find(s => s.id === sectionId);
+  if (!section) return Promise.reject(new Error("Section not found"));
+  return writeMagnetSection(magnet, section, outlineText(draft.sections), instructions, { bypassCache: true });
+};
+
+export const magnetDraftToMarkdown = (magnet: LeadMagnet): string => {
+  const draft = magnet.contentDraft;
+  if (!draft) return '';
+  return [
+    `# ${magnet.title}`,
+    draft.intro,
+    ...draft.sections.map(s => `## ${s.heading}\n\n${s.body}`),
+    draft.conclusion
+  ].filter(Boolean).join('\n\n');
+};
+
+// Writes a promo post tailored to the platform; the smart link and hashtags are appended within the limit
+export const generateMagnetPromo = async (magnet: LeadMagnet, persona: PersonaProfile, platform: AdPlatform, link: string): Promise<MagnetPromo> => {
+  const rules = PLATFORM_POST_RULES[platform];
+  const bodyBudget = Math.max(rules.maxChars - link.length - rules.hashtags * 16 - 20, 100);
+  const result = await executeAI<{ headline: string; body: string; hashtags: string[] }>('magnet_promo', {
+    magnet: magnetBrief(magnet), persona, platform, link, maxChars: bodyBudget, hashtags: rules.hashtags
+  });
+  return { platform, headline: result.headline, hashtags: result.hashtags, text: composePlatformPost(platform, result.body, link, result.hashtags) };
+};
+
+// Crops the unbranded render to the platform size, stamps the logo and stores the result server-side
+export const brandAdImage = async (sourceUrl: string, platform: AdPlatform, logoUrl?: string): Promise<string> => {
+  const image = await composeAdImage(sourceUrl, PLATFORM_IMAGE_SIZES[platform], logoUrl);
+  return assetService.upload(image, 'ad_image', activeProjectId);
+};
+
+export const generateAdImage = async (ad: AdCreative, logoUrl?: string): Promise<{ imageUrl: string; imageSourceUrl: string }> => {
+  await preflight();
+  const response = await fetch(`${getApiUrl()}/api/ai/image`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authService.getAuthHeader() },
+    body: JSON.stringify({
+      prompt: ad.visualPrompt || ad.headline,
+      headline: ad.headline,
+      platform: ad.platform,
+      ...PLATFORM_IMAGE_SIZES[ad.platform],
+      projectId: activeProjectId || undefined
+    })
+  }).catch(networkFailure);
+  if (!response.ok) failAI(await readAIError(response));
+  const result = await response.json();
+  checkQuota(result.meta?.quota);
+  return { imageSourceUrl: result.url, imageUrl: await brandAdImage(result.url, ad.platform, logoUrl) };
+};
@@ -0,0 +1,78 @@
+import { AIJob, ProjectData } from '../types';
+import { authService, getApiUrl } from './authService';
+import { readAIError } from './aiErrors';
+
+const headers = () => ({ 'Content-Type': 'application/json', ...authService.getAuthHeader() });
+
+// Lets the generations tray refresh as soon as a job is submitted or settles
+const announce = (job: AIJob) => {
+  document.dispatchEvent(new CustomEvent<AIJob>('meti-ai-job', { detail: job }));
+};
+
+export interface AIJobRequest {
+  agent: string;
+  payload: any;
+  label: string;
+  target?: AIJob['target'];
+  projectId?: string | null;
+  options?: { bypassCache?: boolean; draft?: Partial<ProjectData> };
+}
+
+export const jobService = {
+  submit: async ({ projectId, ...request }: AIJobRequest): Promise<AIJob> => {
+    const response = await fetch(`${getApiUrl()}/api/ai/jobs`, {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify({ ...request, projectId: projectId || undefined })
+    });
+    if (!response.ok) throw await readAIError(response);
+    const job = await response.json();
+    announce(job);
+    return job;
+  },
+
+  get: async <T>(id: string): Promise<AIJob<T>> => {
+    const response = await fetch(`${getApiUrl()}/api/ai/jobs/${id}`, { headers: headers() });
+    if (!response.ok) throw new Error("Failed to load job");
+    return await response.json();
+  },
+
+  list: async (): Promise<AIJob[]> => {
+    const response = await fetch(`${getApiUrl()}/api/ai/jobs`, { headers: headers() });
+    if (!response.ok) throw new Error("Failed to load jobs");
+    return await response.json();
+  },
+
+  markApplied: async (id: string): Promise<void> => {
+    const response = await fetch(`${getApiUrl()}/api/ai/jobs/${id}`, {
+      method: 'PATCH',
+      headers: headers(),
+      body: JSON.stringify({ applied: true })
+    });
+    if (response.ok) announce(await response.json());
+  },
+
+  dismiss: async (id: string): Promise<void> => {
+    await fetch(`${getApiUrl()}/api/ai/jobs/${id}`, { method: 'DELETE', headers: headers() });
+  },
+
+  /**
+   * Polls until the job has succeeded or failed and returns the settled job (with its result).
+   * Polling backs off gently so long generations do not hammer the API.
+   */
+  waitFor: async <T>(id: string, signal?: AbortSignal): Promise<AIJob<T>> => {
+    let delay = 1000;
+    for (;;) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, delay);
+        signal?.addEventListener('abort', () => { clearTimeout(timer); reject(new DOMException('Aborted', 'AbortError')); }, { once: true });
+      });
+      const job = await jobService.get<T>(id);
+      if (job.status === 'succeeded' || job.status === 'failed') {
+        announce(job);
+        return job;
+      }
+      delay = Math.min(delay * 1.25, 4000);
+    }
+  }
+};
@@ -1,36 +1,258 @@
-
-import { GoogleGenAI, LiveServerMessage, Modality } from "@google/genai";
+import { PersonaProfile, QuotaSnapshot } from '../types';
 import { authService, getApiUrl } from './authService';
+import { getAIProjectContext, RoleplaySetup } from './geminiService';
+import { quotaService } from './quotaService';
+import { AIError, aiErrorFromBody } from './aiErrors';
+
+export interface LiveCallSetup extends RoleplaySetup {
+  productName: string;
+  persona: PersonaProfile;
+}
+
+// Messages from the server relay (see LIVE VOICE RELAY in server/index.js)
+type LiveServerMessage =
+  | { type: 'ready'; sampleRate: number; maxSeconds: number; provider: string; quota?: QuotaSnapshot }
+  | { type: 'audio'; data: string; sampleRate: number }
+  | { type: 'transcript'; role: 'user' | 'model'; text: string }
+  | { type: 'interrupted' }
+  | { type: 'turn_complete' }
+  | { type: 'usage'; quota: QuotaSnapshot }
+  | { type: 'error'; error: string; code?: string; quota?: QuotaSnapshot };
+
+const INPUT_SAMPLE_RATE = 16000;
+const PROCESSOR_BUFFER_SIZE = 4096;
+
+const liveUrl = () => {
+  const base = getApiUrl() || window.location.origin;
+  return `${base.replace(/^http/, 'ws')}/api/live`;
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
 
+const floatToPcm16 = (samples: Float32Array) => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return new Uint8Array(pcm.buffer);
+};
+
+const pcm16ToFloat = (base64: string) => {
+  const binary = atob(base64);
+  const samples = new Float32Array(binary.length / 2);
+  for (let i = 0; i < samples.length; i++) {
+    const value = binary.charCodeAt(i * 2) | (binary.charCodeAt(i * 2 + 1) << 8);
+    samples[i] = (value >= 0x8000 ? value - 0x10000 : value) / 0x8000;
+  }
+  return samples;
+};
+
+/**
+ * Voice roleplay with the project persona. Audio goes through the server relay, which holds the
+ * provider key and meters the call like any other agent; the browser only ever sends its JWT.
+ */
 export class LiveService {
+  private socket: WebSocket | null = null;
+  private stream: MediaStream | null = null;
   private inputAudioContext: AudioContext | null = null;
   private outputAudioContext: AudioContext | null = null;
   private inputSource: MediaStreamAudioSourceNode | null = null;
   private processor: ScriptProcessorNode | null = null;
   private outputNode: GainNode | null = null;
-  
+
   private isConnected: boolean = false;
   private nextStartTime: number = 0;
   private audioQueue: AudioBufferSourceNode[] = [];
-  
+  private cancelConnect: (() => void) | null = null;
+  private connectAttempt = 0; // Bumped by disconnect() so a call hung up while dialling never opens
+
   public onVolumeChange: (volume: number) => void = () => {};
-  public onDisconnect: () => void = () => {};
-
-  async connect(systemInstruction: string) {
-    // SECURITY: The live API currently requires a client-side key for websocket connections.
-    // We cannot expose the backend master key. 
-    // In a real enterprise deployment, this would use a reverse proxy or STS token.
-    // For this audit, we disable the feature to prevent key leakage.
-    console.error("Live Service disabled: Requires Client-Side API Key configuration.");
-    alert("Live Voice Feature requires a dedicated client-side API key. Please configure securely.");
+  public onTranscript: (role: 'user' | 'model', text: string) => void = () => {};
+  public onSpeakingChange: (speaking: boolean) => void = () => {};
+  // Called once per call; `error` is set when the call did not end normally
+  public onDisconnect: (error?: AIError) => void = () => {};
+
+  /** Opens the microphone and the relay session. Resolves once the prospect is on the line. */
+  async connect(setup: LiveCallSetup) {
     this.disconnect();
-    throw new Error("Live Service disabled for security.");
+    const attempt = ++this.connectAttempt;
+    const token = authService.getToken();
+    if (!token) throw new AIError("Unauthorized", 'model', { status: 401 });
+    if (!(await quotaService.preflight())) {
+      quotaService.promptUpgrade();
+      throw new AIError("Quota exceeded. Upgrade required.", 'quota', { status: 402 });
+    }
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true } });
+    if (attempt !== this.connectAttempt) {
+      stream.getTracks().forEach(track => track.stop());
+      throw new DOMException("Voice call cancelled", 'AbortError');
+    }
+    this.stream = stream;
+    this.inputAudioContext = new AudioContext({ sampleRate: INPUT_SAMPLE_RATE });
+    this.outputAudioContext = new AudioContext();
+    this.outputNode = this.outputAudioContext.createGain();
+    this.outputNode.connect(this.outputAudioContext.destination);
+    this.nextStartTime = 0;
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = new WebSocket(liveUrl());
+      this.socket = socket;
+      let ready = false;
+      this.cancelConnect = () => reject(new DOMException("Voice call cancelled", 'AbortError'));
+
+      socket.onopen = () => socket.send(JSON.stringify({
+        type: 'start',
+        token,
+        projectId: getAIProjectContext() || undefined,
+        payload: {
+          productName: setup.productName,
+          persona: setup.persona,
+          scenario: setup.scenario,
+          difficulty: setup.difficulty,
+          objections: setup.objections || []
+        }
+      }));
+
+      socket.onmessage = (event) => {
+        const message: LiveServerMessage = JSON.parse(event.data);
+        if (message.type === 'ready') {
+          ready = true;
+          this.isConnected = true;
+          this.cancelConnect = null;
+          quotaService.update(message.quota);
+          this.startMicrophone();
+          resolve();
+        } else if (message.type === 'error') {
+          const error = aiErrorFromBody(message.code === 'QUOTA_EXCEEDED' ? 402 : undefined, message, "Voice session failed");
+          if (error.kind === 'quota') {
+            quotaService.update(error.quota);
+            quotaService.promptUpgrade();
+          }
+          if (ready) this.disconnect(error);
+          else {
+            this.cleanup();
+            reject(error);
+          }
+        } else {
+          this.handleMessage(message);
+        }
+      };
+
+      socket.onclose = () => {
+        if (ready) this.disconnect();
+        else {
+          this.cleanup();
+          reject(new AIError("Could not reach the voice server", 'network'));
+        }
+      };
+    });
+  }
+
+  private startMicrophone() {
+    if (!this.inputAudioContext || !this.stream) return;
+    this.inputSource = this.inputAudioContext.createMediaStreamSource(this.stream);
+    this.processor = this.inputAudioContext.createScriptProcessor(PROCESSOR_BUFFER_SIZE, 1, 1);
+    this.processor.onaudioprocess = (e) => {
+      if (!this.isConnected || this.socket?.readyState !== WebSocket.OPEN) return;
+      const samples = e.inputBuffer.getChannelData(0);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+      this.onVolumeChange(Math.min(1, Math.sqrt(sum / samples.length) * 4));
+      this.socket.send(JSON.stringify({ type: 'audio', data: toBase64(floatToPcm16(samples)) }));
+    };
+    this.inputSource.connect(this.processor);
+    this.processor.connect(this.inputAudioContext.destination);
   }
 
-  // ... (Rest of logic remains as stub/dead code until secure proxy is implemented)
-  public disconnect() {
+  private handleMessage(message: LiveServerMessage) {
+    switch (message.type) {
+      case 'audio':
+        this.playAudio(message.data, message.sampleRate);
+        break;
+      case 'transcript':
+        this.onTranscript(message.role, message.text);
+        break;
+      case 'interrupted':
+        // The rep talked over the prospect: drop what is still queued
+        this.audioQueue.forEach(source => source.stop());
+        this.audioQueue = [];
+        this.nextStartTime = 0;
+        this.onSpeakingChange(false);
+        break;
+      case 'usage':
+        quotaService.update(message.quota);
+        break;
+    }
+  }
+
+  private playAudio(base64: string, sampleRate: number) {
+    const context = this.outputAudioContext;
+    if (!context || !this.outputNode) return;
+    const samples = pcm16ToFloat(base64);
+    if (!samples.length) return;
+    const buffer = context.createBuffer(1, samples.length, sampleRate);
+    buffer.copyToChannel(samples, 0);
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.outputNode);
+    source.onended = () => {
+      this.audioQueue = this.audioQueue.filter(s => s !== source);
+      if (this.audioQueue.length === 0) this.onSpeakingChange(false);
+    };
+    // Chunks are queued back to back so speech plays without gaps
+    this.nextStartTime = Math.max(this.nextStartTime, context.currentTime);
+    source.start(this.nextStartTime);
+    this.nextStartTime += buffer.duration;
+    this.audioQueue.push(source);
+    this.onSpeakingChange(true);
+  }
+
+  private cleanup() {
     this.isConnected = false;
-    this.onDisconnect();
+    this.processor?.disconnect();
+    this.inputSource?.disconnect();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.audioQueue.forEach(source => { try { source.stop(); } catch (e) { /* already ended */ } });
+    this.inputAudioContext?.close().catch(() => undefined);
+    this.outputAudioContext?.close().catch(() => undefined);
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.onmessage = null;
+      if (this.socket.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify({ type: 'stop' }));
+      this.socket.close();
+    }
+    this.socket = null;
+    this.stream = null;
+    this.processor = null;
+    this.inputSource = null;
+    this.inputAudioContext = null;
+    this.outputAudioContext = null;
+    this.outputNode = null;
+    this.audioQueue = [];
+  }
+
+  public disconnect(error?: AIError) {
+    this.connectAttempt++;
+    if (!this.isConnected) {
+      // Still dialling: abort the pending connect() instead of reporting a finished call
+      if (this.cancelConnect) {
+        this.cancelConnect();
+        this.cancelConnect = null;
+        this.cleanup();
+      }
+      return;
+    }
+    this.cleanup();
+    this.onVolumeChange(0);
+    this.onSpeakingChange(false);
+    this.onDisconnect(error);
   }
 }
 
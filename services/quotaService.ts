@@ -0,0 +1,66 @@
+import { QuotaSnapshot, QuotaStatus } from '../types';
+import { authService, getApiUrl } from './authService';
+
+// Cost hints re-render on QUOTA_EVENT; the app shell opens the upgrade prompt on UPGRADE_PROMPT_EVENT
+export const QUOTA_EVENT = 'meti-quota';
+export const UPGRADE_PROMPT_EVENT = 'meti-upgrade-prompt';
+
+let status: QuotaStatus | null = null;
+
+const announce = () => {
+  document.dispatchEvent(new CustomEvent<QuotaStatus | null>(QUOTA_EVENT, { detail: status }));
+};
+
+export const quotaService = {
+  refresh: async (): Promise<QuotaStatus> => {
+    const response = await fetch(`${getApiUrl()}/api/ai/quota`, { headers: authService.getAuthHeader() });
+    if (!response.ok) throw new Error("Failed to load quota");
+    status = await response.json();
+    announce();
+    return status!;
+  },
+
+  get: (): QuotaStatus | null => status,
+
+  // Credits a Paystack top-up once the server has confirmed the payment; `credited` is false when
+  // the reference was already applied (e.g. the return page was reloaded)
+  verifyTopUp: async (reference: string): Promise<{ credited: boolean; tokens: number }> => {
+    const response = await fetch(`${getApiUrl()}/api/billing/top-up/verify`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authService.getAuthHeader() },
+      body: JSON.stringify({ reference })
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(body.error || "Failed to verify payment");
+    await quotaService.refresh().catch(() => undefined);
+    return { credited: body.credited, tokens: body.tokens };
+  },
+
+  // Every AI response carries a snapshot, which keeps the pre-flight view current without refetching
+  update: (snapshot?: QuotaSnapshot) => {
+    if (!snapshot || !status) return;
+    status = { ...status, ...snapshot, remaining: Math.max(0, snapshot.limit - snapshot.tokensUsed) };
+    announce();
+  },
+
+  estimate: (agent: string): number | undefined => status?.estimates[agent],
+
+  /**
+   * False when the period's tokens are used up. A stale "exhausted" is re-checked with the server
+   * first (the user may have upgraded or topped up in another tab); unknown quota never blocks.
+   */
+  preflight: async (): Promise<boolean> => {
+    if (!status?.exceeded) return true;
+    const fresh = await quotaService.refresh().catch(() => null);
+    return !fresh?.exceeded;
+  },
+
+  promptUpgrade: () => {
+    document.dispatchEvent(new CustomEvent(UPGRADE_PROMPT_EVENT));
+  },
+
+  clear: () => {
+    status = null;
+    announce();
+  }
+};
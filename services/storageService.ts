@@ -1,5 +1,5 @@
 
-import { Project, ProjectData, User, Client } from '../types';
+import { Project, ProjectData, ProjectPatchOp, ProjectPatchResult, ProjectRevision, ProjectRevisionDetail, ProjectTemplate, ProjectImportResult, ProjectTransferOffer, ProjectTransfers, User, Client } from '../types';
 import { authService, getApiUrl } from './authService';
 
 const getHeaders = () => {
@@ -18,6 +18,22 @@ const handleAuthError = (status: number) => {
     return false;
 };
 
+/**
+ * A save was rejected because someone else changed the same project sections since `baseVersion`.
+ * Carries the server's current project so the conflict can be shown and resolved.
+ */
+export class ProjectConflictError extends Error {
+    conflicts: (keyof ProjectData)[];
+    remote: Project;
+
+    constructor(message: string, conflicts: (keyof ProjectData)[], remote: Project) {
+        super(message);
+        this.name = 'ProjectConflictError';
+        this.conflicts = conflicts;
+        this.remote = remote;
+    }
+}
+
 const apiCall = async (endpoint: string, method: string = 'GET', body?: any) => {
     const url = `${getApiUrl()}${endpoint}`;
     try {
@@ -32,6 +48,9 @@ const apiCall = async (endpoint: string, method: string = 'GET', body?: any) =>
                 throw new Error("Session expired. Please log in again.");
             }
             const err = await response.json();
+            if (response.status === 409 && err.code === 'VERSION_CONFLICT') {
+                throw new ProjectConflictError(err.error, err.conflicts || [], err.project);
+            }
             throw new Error(`API Error: ${err.error || response.statusText}`);
         }
         return await response.json();
@@ -41,21 +60,96 @@ const apiCall = async (endpoint: string, method: string = 'GET', body?: any) =>
     }
 };
 
+// Project bundles travel as raw bodies (see PROJECT BUNDLES in server/index.js)
+const BUNDLE_MIME_TYPE = 'application/vnd.meti+json';
+
+const bundleCall = async (endpoint: string, init: RequestInit = {}) => {
+    const response = await fetch(`${getApiUrl()}${endpoint}`, {
+        ...init,
+        headers: { ...init.headers, ...authService.getAuthHeader() }
+    });
+    if (!response.ok) {
+        if (handleAuthError(response.status)) throw new Error("Session expired. Please log in again.");
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || response.statusText);
+    }
+    return response;
+};
+
 export const storageService = {
   getAll: async (): Promise<Project[]> => apiCall('/api/projects'),
   
   getById: async (id: string): Promise<Project> => apiCall(`/api/projects/${id}`),
 
-  create: async (name: string, description: string, clientName?: string, clientId?: string): Promise<Project> => {
-    return apiCall('/api/projects', 'POST', { name, description, clientName, clientId });
+  // `templateId` seeds the new project with a saved template's sections
+  create: async (name: string, description: string, clientName?: string, clientId?: string, templateId?: string): Promise<Project> => {
+    return apiCall('/api/projects', 'POST', { name, description, clientName, clientId, templateId });
   },
 
-  update: async (id: string, data: Partial<ProjectData>, clientName?: string, clientId?: string): Promise<Project> => {
-    return apiCall(`/api/projects/${id}`, 'PUT', { data, clientName, clientId });
+  // Copies the product and the given ProjectData keys into a new project owned by the caller
+  duplicate: async (id: string, name: string, keys: (keyof ProjectData)[], clientName?: string, clientId?: string): Promise<Project> => {
+    return apiCall(`/api/projects/${id}/duplicate`, 'POST', { name, keys, clientName, clientId });
+  },
+
+  // Pass the version the caller last saw; the server answers 409 (ProjectConflictError) when
+  // another save changed the same sections after it
+  update: async (id: string, data: Partial<ProjectData>, clientName?: string, clientId?: string, baseVersion?: number): Promise<Project> => {
+    return apiCall(`/api/projects/${id}`, 'PUT', { data, clientName, clientId, baseVersion });
+  },
+
+  // Item-level edits built by buildProjectPatch; conflicts throw ProjectConflictError like update()
+  patch: async (id: string, ops: ProjectPatchOp[], baseVersion?: number): Promise<ProjectPatchResult> => {
+    return apiCall(`/api/projects/${id}`, 'PATCH', { ops, baseVersion });
+  },
+
+  getRevisions: async (id: string): Promise<ProjectRevision[]> => apiCall(`/api/projects/${id}/revisions`),
+
+  getRevision: async (id: string, version: number): Promise<ProjectRevisionDetail> => apiCall(`/api/projects/${id}/revisions/${version}`),
+
+  // Restores one section, or the whole project when `section` is omitted, as a new save on top
+  restoreRevision: async (id: string, version: number, section?: keyof ProjectData, baseVersion?: number): Promise<Project> => {
+    return apiCall(`/api/projects/${id}/restore`, 'POST', { version, section, baseVersion });
   },
 
   delete: async (id: string) => apiCall(`/api/projects/${id}`, 'DELETE'),
 
+  // The project and the images it links to as a portable .meti file
+  exportBundle: async (id: string): Promise<{ blob: Blob; filename: string }> => {
+    const response = await bundleCall(`/api/projects/${id}/export`);
+    const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'project.meti';
+    return { blob: await response.blob(), filename };
+  },
+
+  // Older bundle versions are upgraded by the server before the project is created
+  importBundle: async (file: Blob): Promise<ProjectImportResult> => {
+    const response = await bundleCall('/api/projects/import', {
+      method: 'POST',
+      headers: { 'Content-Type': BUNDLE_MIME_TYPE },
+      body: file
+    });
+    return response.json();
+  },
+
+  // Offers the project to the account with this email; it moves (and the caller loses access) once they accept
+  transfer: async (id: string, email: string): Promise<ProjectTransferOffer> => apiCall(`/api/projects/${id}/transfer`, 'POST', { email }),
+
+  getTransfers: async (): Promise<ProjectTransfers> => apiCall('/api/transfers'),
+
+  // Returns the project, now owned by the caller
+  acceptTransfer: async (id: string): Promise<Project> => apiCall(`/api/transfers/${id}/accept`, 'POST'),
+
+  declineTransfer: async (id: string): Promise<void> => apiCall(`/api/transfers/${id}/decline`, 'POST'),
+
+  cancelTransfer: async (id: string): Promise<void> => apiCall(`/api/transfers/${id}`, 'DELETE'),
+
+  getTemplates: async (): Promise<ProjectTemplate[]> => apiCall('/api/templates'),
+
+  createTemplate: async (projectId: string, name: string, keys: (keyof ProjectData)[], description?: string): Promise<ProjectTemplate> => {
+    return apiCall('/api/templates', 'POST', { projectId, name, description, keys });
+  },
+
+  deleteTemplate: async (id: string): Promise<void> => apiCall(`/api/templates/${id}`, 'DELETE'),
+
   // Client Methods (Real Implementation)
   getClients: async (): Promise<Client[]> => {
       return apiCall('/api/clients');
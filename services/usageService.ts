@@ -0,0 +1,12 @@
+import { UsageSummary } from '../types';
+import { authService, getApiUrl } from './authService';
+
+export const usageService = {
+  getSummary: async (): Promise<UsageSummary> => {
+    const response = await fetch(`${getApiUrl()}/api/usage`, {
+      headers: { 'Content-Type': 'application/json', ...authService.getAuthHeader() }
+    });
+    if (!response.ok) throw new Error("Failed to load usage");
+    return await response.json();
+  }
+};
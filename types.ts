@@ -33,9 +33,73 @@ export interface AccountManager {
 export interface UserUsage {
   tokensUsed: number;
   costEstimate: number; // In Local Currency (NGN)
+  topUpTokens?: number; // Bought for the current period on top of the plan
   periodStart: number;
 }
 
+export interface UsageBreakdown {
+  tokens: number;
+  costNgn: number;
+  calls: number;
+  cachedCalls: number; // Served from the response cache, not billed
+}
+
+export interface UsageSummary {
+  plan: string;
+  periodStart: number;
+  periodEnd: number; // Counters reset when the period ends
+  limit: number;
+  tokensUsed: number;
+  costEstimate: number; // NGN
+  warning: boolean; // At or above 80% of the plan limit
+  byAgent: (UsageBreakdown & { agent: string })[];
+  byProject: (UsageBreakdown & { projectId: string | null; name: string })[];
+}
+
+// Sent with every AI response
+export interface QuotaSnapshot {
+  tokensUsed: number;
+  limit: number; // Plan allowance plus any top-up for the period
+  warning: boolean;
+  exceeded?: boolean;
+}
+
+// Pre-flight view from /api/ai/quota
+export interface QuotaStatus extends QuotaSnapshot {
+  plan: User['subscription'];
+  remaining: number;
+  topUpTokens: number;
+  periodEnd: number;
+  estimates: Record<string, number>; // Typical tokens per call, by agent
+}
+
+// How an AI call failed, so the UI can respond (upgrade prompt, retry later, try again)
+export type AIErrorKind = 'quota' | 'rate_limit' | 'invalid_output' | 'model' | 'network';
+
+// Background generation queued on the server (see /api/ai/jobs)
+export type AIJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface AIJob<T = any> {
+  id: string;
+  agent: string;
+  label: string;
+  projectId?: string;
+  target?: keyof ProjectData; // Where the result belongs, so it can be applied after a reload
+  status: AIJobStatus;
+  applied: boolean;
+  createdAt: number;
+  updatedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: { message: string; code?: string; status?: number };
+  result?: T; // Only present when a single job is fetched
+  meta?: { promptVersion?: string; cached?: boolean; quota?: QuotaSnapshot };
+}
+
+// Autopilot: the strategy pipeline run end to end (see services/autopilotService)
+export type AutopilotStepId = 'niche' | 'persona' | 'magnets' | 'landing' | 'ads' | 'email';
+export type AutopilotStepStatus = 'pending' | 'running' | 'review' | 'done' | 'skipped' | 'failed';
+
 export interface User {
   id: string;
   email: string;
@@ -54,6 +118,30 @@ export interface User {
   usage: UserUsage; // Added for Cost Control
 }
 
+// Target market for generated content
+export interface ProjectLocale {
+  code: string; // BCP 47 tag, e.g. 'yo-NG'
+  language: string; // Language name given to the AI, e.g. 'Yoruba'
+  currency: string; // ISO 4217 code, e.g. 'NGN'
+}
+
+// Writing rules applied to all generated copy. Set per project, or per Client and inherited by its projects.
+export interface BrandVoice {
+  tone: string; // e.g. "Warm, direct, no hype"
+  readingLevel?: number; // Target US school grade (Flesch-Kincaid)
+  bannedWords: string[];
+  keyClaims: string[]; // The only claims copy may make
+  sampleCopy?: string;
+}
+
+export interface BrandVoiceIssue {
+  rule: 'banned_word' | 'reading_level' | 'tone';
+  severity: 'error' | 'warning';
+  message: string;
+  excerpt?: string;
+  suggestion?: string;
+}
+
 export interface Client {
   id: string;
   userId: string; // The Agency Owner
@@ -64,6 +152,7 @@ export interface Client {
   status: 'active' | 'inactive';
   onboardingDate: number;
   notes?: string;
+  brandVoice?: BrandVoice | null;
 }
 
 export interface TicketMessage {
@@ -112,14 +201,44 @@ export interface AuditLog {
   status: 'success' | 'failure';
 }
 
-export interface NicheSuggestion {
+// Admin-managed prompt templates (version 0 is the built-in default)
+export interface PromptVersion {
+  version: number;
+  template: string;
+  variables: string[];
+  notes?: string;
+  createdBy?: string;
+  createdAt?: string;
+}
+
+export interface AgentPromptSummary {
+  agent: string;
+  liveVersion: number;
+  pinnedVersion: number | null; // null = latest version is live
+  latestVersion: number;
+  versionCount: number;
+}
+
+export interface AgentPromptDetail {
+  agent: string;
+  liveVersion: number;
+  pinnedVersion: number | null;
+  versions: PromptVersion[];
+}
+
+// Stamped by the server on AI-generated assets, e.g. "landing_page@v3" or "persona@builtin"
+export interface PromptProvenance {
+  promptVersion?: string;
+}
+
+export interface NicheSuggestion extends PromptProvenance {
   name: string;
   profitabilityScore: number;
   reasoning: string;
   marketSizeEstimate: string;
 }
 
-export interface PersonaProfile {
+export interface PersonaProfile extends PromptProvenance {
   jobTitle: string;
   ageRange: string;
   psychographics: string[];
@@ -128,12 +247,12 @@ export interface PersonaProfile {
   buyingTriggers: string[];
 }
 
-export interface LeadMagnet {
+export interface LeadMagnet extends PromptProvenance {
   title: string;
   type: 'Ebook' | 'Webinar' | 'Checklist' | 'Consultation' | 'Video_Course' | 'Tool';
   hook: string;
   description: string;
-  contentDraft?: string;
+  contentDraft?: MagnetContentDraft;
   // Publishing Fields
   status?: 'draft' | 'published';
   smartLink?: string; // The simulated email capture URL
@@ -141,20 +260,44 @@ export interface LeadMagnet {
   publishedPlatforms?: string[];
 }
 
-export interface QualificationQuestion {
+// Long-form magnet content: an outline whose sections are drafted (and regenerated) one at a time
+export interface MagnetContentSection {
+  id: string;
+  heading: string; // Chapter, checklist phase, webinar segment or course module
+  summary: string;
+  body: string; // Markdown
+}
+
+export interface MagnetContentDraft {
+  intro: string;
+  sections: MagnetContentSection[];
+  conclusion: string;
+  generatedAt: number;
+  updatedAt: number;
+}
+
+// Platform-ready promo post for a published magnet; `text` already embeds the smart link
+export interface MagnetPromo {
+  platform: AdPlatform;
+  headline: string;
+  hashtags: string[];
+  text: string;
+}
+
+export interface QualificationQuestion extends PromptProvenance {
   question: string;
   intent: string;
   idealAnswer: string;
 }
 
-export interface FollowUpEmail {
+export interface FollowUpEmail extends PromptProvenance {
   subject: string;
   previewText: string;
   body: string;
   sendDelay: string;
 }
 
-export interface SocialSearchQuery {
+export interface SocialSearchQuery extends PromptProvenance {
   platform: string;
   query: string;
   explanation: string;
@@ -179,7 +322,7 @@ export interface LocalBusinessResult {
   }>;
 }
 
-export interface LandingPage {
+export interface LandingPage extends PromptProvenance {
   headline: string;
   subheadline: string;
   ctaPrimary: string;
@@ -194,6 +337,49 @@ export interface ChatMessage {
   text: string;
 }
 
+export type ObjectionCategory = 'price' | 'timing' | 'authority' | 'need' | 'other';
+
+export interface ObjectionRebuttal {
+  id: string;
+  text: string;
+  timesUsed: number; // Logged from real calls
+  timesWon: number;
+}
+
+export interface ObjectionEntry {
+  id: string;
+  objection: string;
+  category: ObjectionCategory;
+  rebuttals: ObjectionRebuttal[];
+  notes?: string; // What actually happened on calls, e.g. which rebuttal closed and why
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type RoleplayScenario = 'cold_call' | 'discovery' | 'pricing_objection';
+export type RoleplayDifficulty = 'easy' | 'realistic' | 'tough';
+
+export interface RoleplayScorecard {
+  score: number; // 0-100
+  summary: string;
+  skills: { rapport: number; discovery: number; objectionHandling: number; closing: number };
+  qualification: { question: string; covered: boolean; evidence: string }[]; // Graded against the project's qualificationFramework
+  objections: { objection: string; raised: boolean; handled: boolean; feedback: string }[]; // Graded against the objection library
+  strengths: string[];
+  improvements: string[];
+}
+
+export interface RoleplaySession {
+  id: string;
+  scenario: RoleplayScenario;
+  difficulty: RoleplayDifficulty;
+  personaTitle: string;
+  transcript: ChatMessage[]; // 'user' is the rep, 'model' the simulated prospect
+  scorecard: RoleplayScorecard;
+  channel?: 'text' | 'voice'; // Voice calls go through the live relay; older sessions are text
+  createdAt: number;
+}
+
 export type AdPlatform = 'LinkedIn' | 'Twitter' | 'Facebook' | 'Instagram' | 'TikTok' | 'ProductHunt';
 
 export interface DailyAdMetric {
@@ -213,13 +399,23 @@ export interface AdMetrics {
   history?: DailyAdMetric[]; // For charts
 }
 
-export interface AdCreative {
+// Platform length and ad policy findings for a creative; errors block posting
+export interface AdLintIssue {
+  field: 'headline' | 'adCopy' | 'hashtags';
+  rule: 'length' | 'hashtags' | 'claim' | 'disclosure';
+  severity: 'error' | 'warning';
+  message: string;
+  excerpt?: string;
+}
+
+export interface AdCreative extends PromptProvenance {
   platform: AdPlatform;
   headline: string;
   adCopy: string;
   hashtags: string[];
   visualPrompt: string; 
-  imageUrl?: string; 
+  imageUrl?: string; // Final platform-sized image with the brand logo (server asset URL)
+  imageSourceUrl?: string; // Unbranded render, kept so the logo can be re-applied without regenerating
   status: 'draft' | 'scheduled' | 'active' | 'paused' | 'posted';
   scheduledTime?: string;
   postedAt?: number; 
@@ -243,7 +439,7 @@ export interface LeadItem {
 }
 
 // SEO Specific Types
-export interface KeywordData {
+export interface KeywordData extends PromptProvenance {
   keyword: string;
   intent: 'Informational' | 'Commercial' | 'Transactional' | 'Navigational';
   volume: string; // Range e.g., "1k-10k"
@@ -251,14 +447,14 @@ export interface KeywordData {
   opportunityScore: number;
 }
 
-export interface SeoAuditIssue {
+export interface SeoAuditIssue extends PromptProvenance {
   severity: 'critical' | 'warning' | 'info';
   category: 'Technical' | 'On-Page' | 'Speed' | 'Mobile';
   issue: string;
   recommendation: string;
 }
 
-export interface SeoContentScore {
+export interface SeoContentScore extends PromptProvenance {
   score: number;
   suggestions: string[];
   keywordDensity: number;
@@ -324,11 +520,27 @@ export interface EmailSettings {
   connected: boolean;
 }
 
+// Every generation of an asset is kept so earlier results can be compared and restored
+export interface GenerationVariant<T> {
+  id: string;
+  createdAt: number;
+  inputs: Record<string, string>; // What the generation was asked for (refinement, niche, persona...)
+  promptVersion?: string;
+  value: T;
+}
+
+export interface VariantHistory<T> {
+  currentId: string | null; // Variant mirrored in the asset's main field (edits are synced into it)
+  variants: GenerationVariant<T>[]; // Newest first
+}
+
 export interface ProjectData {
   productName: string;
   productDescription: string;
   productUrl?: string; // Direct linking
   productPrice?: number; // Price for Revenue calculation
+  brandVoice?: BrandVoice | null; // Overrides the client's voice when set
+  locale?: ProjectLocale; // Output language and currency for every agent (English / NGN when unset)
   selectedNiche: NicheSuggestion | null;
   generatedNiches: NicheSuggestion[];
   persona: PersonaProfile | null;
@@ -339,6 +551,10 @@ export interface ProjectData {
   socialSearchQueries?: SocialSearchQuery[];
   landingPage?: LandingPage | null;
   adCampaigns?: AdCreative[]; 
+  // Generation history for regenerable assets
+  personaHistory?: VariantHistory<PersonaProfile>;
+  landingPageHistory?: VariantHistory<LandingPage>;
+  adCampaignHistory?: VariantHistory<AdCreative[]>;
   connectedPlatforms?: AdPlatform[];
   crmLeads?: LeadItem[];
   connectedCrms?: string[];
@@ -352,8 +568,10 @@ export interface ProjectData {
   emailSubscribers?: Subscriber[];
   emailSettings?: EmailSettings;
   // Sales specific (New consolidated)
-  salesObjections?: string[];
+  salesObjections?: string[]; // Legacy: objection text only. Read through readObjectionLibrary()
+  objectionLibrary?: ObjectionEntry[];
   salesColdDms?: string[];
+  roleplaySessions?: RoleplaySession[]; // Scored simulator sessions, newest first
 }
 
 export interface Project {
@@ -367,4 +585,69 @@ export interface Project {
   lastModified: number;
   status: 'draft' | 'active' | 'completed';
   data: ProjectData;
+  version?: number; // Incremented by the server on every save; sent back as baseVersion
+}
+
+// Granular project edit (PATCH /api/projects/:id). List ops match items by their `id`.
+export type ProjectPatchOp =
+  | { op: 'set'; path: keyof ProjectData; value: unknown }
+  | { op: 'upsert'; path: keyof ProjectData; value: { id: string }; index?: number }
+  | { op: 'remove'; path: keyof ProjectData; id: string };
+
+export interface ProjectPatchResult {
+  id: string;
+  version: number;
+  data: Partial<ProjectData>; // Touched sections as stored after the patch, teammates' items included
+}
+
+// One saved version of a project (GET /api/projects/:id/revisions), newest first
+export interface ProjectRevision {
+  version: number;
+  kind: 'created' | 'save' | 'restore';
+  sections: (keyof ProjectData)[]; // Sections this save wrote
+  author: { id?: string; email?: string };
+  restoredFrom?: number;
+  restoredSection?: keyof ProjectData;
+  createdAt: string;
+}
+
+export interface ProjectRevisionDetail {
+  version: number;
+  before: Partial<ProjectData> | null; // The changed sections before this save; null when not recorded
+  after: Partial<ProjectData>;
+  restoreSections: (keyof ProjectData)[]; // Sections a whole-project restore to this version would change
+}
+
+// A saved set of strategy sections (GET /api/templates) that new projects can start from
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  sections: (keyof ProjectData)[]; // ProjectData keys the template fills in
+  sourceProjectName?: string;
+  createdAt: string;
+}
+
+// A project offered to another account; it moves only when the recipient accepts
+export interface ProjectTransferOffer {
+  id: string;
+  projectId: string;
+  projectName: string;
+  fromEmail: string;
+  toEmail: string;
+  status: 'pending' | 'accepted' | 'declined' | 'cancelled';
+  createdAt: string;
+}
+
+// GET /api/transfers: pending offers to and from the current account
+export interface ProjectTransfers {
+  incoming: ProjectTransferOffer[];
+  outgoing: ProjectTransferOffer[];
+}
+
+// POST /api/projects/import
+export interface ProjectImportResult {
+  project: Project;
+  migratedFrom: number | null; // Bundle version the file was upgraded from; null when it was current
+  assets: number; // Images re-uploaded to this account
 }
@@ -0,0 +1,138 @@
+import { AdPlatform, AdCreative, AdLintIssue } from '../types';
+import AD_RULES from './adRules.json';
+
+/**
+ * METI AD PLATFORM RULES
+ * Organic post limits and image sizes per network, used when composing promo copy and ad creatives,
+ * plus the length and policy rules every creative is linted against before it can be posted.
+ * Post limits and lint rules are data in adRules.json so the server lints with the same rules.
+ */
+
+export interface PlatformPostRules {
+  maxChars: number;
+  hashtags: number; // Recommended count
+  clickableLinks: boolean; // Instagram/TikTok captions do not link; copy should point to the bio
+}
+
+export const PLATFORM_POST_RULES: Record<AdPlatform, PlatformPostRules> = AD_RULES.postRules;
+
+// Recommended feed image size per network; generated ad images are cropped to these exactly
+export const PLATFORM_IMAGE_SIZES: Record<AdPlatform, { width: number; height: number }> = {
+  LinkedIn: { width: 1200, height: 627 },
+  Twitter: { width: 1600, height: 900 },
+  Facebook: { width: 1200, height: 630 },
+  Instagram: { width: 1080, height: 1080 },
+  TikTok: { width: 1080, height: 1920 },
+  ProductHunt: { width: 1270, height: 760 }
+};
+
+const formatHashtags = (tags: string[], max: number) =>
+  tags.map(t => t.replace(/^#+/, '').replace(/\s+/g, '')).filter(Boolean).slice(0, max).map(t => `#${t}`).join(' ');
+
+/**
+ * Assembles the final post: body, link, hashtags. The body is trimmed on a word boundary so the
+ * link and hashtags always fit within the platform limit.
+ */
+export const composePlatformPost = (platform: AdPlatform, body: string, link: string, hashtags: string[] = []): string => {
+  const rules = PLATFORM_POST_RULES[platform];
+  const tags = formatHashtags(hashtags, rules.hashtags);
+  const linkLine = rules.clickableLinks ? link : `Link in bio: ${link}`;
+  const suffix = [linkLine, tags].filter(Boolean).join('\n\n');
+
+  const budget = rules.maxChars - suffix.length - 2;
+  let text = body.trim();
+  if (text.length > budget) {
+    const cut = text.slice(0, Math.max(budget - 1, 0));
+    text = `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length).trimEnd()}…`;
+  }
+  return `${text}\n\n${suffix}`;
+};
+
+// --- CREATIVE LINTING ---
+
+type Severity = AdLintIssue['severity'];
+
+// Headline and copy guidance from each network's ad specs. The copy hard limit is the post limit
+// above, since creatives are published as posts.
+export interface AdLengthRules {
+  headlineMax: number;
+  headlineRecommended: number;
+  copyRecommended: number;
+  hashtagsMax: number; // Hard cap; PLATFORM_POST_RULES.hashtags is the recommended count
+}
+
+export const AD_LENGTH_RULES: Record<AdPlatform, AdLengthRules> = AD_RULES.lengthRules;
+
+// Rule patterns are stored as case-insensitive RegExp sources; `errorOn` lists the platforms whose
+// policies reject the creative outright, every other platform gets a warning
+const severityFor = (platform: AdPlatform, errorOn: string[]): Severity => errorOn.includes(platform) ? 'error' : 'warning';
+
+// Claims the networks' ad policies reject or flag for review
+const CLAIM_RULES = AD_RULES.claimRules.map(rule => ({ ...rule, pattern: new RegExp(rule.pattern, 'i') }));
+
+// Topics that are only allowed with a disclosure somewhere in the creative
+const DISCLOSURE_RULES = AD_RULES.disclosureRules.map(rule => ({
+  ...rule,
+  trigger: new RegExp(rule.trigger, 'i'),
+  disclosure: new RegExp(rule.disclosure, 'i')
+}));
+
+const excerptAround = (text: string, index: number, length: number) => {
+  const start = Math.max(0, index - 20);
+  const end = Math.min(text.length, index + length + 20);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+const lintLength = (field: AdLintIssue['field'], label: string, text: string, max: number, recommended: number, platform: AdPlatform): AdLintIssue[] => {
+  const length = text.trim().length;
+  if (length > max) return [{ field, rule: 'length', severity: 'error', message: `${label} is ${length} characters; ${platform} allows ${max}` }];
+  if (length > recommended) return [{ field, rule: 'length', severity: 'warning', message: `${label} is ${length} characters; ${platform} truncates after about ${recommended}` }];
+  return [];
+};
+
+/**
+ * Lints a creative against its platform's length limits, prohibited claim patterns and required
+ * disclosures. Any 'error' issue blocks posting. The rules live in adRules.json, which
+ * server/adLint.js also loads to re-lint before posting.
+ */
+export const lintAdCreative = (ad: Pick<AdCreative, 'platform' | 'headline' | 'adCopy' | 'hashtags'>): AdLintIssue[] => {
+  const { platform } = ad;
+  const lengths = AD_LENGTH_RULES[platform];
+  const post = PLATFORM_POST_RULES[platform];
+  if (!lengths || !post) return [];
+
+  const headline = ad.headline || '';
+  const adCopy = ad.adCopy || '';
+  const hashtags = (ad.hashtags || []).filter(t => t.trim());
+
+  const issues: AdLintIssue[] = [
+    ...lintLength('headline', 'Headline', headline, lengths.headlineMax, lengths.headlineRecommended, platform),
+    ...lintLength('adCopy', 'Copy', adCopy, post.maxChars, lengths.copyRecommended, platform)
+  ];
+
+  if (hashtags.length > lengths.hashtagsMax) {
+    issues.push({ field: 'hashtags', rule: 'hashtags', severity: 'error', message: `${hashtags.length} hashtags; ${platform} allows ${lengths.hashtagsMax}` });
+  } else if (hashtags.length > post.hashtags) {
+    issues.push({ field: 'hashtags', rule: 'hashtags', severity: 'warning', message: `${hashtags.length} hashtags; ${post.hashtags} or fewer perform best on ${platform}` });
+  }
+
+  const fields: [AdLintIssue['field'], string][] = [['headline', headline], ['adCopy', adCopy]];
+  for (const rule of CLAIM_RULES) {
+    const severity = severityFor(platform, rule.errorOn);
+    for (const [field, text] of fields) {
+      const match = rule.pattern.exec(text);
+      if (match) issues.push({ field, rule: 'claim', severity, message: rule.message, excerpt: excerptAround(text, match.index, match[0].length) });
+    }
+  }
+
+  const fullText = `${headline}\n${adCopy}`;
+  for (const rule of DISCLOSURE_RULES) {
+    const severity = severityFor(platform, rule.errorOn);
+    if (!rule.trigger.test(fullText) || rule.disclosure.test(fullText)) continue;
+    issues.push({ field: 'adCopy', rule: 'disclosure', severity, message: rule.message });
+  }
+
+  return issues;
+};
+
+export const hasBlockingIssues = (issues: AdLintIssue[]) => issues.some(i => i.severity === 'error');
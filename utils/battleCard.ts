@@ -0,0 +1,76 @@
+import { ObjectionEntry } from '../types';
+import { OBJECTION_CATEGORIES, rankRebuttals, winRate } from './objections';
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Printable one-pager of the objection library, grouped by category with the best-performing
+ * rebuttal first. Styled for A4/Letter so "Save as PDF" in the print dialog gives a clean card.
+ */
+export const buildBattleCardHtml = (productName: string, library: ObjectionEntry[]): string => {
+  const sections = OBJECTION_CATEGORIES
+    .map(category => ({ category, entries: library.filter(entry => entry.category === category.id) }))
+    .filter(group => group.entries.length > 0)
+    .map(({ category, entries }) => `
+    <section>
+      <h2>${escapeHtml(category.label)}</h2>
+      ${entries.map(entry => `
+      <div class="objection">
+        <h3>&ldquo;${escapeHtml(entry.objection)}&rdquo;</h3>
+        <ol>
+          ${rankRebuttals(entry.rebuttals).map(rebuttal => {
+            const rate = winRate(rebuttal);
+            return `<li>${escapeHtml(rebuttal.text)}${rate !== null ? ` <span class="rate">${rate}% win &middot; ${rebuttal.timesUsed} calls</span>` : ''}</li>`;
+          }).join('')}
+        </ol>
+        ${entry.rebuttals.length === 0 ? '<p class="empty">No rebuttals saved yet.</p>' : ''}
+        ${entry.notes ? `<p class="notes"><strong>From the field:</strong> ${escapeHtml(entry.notes)}</p>` : ''}
+      </div>`).join('')}
+    </section>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(productName)} - Objection Battle Card</title>
+  <style>
+    @page { margin: 16mm; }
+    body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #0f172a; font-size: 11pt; line-height: 1.45; }
+    header { border-bottom: 3px solid #4f46e5; padding-bottom: 8px; margin-bottom: 16px; }
+    header h1 { margin: 0; font-size: 20pt; }
+    header p { margin: 4px 0 0; color: #64748b; font-size: 9pt; }
+    h2 { font-size: 12pt; text-transform: uppercase; letter-spacing: 0.05em; color: #4f46e5; margin: 20px 0 8px; }
+    .objection { break-inside: avoid; border: 1px solid #e2e8f0; border-radius: 6px; padding: 10px 12px; margin-bottom: 10px; }
+    h3 { margin: 0 0 6px; font-size: 11pt; }
+    ol { margin: 0; padding-left: 20px; }
+    li { margin-bottom: 4px; }
+    .rate { color: #059669; font-size: 8pt; font-weight: bold; white-space: nowrap; }
+    .notes { margin: 6px 0 0; font-size: 9pt; color: #475569; }
+    .empty { margin: 0; font-size: 9pt; color: #94a3b8; font-style: italic; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(productName)}: Objection Battle Card</h1>
+    <p>${library.length} objections &middot; ${new Date().toLocaleDateString()}</p>
+  </header>
+  ${sections}
+</body>
+</html>`;
+};
+
+/** Opens the battle card and the browser print dialog, where it can be saved as PDF. */
+export const printBattleCard = (productName: string, library: ObjectionEntry[]): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.write(buildBattleCardHtml(productName, library));
+  win.document.close();
+  win.focus();
+  // Let the document lay out before printing
+  setTimeout(() => win.print(), 250);
+  return true;
+};
@@ -0,0 +1,58 @@
+import { BrandVoice, BrandVoiceIssue } from '../types';
+
+/**
+ * METI BRAND VOICE CHECKS
+ * Rule-based checks that run instantly in the browser. Tone is judged by the `voice_check`
+ * agent (see checkBrandVoiceTone), since it cannot be measured with rules.
+ */
+
+export const isBrandVoiceSet = (voice?: BrandVoice | null): voice is BrandVoice =>
+  !!voice && !!(voice.tone?.trim() || voice.bannedWords?.length || voice.keyClaims?.length || voice.sampleCopy?.trim() || voice.readingLevel);
+
+const escapeRegExp = (str: string) => str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Vowel-group heuristic; accurate enough for grade-level estimates on marketing copy
+const countSyllables = (word: string): number => {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (w.length <= 3) return w ? 1 : 0;
+  const groups = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(groups?.length || 0, 1);
+};
+
+/** Flesch-Kincaid grade level. Returns null for text too short to score meaningfully. */
+export const readingGrade = (text: string): number | null => {
+  const sentences = text.split(/[.!?]+(?:\s|$)/).filter(s => s.trim().length > 0).length;
+  const words = text.match(/[A-Za-z][A-Za-z'-]*/g) || [];
+  if (words.length < 30 || sentences === 0) return null;
+  const syllables = words.reduce((sum, w) => sum + countSyllables(w), 0);
+  const grade = 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+  return Math.max(0, Math.round(grade * 10) / 10);
+};
+
+const excerptAround = (text: string, index: number, length: number) => {
+  const start = Math.max(0, index - 30);
+  const end = Math.min(text.length, index + length + 30);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+export const checkBrandVoice = (text: string, voice: BrandVoice): BrandVoiceIssue[] => {
+  const issues: BrandVoiceIssue[] = [];
+  if (!text.trim()) return issues;
+
+  for (const banned of voice.bannedWords || []) {
+    const term = banned.trim();
+    if (!term) continue;
+    const match = new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i').exec(text);
+    if (match) {
+      issues.push({ rule: 'banned_word', severity: 'error', message: `Uses banned word "${term}"`, excerpt: excerptAround(text, match.index, match[0].length) });
+    }
+  }
+
+  const grade = readingGrade(text);
+  // One grade of tolerance: the formula is approximate
+  if (voice.readingLevel && grade !== null && grade > voice.readingLevel + 1) {
+    issues.push({ rule: 'reading_level', severity: 'warning', message: `Reads at grade ${grade}; target is grade ${voice.readingLevel}`, suggestion: 'Use shorter sentences and simpler words.' });
+  }
+
+  return issues;
+};
@@ -4,6 +4,9 @@
  * Enterprise-grade helpers for Data Normalization, Error Handling, and Async Logic.
  */
 
+import { ProjectLocale } from '../types';
+import { resolveLocale } from './locales';
+
 // --- 1. DATE & TIME STANDARDIZATION ---
 
 export const formatDate = (timestamp: number | string | undefined): string => {
@@ -26,13 +29,16 @@ export const formatDate = (timestamp: number | string | undefined): string => {
   }
 };
 
-export const formatCurrency = (amount: number | undefined): string => {
-  if (amount === undefined || amount === null || isNaN(amount)) return '$0.00';
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2
-  }).format(amount);
+// Formats in the project's currency (NGN when the project has no locale)
+export const formatCurrency = (amount: number | undefined, locale?: ProjectLocale | null): string => {
+  const { code, currency } = resolveLocale(locale);
+  const value = amount === undefined || amount === null || isNaN(amount) ? 0 : amount;
+  try {
+    return new Intl.NumberFormat(code, { style: 'currency', currency, minimumFractionDigits: 2 }).format(value);
+  } catch (e) {
+    // Runtimes without locale data for the tag still get a readable amount
+    return `${currency} ${value.toFixed(2)}`;
+  }
 };
 
 // --- 2. ASYNC HANDOFF & RETRY LOGIC ---
@@ -110,6 +116,85 @@ export const cleanAndParseJSON = <T>(text: string | undefined): T => {
   }
 };
 
+export type DeepPartial<T> = T extends Array<infer U>
+  ? Array<DeepPartial<U>>
+  : T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T;
+
+export interface PartialJSONParser {
+  push: (chunk: string) => void; // Appends streamed text; only the new part is scanned
+  parse: () => unknown; // Best-effort parse of everything pushed so far
+}
+
+/**
+ * Incremental parser for an incomplete JSON document (e.g. a streaming AI response).
+ * Keeps its scan state between chunks, so each push costs only the new text. Drops the
+ * trailing token when it cannot be completed, so callers only ever see fully-formed keys.
+ * parse() returns undefined until the first object/array has started.
+ */
+export const createPartialJSONParser = (): PartialJSONParser => {
+  let text = ''; // From the first '{' or '['
+  let scanned = 0;
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  // Last structural boundary where the prefix is complete once the open containers are closed
+  let checkpoint: { end: number; closers: string } | null = null;
+
+  const mark = (end: number) => {
+    checkpoint = { end, closers: closers.slice().reverse().join('') };
+  };
+
+  const scan = () => {
+    for (; scanned < text.length; scanned++) {
+      const ch = text[scanned];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+      if (ch === '"') inString = true;
+      else if (ch === ',') mark(scanned);
+      else if (ch === '{' || ch === '[') {
+        closers.push(ch === '{' ? '}' : ']');
+        mark(scanned + 1);
+      } else if (ch === '}' || ch === ']') {
+        closers.pop();
+        mark(scanned + 1);
+      }
+    }
+  };
+
+  const tryParse = (candidate: string): unknown => {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      return undefined;
+    }
+  };
+
+  return {
+    push: (chunk) => {
+      if (!text) {
+        const start = chunk.search(/[{[]/);
+        if (start === -1) return;
+        chunk = chunk.slice(start);
+      }
+      text += chunk;
+      scan();
+    },
+    parse: () => {
+      if (!text) return undefined;
+      // Close whatever is open as-is first: that keeps a half-written string value
+      const open = (escaped ? text.slice(0, -1) : text) + (inString ? '"' : '') + closers.slice().reverse().join('');
+      const whole = tryParse(open);
+      if (whole !== undefined || !checkpoint) return whole;
+      // Otherwise back off to the last boundary (a partial key, number or literal, or a closing fence)
+      return tryParse(text.slice(0, checkpoint.end) + checkpoint.closers);
+    }
+  };
+};
+
 /**
  * A safe wrapper for JSON.parse that handles undefined/null and returns a default value
  * Prevents "Unexpected token u" runtime crashes.
@@ -191,3 +276,65 @@ export const compressImage = (file: File): Promise<string> => {
     reader.onerror = (e) => reject(e);
   });
 };
+
+// --- 6. IMAGE COMPOSITING ---
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = (e) => reject(e);
+  img.src = src;
+});
+
+// Remote images are read into data URLs first so the canvas is never tainted by a cross-origin source
+const toDataUrl = async (url: string): Promise<string> => {
+  if (url.startsWith('data:')) return url;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load image (${response.status})`);
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (e) => reject(e);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Crops the source image to exactly width x height (cover) and stamps the logo in the
+ * bottom-right corner on a soft backdrop so it stays legible on busy images. Returns a JPEG.
+ */
+export const composeAdImage = async (sourceUrl: string, size: { width: number; height: number }, logoUrl?: string): Promise<Blob> => {
+  const { width, height } = size;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+
+  const source = await loadImage(await toDataUrl(sourceUrl));
+  const scale = Math.max(width / source.width, height / source.height);
+  const drawWidth = source.width * scale;
+  const drawHeight = source.height * scale;
+  ctx.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+
+  if (logoUrl) {
+    const logo = await loadImage(await toDataUrl(logoUrl));
+    const margin = Math.round(Math.min(width, height) * 0.04);
+    const logoScale = Math.min((width * 0.18) / logo.width, (height * 0.12) / logo.height);
+    const logoWidth = logo.width * logoScale;
+    const logoHeight = logo.height * logoScale;
+    const x = width - logoWidth - margin;
+    const y = height - logoHeight - margin;
+    const pad = margin * 0.4;
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.beginPath();
+    ctx.roundRect(x - pad, y - pad, logoWidth + pad * 2, logoHeight + pad * 2, pad);
+    ctx.fill();
+    ctx.drawImage(logo, x, y, logoWidth, logoHeight);
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode image')), 'image/jpeg', 0.9);
+  });
+};
@@ -0,0 +1,38 @@
+import { ProjectLocale } from '../types';
+
+export interface LocaleOption extends ProjectLocale {
+  label: string;
+}
+
+// Markets our users sell into. The language name is what the AI is asked to write in.
+export const CONTENT_LOCALES: LocaleOption[] = [
+  { code: 'en-NG', language: 'English', currency: 'NGN', label: 'English (Nigeria)' },
+  { code: 'pcm-NG', language: 'Nigerian Pidgin', currency: 'NGN', label: 'Pidgin (Nigeria)' },
+  { code: 'yo-NG', language: 'Yoruba', currency: 'NGN', label: 'Yorùbá' },
+  { code: 'ha-NG', language: 'Hausa', currency: 'NGN', label: 'Hausa' },
+  { code: 'ig-NG', language: 'Igbo', currency: 'NGN', label: 'Igbo' },
+  { code: 'en-GH', language: 'English', currency: 'GHS', label: 'English (Ghana)' },
+  { code: 'en-KE', language: 'English', currency: 'KES', label: 'English (Kenya)' },
+  { code: 'sw-KE', language: 'Swahili', currency: 'KES', label: 'Kiswahili (Kenya)' },
+  { code: 'en-ZA', language: 'English', currency: 'ZAR', label: 'English (South Africa)' },
+  { code: 'fr-SN', language: 'French', currency: 'XOF', label: 'Français (Afrique de l\'Ouest)' },
+  { code: 'fr-CM', language: 'French', currency: 'XAF', label: 'Français (Afrique centrale)' },
+  { code: 'en-GB', language: 'English', currency: 'GBP', label: 'English (UK)' },
+  { code: 'en-US', language: 'English', currency: 'USD', label: 'English (US)' }
+];
+
+// Matches the server default when a project has no locale
+export const DEFAULT_LOCALE = CONTENT_LOCALES[0];
+
+export const resolveLocale = (locale?: ProjectLocale | null): ProjectLocale => locale || DEFAULT_LOCALE;
+
+export const findLocale = (code: string): LocaleOption | undefined => CONTENT_LOCALES.find(l => l.code === code);
+
+export const currencySymbol = (locale?: ProjectLocale | null): string => {
+  const { code, currency } = resolveLocale(locale);
+  try {
+    return new Intl.NumberFormat(code, { style: 'currency', currency }).formatToParts(0).find(p => p.type === 'currency')?.value || currency;
+  } catch (e) {
+    return currency;
+  }
+};
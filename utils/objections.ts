@@ -0,0 +1,75 @@
+import { ObjectionCategory, ObjectionEntry, ObjectionRebuttal, ProjectData } from '../types';
+import { generateId } from './core';
+
+export const OBJECTION_CATEGORIES: { id: ObjectionCategory; label: string }[] = [
+  { id: 'price', label: 'Price' },
+  { id: 'timing', label: 'Timing' },
+  { id: 'authority', label: 'Authority' },
+  { id: 'need', label: 'Need' },
+  { id: 'other', label: 'Other' }
+];
+
+export const categoryLabel = (id: ObjectionCategory) => OBJECTION_CATEGORIES.find(c => c.id === id)?.label || id;
+
+// First match wins; used to pre-select a category the rep can still change
+const CATEGORY_KEYWORDS: [ObjectionCategory, RegExp][] = [
+  ['price', /\b(price|pric(ey|y)|expensive|cost|afford|budget|cheaper|discount|money|too much)\b/i],
+  ['timing', /\b(later|not now|next (month|quarter|year)|busy|timing|wait|season)\b/i],
+  ['authority', /\b(boss|manager|partner|wife|husband|board|team|approve|approval|decide|decision|check with)\b/i],
+  ['need', /\b(need|already (use|have)|don'?t see|not sure|works fine|happy with|no problem)\b/i]
+];
+
+export const guessObjectionCategory = (objection: string): ObjectionCategory =>
+  CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(objection))?.[0] || 'other';
+
+const sameObjection = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const createRebuttal = (text: string): ObjectionRebuttal => ({ id: generateId(), text, timesUsed: 0, timesWon: 0 });
+
+export const createObjectionEntry = (objection: string, rebuttals: string[] = []): ObjectionEntry => {
+  const now = Date.now();
+  return {
+    id: generateId(),
+    objection: objection.trim(),
+    category: guessObjectionCategory(objection),
+    rebuttals: rebuttals.map(createRebuttal),
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/**
+ * The project's objection library. Projects from before the library stored only objection text in
+ * `salesObjections`; those are returned as entries without rebuttals until they are saved again.
+ */
+export const readObjectionLibrary = (data: Pick<ProjectData, 'objectionLibrary' | 'salesObjections'>): ObjectionEntry[] => {
+  const library = data.objectionLibrary || [];
+  const legacy = (data.salesObjections || [])
+    .filter(text => text.trim() && !library.some(entry => sameObjection(entry.objection, text)))
+    // Stable ids so legacy entries can be edited before they have been saved
+    .map(text => ({ ...createObjectionEntry(text), id: `legacy-${text.trim().toLowerCase()}`, createdAt: 0, updatedAt: 0 }));
+  return [...library, ...legacy];
+};
+
+export const objectionTexts = (data: Pick<ProjectData, 'objectionLibrary' | 'salesObjections'>): string[] =>
+  readObjectionLibrary(data).map(entry => entry.objection);
+
+export const findObjection = (library: ObjectionEntry[], objection: string) => library.find(entry => sameObjection(entry.objection, objection));
+
+/** Adds the rebuttals to an existing entry for the same objection, or creates a new one. */
+export const upsertObjection = (library: ObjectionEntry[], objection: string, rebuttals: string[]): ObjectionEntry[] => {
+  const existing = findObjection(library, objection);
+  if (!existing) return [createObjectionEntry(objection, rebuttals), ...library];
+  const fresh = rebuttals.filter(text => !existing.rebuttals.some(r => r.text === text));
+  return library.map(entry => entry.id === existing.id
+    ? { ...entry, rebuttals: [...entry.rebuttals, ...fresh.map(createRebuttal)], updatedAt: Date.now() }
+    : entry);
+};
+
+/** Share of logged uses that won the deal; null until the rebuttal has been used. */
+export const winRate = (rebuttal: ObjectionRebuttal): number | null =>
+  rebuttal.timesUsed > 0 ? Math.round((rebuttal.timesWon / rebuttal.timesUsed) * 100) : null;
+
+/** Rebuttals ordered by win rate, untested ones last in their saved order. */
+export const rankRebuttals = (rebuttals: ObjectionRebuttal[]): ObjectionRebuttal[] =>
+  [...rebuttals].sort((a, b) => (winRate(b) ?? -1) - (winRate(a) ?? -1));
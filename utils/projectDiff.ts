@@ -0,0 +1,116 @@
+import { ProjectData } from '../types';
+
+export interface FieldChange {
+  key: keyof ProjectData;
+  label: string;
+  summary: string; // One line, e.g. "2 added, 1 changed"
+  details: string[]; // Item-level lines: "+ added", "- removed", "~ changed"
+}
+
+const FIELD_LABELS: Partial<Record<keyof ProjectData, string>> = {
+  productName: 'Product name',
+  productDescription: 'Product description',
+  productUrl: 'Product URL',
+  productPrice: 'Price',
+  brandVoice: 'Brand voice',
+  locale: 'Language & currency',
+  selectedNiche: 'Selected niche',
+  generatedNiches: 'Niche ideas',
+  generatedMagnets: 'Lead magnets',
+  qualificationFramework: 'Qualification framework',
+  followUpSequence: 'Follow-up sequence',
+  leadSearchResults: 'Lead search results',
+  socialSearchQueries: 'Social search queries',
+  adCampaigns: 'Ad campaigns',
+  personaHistory: 'Persona variants',
+  landingPageHistory: 'Landing page variants',
+  adCampaignHistory: 'Ad campaign variants',
+  crmLeads: 'CRM leads',
+  connectedCrms: 'Connected CRMs',
+  seoKeywords: 'SEO keywords',
+  seoAuditResults: 'SEO audit',
+  seoContentAnalysis: 'SEO content score',
+  salesObjections: 'Objections (legacy)',
+  objectionLibrary: 'Objection library',
+  salesColdDms: 'Cold DMs',
+  roleplaySessions: 'Roleplay sessions'
+};
+
+const humanize = (key: string) => key.replace(/([A-Z])/g, ' $1').trim().replace(/^./, c => c.toUpperCase());
+
+export const fieldLabel = (key: keyof ProjectData) => FIELD_LABELS[key] || humanize(key);
+
+// Detail lists are capped so a bulk import does not flood the dialog
+const MAX_DETAILS = 8;
+const MAX_VALUE_CHARS = 60;
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const truncate = (text: string) => text.length > MAX_VALUE_CHARS ? `${text.slice(0, MAX_VALUE_CHARS - 1)}…` : text;
+
+// The field people recognise an item by, across the project's list types
+const itemLabel = (item: any): string => {
+  if (item == null) return 'empty';
+  if (typeof item !== 'object') return truncate(String(item));
+  const label = item.name || item.title || item.headline || item.subject || item.objection || item.keyword || item.email || item.question || item.jobTitle || item.id;
+  return label ? truncate(String(label)) : 'item';
+};
+
+// Items with an id are matched by id, strings by value, anything else by position
+const itemKey = (item: any, index: number) => {
+  if (item && typeof item === 'object' && item.id) return `id:${item.id}`;
+  if (typeof item === 'string') return `text:${item}`;
+  return `index:${index}`;
+};
+
+const describeList = (before: any[], after: any[]) => {
+  const previous = new Map(before.map((item, i) => [itemKey(item, i), item]));
+  const next = new Map(after.map((item, i) => [itemKey(item, i), item]));
+  const added = [...next.entries()].filter(([key]) => !previous.has(key)).map(([, item]) => item);
+  const removed = [...previous.entries()].filter(([key]) => !next.has(key)).map(([, item]) => item);
+  const changed = [...next.entries()].filter(([key, item]) => previous.has(key) && !same(previous.get(key), item)).map(([, item]) => item);
+
+  const summary = [
+    added.length && `${added.length} added`,
+    removed.length && `${removed.length} removed`,
+    changed.length && `${changed.length} changed`
+  ].filter(Boolean).join(', ') || 'reordered';
+  const details = [
+    ...added.map(item => `+ ${itemLabel(item)}`),
+    ...removed.map(item => `- ${itemLabel(item)}`),
+    ...changed.map(item => `~ ${itemLabel(item)}`)
+  ];
+  return { summary, details };
+};
+
+const describeObject = (before: Record<string, any> | null | undefined, after: Record<string, any> | null | undefined) => {
+  if (!before) return { summary: `set to ${itemLabel(after)}`, details: [] };
+  if (!after) return { summary: 'cleared', details: [] };
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(key => !same(before[key], after[key]));
+  return { summary: `${keys.length} ${keys.length === 1 ? 'field' : 'fields'} changed`, details: keys.map(key => `~ ${humanize(key)}`) };
+};
+
+/** What changed in one ProjectData section between two versions; null when nothing did. */
+export const describeFieldChange = (key: keyof ProjectData, before: unknown, after: unknown): FieldChange | null => {
+  if (same(before, after)) return null;
+  let change: { summary: string; details: string[] };
+  if (Array.isArray(before) || Array.isArray(after)) {
+    change = describeList((before as any[]) || [], (after as any[]) || []);
+  } else if ((before && typeof before === 'object') || (after && typeof after === 'object')) {
+    change = describeObject(before as Record<string, any>, after as Record<string, any>);
+  } else {
+    change = { summary: after == null || after === '' ? 'cleared' : `"${truncate(String(before ?? ''))}" → "${truncate(String(after))}"`, details: [] };
+  }
+  const details = change.details.length > MAX_DETAILS
+    ? [...change.details.slice(0, MAX_DETAILS), `…and ${change.details.length - MAX_DETAILS} more`]
+    : change.details;
+  return { key, label: fieldLabel(key), summary: change.summary, details };
+};
+
+/** Section-by-section changes between two versions of a project (all keys of either by default). */
+export const diffProjectData = (before: Partial<ProjectData>, after: Partial<ProjectData>, keys?: (keyof ProjectData)[]): FieldChange[] => {
+  const fields = keys || ([...new Set([...Object.keys(before), ...Object.keys(after)])] as (keyof ProjectData)[]);
+  return fields
+    .map(key => describeFieldChange(key, before[key], after[key]))
+    .filter((change): change is FieldChange => change !== null);
+};
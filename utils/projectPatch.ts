@@ -0,0 +1,64 @@
+import { ProjectData, ProjectPatchOp } from '../types';
+
+// Lists are patched item by item only when every item carries a unique id
+const isKeyedList = (value: unknown): value is { id: string }[] => {
+  if (!Array.isArray(value)) return false;
+  const ids = value.map(item => item && typeof item === 'object' ? (item as any).id : undefined);
+  return ids.every(id => typeof id === 'string' && id) && new Set(ids).size === ids.length;
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/** Client mirror of the server's applyProjectOps, used to check a patch reproduces the edit. */
+export const applyProjectOps = (data: Partial<ProjectData>, ops: ProjectPatchOp[]): Partial<ProjectData> => {
+  const changes: Record<string, unknown> = {};
+  ops.forEach(op => {
+    if (op.op === 'set') {
+      changes[op.path] = op.value;
+      return;
+    }
+    const stored = op.path in changes ? changes[op.path] : data[op.path];
+    const list = [...((stored as { id: string }[]) || [])];
+    const index = list.findIndex(item => item?.id === (op.op === 'upsert' ? op.value.id : op.id));
+    if (op.op === 'remove') {
+      if (index >= 0) list.splice(index, 1);
+    } else if (index >= 0) {
+      list[index] = op.value;
+    } else {
+      list.splice(Math.min(op.index ?? list.length, list.length), 0, op.value);
+    }
+    changes[op.path] = list;
+  });
+  return changes as Partial<ProjectData>;
+};
+
+const diffKeyedList = (path: keyof ProjectData, before: { id: string }[], after: { id: string }[]): ProjectPatchOp[] => {
+  const previous = new Map(before.map(item => [item.id, item]));
+  const next = new Set(after.map(item => item.id));
+  return [
+    ...before.filter(item => !next.has(item.id)).map(item => ({ op: 'remove' as const, path, id: item.id })),
+    ...after.flatMap((item, index): ProjectPatchOp[] => {
+      if (!previous.has(item.id)) return [{ op: 'upsert', path, value: item, index }];
+      return same(previous.get(item.id), item) ? [] : [{ op: 'upsert', path, value: item }];
+    })
+  ];
+};
+
+/**
+ * Turns a partial ProjectData update into patch ops against the last saved data. Id-keyed lists
+ * (leads, campaigns, subscribers...) become per-item upserts and removals; everything else, and
+ * any list edit the item ops cannot reproduce exactly (such as a reorder), is sent as a `set`.
+ */
+export const buildProjectPatch = (saved: Partial<ProjectData>, updates: Partial<ProjectData>): ProjectPatchOp[] =>
+  (Object.keys(updates) as (keyof ProjectData)[]).flatMap((path): ProjectPatchOp[] => {
+    const before = saved[path];
+    const after = updates[path];
+    if (same(before, after)) return [];
+    const set: ProjectPatchOp[] = [{ op: 'set', path, value: after }];
+    if (!isKeyedList(after) || (before != null && !isKeyedList(before))) return set;
+
+    const ops = diffKeyedList(path, (before as { id: string }[]) || [], after);
+    const reproduces = same(applyProjectOps(saved, ops)[path] ?? [], after);
+    // Bulk replacements (e.g. an import) are smaller as a single set
+    return reproduces && JSON.stringify(ops).length < JSON.stringify(set).length ? ops : set;
+  });
@@ -0,0 +1,45 @@
+import { ProjectData } from '../types';
+
+export type ProjectSectionId = 'brand' | 'niche' | 'persona' | 'magnets' | 'sequences' | 'landing' | 'ads' | 'email' | 'sales' | 'seo' | 'leads';
+
+export interface ProjectSection {
+  id: ProjectSectionId;
+  label: string;
+  keys: (keyof ProjectData)[];
+  reusable: boolean; // Strategy that carries over to similar clients; offered for templates and copied by default
+}
+
+// The product fields (name, description, URL, price) always come along with a copy. Connected
+// platforms and CRMs, email settings and roleplay sessions belong to one account and never do.
+export const PROJECT_SECTIONS: ProjectSection[] = [
+  { id: 'brand', label: 'Brand voice & language', keys: ['brandVoice', 'locale'], reusable: false },
+  { id: 'niche', label: 'Niche', keys: ['selectedNiche', 'generatedNiches'], reusable: true },
+  { id: 'persona', label: 'Persona', keys: ['persona', 'personaHistory'], reusable: true },
+  { id: 'magnets', label: 'Lead magnets', keys: ['generatedMagnets'], reusable: true },
+  { id: 'sequences', label: 'Sequences & qualification', keys: ['followUpSequence', 'emailAutomations', 'qualificationFramework'], reusable: true },
+  { id: 'landing', label: 'Landing page copy', keys: ['landingPage', 'landingPageHistory'], reusable: true },
+  { id: 'ads', label: 'Ad campaigns', keys: ['adCampaigns', 'adCampaignHistory'], reusable: false },
+  { id: 'email', label: 'Email campaigns', keys: ['emailCampaigns'], reusable: false },
+  { id: 'sales', label: 'Objections & cold DMs', keys: ['objectionLibrary', 'salesObjections', 'salesColdDms'], reusable: false },
+  { id: 'seo', label: 'SEO research', keys: ['seoKeywords', 'seoAuditResults', 'seoContentAnalysis'], reusable: false },
+  { id: 'leads', label: 'Leads, CRM & subscribers', keys: ['crmLeads', 'leadSearchResults', 'socialSearchQueries', 'emailSubscribers'], reusable: false }
+];
+
+// Variant histories are left out of templates: a template carries the chosen version only
+const HISTORY_KEYS: (keyof ProjectData)[] = ['personaHistory', 'landingPageHistory', 'adCampaignHistory'];
+
+const hasContent = (value: unknown) => Array.isArray(value) ? value.length > 0 : value != null && value !== '';
+
+/** Sections with something in them, so empty ones are not offered. */
+export const sectionsWithContent = (data: Partial<ProjectData>, sections: ProjectSection[] = PROJECT_SECTIONS) =>
+  sections.filter(section => section.keys.some(key => hasContent(data[key])));
+
+export const sectionKeys = (ids: ProjectSectionId[], options: { forTemplate?: boolean } = {}): (keyof ProjectData)[] =>
+  PROJECT_SECTIONS
+    .filter(section => ids.includes(section.id))
+    .flatMap(section => section.keys)
+    .filter(key => !options.forTemplate || !HISTORY_KEYS.includes(key));
+
+/** Section labels for a list of ProjectData keys, e.g. a template's contents. */
+export const sectionLabels = (keys: (keyof ProjectData)[]) =>
+  PROJECT_SECTIONS.filter(section => section.keys.some(key => keys.includes(key))).map(section => section.label);
@@ -0,0 +1,43 @@
+import { RoleplayDifficulty, RoleplayScenario, RoleplayScorecard, RoleplaySession } from '../types';
+
+// Prompt instructions for each live in the server's ROLEPLAY_SCENARIOS / ROLEPLAY_DIFFICULTIES
+export const ROLEPLAY_SCENARIOS: { id: RoleplayScenario; label: string; description: string }[] = [
+  { id: 'cold_call', label: 'Cold Call', description: 'They did not expect you. Earn the next 30 seconds.' },
+  { id: 'discovery', label: 'Discovery', description: 'They booked the call. Qualify them with good questions.' },
+  { id: 'pricing_objection', label: 'Pricing Objection', description: 'They like it but say it costs too much.' }
+];
+
+export const ROLEPLAY_DIFFICULTIES: { id: RoleplayDifficulty; label: string }[] = [
+  { id: 'easy', label: 'Easy' },
+  { id: 'realistic', label: 'Realistic' },
+  { id: 'tough', label: 'Tough' }
+];
+
+export const SKILL_LABELS: Record<keyof RoleplayScorecard['skills'], string> = {
+  rapport: 'Rapport',
+  discovery: 'Discovery',
+  objectionHandling: 'Objection Handling',
+  closing: 'Closing'
+};
+
+// Older sessions are dropped so the project document stays small
+export const MAX_ROLEPLAY_SESSIONS = 30;
+
+export const scenarioLabel = (id: RoleplayScenario) => ROLEPLAY_SCENARIOS.find(s => s.id === id)?.label || id;
+
+export const difficultyLabel = (id: RoleplayDifficulty) => ROLEPLAY_DIFFICULTIES.find(d => d.id === id)?.label || id;
+
+/**
+ * Change of the latest score against the average of the sessions before it (same scenario when
+ * possible, so a pricing call is not compared with a discovery call). Null until there
+ * is something to compare with. Sessions are newest first.
+ */
+export const scoreTrend = (sessions: RoleplaySession[]): number | null => {
+  const [latest, ...earlier] = sessions;
+  if (!latest) return null;
+  const sameScenario = earlier.filter(s => s.scenario === latest.scenario);
+  const baseline = (sameScenario.length > 0 ? sameScenario : earlier).slice(0, 5);
+  if (baseline.length === 0) return null;
+  const average = baseline.reduce((sum, s) => sum + s.scorecard.score, 0) / baseline.length;
+  return Math.round(latest.scorecard.score - average);
+};
@@ -0,0 +1,50 @@
+/**
+ * Assets are translated as a flat list of text segments, so the AI never has to reproduce the
+ * asset's shape. Paths are dot separated; `*` walks every item of an array.
+ */
+export type FieldPath = string;
+
+export const TRANSLATABLE_FIELDS = {
+  landingPage: ['headline', 'subheadline', 'ctaPrimary', 'ctaSecondary', 'benefits.*.title', 'benefits.*.description', 'socialProof.*.quote', 'socialProof.*.role'] as FieldPath[],
+  adCreative: ['headline', 'adCopy'] as FieldPath[],
+  emailCampaign: ['subject', 'previewText', 'content'] as FieldPath[]
+};
+
+// Visits every non-empty string at the given paths, in a stable order
+const visitStrings = (node: any, keys: string[], visit: (parent: any, key: string | number) => void) => {
+  if (node == null || typeof node !== 'object') return;
+  const [key, ...rest] = keys;
+  const children: (string | number)[] = key === '*' ? (Array.isArray(node) ? node.map((_, i) => i) : []) : [key];
+  for (const child of children) {
+    if (rest.length) visitStrings(node[child], rest, visit);
+    else if (typeof node[child] === 'string' && node[child].trim()) visit(node, child);
+  }
+};
+
+export const extractSegments = (value: unknown, paths: FieldPath[]): string[] => {
+  const segments: string[] = [];
+  paths.forEach(path => visitStrings(value, path.split('.'), (parent, key) => segments.push(parent[key])));
+  return segments;
+};
+
+export const applySegments = <T>(value: T, paths: FieldPath[], segments: string[]): T => {
+  const copy: T = JSON.parse(JSON.stringify(value)); // Assets are plain JSON
+  let index = 0;
+  paths.forEach(path => visitStrings(copy, path.split('.'), (parent, key) => { parent[key] = segments[index++] ?? parent[key]; }));
+  return copy;
+};
+
+// Groups segments into batches that fit one prompt
+export const batchSegments = (segments: string[], maxChars: number): string[][] => {
+  const batches: string[][] = [];
+  let size = 0;
+  for (const segment of segments) {
+    if (!batches.length || size + segment.length > maxChars) {
+      batches.push([]);
+      size = 0;
+    }
+    batches[batches.length - 1].push(segment);
+    size += segment.length;
+  }
+  return batches;
+};
@@ -0,0 +1,40 @@
+import { GenerationVariant, VariantHistory } from '../types';
+import { generateId } from './core';
+
+/**
+ * METI GENERATION HISTORY
+ * Regenerating an asset records a new variant instead of discarding the previous result.
+ * The asset's main ProjectData field always holds the current variant's value.
+ */
+
+export const MAX_VARIANTS = 10; // Per asset; the oldest variants are dropped first
+
+const promptVersionOf = (value: unknown): string | undefined => {
+  const source = Array.isArray(value) ? value[0] : value;
+  return (source as { promptVersion?: string } | null)?.promptVersion;
+};
+
+/**
+ * Adds a freshly generated value and makes it current. Projects that predate history get their
+ * existing value recorded first, so the first regenerate is never destructive.
+ */
+export const recordVariant = <T>(history: VariantHistory<T> | undefined, value: T, inputs: Record<string, string> = {}, previous?: T | null): VariantHistory<T> => {
+  let variants = history?.variants || [];
+  if (variants.length === 0 && previous) {
+    variants = [{ id: generateId(), createdAt: Date.now() - 1, inputs: { note: 'Before history was kept' }, promptVersion: promptVersionOf(previous), value: previous }];
+  }
+  const variant: GenerationVariant<T> = { id: generateId(), createdAt: Date.now(), inputs, promptVersion: promptVersionOf(value), value };
+  const kept = variants.slice(0, MAX_VARIANTS - 1);
+  return { currentId: variant.id, variants: [variant, ...kept] };
+};
+
+// Keeps manual edits to the current asset in its variant, so switching away and back is lossless
+export const syncCurrentVariant = <T>(history: VariantHistory<T> | undefined, value: T): VariantHistory<T> | undefined => {
+  if (!history?.currentId) return history;
+  return { ...history, variants: history.variants.map(v => v.id === history.currentId ? { ...v, value } : v) };
+};
+
+export const promoteVariant = <T>(history: VariantHistory<T>, id: string): { history: VariantHistory<T>; value: T } | null => {
+  const variant = history.variants.find(v => v.id === id);
+  return variant ? { history: { ...history, currentId: id }, value: variant.value } : null;
+};
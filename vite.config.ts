@@ -12,6 +12,7 @@ export default defineConfig({
         target: 'http://localhost:3000',
         changeOrigin: true,
         secure: false,
+        ws: true, // Live voice relay (/api/live)
       },
     },
   },